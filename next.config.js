@@ -1,6 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  /* config options here */
+  experimental: {
+    // Runs src/instrumentation.ts on server start, which launches the background poller
+    instrumentationHook: true,
+    // Load `ws` from node_modules at runtime; bundling it breaks its optional native add-on detection
+    serverComponentsExternalPackages: ["ws"],
+  },
 };
 
 module.exports = nextConfig; 
\ No newline at end of file
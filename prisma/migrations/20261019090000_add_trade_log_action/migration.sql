@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TradeLog" ADD COLUMN     "action" TEXT NOT NULL DEFAULT 'open';
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "TradeFill" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tid" TEXT NOT NULL,
+    "hyperliquidOrderId" TEXT NOT NULL,
+    "coin" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "size" DOUBLE PRECISION NOT NULL,
+    "fee" DOUBLE PRECISION NOT NULL,
+    "feeToken" TEXT NOT NULL,
+    "closedPnl" DOUBLE PRECISION NOT NULL,
+    "startPosition" DOUBLE PRECISION NOT NULL,
+    "crossed" BOOLEAN NOT NULL,
+    "hash" TEXT NOT NULL,
+    "cloid" TEXT,
+    "time" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TradeFill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeFill_tid_key" ON "TradeFill"("tid");
+
+-- CreateIndex
+CREATE INDEX "TradeFill_hyperliquidOrderId_idx" ON "TradeFill"("hyperliquidOrderId");
+
+-- CreateIndex
+CREATE INDEX "TradeFill_time_idx" ON "TradeFill"("time");
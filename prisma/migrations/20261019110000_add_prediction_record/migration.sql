@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "PredictionRecord" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "topicId" INTEGER NOT NULL,
+    "token" TEXT NOT NULL DEFAULT 'BTC',
+    "timeframe" TEXT NOT NULL,
+    "predictionTimestamp" TIMESTAMP(3) NOT NULL,
+    "targetTime" TIMESTAMP(3) NOT NULL,
+    "predictedPrice" DOUBLE PRECISION NOT NULL,
+    "priceAtPrediction" DOUBLE PRECISION,
+    "confidenceIntervalValues" DOUBLE PRECISION[],
+    "confidenceIntervalPercentiles" TEXT[],
+    "actualPrice" DOUBLE PRECISION,
+    "scoredAt" TIMESTAMP(3),
+    "directionHit" BOOLEAN,
+    "absoluteError" DOUBLE PRECISION,
+    "withinConfidenceInterval" BOOLEAN,
+
+    CONSTRAINT "PredictionRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PredictionRecord_topicId_predictionTimestamp_key" ON "PredictionRecord"("topicId", "predictionTimestamp");
+
+-- CreateIndex
+CREATE INDEX "PredictionRecord_timeframe_scoredAt_idx" ON "PredictionRecord"("timeframe", "scoredAt");
+
+-- CreateIndex
+CREATE INDEX "PredictionRecord_targetTime_idx" ON "PredictionRecord"("targetTime");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PriceCandle" (
+    "id" TEXT NOT NULL,
+    "coin" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "openTime" TIMESTAMP(3) NOT NULL,
+    "open" DOUBLE PRECISION NOT NULL,
+    "high" DOUBLE PRECISION NOT NULL,
+    "low" DOUBLE PRECISION NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "volume" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "PriceCandle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceCandle_coin_interval_openTime_key" ON "PriceCandle"("coin", "interval", "openTime");
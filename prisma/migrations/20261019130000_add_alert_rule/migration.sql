@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "AlertRule" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "assetName" TEXT,
+    "timeframe" TEXT,
+    "thresholdType" TEXT NOT NULL DEFAULT 'percent',
+    "thresholdValue" DOUBLE PRECISION NOT NULL,
+    "maxPredictionAgeMinutes" INTEGER,
+    "compareTo" TEXT NOT NULL DEFAULT 'entry',
+
+    CONSTRAINT "AlertRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AlertRule_name_key" ON "AlertRule"("name");
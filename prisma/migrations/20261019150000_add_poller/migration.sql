@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "PollerConfig" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "predictionIntervalMs" INTEGER NOT NULL,
+    "accountIntervalMs" INTEGER NOT NULL,
+
+    CONSTRAINT "PollerConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AccountSnapshot" (
+    "id" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "accountValue" DOUBLE PRECISION NOT NULL,
+    "totalMarginUsed" DOUBLE PRECISION NOT NULL,
+    "totalNtlPos" DOUBLE PRECISION NOT NULL,
+    "withdrawable" DOUBLE PRECISION NOT NULL,
+    "unrealizedPnl" DOUBLE PRECISION NOT NULL,
+    "positionCount" INTEGER NOT NULL,
+
+    CONSTRAINT "AccountSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountSnapshot_timestamp_idx" ON "AccountSnapshot"("timestamp");
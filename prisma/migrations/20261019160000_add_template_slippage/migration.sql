@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TradeTemplate" ADD COLUMN     "slippageBps" INTEGER;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TradeTemplate" ADD COLUMN     "marginMode" TEXT NOT NULL DEFAULT 'cross';
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "TradeLog" ADD COLUMN     "confidenceIntervalPercentiles" TEXT[],
+ADD COLUMN     "confidenceIntervalValues" DOUBLE PRECISION[],
+ADD COLUMN     "leverage" DOUBLE PRECISION,
+ADD COLUMN     "predictedPrice" DOUBLE PRECISION,
+ADD COLUMN     "predictionTimeframe" TEXT,
+ADD COLUMN     "predictionTimestamp" TIMESTAMP(3),
+ADD COLUMN     "predictionTopicId" INTEGER,
+ADD COLUMN     "slippageBps" INTEGER,
+ADD COLUMN     "stagingMarkPrice" DOUBLE PRECISION,
+ADD COLUMN     "templateId" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TradeLog" ADD COLUMN     "cloid" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeLog_cloid_key" ON "TradeLog"("cloid");
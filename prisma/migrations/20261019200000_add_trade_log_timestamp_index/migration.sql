@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "TradeLog_timestamp_idx" ON "TradeLog"("timestamp");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "TradeJournalEntry" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "tradeLogId" TEXT NOT NULL,
+    "notes" TEXT NOT NULL DEFAULT '',
+    "tags" TEXT[],
+    "confidence" INTEGER,
+    "links" TEXT[],
+
+    CONSTRAINT "TradeJournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeJournalEntry_tradeLogId_key" ON "TradeJournalEntry"("tradeLogId");
+
+-- AddForeignKey
+ALTER TABLE "TradeJournalEntry" ADD CONSTRAINT "TradeJournalEntry_tradeLogId_fkey" FOREIGN KEY ("tradeLogId") REFERENCES "TradeLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,336 @@
+/**
+ * @description Server Actions for managing contradiction alert rules and evaluating them.
+ * Rules are stored in the AlertRule model. Evaluation runs server-side against the open Hyperliquid
+ * positions and the latest stored Allora predictions per token and timeframe.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState, AlertRule, AlertRuleInput and PositionAlert types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @prisma/client: Specifically for handling Prisma-related errors like unique constraint violations.
+ * - @/lib/alert-rules: Pure rule validation and evaluation.
+ * - @/lib/asset-registry: Resolves rule asset names to the coin names listed on Hyperliquid.
+ * - @/lib/constants: Provides the default rule and the near-liquidation threshold.
+ * - @/lib/notifier: Delivers triggered alerts to the configured notification channels.
+ * - ./hyperliquid-positions-helper: For fetching open positions.
+ *
+ * @notes
+ * - When no rules exist, `DEFAULT_ALERT_RULE` (latest 8h prediction, 1% against entry) is evaluated,
+ *   matching the dashboard's original behaviour.
+ * - Rule asset names are stored with the registry's casing (e.g. "kPEPE"), since positions are matched by exact coin name.
+ * - Predictions are read from the PredictionRecord table, which is filled whenever predictions are fetched.
+ * - Each evaluation also dispatches 'contradiction' and 'nearLiquidation' notification events. Repeats are
+ *   suppressed by each channel's throttle window.
+ */
+"use server";
+
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+import type {
+  ActionState,
+  AlertPositionSnapshot,
+  AlertRule,
+  AlertRuleInput,
+  NotificationEvent,
+  PositionAlert,
+} from "@/types";
+import prisma from "@/lib/prisma";
+import { evaluateAlertRules, getAlertRuleError, getLiquidationDistancePercent } from "@/lib/alert-rules";
+import { getPerpAssetByName } from "@/lib/asset-registry";
+import { DEFAULT_ALERT_RULE, NEAR_LIQUIDATION_THRESHOLD_PERCENT } from "@/lib/constants";
+import { formatCurrency, formatNumber } from "@/lib/formatting";
+import { dispatchNotifications } from "@/lib/notifier";
+import { fetchAndMapPositions } from "./hyperliquid-positions-helper";
+
+/**
+ * Normalizes optional rule fields: blank asset/timeframe filters mean "any".
+ * The asset filter is resolved through the asset registry, so it is stored with the listed coin name's casing.
+ *
+ * @throws {Error} If the asset is not listed on Hyperliquid.
+ */
+async function normalizeRuleInput<T extends Partial<AlertRuleInput>>(data: T): Promise<T> {
+  const normalized = { ...data };
+  if (normalized.name !== undefined) normalized.name = normalized.name.trim();
+  if (normalized.assetName !== undefined) {
+    const assetName = normalized.assetName?.trim().replace(/-PERP$/i, "") || null;
+    const asset = assetName ? await getPerpAssetByName(assetName) : null;
+    if (assetName && !asset) {
+      throw new Error(`Unknown asset "${assetName}". It is not listed in the Hyperliquid perp universe.`);
+    }
+    normalized.assetName = asset?.name ?? null;
+  }
+  if (normalized.timeframe !== undefined) normalized.timeframe = normalized.timeframe?.trim() || null;
+  return normalized;
+}
+
+/**
+ * Maps a Prisma or validation error from a rule write into a user-facing message.
+ */
+function mapRuleWriteError(
+  error: unknown,
+  verb: "create" | "update" | "delete",
+  id?: string,
+): { isSuccess: false; message: string; error: string } {
+  let errorMessage = "An unknown error occurred";
+  let userMessage = `Failed to ${verb} alert rule.`;
+
+  if (error instanceof PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      userMessage = `Failed to ${verb} alert rule: A rule with this name already exists. Please choose a unique name.`;
+      errorMessage = `Unique constraint violation on field: ${error.meta?.target}`;
+    } else if (error.code === "P2025") {
+      userMessage = `Failed to ${verb} alert rule: Rule not found.`;
+      errorMessage = `Record not found (ID: ${id})`;
+    } else {
+      errorMessage = `Prisma error (${error.code}): ${error.message}`;
+    }
+  } else if (error instanceof Error) {
+    errorMessage = error.message;
+    userMessage = `Failed to ${verb} alert rule: ${errorMessage}`;
+  }
+
+  return {
+    isSuccess: false,
+    message: userMessage,
+    error: errorMessage,
+  };
+}
+
+/**
+ * Fetches all alert rules from the database.
+ *
+ * @returns {Promise<ActionState<AlertRule[]>>} An ActionState object containing an array of rules on success, or an error message on failure.
+ */
+export async function getAlertRulesAction(): Promise<ActionState<AlertRule[]>> {
+  console.log("[AlertRules] Executing getAlertRulesAction");
+  try {
+    const rules = await prisma.alertRule.findMany({
+      orderBy: { name: "asc" },
+    });
+    return {
+      isSuccess: true,
+      message: "Successfully fetched alert rules.",
+      data: rules,
+    };
+  } catch (error: unknown) {
+    console.error("[AlertRules] ❌ Error fetching alert rules:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch alert rules: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Creates a new alert rule.
+ *
+ * @param {AlertRuleInput} data - The rule fields.
+ * @returns {Promise<ActionState<AlertRule>>} An ActionState object containing the created rule on success, or an error message on failure.
+ */
+export async function createAlertRuleAction(
+  data: AlertRuleInput,
+): Promise<ActionState<AlertRule>> {
+  console.log("[AlertRules] Executing createAlertRuleAction with data:", data);
+  try {
+    const ruleData = await normalizeRuleInput(data);
+    const validationError = getAlertRuleError(ruleData);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const rule = await prisma.alertRule.create({ data: ruleData });
+
+    console.log(`[AlertRules] ✅ Created alert rule: ${rule.name}`);
+    return {
+      isSuccess: true,
+      message: `Alert rule "${rule.name}" created successfully.`,
+      data: rule,
+    };
+  } catch (error: unknown) {
+    console.error("[AlertRules] ❌ Error creating alert rule:", error);
+    return mapRuleWriteError(error, "create");
+  }
+}
+
+/**
+ * Updates an existing alert rule.
+ *
+ * @param {string} id - The ID of the rule to update.
+ * @param {Partial<AlertRuleInput>} data - The fields to update.
+ * @returns {Promise<ActionState<AlertRule>>} An ActionState object containing the updated rule on success, or an error message on failure.
+ */
+export async function updateAlertRuleAction(
+  id: string,
+  data: Partial<AlertRuleInput>,
+): Promise<ActionState<AlertRule>> {
+  console.log(`[AlertRules] Executing updateAlertRuleAction for ID: ${id} with data:`, data);
+  try {
+    const ruleData = await normalizeRuleInput(data);
+    const validationError = getAlertRuleError(ruleData);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const rule = await prisma.alertRule.update({
+      where: { id },
+      data: ruleData,
+    });
+
+    console.log(`[AlertRules] ✅ Updated alert rule: ${rule.name}`);
+    return {
+      isSuccess: true,
+      message: `Alert rule "${rule.name}" updated successfully.`,
+      data: rule,
+    };
+  } catch (error: unknown) {
+    console.error(`[AlertRules] ❌ Error updating alert rule ID ${id}:`, error);
+    return mapRuleWriteError(error, "update", id);
+  }
+}
+
+/**
+ * Deletes an alert rule.
+ *
+ * @param {string} id - The ID of the rule to delete.
+ * @returns {Promise<ActionState<{ id: string }>>} An ActionState object containing the deleted rule's ID on success, or an error message on failure.
+ */
+export async function deleteAlertRuleAction(
+  id: string,
+): Promise<ActionState<{ id: string }>> {
+  console.log(`[AlertRules] Executing deleteAlertRuleAction for ID: ${id}`);
+  try {
+    const rule = await prisma.alertRule.delete({
+      where: { id },
+      select: { id: true, name: true },
+    });
+
+    console.log(`[AlertRules] ✅ Deleted alert rule: ${rule.name} (ID: ${id})`);
+    return {
+      isSuccess: true,
+      message: `Alert rule "${rule.name}" deleted successfully.`,
+      data: { id },
+    };
+  } catch (error: unknown) {
+    console.error(`[AlertRules] ❌ Error deleting alert rule ID ${id}:`, error);
+    return mapRuleWriteError(error, "delete", id);
+  }
+}
+
+/**
+ * Builds 'nearLiquidation' notification events for positions whose mark price is within
+ * `NEAR_LIQUIDATION_THRESHOLD_PERCENT` of their liquidation price.
+ */
+function buildNearLiquidationEvents(positions: AlertPositionSnapshot[]): NotificationEvent[] {
+  const events: NotificationEvent[] = [];
+  for (const position of positions) {
+    const distancePercent = getLiquidationDistancePercent(position);
+    if (distancePercent === null || distancePercent > NEAR_LIQUIDATION_THRESHOLD_PERCENT) continue;
+    events.push({
+      type: "nearLiquidation",
+      key: `nearLiquidation:${position.assetName}`,
+      title: `Near liquidation: ${position.assetName}`,
+      message:
+        `${position.assetName} ${position.isLong ? "long" : "short"} mark price ${formatCurrency(position.markPrice)} is ` +
+        `${formatNumber(distancePercent, 2)}% from its liquidation price ${formatCurrency(position.liquidationPrice)}.`,
+      data: { ...position, distancePercent },
+    });
+  }
+  return events;
+}
+
+/**
+ * Evaluates the alert rules against the open positions and the latest stored predictions.
+ *
+ * @returns {Promise<ActionState<PositionAlert[]>>} An ActionState object containing the triggered alerts (possibly empty), or an error message on failure.
+ */
+export async function evaluateAlertRulesAction(): Promise<ActionState<PositionAlert[]>> {
+  console.log("[AlertRules] Executing evaluateAlertRulesAction");
+  try {
+    const storedRules = await prisma.alertRule.findMany();
+    const rules = storedRules.length > 0 ? storedRules : [DEFAULT_ALERT_RULE];
+
+    const positionsResult = await fetchAndMapPositions();
+    if (!positionsResult.isSuccess) {
+      return {
+        isSuccess: false,
+        message: `Failed to evaluate alert rules: ${positionsResult.message}`,
+        error: positionsResult.error,
+      };
+    }
+
+    const positions = positionsResult.data
+      .map((p): AlertPositionSnapshot | null => {
+        const size = parseFloat(p.position?.szi || "0");
+        const entryPrice = parseFloat(p.position?.entryPx || "0");
+        const positionValue = parseFloat(p.position?.positionValue || "0");
+        const liquidationPrice = parseFloat(p.position?.liquidationPx || "");
+        if (!p.position?.coin || !size || !(entryPrice > 0)) return null;
+        return {
+          assetName: p.position.coin,
+          isLong: size > 0,
+          entryPrice,
+          // positionValue is |size| * mark price
+          markPrice: positionValue > 0 ? positionValue / Math.abs(size) : null,
+          liquidationPrice: liquidationPrice > 0 ? liquidationPrice : null,
+        };
+      })
+      .filter((p): p is AlertPositionSnapshot => p !== null);
+
+    if (positions.length === 0) {
+      return {
+        isSuccess: true,
+        message: "No open positions to evaluate.",
+        data: [],
+      };
+    }
+
+    // Latest stored prediction per token and timeframe
+    const predictions = await prisma.predictionRecord.findMany({
+      where: { token: { in: Array.from(new Set(positions.map((p) => p.assetName))) } },
+      distinct: ["token", "timeframe"],
+      orderBy: { predictionTimestamp: "desc" },
+    });
+
+    const alerts = evaluateAlertRules(
+      rules,
+      positions,
+      predictions.map((p) => ({
+        token: p.token,
+        timeframe: p.timeframe,
+        price: p.predictedPrice,
+        timestamp: p.predictionTimestamp.getTime(),
+        confidenceIntervalValues: p.confidenceIntervalValues,
+      })),
+      Date.now(),
+    );
+
+    // Deliver alerts to the notification channels without delaying the response
+    void dispatchNotifications([
+      ...alerts.map((alert): NotificationEvent => ({
+        type: "contradiction",
+        key: `contradiction:${alert.assetName}:${alert.ruleId || "default"}:${alert.timeframe}`,
+        title: `Contradiction alert: ${alert.assetName}`,
+        message: alert.reason,
+        data: { ...alert },
+      })),
+      ...buildNearLiquidationEvents(positions),
+    ]);
+
+    console.log(`[AlertRules] ✅ Evaluated ${rules.length} rules against ${positions.length} positions: ${alerts.length} alerts`);
+    return {
+      isSuccess: true,
+      message: `${alerts.length} alerts triggered.`,
+      data: alerts,
+    };
+  } catch (error: unknown) {
+    console.error("[AlertRules] ❌ Error evaluating alert rules:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to evaluate alert rules: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
@@ -4,21 +4,29 @@
  * It securely uses the Allora client setup which reads the API key from environment variables server-side.
  *
  * @dependencies
- * - @/types: Provides ActionState and Allora-specific types (AlloraPrediction).
+ * - @/types: Provides ActionState and Allora-specific types (AlloraPrediction, AlloraTopicRequest).
  * - @/lib/allora-client: Provides the setupAlloraClient function to get a configured client.
+ * - @/lib/constants: Provides the additional Allora topics to fetch by default.
  * - @alloralabs/allora-sdk: The SDK for interacting with the Allora network, specifically for fetching inferences.
  * - viem: Used for formatting large number strings with assumed decimals (formatUnits).
+ * - ./prediction-history-actions: Persists every successfully fetched prediction for accuracy scoring.
+ *
+ * @notes
+ * - Tokens and timeframes covered by the SDK's price inference endpoint are fetched with `getPriceInference`.
+ *   Any other topic is fetched by ID with `getInferenceByTopicID`.
  */
 "use server";
 
-import type { ActionState, AlloraPrediction } from "@/types";
+import type { ActionState, AlloraPrediction, AlloraTopicRequest } from "@/types";
 import { setupAlloraClient } from "@/lib/allora-client";
+import { ALLORA_TOPIC_REQUESTS } from "@/lib/constants";
 import {
   PriceInferenceToken,
   PriceInferenceTimeframe,
   type AlloraInference,
 } from "@alloralabs/allora-sdk";
 import { formatUnits } from "viem"; // Import formatUnits for parsing
+import { savePredictionsAction } from "./prediction-history-actions";
 
 // Define the supported timeframes for easy mapping and type safety
 type SupportedTimeframe = "5m" | "8h";
@@ -27,163 +35,220 @@ const timeframeMap: Record<SupportedTimeframe, PriceInferenceTimeframe> = {
   "8h": PriceInferenceTimeframe.EIGHT_HOURS,
 };
 
+// Tokens the SDK's price inference endpoint supports (e.g., BTC, ETH)
+const PRICE_INFERENCE_TOKENS = Object.values(PriceInferenceToken) as string[];
+
 // Define the assumed number of decimals for the price value from Allora API
 // TRYING 6 DECIMALS INSTEAD OF 18, COMMON FOR USD VALUES. CONFIRM WITH ALLORA DOCS/TEAM.
 const ALLORA_PRICE_DECIMALS = 8;
 
 /**
- * Fetches Bitcoin price predictions from the Allora network for the specified timeframes.
+ * A single inference to fetch: which token and timeframe it predicts, and how to request it.
+ */
+interface PredictionSource {
+  token: string;
+  timeframe: string;
+  label: string;
+  fetchInference: () => Promise<AlloraInference>;
+}
+
+/**
+ * Parses a raw Allora inference into the application's prediction format.
+ *
+ * @param {AlloraInference} inferenceResult - The raw inference returned by the SDK.
+ * @param {PredictionSource} source - The token and timeframe the inference was requested for.
+ * @returns {AlloraPrediction} The parsed prediction.
+ * @throws {Error} If the inference data is incomplete or cannot be parsed.
+ */
+function parseInference(inferenceResult: AlloraInference, source: PredictionSource): AlloraPrediction {
+  const { label } = source;
+  console.log(`Raw ${label} inference data:`, inferenceResult);
+
+  // Validate the received data structure before parsing
+  if (
+    !inferenceResult?.inference_data?.network_inference ||
+    !inferenceResult?.inference_data?.topic_id ||
+    inferenceResult?.inference_data?.timestamp == null // Check for null or undefined
+  ) {
+    console.error(
+      `❌ Invalid or incomplete inference data received for ${label}.`,
+      inferenceResult,
+    );
+    throw new Error(`Incomplete inference data received for ${label}.`);
+  }
+
+  // --- PRICE PARSING LOGIC ---
+  let parsedPrice: number;
+  const priceString = inferenceResult.inference_data.network_inference;
+  console.log(`Raw network_inference string for ${label}:`, priceString); // Log raw string
+  try {
+    // Assume network_inference is a large integer string with fixed decimals
+    // Convert the large integer string to a standard decimal string representation
+    const formattedPriceString = formatUnits(
+      BigInt(priceString), // Convert string to BigInt first
+      ALLORA_PRICE_DECIMALS, // Assumed number of decimals (NOW 6)
+    );
+    console.log(`Formatted price string (after formatUnits with ${ALLORA_PRICE_DECIMALS} decimals) for ${label}:`, formattedPriceString); // Log formatted string
+    // Parse the formatted string into a number
+    parsedPrice = parseFloat(formattedPriceString);
+    console.log(`Final parsed price number for ${label}:`, parsedPrice); // Log final number
+    if (isNaN(parsedPrice)) {
+      throw new Error("Formatted price string resulted in NaN.");
+    }
+  } catch (parseError) {
+    console.error(
+      `❌ Failed to parse network_inference "${priceString}" for ${label} assuming ${ALLORA_PRICE_DECIMALS} decimals:`,
+      parseError,
+    );
+    throw new Error(`Failed to parse price data for ${label}.`);
+  }
+  // --- END PRICE PARSING LOGIC ---
+
+  // Parse the rest of the raw inference data into our application's standard format
+  const parsedPrediction: AlloraPrediction = {
+    topicId: parseInt(inferenceResult.inference_data.topic_id, 10),
+    token: source.token, // Add the predicted token for grouping and position matching
+    price: parsedPrice, // Use the correctly parsed price
+    timestamp: inferenceResult.inference_data.timestamp * 1000, // Convert seconds to milliseconds
+    timeframe: source.timeframe, // Add the requested timeframe string for UI use
+    // Optional: Include confidence interval data if available and needed by the UI
+    confidenceIntervalValues:
+      inferenceResult.inference_data.confidence_interval_values?.map(
+        (v) => parseFloat(v), // Parse confidence values string to number
+      ),
+    confidenceIntervalPercentiles:
+      inferenceResult.inference_data.confidence_interval_percentiles,
+  };
+
+  // Validate parsed numbers (excluding price which was validated during its parsing)
+  if (
+    isNaN(parsedPrediction.topicId) ||
+    isNaN(parsedPrediction.timestamp)
+  ) {
+    console.error(
+      `❌ Failed to parse numeric values (topicId/timestamp) from inference data for ${label}.`,
+      inferenceResult.inference_data,
+    );
+    throw new Error(`Failed to parse numeric data for ${label}.`);
+  }
+  if (
+    parsedPrediction.confidenceIntervalValues &&
+    parsedPrediction.confidenceIntervalValues.some(isNaN)
+  ) {
+    console.warn(
+      `⚠️ Failed to parse some confidence interval values for ${label}.`,
+      inferenceResult.inference_data.confidence_interval_values,
+    );
+    // Decide how to handle partially failed parsing: nullify or keep partially parsed? Nullify for safety.
+    parsedPrediction.confidenceIntervalValues = undefined;
+    parsedPrediction.confidenceIntervalPercentiles = undefined;
+  }
+
+  console.log(`Successfully parsed ${label} prediction. Parsed Price: ${parsedPrediction.price}`);
+  return parsedPrediction;
+}
+
+/**
+ * Fetches price predictions from the Allora network.
+ * By default, fetches every token the SDK's price inference endpoint supports (BTC, ETH) for both
+ * timeframes, plus the topics configured in `ALLORA_TOPIC_REQUESTS`.
  * Parses the large integer price string assuming a fixed number of decimals.
  *
- * @param {SupportedTimeframe[]} [timeframes=['5m', '8h']] - An array of timeframes ('5m', '8h') to fetch predictions for. Defaults to ['5m', '8h'].
- * @returns {Promise<ActionState<AlloraPrediction[]>>} An ActionState object containing an array of parsed Allora predictions on success, or an error message on failure.
+ * @param {object} [options] - Which predictions to fetch.
+ * @param {string[]} [options.tokens] - Tokens to fetch via the price inference endpoint. Defaults to all SDK-supported tokens. Unsupported tokens are skipped.
+ * @param {SupportedTimeframe[]} [options.timeframes=['5m', '8h']] - Timeframes to fetch for each token.
+ * @param {AlloraTopicRequest[]} [options.topics] - Additional topics to fetch by ID. Defaults to `ALLORA_TOPIC_REQUESTS`.
+ * @returns {Promise<ActionState<AlloraPrediction[]>>} An ActionState object containing an array of parsed Allora predictions on success,
+ * or an error message if no prediction could be fetched. If only some sources fail, the successful predictions are returned.
  */
 export async function fetchAlloraPredictionsAction(
-  timeframes: SupportedTimeframe[] = ["5m", "8h"],
+  options: {
+    tokens?: string[];
+    timeframes?: SupportedTimeframe[];
+    topics?: AlloraTopicRequest[];
+  } = {},
 ): Promise<ActionState<AlloraPrediction[]>> {
+  const {
+    tokens = PRICE_INFERENCE_TOKENS,
+    timeframes = ["5m", "8h"],
+    topics = ALLORA_TOPIC_REQUESTS,
+  } = options;
   console.log(
-    `Executing fetchAlloraPredictionsAction for timeframes: ${timeframes.join(", ")}`,
+    `Executing fetchAlloraPredictionsAction for tokens: ${tokens.join(", ")}; timeframes: ${timeframes.join(", ")}; extra topics: ${topics.map((t) => t.topicId).join(", ") || "none"}`,
   );
 
   try {
     // Setup the Allora client (handles API key retrieval from env vars)
     const alloraClient = setupAlloraClient();
 
-    // Fetch predictions for each requested timeframe concurrently
-    const predictionPromises = timeframes.map(async (tf) => {
-      const timeframeEnum = timeframeMap[tf];
-      if (!timeframeEnum) {
-        console.warn(`Unsupported timeframe requested: ${tf}`);
-        return null; // Skip unsupported timeframes gracefully
+    // Build the list of inferences to fetch
+    const sources: PredictionSource[] = [];
+    for (const token of tokens) {
+      if (!PRICE_INFERENCE_TOKENS.includes(token)) {
+        console.warn(`Unsupported price inference token requested: ${token}`);
+        continue; // Skip unsupported tokens gracefully
       }
-
-      console.log(`Workspaceing ${tf} BTC prediction from Allora...`);
-      try {
-        // Use the SDK to get the price inference for Bitcoin (BTC)
-        const inferenceResult: AlloraInference =
-          await alloraClient.getPriceInference(
-            PriceInferenceToken.BTC,
-            timeframeEnum,
-          );
-
-        console.log(`Raw ${tf} BTC inference data:`, inferenceResult);
-
-        // Validate the received data structure before parsing
-        if (
-          !inferenceResult?.inference_data?.network_inference ||
-          !inferenceResult?.inference_data?.topic_id ||
-          inferenceResult?.inference_data?.timestamp == null // Check for null or undefined
-        ) {
-          console.error(
-            `❌ Invalid or incomplete inference data received for ${tf} timeframe.`,
-            inferenceResult,
-          );
-          throw new Error(
-            `Incomplete inference data received for ${tf} timeframe.`,
-          );
+      for (const tf of timeframes) {
+        const timeframeEnum = timeframeMap[tf];
+        if (!timeframeEnum) {
+          console.warn(`Unsupported timeframe requested: ${tf}`);
+          continue; // Skip unsupported timeframes gracefully
         }
+        sources.push({
+          token,
+          timeframe: tf,
+          label: `${tf} ${token}`,
+          fetchInference: () => alloraClient.getPriceInference(token as PriceInferenceToken, timeframeEnum),
+        });
+      }
+    }
+    for (const topic of topics) {
+      sources.push({
+        token: topic.token,
+        timeframe: topic.timeframe,
+        label: `${topic.timeframe} ${topic.token} (topic ${topic.topicId})`,
+        fetchInference: () => alloraClient.getInferenceByTopicID(topic.topicId),
+      });
+    }
+
+    if (sources.length === 0) {
+      return {
+        isSuccess: false,
+        message: "No supported Allora tokens, timeframes or topics were requested.",
+        error: "No prediction sources",
+      };
+    }
 
-        // --- PRICE PARSING LOGIC ---
-        let parsedPrice: number;
-        const priceString = inferenceResult.inference_data.network_inference;
-        console.log(`Raw network_inference string for ${tf}:`, priceString); // Log raw string
+    // Fetch all predictions concurrently
+    const results = await Promise.allSettled(
+      sources.map(async (source) => {
+        console.log(`Fetching ${source.label} prediction from Allora...`);
         try {
-          // Assume network_inference is a large integer string with fixed decimals
-          // Convert the large integer string to a standard decimal string representation
-          const formattedPriceString = formatUnits(
-            BigInt(priceString), // Convert string to BigInt first
-            ALLORA_PRICE_DECIMALS, // Assumed number of decimals (NOW 6)
-          );
-          console.log(`Formatted price string (after formatUnits with ${ALLORA_PRICE_DECIMALS} decimals) for ${tf}:`, formattedPriceString); // Log formatted string
-          // Parse the formatted string into a number
-          parsedPrice = parseFloat(formattedPriceString);
-          console.log(`Final parsed price number for ${tf}:`, parsedPrice); // Log final number
-          if (isNaN(parsedPrice)) {
-            throw new Error("Formatted price string resulted in NaN.");
-          }
-        } catch (parseError) {
-          console.error(
-            `❌ Failed to parse network_inference "${priceString}" for ${tf} assuming ${ALLORA_PRICE_DECIMALS} decimals:`,
-            parseError,
-          );
-          throw new Error(`Failed to parse price data for ${tf} timeframe.`);
-        }
-        // --- END PRICE PARSING LOGIC ---
-
-        // Parse the rest of the raw inference data into our application's standard format
-        const parsedPrediction: AlloraPrediction = {
-          topicId: parseInt(inferenceResult.inference_data.topic_id, 10),
-          price: parsedPrice, // Use the correctly parsed price
-          timestamp: inferenceResult.inference_data.timestamp * 1000, // Convert seconds to milliseconds
-          timeframe: tf, // Add the requested timeframe string for UI use
-          // Optional: Include confidence interval data if available and needed by the UI
-          confidenceIntervalValues:
-            inferenceResult.inference_data.confidence_interval_values?.map(
-              (v) => parseFloat(v), // Parse confidence values string to number
-            ),
-          confidenceIntervalPercentiles:
-            inferenceResult.inference_data.confidence_interval_percentiles,
-        };
-
-        // Validate parsed numbers (excluding price which was validated during its parsing)
-        if (
-          isNaN(parsedPrediction.topicId) ||
-          isNaN(parsedPrediction.timestamp)
-        ) {
+          return parseInference(await source.fetchInference(), source);
+        } catch (fetchError) {
           console.error(
-            `❌ Failed to parse numeric values (topicId/timestamp) from inference data for ${tf}.`,
-            inferenceResult.inference_data,
+            `❌ Error fetching/parsing prediction for ${source.label}:`,
+            fetchError,
           );
-          throw new Error(`Failed to parse numeric data for ${tf} timeframe.`);
-        }
-        if (
-          parsedPrediction.confidenceIntervalValues &&
-          parsedPrediction.confidenceIntervalValues.some(isNaN)
-        ) {
-          console.warn(
-            `⚠️ Failed to parse some confidence interval values for ${tf}.`,
-            inferenceResult.inference_data.confidence_interval_values,
+          // Attach source info for better context in the final error message
+          throw new Error(
+            `Failed for ${source.label}: ${fetchError instanceof Error ? fetchError.message : String(fetchError)
+            }`,
           );
-          // Decide how to handle partially failed parsing: nullify or keep partially parsed? Nullify for safety.
-          parsedPrediction.confidenceIntervalValues = undefined;
-          parsedPrediction.confidenceIntervalPercentiles = undefined;
         }
+      }),
+    );
 
-        console.log(`Successfully parsed ${tf} BTC prediction. Parsed Price: ${parsedPrediction.price}`);
-        return parsedPrediction;
-      } catch (fetchError) {
-        console.error(
-          `❌ Error fetching/parsing prediction for timeframe ${tf}:`,
-          fetchError,
-        );
-        // Re-throw to be caught by the outer Promise.all catch block
-        // Attach timeframe info for better context in the final error message
-        throw new Error(
-          `Failed for timeframe ${tf}: ${fetchError instanceof Error ? fetchError.message : String(fetchError)
-          }`,
-        );
-      }
-    });
-
-    // Wait for all prediction fetches to complete
-    const results = await Promise.allSettled(predictionPromises);
-
-    // Process results, filtering out nulls (unsupported timeframes) and gathering successful predictions
+    // Gather successful predictions and errors
     const successfulPredictions: AlloraPrediction[] = [];
     const errors: string[] = [];
 
     results.forEach((result, index) => {
-      const timeframe = timeframes[index];
       if (result.status === "fulfilled") {
-        if (result.value !== null) {
-          // Successfully fetched and parsed prediction
-          successfulPredictions.push(result.value);
-        }
-        // Null values (skipped timeframes) are ignored silently
+        successfulPredictions.push(result.value);
       } else {
-        // An error occurred during fetch/parse for this timeframe
         console.error(
-          `Promise rejected for timeframe ${timeframe}:`,
+          `Promise rejected for ${sources[index].label}:`,
           result.reason,
         );
         // Use the error message attached in the inner catch block if available
@@ -194,9 +259,11 @@ export async function fetchAlloraPredictionsAction(
       }
     });
 
-    // If any fetch failed, return a failure state with combined error messages
-    if (errors.length > 0) {
-      const combinedErrorMessage = `Failed to fetch some Allora predictions: ${errors.join("; ")}`;
+    // If nothing could be fetched, return a failure state with combined error messages
+    if (successfulPredictions.length === 0) {
+      const combinedErrorMessage = errors.length > 0
+        ? `Failed to fetch Allora predictions: ${errors.join("; ")}`
+        : "No valid prediction data could be fetched.";
       console.error("❌ fetchAlloraPredictionsAction failed:", combinedErrorMessage);
       return {
         isSuccess: false,
@@ -205,24 +272,23 @@ export async function fetchAlloraPredictionsAction(
       };
     }
 
-    // If all requested timeframes were processed successfully (or skipped)
-    if (successfulPredictions.length === 0 && timeframes.length > 0) {
-      console.warn(
-        "⚠️ fetchAlloraPredictionsAction completed but yielded no predictions.",
-      );
-      return {
-        isSuccess: false, // Consider this a failure if predictions were expected
-        message: "No valid prediction data could be fetched.",
-        error: "No predictions returned or parsed successfully.",
-      };
+    if (errors.length > 0) {
+      console.warn(`⚠️ Some Allora predictions could not be fetched: ${errors.join("; ")}`);
     }
-
     console.log(
       `✅ Successfully fetched ${successfulPredictions.length} Allora predictions.`,
     );
+
+    // Persist for accuracy scoring. A storage failure must not hide the live predictions.
+    const saveResult = await savePredictionsAction(successfulPredictions);
+    if (!saveResult.isSuccess) {
+      console.warn("⚠️ Failed to persist Allora predictions:", saveResult.message);
+    }
     return {
       isSuccess: true,
-      message: "Successfully fetched Allora predictions.",
+      message: errors.length > 0
+        ? `Fetched ${successfulPredictions.length} Allora predictions; ${errors.length} failed.`
+        : "Successfully fetched Allora predictions.",
       data: successfulPredictions,
     };
   } catch (error: unknown) {
@@ -237,4 +303,4 @@ export async function fetchAlloraPredictionsAction(
       error: errorMessage,
     };
   }
-}
\ No newline at end of file
+}
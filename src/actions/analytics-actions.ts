@@ -0,0 +1,85 @@
+/**
+ * @description Server Actions for the trading performance analytics page.
+ * Loads the imported Hyperliquid fills and the Trade Log entries used to attribute them, and aggregates them
+ * into win rate, profit factor, PnL series, drawdown and fee totals.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState and TradingPerformance types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @/lib/trade-analytics: Calculates the performance figures.
+ *
+ * @notes
+ * - Analytics only cover imported fills; import fills first (see `importUserFillsAction`) to include recent trades.
+ * - Trade Log entries are loaded from before the lookback window too, so positions opened earlier are still attributed
+ *   to their prediction timeframe and journal tags.
+ */
+"use server";
+
+import type { ActionState, TradingPerformance } from "@/types";
+import prisma from "@/lib/prisma";
+import { calculateTradingPerformance } from "@/lib/trade-analytics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculates trading performance from the stored fills.
+ *
+ * @param {number | null} [lookbackDays=null] - Only fills from the last N days are included. Null includes every fill.
+ * @param {string | null} [tag=null] - Only trades and orders with this journal tag are included. Null includes every trade.
+ * @returns {Promise<ActionState<TradingPerformance>>} An ActionState object containing the performance figures, or an error message on failure.
+ */
+export async function fetchTradingPerformanceAction(
+  lookbackDays: number | null = null,
+  tag: string | null = null,
+): Promise<ActionState<TradingPerformance>> {
+  console.log(`[Analytics] Executing fetchTradingPerformanceAction (lookback ${lookbackDays ?? "all"} days, tag ${tag ?? "any"})`);
+  try {
+    if (lookbackDays !== null && (typeof lookbackDays !== "number" || lookbackDays <= 0 || !Number.isFinite(lookbackDays))) {
+      return {
+        isSuccess: false,
+        message: `Invalid lookback period: ${lookbackDays}. Expected a positive number of days.`,
+        error: "Invalid lookback period",
+      };
+    }
+    const journalTag = tag?.trim().toLowerCase() || null;
+    const since = lookbackDays !== null ? new Date(Date.now() - lookbackDays * DAY_MS) : null;
+
+    const [fills, tradeLogs] = await Promise.all([
+      prisma.tradeFill.findMany({
+        where: since ? { time: { gte: since } } : undefined,
+        orderBy: { time: "asc" },
+      }),
+      // Closes need their own entry, opens need a prediction to attribute
+      prisma.tradeLog.findMany({
+        where: {
+          status: "filled",
+          OR: [{ hyperliquidOrderId: { not: null } }, { predictionTimeframe: { not: null } }],
+        },
+        orderBy: { timestamp: "desc" },
+        include: { journal: true },
+      }),
+    ]);
+
+    const performance = calculateTradingPerformance(fills, tradeLogs, journalTag);
+    console.log(
+      `[Analytics] ✅ Analyzed ${fills.length} fills into ${performance.tradeCount} closed trades (net PnL ${performance.netPnl.toFixed(2)})`,
+    );
+
+    return {
+      isSuccess: true,
+      message: fills.length > 0
+        ? "Successfully calculated trading performance."
+        : "No fills imported for this period.",
+      data: performance,
+    };
+  } catch (error: unknown) {
+    console.error("[Analytics] ❌ Error calculating trading performance:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to calculate trading performance: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
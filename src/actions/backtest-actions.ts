@@ -0,0 +1,249 @@
+/**
+ * @description Server Actions for backtesting the prediction-following strategy.
+ * Hyperliquid 1-minute candles are recorded into the PriceCandle model once; backtest runs then
+ * read only the database (stored predictions, recorded candles and a trade template) and replay
+ * them through the pure engine in `lib/backtest`.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState and BacktestResult types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @/lib/hyperliquid-client: Provides the setupClients function for candle downloads.
+ * - @/lib/backtest: The backtesting engine.
+ * - @/lib/asset-registry: The asset's maximum leverage and margin tiers, for liquidation prices.
+ * - @/lib/prediction-scoring: Prediction horizons per timeframe.
+ *
+ * @notes
+ * - Recording is the only step that needs network access; runs are fully offline and reproducible.
+ *   Margin tiers are read from the (cached) asset registry when it can be loaded; otherwise the template's leverage is
+ *   used as the asset's maximum, without tiers.
+ * - Candles are deduped by coin + interval + open time, so recording an overlapping range is safe.
+ */
+"use server";
+
+import type { ActionState, BacktestResult } from "@/types";
+import prisma from "@/lib/prisma";
+import { setupClients } from "@/lib/hyperliquid-client";
+import { runBacktest } from "@/lib/backtest";
+import { getPerpAssetByName } from "@/lib/asset-registry";
+import { getTimeframeHorizonMs } from "@/lib/prediction-scoring";
+
+// The backtest replays 1-minute candles
+const CANDLE_INTERVAL = "1m";
+const CANDLE_INTERVAL_MS = 60 * 1000;
+// Hyperliquid returns at most 5000 candles per candleSnapshot request
+const CANDLES_PAGE_SIZE = 5000;
+// Safety limit on the number of pages fetched in one recording (~35 days of 1m candles)
+const MAX_CANDLE_PAGES = 10;
+
+/**
+ * Downloads Hyperliquid 1-minute candles for a coin and time range and stores them for backtesting.
+ *
+ * @param {object} params - The recording parameters.
+ * @param {string} params.coin - The asset's coin name (e.g., "BTC").
+ * @param {number} params.startTime - Start of the range (ms since epoch).
+ * @param {number} params.endTime - End of the range (ms since epoch).
+ * @returns {Promise<ActionState<{ fetched: number; saved: number }>>} An ActionState object containing how many candles were fetched and newly stored, or an error message on failure.
+ */
+export async function recordCandlesAction(params: {
+  coin: string;
+  startTime: number;
+  endTime: number;
+}): Promise<ActionState<{ fetched: number; saved: number }>> {
+  const { coin, endTime } = params;
+  console.log(`[Backtest] Recording ${coin} candles from ${new Date(params.startTime).toISOString()} to ${new Date(endTime).toISOString()}`);
+
+  if (!coin || !(params.startTime < endTime)) {
+    return {
+      isSuccess: false,
+      message: "Invalid candle range: start time must be before end time.",
+      error: "Invalid parameters",
+    };
+  }
+
+  try {
+    const { publicClient } = setupClients();
+    let startTime = params.startTime;
+    let fetched = 0;
+    let saved = 0;
+
+    for (let page = 0; page < MAX_CANDLE_PAGES && startTime < endTime; page++) {
+      const candles = await publicClient.candleSnapshot({
+        coin,
+        interval: CANDLE_INTERVAL,
+        startTime,
+        endTime,
+      });
+      if (candles.length === 0) break;
+
+      fetched += candles.length;
+      const { count } = await prisma.priceCandle.createMany({
+        data: candles.map((candle) => ({
+          coin,
+          interval: CANDLE_INTERVAL,
+          openTime: new Date(candle.t),
+          open: parseFloat(candle.o),
+          high: parseFloat(candle.h),
+          low: parseFloat(candle.l),
+          close: parseFloat(candle.c),
+          volume: parseFloat(candle.v),
+        })),
+        skipDuplicates: true,
+      });
+      saved += count;
+
+      if (candles.length < CANDLES_PAGE_SIZE) break;
+      startTime = Math.max(...candles.map((c) => c.t)) + CANDLE_INTERVAL_MS;
+    }
+
+    console.log(`[Backtest] ✅ Recorded ${saved} new ${coin} candles (${fetched} fetched)`);
+    return {
+      isSuccess: true,
+      message: `Recorded ${saved} new candles (${fetched} fetched).`,
+      data: { fetched, saved },
+    };
+  } catch (error: unknown) {
+    console.error("[Backtest] ❌ Error recording candles:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to record candles: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Runs a backtest over stored predictions and recorded candles. Does not access the network.
+ *
+ * @param {object} params - The backtest parameters.
+ * @param {string} params.token - The predicted asset's coin name (e.g., "BTC").
+ * @param {string} params.timeframe - The prediction timeframe to replay (e.g., '5m', '8h').
+ * @param {string} params.templateId - ID of the TradeTemplate providing size and leverage.
+ * @param {number} params.startTime - Only predictions made at or after this time are replayed (ms since epoch).
+ * @param {number} params.endTime - Only predictions made at or before this time are replayed (ms since epoch).
+ * @param {number} params.initialEquity - Starting equity in USD.
+ * @param {number} params.feeRate - Fee rate per fill (e.g., 0.00045).
+ * @param {number} params.slippageBps - Slippage per fill in basis points.
+ * @param {number} params.minEdgePercent - Minimum predicted move, in percent, required to enter.
+ * @returns {Promise<ActionState<BacktestResult>>} An ActionState object containing the backtest result, or an error message on failure.
+ */
+export async function runBacktestAction(params: {
+  token: string;
+  timeframe: string;
+  templateId: string;
+  startTime: number;
+  endTime: number;
+  initialEquity: number;
+  feeRate: number;
+  slippageBps: number;
+  minEdgePercent: number;
+}): Promise<ActionState<BacktestResult>> {
+  const { token, timeframe, templateId, startTime, endTime } = params;
+  console.log(`[Backtest] Running ${token} ${timeframe} backtest with template ${templateId}`);
+
+  const horizon = getTimeframeHorizonMs(timeframe);
+  if (horizon === null) {
+    return {
+      isSuccess: false,
+      message: `Unsupported timeframe: ${timeframe}`,
+      error: "Invalid parameters",
+    };
+  }
+  if (!(startTime < endTime) || !(params.initialEquity > 0) || params.feeRate < 0 || params.slippageBps < 0 || params.minEdgePercent < 0) {
+    return {
+      isSuccess: false,
+      message: "Invalid backtest parameters: check the date range, equity, fee, slippage and edge values.",
+      error: "Invalid parameters",
+    };
+  }
+
+  try {
+    const template = await prisma.tradeTemplate.findUnique({ where: { id: templateId } });
+    if (!template) {
+      return {
+        isSuccess: false,
+        message: "Trade template not found.",
+        error: "Template not found",
+      };
+    }
+
+    const predictions = await prisma.predictionRecord.findMany({
+      where: {
+        token,
+        timeframe,
+        predictionTimestamp: { gte: new Date(startTime), lte: new Date(endTime) },
+      },
+      orderBy: { predictionTimestamp: "asc" },
+    });
+    if (predictions.length === 0) {
+      return {
+        isSuccess: false,
+        message: `No stored ${token} ${timeframe} predictions in the selected range.`,
+        error: "No predictions",
+      };
+    }
+
+    const candles = await prisma.priceCandle.findMany({
+      where: {
+        coin: token,
+        interval: CANDLE_INTERVAL,
+        openTime: { gte: new Date(startTime - CANDLE_INTERVAL_MS), lte: new Date(endTime + horizon) },
+      },
+      orderBy: { openTime: "asc" },
+    });
+    if (candles.length === 0) {
+      return {
+        isSuccess: false,
+        message: `No recorded ${token} candles in the selected range. Record candles first.`,
+        error: "No candles",
+      };
+    }
+
+    const asset = await getPerpAssetByName(token).catch((error: unknown) => {
+      console.error(`[Backtest] ❌ Could not load ${token} margin tiers, using the template leverage instead:`, error);
+      return null;
+    });
+
+    const result = runBacktest(
+      predictions.map((p) => ({
+        timestamp: p.predictionTimestamp.getTime(),
+        targetTime: p.targetTime.getTime(),
+        predictedPrice: p.predictedPrice,
+      })),
+      candles.map((c) => ({
+        time: c.openTime.getTime(),
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+      })),
+      {
+        size: template.size,
+        leverage: template.leverage,
+        initialEquity: params.initialEquity,
+        feeRate: params.feeRate,
+        slippageBps: params.slippageBps,
+        minEdgePercent: params.minEdgePercent,
+        maxLeverage: asset?.maxLeverage ?? template.leverage,
+        marginTiers: asset?.marginTiers ?? [],
+      },
+    );
+
+    console.log(`[Backtest] ✅ Backtest complete: ${result.trades.length} trades, ${result.skippedPredictions} predictions skipped`);
+    return {
+      isSuccess: true,
+      message: `Backtest complete: ${result.trades.length} trades.`,
+      data: result,
+    };
+  } catch (error: unknown) {
+    console.error("[Backtest] ❌ Error running backtest:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to run backtest: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
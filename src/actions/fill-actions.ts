@@ -0,0 +1,191 @@
+/**
+ * @description Server Actions for importing Hyperliquid fills and reporting realized PnL.
+ * Fills are pulled from Hyperliquid's user fills endpoint, stored in the TradeFill model,
+ * and aggregated per order alongside the matching TradeLog entries.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState, TradeFill, TradePnlSummary and FillImportResult types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @/lib/hyperliquid-client: Provides the setupClients function to get configured clients.
+ * - @/lib/pnl-calcs: Aggregates fills into per-trade PnL summaries.
+ *
+ * @notes
+ * - Imports are incremental: only fills newer than the latest stored fill are requested.
+ * - Fills are deduped by Hyperliquid's trade ID (`tid`), so re-importing is safe.
+ * - Fills are linked to TradeLog entries by `hyperliquidOrderId`; orders placed outside the app have no log entry.
+ */
+"use server";
+
+import type { ActionState, FillImportResult, TradeLogEntry, TradePnlSummary } from "@/types";
+import prisma from "@/lib/prisma";
+import { setupClients } from "@/lib/hyperliquid-client";
+import { summarizeFillsByOrder } from "@/lib/pnl-calcs";
+
+// How far back the first import reaches when no fills have been stored yet (30 days)
+const INITIAL_IMPORT_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+// Hyperliquid returns at most 2000 fills per userFillsByTime request
+const FILLS_PAGE_SIZE = 2000;
+// Safety limit on the number of pages fetched in one import
+const MAX_FILL_PAGES = 10;
+
+/**
+ * Imports the configured wallet's fills from Hyperliquid into the database.
+ * Only fills newer than the latest stored fill are requested; duplicates are skipped.
+ *
+ * @returns {Promise<ActionState<FillImportResult>>} An ActionState object containing how many fills were fetched and newly stored, or an error message on failure.
+ */
+export async function importUserFillsAction(): Promise<ActionState<FillImportResult>> {
+  console.log("[Fills] Executing importUserFillsAction");
+  try {
+    const { publicClient, config } = setupClients();
+
+    if (!config.account) {
+      console.error("[Fills] Hyperliquid wallet account not configured.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid.",
+        error: "Wallet account setup failed.",
+      };
+    }
+
+    const latestFill = await prisma.tradeFill.findFirst({
+      orderBy: { time: "desc" },
+      select: { time: true },
+    });
+    let startTime = latestFill
+      ? latestFill.time.getTime()
+      : Date.now() - INITIAL_IMPORT_LOOKBACK_MS;
+    console.log(`[Fills] Importing fills since ${new Date(startTime).toISOString()}`);
+
+    let fetched = 0;
+    let imported = 0;
+    for (let page = 0; page < MAX_FILL_PAGES; page++) {
+      const fills = await publicClient.userFillsByTime({
+        user: config.account.address,
+        startTime,
+      });
+      fetched += fills.length;
+
+      if (fills.length > 0) {
+        const { count } = await prisma.tradeFill.createMany({
+          data: fills.map((fill) => ({
+            tid: String(fill.tid),
+            hyperliquidOrderId: String(fill.oid),
+            coin: fill.coin,
+            side: fill.side,
+            direction: fill.dir,
+            price: parseFloat(fill.px),
+            size: parseFloat(fill.sz),
+            fee: parseFloat(fill.fee),
+            feeToken: fill.feeToken,
+            closedPnl: parseFloat(fill.closedPnl),
+            startPosition: parseFloat(fill.startPosition),
+            crossed: fill.crossed,
+            hash: fill.hash,
+            cloid: fill.cloid ?? null,
+            time: new Date(fill.time),
+          })),
+          skipDuplicates: true,
+        });
+        imported += count;
+      }
+
+      // A short page means there is nothing more to fetch
+      if (fills.length < FILLS_PAGE_SIZE) break;
+
+      const lastTime = Math.max(...fills.map((fill) => fill.time));
+      if (lastTime <= startTime) break;
+      startTime = lastTime;
+    }
+
+    console.log(`[Fills] ✅ Fetched ${fetched} fills, imported ${imported} new fills`);
+    return {
+      isSuccess: true,
+      message: imported > 0
+        ? `Imported ${imported} new fill${imported === 1 ? "" : "s"} from Hyperliquid.`
+        : "No new fills to import.",
+      data: { fetched, imported },
+    };
+  } catch (error: unknown) {
+    console.error("[Fills] ❌ Error importing fills:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to import fills: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Fetches realized PnL and fees per trade, aggregated from the stored fills.
+ * Each trade is matched to its TradeLog entry by `hyperliquidOrderId` when one exists.
+ *
+ * @param {number} [limit=50] - The maximum number of trades to return. Defaults to 50.
+ * @returns {Promise<ActionState<TradePnlSummary[]>>} An ActionState object containing the per-trade summaries (most recent first), or an error message on failure.
+ */
+export async function fetchTradePnlAction(
+  limit: number = 50,
+): Promise<ActionState<TradePnlSummary[]>> {
+  console.log(`[Fills] Executing fetchTradePnlAction (limit ${limit})`);
+  try {
+    if (typeof limit !== "number" || limit <= 0 || !Number.isInteger(limit)) {
+      console.warn(`[Fills] Invalid limit provided: ${limit}. Using default limit of 50.`);
+      limit = 50;
+    }
+
+    // Pick the most recent orders first, then load all of their fills
+    const recentOrders = await prisma.tradeFill.groupBy({
+      by: ["hyperliquidOrderId"],
+      _max: { time: true },
+      orderBy: { _max: { time: "desc" } },
+      take: limit,
+    });
+    const orderIds = recentOrders.map((order) => order.hyperliquidOrderId);
+
+    if (orderIds.length === 0) {
+      return {
+        isSuccess: true,
+        message: "No fills imported yet.",
+        data: [],
+      };
+    }
+
+    const [fills, tradeLogs] = await Promise.all([
+      prisma.tradeFill.findMany({
+        where: { hyperliquidOrderId: { in: orderIds } },
+      }),
+      prisma.tradeLog.findMany({
+        where: { hyperliquidOrderId: { in: orderIds } },
+        orderBy: { timestamp: "desc" },
+      }),
+    ]);
+
+    // Keep the most recent log entry per order ID
+    const tradeLogsByOrderId = new Map<string, TradeLogEntry>();
+    for (const log of tradeLogs) {
+      if (log.hyperliquidOrderId && !tradeLogsByOrderId.has(log.hyperliquidOrderId)) {
+        tradeLogsByOrderId.set(log.hyperliquidOrderId, log);
+      }
+    }
+
+    const summaries = summarizeFillsByOrder(fills, tradeLogsByOrderId);
+    console.log(`[Fills] Summarized ${fills.length} fills into ${summaries.length} trades`);
+
+    return {
+      isSuccess: true,
+      message: "Successfully fetched realized PnL.",
+      data: summaries,
+    };
+  } catch (error: unknown) {
+    console.error("[Fills] ❌ Error fetching realized PnL:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch realized PnL: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
@@ -1,27 +1,73 @@
 /**
  * @description Server Actions for interacting with the Hyperliquid API.
- * These actions handle fetching account information, positions, asset context (price), and eventually executing trades.
+ * These actions handle fetching account information, positions, open orders, asset context (price), and executing,
+ * cancelling and modifying orders.
  * They securely use the Hyperliquid client setup which reads API keys from environment variables server-side.
  *
  * @dependencies
  * - @/types: Provides ActionState and Hyperliquid-specific types.
  * - @/lib/hyperliquid-client: Provides the setupClients function to get configured clients.
- * - @/lib/constants: Provides constants like BTC_ASSET_INDEX.
+ * - @/lib/asset-registry: Lists the cached perp universe and resolves assets by name.
+ * - @/lib/precision: Formats order prices and sizes per Hyperliquid's precision rules.
+ * - @/lib/trading-calcs: Validates take-profit / stop-loss levels and slippage, and walks the order book.
+ * - @/lib/constants: Provides the default slippage.
+ * - @/lib/pretrade-guards: Pre-trade safety checks run before any new order is sent.
+ * - @/lib/trade-log: Records orders in the Trade Log before submission and updates them with the response.
+ * - @/lib/cloid: Generates and validates client order IDs.
  * - @nktkas/hyperliquid: The Hyperliquid SDK for API interaction and types.
- * - viem: Provides utilities like `parseUnits` for formatting numbers to the required precision.
+ *
+ * @notes
+ * - Any listed perp can be traded. Assets are resolved by name from the cached perp universe (see `@/lib/asset-registry`)
+ *   and prices/sizes are formatted with that asset's own precision rules. Current prices come from `allMids()`.
+ * - Market, limit and bracket orders are refused while any pre-trade check fails (missing or stale price, book mid too far
+ *   from the oracle price, stale prediction, insufficient margin, leverage or notional limits). There is no fallback price:
+ *   without a live mid price nothing is sent.
+ * - Market (IOC) orders are priced at the mid price plus the caller's slippage (`slippageBps`, default `DEFAULT_SLIPPAGE_BPS`).
+ * - Orders set the asset's leverage with the caller's margin mode (`marginMode`: cross by default, isolated for assets
+ *   that only allow isolated margin). Isolated margin of an open position can be adjusted with `updateIsolatedMarginAction`.
+ * - Market, limit, bracket and close orders are logged server-side: a 'pending' Trade Log entry is written before the
+ *   order is sent and updated with the exchange response. Every order carries a client order ID (`cloid`, generated
+ *   if the caller sends none); a cloid that was already recorded is refused, so retrying a request never duplicates a trade.
+ *   The pending entry records the size truncated to `szDecimals` and the mid price (or limit price) of the resolved
+ *   asset; orders rejected before the asset resolves are not logged.
  */
 "use server";
 
 import type {
   ActionState,
   HyperliquidAccountInfo,
-  HyperliquidAssetCtx,
+  HyperliquidAssetPrice,
+  HyperliquidBookLevel,
+  HyperliquidBracketOrderResult,
+  HyperliquidCancelResult,
+  HyperliquidCloseAllEntry,
+  HyperliquidClosePositionResult,
+  HyperliquidExecutionEstimate,
+  HyperliquidFeeRates,
+  HyperliquidIsolatedMarginResult,
+  HyperliquidLimitTif,
+  HyperliquidMarginMode,
+  HyperliquidModifyResult,
+  HyperliquidOpenOrder,
+  HyperliquidOrderBook,
   HyperliquidOrderResult,
+  HyperliquidPerpAsset,
   HyperliquidPosition,
+  HyperliquidTriggerOrderStatus,
+  PreTradeCheckResult,
+  PreTradeGuardContext,
+  TradeLogContext,
+  TradeLogEntry,
 } from "@/types";
 import { setupClients } from "@/lib/hyperliquid-client";
-import { BTC_ASSET_INDEX, BTC_SYMBOL_UI } from "@/lib/constants";
-import { parseUnits, formatUnits } from "viem";
+import { getPerpAssetByName, getPerpAssets } from "@/lib/asset-registry";
+import { formatOrderSize, formatPerpOrderPrice, getSizeIncrement } from "@/lib/precision";
+import { applySlippage, estimateBookFill, getBracketLevelError, getSlippageError } from "@/lib/trading-calcs";
+import { DEFAULT_SLIPPAGE_BPS, PERP_SYMBOL_SUFFIX } from "@/lib/constants";
+import { calculateOracleDeviationPercent, evaluatePreTradeGuards } from "@/lib/pretrade-guards";
+import { beginTradeLog, completeTradeLog, type PendingTradeLogEntry } from "@/lib/trade-log";
+import { DUPLICATE_CLOID_ERROR, generateCloid, isValidCloid } from "@/lib/cloid";
+import type { BookLevel, WalletClient } from "@nktkas/hyperliquid";
 
 // Define our own types to replace the ones not exported by the library
 type Hex = `0x${string}`;
@@ -92,56 +138,153 @@ interface OrderResponse {
   response: any;
 }
 
-// Define the number of decimals used for sizing assets on Hyperliquid (e.g., BTC usually has 8)
-// This should match the `szDecimals` for the specific asset from the `meta` endpoint.
-// We'll fetch this dynamically later, but use a default for now.
-const DEFAULT_ASSET_SIZE_DECIMALS = 8;
-const DEFAULT_ASSET_PRICE_DECIMALS = 5; // Typical for USD price quotes
+/**
+ * A perpetual asset from the asset registry together with its current price.
+ * Everything needed to build a correctly sized and priced order for that asset.
+ */
+interface ResolvedPerpAsset extends HyperliquidPerpAsset {
+  midPx: number; // Current mid price
+}
 
-// Dynamic mapping for asset indices and decimals, will be populated after first API call
-let assetDetails: { [key: string]: { index: number; szDecimals: number } } = {};
+// Slippage allowed on the limit price of triggered TP/SL market orders (10%)
+const TRIGGER_ORDER_SLIPPAGE = 0.1;
 
 /**
- * Gets the asset index and size decimals for a given asset name.
- * Caches the details after the first fetch.
- * Useful for handling differences between testnet and mainnet and various assets.
+ * Normalizes a UI symbol or coin name to the coin name used by Hyperliquid.
+ * Strips the "-PERP" suffix used in the UI, e.g. "ETH-PERP" -> "ETH".
  */
-async function getAssetDetails(
-  assetName: string = "BTC",
-): Promise<{ index: number; szDecimals: number }> {
-  // Return from cache if available
-  if (
-    Object.keys(assetDetails).length > 0 &&
-    assetDetails[assetName] !== undefined
-  ) {
-    return assetDetails[assetName];
+function normalizeAssetName(assetName: string): string {
+  return assetName.trim().replace(/-PERP$/i, "");
+}
+
+/**
+ * Looks up a tradeable perp asset by name in the asset registry.
+ * Unknown or delisted coins are rejected with an error instead of falling back to another asset.
+ * Reduce-only orders pass `allowDelisted` so positions left open in a delisted coin can still be closed.
+ *
+ * @param {string} assetName - Coin name or UI symbol (e.g., "SOL" or "SOL-PERP").
+ * @param {boolean} [allowDelisted=false] - Whether to return delisted assets instead of rejecting them.
+ * @returns {Promise<HyperliquidPerpAsset>} The asset's index, precision and leverage limits.
+ * @throws {Error} If the asset is not listed, or is delisted and `allowDelisted` is not set.
+ */
+async function lookupPerpAsset(assetName: string, allowDelisted = false): Promise<HyperliquidPerpAsset> {
+  const coin = normalizeAssetName(assetName);
+  const asset = await getPerpAssetByName(coin);
+
+  if (!asset) {
+    throw new Error(`Unknown asset "${coin}". It is not listed in the Hyperliquid perp universe.`);
+  }
+  if (asset.isDelisted && !allowDelisted) {
+    throw new Error(`Asset "${asset.name}" is delisted on Hyperliquid and cannot be traded.`);
   }
+  return asset;
+}
 
-  try {
-    // Fetch metadata to build the mapping
-    console.log("Fetching asset metadata to get index and decimals...");
-    const { publicClient } = setupClients();
-    const [meta, _] = await publicClient.metaAndAssetCtxs();
+/**
+ * Fetches the current mid price of an asset.
+ *
+ * @returns {Promise<number | null>} The mid price, or null if Hyperliquid reports no valid price for the asset.
+ * @throws {Error} If the request fails.
+ */
+async function fetchMidPrice(coin: string): Promise<number | null> {
+  const { publicClient } = setupClients();
+  const mids = await publicClient.allMids();
+  const midPx = parseFloat(mids[coin] ?? "");
+  return Number.isFinite(midPx) && midPx > 0 ? midPx : null;
+}
 
-    // Build the mapping
-    meta.universe.forEach((asset, index) => {
-      assetDetails[asset.name] = { index, szDecimals: asset.szDecimals };
-    });
+/**
+ * Resolves a perp asset by name from the asset registry and fetches its current mid price.
+ * Unknown or delisted coins are rejected with an error instead of falling back to another asset.
+ *
+ * @param {string} assetName - Coin name or UI symbol (e.g., "SOL" or "SOL-PERP").
+ * @param {boolean} [allowDelisted=false] - Whether to resolve delisted assets (for reduce-only closes).
+ * @returns {Promise<ResolvedPerpAsset>} The asset's index, precision, leverage limits and mid price.
+ * @throws {Error} If the asset is not listed, is delisted (unless allowed), or has no valid price.
+ */
+async function resolvePerpAsset(assetName: string, allowDelisted = false): Promise<ResolvedPerpAsset> {
+  const asset = await lookupPerpAsset(assetName, allowDelisted);
+  const midPx = await fetchMidPrice(asset.name);
+  if (midPx === null) {
+    throw new Error(`No valid price available for ${asset.name}.`);
+  }
+
+  console.log(`Resolved asset ${asset.name}: index ${asset.index}, szDecimals ${asset.szDecimals}, maxLeverage ${asset.maxLeverage}x, mid $${midPx}`);
+
+  return { ...asset, midPx };
+}
+
+/**
+ * The asset's L2 order book and oracle price.
+ * `bids` are sorted best (highest) first and `asks` best (lowest) first.
+ */
+interface MarketContext {
+  bids: HyperliquidBookLevel[];
+  asks: HyperliquidBookLevel[];
+  bookMid: number | null;
+  oraclePx: number | null;
+  bookTime: number;
+}
+
+function parseBookLevels(levels: BookLevel[]): HyperliquidBookLevel[] {
+  return levels
+    .map((level) => ({ price: parseFloat(level.px), size: parseFloat(level.sz) }))
+    .filter((level) => level.price > 0 && level.size > 0);
+}
+
+/**
+ * Fetches the L2 order book of an asset.
+ *
+ * @throws {Error} If the request fails.
+ */
+async function fetchOrderBook(asset: HyperliquidPerpAsset): Promise<HyperliquidOrderBook> {
+  const { publicClient } = setupClients();
+  const response = await publicClient.l2Book({ coin: asset.name });
+  const bids = parseBookLevels(response.levels[0]);
+  const asks = parseBookLevels(response.levels[1]);
+  return {
+    assetName: asset.name,
+    szDecimals: asset.szDecimals,
+    bids,
+    asks,
+    bookMid: bids.length > 0 && asks.length > 0 ? (bids[0].price + asks[0].price) / 2 : null,
+    time: response.time,
+  };
+}
 
-    console.log("Asset details mapping built:", assetDetails);
+/**
+ * Fetches the L2 order book and the oracle price of an asset. Either part is left empty/null if its request fails.
+ */
+async function fetchMarketContext(asset: HyperliquidPerpAsset): Promise<MarketContext> {
+  const { publicClient } = setupClients();
+  const [bookResult, ctxResult] = await Promise.allSettled([
+    fetchOrderBook(asset),
+    publicClient.metaAndAssetCtxs(),
+  ]);
+
+  const context: MarketContext = { bids: [], asks: [], bookMid: null, oraclePx: null, bookTime: Date.now() };
+
+  if (bookResult.status === "fulfilled") {
+    context.bids = bookResult.value.bids;
+    context.asks = bookResult.value.asks;
+    context.bookMid = bookResult.value.bookMid;
+    context.bookTime = bookResult.value.time;
+  } else {
+    console.error(`❌ Could not fetch the ${asset.name} order book:`, bookResult.reason);
+  }
 
-    // Return the requested asset index or default to BTC details if not found
-    const details = assetDetails[assetName];
-    if (!details) {
-      console.warn(`Asset ${assetName} not found in metadata, using default BTC details.`);
-      return { index: BTC_ASSET_INDEX, szDecimals: DEFAULT_ASSET_SIZE_DECIMALS };
+  if (ctxResult.status === "fulfilled") {
+    const [meta, assetCtxs] = ctxResult.value;
+    // Asset contexts are in universe order; make sure the index still points at this asset
+    if (meta.universe[asset.index]?.name === asset.name) {
+      const oraclePx = parseFloat(assetCtxs[asset.index]?.oraclePx ?? "");
+      context.oraclePx = Number.isFinite(oraclePx) && oraclePx > 0 ? oraclePx : null;
     }
-    return details;
-  } catch (error) {
-    console.error("Error building asset details mapping:", error);
-    // Fallback to default BTC details on error
-    return { index: BTC_ASSET_INDEX, szDecimals: DEFAULT_ASSET_SIZE_DECIMALS };
+  } else {
+    console.error(`❌ Could not fetch the ${asset.name} oracle price:`, ctxResult.reason);
   }
+
+  return context;
 }
 
 /**
@@ -240,73 +383,33 @@ export async function fetchHyperliquidPositionsAction(): Promise<
 }
 
 /**
- * Fetches the current mark price for a specific asset from Hyperliquid.
+ * Fetches the current mid price for a specific asset from Hyperliquid.
+ * Unknown coins are rejected rather than falling back to BTC.
  *
- * @param {string} [assetName="BTC"] - The name of the asset to fetch price for (e.g., "BTC", "ETH").
- * @returns {Promise<ActionState<{ price: string; assetIndex: number }>>} An ActionState object containing the mark price string and asset index on success, or an error message on failure.
+ * @param {string} [assetName="BTC"] - The name of the asset to fetch price for (e.g., "BTC", "ETH" or "ETH-PERP").
+ * @returns {Promise<ActionState<HyperliquidAssetPrice>>} An ActionState object containing the mid price string, asset index and asset limits on success, or an error message on failure.
  */
 export async function fetchCurrentPriceAction(
   assetName: string = "BTC",
-): Promise<ActionState<{ price: string; assetIndex: number }>> {
+): Promise<ActionState<HyperliquidAssetPrice>> {
   console.log(`Executing fetchCurrentPriceAction for asset: ${assetName}`);
   try {
-    // Initialize with default BTC index but allow it to be changed if needed
-    let assetIndex = BTC_ASSET_INDEX; // Use the constant as starting point 
-    const assetDetails = await getAssetDetails(assetName);
-    const szDecimals = assetDetails.szDecimals;
-    console.log(`Starting with asset index ${assetIndex} for ${assetName} with ${szDecimals} size decimals`);
-
-    const { publicClient } = setupClients();
-
-    // Fetch metadata and asset contexts
-    const [meta, assetCtxs] = await publicClient.metaAndAssetCtxs();
-
-    // Log all available assets and their indices for debugging
-    console.log("Available assets in meta:", meta.universe.map((asset, index) => ({
-      index,
-      name: asset.name
-    })));
-
-    // Find asset index by name - be extremely careful with this
-    let actualAssetIndex = -1;
-    meta.universe.forEach((asset, idx) => {
-      if (asset.name === assetName) {
-        actualAssetIndex = idx;
-        console.log(`Found exact match for ${assetName} at index ${idx}`);
-      }
-    });
-
-    // Extra safety check - if we couldn't find by name, log all assets and fall back to the original index
-    if (actualAssetIndex === -1) {
-      console.error(`Could not find exact match for ${assetName} in Hyperliquid universe. Available assets:`);
-      meta.universe.forEach((asset, idx) => {
-        console.log(`Asset ${idx}: ${asset.name} (Price: ${assetCtxs[idx]?.markPx})`);
-      });
-      actualAssetIndex = assetIndex; // Fall back to the original index
-      console.warn(`Falling back to original index: ${assetIndex}`);
-    }
-
-    if (actualAssetIndex < 0 || actualAssetIndex >= assetCtxs.length) {
-      console.error(`Invalid asset index determined or used: ${actualAssetIndex}`);
-      const validNames = meta.universe.map(a => a.name).join(", ");
-      throw new Error(`Asset index ${actualAssetIndex} out of bounds. Valid assets: ${validNames}`);
-    }
-
-    const assetCtx: HyperliquidAssetCtx | undefined = assetCtxs[actualAssetIndex];
-
-    if (!assetCtx) {
-      console.error(`No asset context found for index: ${actualAssetIndex}`);
-      throw new Error(`Asset context not found for index ${actualAssetIndex}.`);
-    }
-
-    // Extract the mark price
-    const markPrice = assetCtx.markPx;
-    console.log(`Successfully fetched mark price for asset ${assetName} (index ${actualAssetIndex}): ${markPrice}`);
+    const asset = await resolvePerpAsset(assetName);
+    console.log(`Successfully fetched mid price for asset ${asset.name} (index ${asset.index}): ${asset.midPx}`);
 
     return {
       isSuccess: true,
-      message: `Successfully fetched current mark price for asset ${assetName} (index ${actualAssetIndex}).`,
-      data: { price: markPrice, assetIndex: actualAssetIndex },
+      message: `Successfully fetched current mid price for asset ${asset.name} (index ${asset.index}).`,
+      data: {
+        assetName: asset.name,
+        price: String(asset.midPx),
+        assetIndex: asset.index,
+        szDecimals: asset.szDecimals,
+        maxLeverage: asset.maxLeverage,
+        onlyIsolated: asset.onlyIsolated,
+        marginTiers: asset.marginTiers,
+        fetchedAt: Date.now(),
+      },
     };
   } catch (error: unknown) {
     console.error(
@@ -323,462 +426,1879 @@ export async function fetchCurrentPriceAction(
   }
 }
 
-// Add a simple log trade function to record trade outcomes
-async function logTradeAction(params: {
-  symbol: string;
-  direction: 'long' | 'short';
-  size: number;
-  entryPrice: number;
-  status: string;
-  hyperliquidOrderId: string;
-  errorMessage?: string;
-}): Promise<void> {
-  // Just log to console for now - could be expanded to record to database
-  console.log('Trade logged:', params);
-  // This function could be replaced with a proper implementation later
-}
-
 /**
- * Places a market order on Hyperliquid for a specified asset.
- * Uses an Immediate-or-Cancel (IOC) limit order with a wide price tolerance to simulate a market order.
+ * Lists the perp assets that can be traded, for the asset pickers.
+ * Reads the cached perp universe from the asset registry; delisted assets are left out.
  *
- * @param {object} params - Parameters for the market order.
- * @param {string} params.assetName - The symbol/name of the asset to trade (e.g., "BTC").
- * @param {boolean} params.isBuy - True for a buy (long) order, false for a sell (short) order.
- * @param {number} params.size - The size of the order in the base asset units (e.g., BTC amount).
- * @param {number} params.slippage Bps - The allowed slippage percentage (e.g., 0.05 for 5% slippage) to set the limit price boundary. Default 1000 Bps (10%)
- * @param {number} params.leverage - The leverage to use for the position (e.g., 10.0 for 10x leverage).
- * @param {string | null} [params.cloid] - Optional Client Order ID (must be a 16-byte hex string if provided).
- * @param {string | null} [params.overridePriceString] - Optional override price string to use instead of calculating.
- * @returns {Promise<ActionState<HyperliquidOrderResult>>} An ActionState object containing the simplified order result on success, or an error message on failure.
+ * @returns {Promise<ActionState<string[]>>} An ActionState object containing the coin names in universe order (e.g., ["BTC", "ETH", ...]) on success, or an error message on failure.
  */
-export async function placeMarketOrderAction(params: {
-  assetName: string;
-  isBuy: boolean;
-  size: number;
-  slippageBps?: number; // Added slippage parameter
-  leverage?: number; // Added leverage parameter
-  cloid?: Hex | null;
-  overridePriceString?: string; // Add parameter to override calculated price
-}): Promise<ActionState<HyperliquidOrderResult>> {
-  const { assetName, isBuy, size, slippageBps = 1000, leverage = 10, cloid, overridePriceString } = params; // Default leverage 10x
-  console.log(`Executing placeMarketOrderAction for ${assetName}: ${isBuy ? "BUY" : "SELL"} ${size} with ${leverage}x leverage`);
-
+export async function fetchTradeableAssetsAction(): Promise<ActionState<string[]>> {
+  console.log("Executing fetchTradeableAssetsAction");
   try {
-    console.log("Setting up clients for trade execution...");
-    const { walletClient, config } = setupClients();
+    const assets = await getPerpAssets();
+    const tradeableAssets = assets.filter((asset) => !asset.isDelisted).map((asset) => asset.name);
+    console.log(`Successfully listed ${tradeableAssets.length} tradeable perp assets (${assets.length - tradeableAssets.length} delisted).`);
 
-    // Ensure wallet client is available (API secret must be configured)
-    if (!walletClient || !config.account) {
-      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
-      return {
-        isSuccess: false,
-        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
-        error: "Wallet client setup failed.",
-      };
-    }
+    return {
+      isSuccess: true,
+      message: `Successfully fetched ${tradeableAssets.length} tradeable assets.`,
+      data: tradeableAssets,
+    };
+  } catch (error: unknown) {
+    console.error("❌ Error fetching tradeable assets:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch tradeable assets: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
 
-    console.log("Successfully set up clients. Account address:", config.account.address);
+/** Failure branch of `ActionState`, returned by order helpers that validate input. */
+type OrderFailureState = Extract<ActionState<never>, { isSuccess: false }>;
 
-    // Initialize with default BTC index but allow it to be changed if needed
-    let assetIndex = BTC_ASSET_INDEX; // Use the constant as starting point 
-    const assetDetails = await getAssetDetails(assetName);
-    const szDecimals = assetDetails.szDecimals;
-    console.log(`Starting with asset index ${assetIndex} for ${assetName} with ${szDecimals} size decimals`);
+/**
+ * Explains why an order whose cloid already has a Trade Log entry is not sent again.
+ */
+function describeDuplicateOrder(entry: TradeLogEntry): string {
+  if (entry.status === "pending") {
+    return "This order was already submitted and its result has not been recorded yet. It was not sent again. Check your open orders and positions before placing it again.";
+  }
+  if (entry.status === "failed") {
+    return `This order already failed${entry.errorMessage ? `: ${entry.errorMessage}` : "."} Review the trade again to retry.`;
+  }
+  return `This order was already submitted (status: ${entry.status}${entry.hyperliquidOrderId ? `, order ${entry.hyperliquidOrderId}` : ""}). It was not sent again.`;
+}
 
-    // Validate size is greater than zero
-    if (size <= 0) {
-      return {
-        isSuccess: false,
-        message: "Order size must be greater than zero.",
-        error: "Invalid order size.",
-      };
-    }
+/**
+ * Writes the 'pending' Trade Log entry for an order before it is submitted.
+ * Generates a cloid if the caller sent none, and refuses a cloid that was already recorded.
+ *
+ * @returns The pending entry (its `cloid` is the one to submit), or a failure `ActionState` to return as-is.
+ * The order must not be submitted in the failure case.
+ */
+async function openTradeLog(
+  entry: Omit<PendingTradeLogEntry, "cloid"> & { cloid?: string | null },
+): Promise<TradeLogEntry | OrderFailureState> {
+  const cloid = entry.cloid ?? generateCloid();
+  if (!isValidCloid(cloid)) {
+    return {
+      isSuccess: false,
+      message: "Client order ID must be a 16-byte hex string (0x followed by 32 hex digits).",
+      error: "Invalid cloid.",
+    };
+  }
 
-    // Validate leverage is within acceptable bounds
-    if (leverage <= 0 || leverage > 40) {
+  try {
+    const { entry: logEntry, isDuplicate } = await beginTradeLog({ ...entry, cloid });
+    if (isDuplicate) {
       return {
         isSuccess: false,
-        message: "Leverage must be between 1x and 40x (Hyperliquid's maximum).",
-        error: "Invalid leverage value.",
+        message: describeDuplicateOrder(logEntry),
+        error: DUPLICATE_CLOID_ERROR,
       };
     }
+    return logEntry;
+  } catch (error) {
+    console.error("❌ Failed to record the order in the Trade Log before submission:", error);
+    return {
+      isSuccess: false,
+      message: "Could not record the order in the Trade Log, so it was not sent. Please try again.",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
 
-    // Add minimum size check - many exchanges require at least 0.001 BTC or more
-    const MINIMUM_ORDER_SIZE = 0.001;
-    if (size < MINIMUM_ORDER_SIZE) {
-      return {
-        isSuccess: false,
-        message: `Order size (${size} ${assetName}) is below the minimum required (${MINIMUM_ORDER_SIZE} ${assetName}).`,
-        error: "Order size too small.",
-      };
-    }
+/**
+ * Updates an order's pending Trade Log entry with the order result and returns the result.
+ * Filled orders record the filled size and average price; resting and failed orders keep the submitted size.
+ * A failure to update the entry is reported in the message but never turns a placed order into a failure.
+ */
+async function finishTradeLog<T extends HyperliquidOrderResult>(
+  logEntry: TradeLogEntry,
+  result: ActionState<T>,
+): Promise<ActionState<T>> {
+  const isFilled = result.isSuccess && result.data.status === "filled";
+  const updated = await completeTradeLog(
+    logEntry.id,
+    result.isSuccess
+      ? {
+        status: result.data.status,
+        hyperliquidOrderId: String(result.data.oid),
+        entryPrice: isFilled && result.data.avgPx ? parseFloat(result.data.avgPx) : undefined,
+        size: isFilled && result.data.totalSz ? parseFloat(result.data.totalSz) : undefined,
+      }
+      : { status: "failed", errorMessage: result.message },
+  );
+  if (!updated) {
+    return { ...result, message: `${result.message} The Trade Log entry could not be updated.` };
+  }
+  return result;
+}
 
-    // CRITICAL FIX: Get the EXACT reference price from Hyperliquid API
-    // This ensures we're using the correct price that matches Hyperliquid's expectations
-    let currentPrice = 0;
-    let tickSize = 0.5; // Default tick size, will be overridden by actual value from API
+/** An order's resolved asset, its size truncated to `szDecimals`, and its margin mode. */
+interface PreparedOrder {
+  asset: ResolvedPerpAsset;
+  sizeString: string;
+  marginMode: HyperliquidMarginMode;
+}
 
-    try {
-      // Get the latest price directly from Hyperliquid API
-      const { publicClient } = setupClients();
-      const [meta, assetCtxs] = await publicClient.metaAndAssetCtxs();
-
-      // Log the full assets list for debugging
-      console.log("Available Hyperliquid assets with prices:");
-      meta.universe.forEach((asset, idx) => {
-        // Safely access possible tickSize property using optional chaining and type assertion
-        const tickSizeValue = (asset as any)?.tickSize || 'unknown';
-        console.log(`Asset ${idx}: ${asset.name} - $${assetCtxs[idx]?.markPx || 'no price'} - Tick Size: ${tickSizeValue}`);
-      });
+/**
+ * Validates the common order inputs and resolves the asset.
+ * Checks that the size is positive, the asset exists, the leverage is within the asset's
+ * maximum, the margin mode is allowed for the asset, and that the size is still non-zero after truncating to `szDecimals`.
+ *
+ * @returns The resolved asset, formatted size and margin mode, or a failure `ActionState` to return as-is.
+ */
+async function prepareOrder(
+  assetName: string,
+  size: number,
+  leverage: number,
+  requestedMarginMode?: HyperliquidMarginMode,
+): Promise<PreparedOrder | OrderFailureState> {
+  // Validate size is greater than zero
+  if (size <= 0) {
+    return {
+      isSuccess: false,
+      message: "Order size must be greater than zero.",
+      error: "Invalid order size.",
+    };
+  }
 
-      // IMPORTANT: On testnet, asset names may be mismatched
-      // Detect BTC by both name AND price characteristics
-      let btcIndex = -1;
-      let btcByPrice = -1;
-
-      // First try to find by name
-      meta.universe.forEach((asset, idx) => {
-        if (asset.name === "BTC") {
-          btcIndex = idx;
-          console.log(`Found asset named BTC at index ${idx}`);
-          // Store the tick size if available - safely access with type assertion
-          if ((asset as any)?.tickSize) {
-            tickSize = parseFloat((asset as any).tickSize);
-            console.log(`Found tick size for BTC: ${tickSize}`);
-          }
-        }
+  // Resolve the asset from the live Hyperliquid universe
+  let asset: ResolvedPerpAsset;
+  try {
+    asset = await resolvePerpAsset(assetName);
+  } catch (assetError) {
+    const assetErrorMessage = assetError instanceof Error ? assetError.message : String(assetError);
+    console.error(`❌ Could not resolve asset ${assetName}:`, assetErrorMessage);
+    return {
+      isSuccess: false,
+      message: assetErrorMessage,
+      error: "Asset resolution failed.",
+    };
+  }
 
-        // Also check for BTC-like prices (should be around $97K, not $150)
-        const price = parseFloat(assetCtxs[idx]?.markPx || "0");
-        if (price > 10000) { // BTC should be >$10K - SOL won't be
-          btcByPrice = idx;
-          console.log(`Found asset with BTC-like price ($${price}) at index ${idx}`);
-          // If we found by price, also store the tick size - safely access with type assertion
-          if ((asset as any)?.tickSize && btcIndex === -1) { // Only override if we haven't found by name
-            tickSize = parseFloat((asset as any).tickSize);
-            console.log(`Found tick size by price detection: ${tickSize}`);
-          }
-        }
-      });
+  // Validate leverage against the asset's own maximum
+  if (leverage <= 0 || leverage > asset.maxLeverage) {
+    return {
+      isSuccess: false,
+      message: `Leverage must be between 1x and ${asset.maxLeverage}x (Hyperliquid's maximum for ${asset.name}).`,
+      error: "Invalid leverage value.",
+    };
+  }
 
-      // If price and name detection disagree, log this
-      if (btcIndex !== -1 && btcByPrice !== -1 && btcIndex !== btcByPrice) {
-        console.warn(`ASSET MISMATCH DETECTED: Asset named BTC is at index ${btcIndex} but BTC-like price is at index ${btcByPrice}`);
-
-        // Check prices to determine which is actually BTC
-        const namedPrice = parseFloat(assetCtxs[btcIndex]?.markPx || "0");
-        const priceBasedIndex = parseFloat(assetCtxs[btcByPrice]?.markPx || "0");
-
-        console.log(`Price of asset named BTC: $${namedPrice}`);
-        console.log(`Price of asset with BTC-like price: $${priceBasedIndex}`);
-
-        // CRITICAL: Choose the asset with BTC-like price regardless of name on testnet
-        console.log(`OVERRIDE: Using price-based detection: index ${btcByPrice} for BTC`);
-        btcIndex = btcByPrice;
-
-        // Also use the tick size from the price-based detection
-        const pricedBasedAsset = meta.universe[btcByPrice];
-        if (pricedBasedAsset) {
-          // Safely access tickSize with type assertion
-          if ((pricedBasedAsset as any)?.tickSize) {
-            tickSize = parseFloat((pricedBasedAsset as any).tickSize);
-            console.log(`Using tick size from price-based detection: ${tickSize}`);
-          }
-        }
-      }
+  // Some assets can only be traded with isolated margin; default to what the asset allows
+  const marginMode = requestedMarginMode ?? (asset.onlyIsolated ? "isolated" : "cross");
+  if (marginMode === "cross" && asset.onlyIsolated) {
+    return {
+      isSuccess: false,
+      message: `${asset.name} can only be traded with isolated margin.`,
+      error: "Invalid margin mode.",
+    };
+  }
 
-      // Use the selected index
-      if (btcIndex !== -1) {
-        console.log(`USING HYPERLIQUID INDEX: ${btcIndex} for BTC`);
-        const apiPrice = parseFloat(assetCtxs[btcIndex]?.markPx || "0");
-
-        if (apiPrice > 0) {
-          // Use the exact price from Hyperliquid
-          currentPrice = apiPrice;
-          console.log(`Using EXACT Hyperliquid reference price: $${currentPrice}`);
-
-          // Update assetIndex to match what we found
-          assetIndex = btcIndex;
-
-          // Final check for tick size based on the selected asset
-          const selectedAsset = meta.universe[btcIndex];
-          if (selectedAsset) {
-            // Safely access tickSize with type assertion
-            if ((selectedAsset as any)?.tickSize) {
-              tickSize = parseFloat((selectedAsset as any).tickSize);
-              console.log(`Using final tick size for trading: ${tickSize}`);
-            } else {
-              console.warn(`No tick size found for asset at index ${btcIndex}, using default: ${tickSize}`);
-            }
-          }
-        } else {
-          throw new Error("Invalid or zero BTC price from Hyperliquid");
-        }
-      } else {
-        throw new Error("Could not find BTC in Hyperliquid universe");
-      }
+  // Truncate the size to the asset's size decimals and make sure something is left
+  const sizeString = formatOrderSize(size, asset.szDecimals);
+  if (parseFloat(sizeString) <= 0) {
+    return {
+      isSuccess: false,
+      message: `Order size (${size} ${asset.name}) is below the minimum size increment (${getSizeIncrement(asset.szDecimals)} ${asset.name}).`,
+      error: "Order size too small.",
+    };
+  }
 
-    } catch (priceError) {
-      console.error("Failed to fetch BTC price:", priceError);
-      // FALLBACK: Use reasonable BTC price anyway to ensure trading works
-      currentPrice = 96975; // Current BTC price ~$97k
-      console.warn(`Using fallback price $${currentPrice} and tick size ${tickSize}`);
-    }
+  return { asset, sizeString, marginMode };
+}
+
+/**
+ * Runs the pre-trade checks for an order against the account's live clearinghouse state.
+ * If the account cannot be fetched the margin check fails rather than being skipped.
+ *
+ * @returns {Promise<PreTradeCheckResult>} The check outcome, with the failed checks as `reasons`.
+ */
+async function runPreTradeGuards(params: {
+  asset: HyperliquidPerpAsset;
+  midPx: number | null;
+  userAddress: Hex;
+  isBuy: boolean;
+  size: number;
+  leverage: number;
+  price: number | null;
+  context: PreTradeGuardContext;
+}): Promise<PreTradeCheckResult> {
+  const { asset, midPx, userAddress, isBuy, size, leverage, price, context } = params;
+
+  let withdrawable: number | null = null;
+  let positionSize = 0;
+  const marketContextPromise = fetchMarketContext(asset);
+  try {
+    const { publicClient } = setupClients();
+    const clearinghouseState = await publicClient.clearinghouseState({ user: userAddress });
+    const parsedWithdrawable = parseFloat(clearinghouseState.withdrawable);
+    withdrawable = Number.isFinite(parsedWithdrawable) ? parsedWithdrawable : null;
+    const existing = clearinghouseState.assetPositions.find((p) => p.position.coin === asset.name);
+    positionSize = existing ? parseFloat(existing.position.szi) || 0 : 0;
+  } catch (error) {
+    console.error("❌ Could not fetch clearinghouse state for pre-trade checks:", error);
+  }
+  const { bookMid, oraclePx } = await marketContextPromise;
+
+  const result = evaluatePreTradeGuards({
+    assetName: asset.name,
+    isBuy,
+    size,
+    leverage,
+    price,
+    midPx,
+    bookMid,
+    oraclePx,
+    maxLeverage: asset.maxLeverage,
+    marginTiers: asset.marginTiers,
+    withdrawable,
+    positionSize,
+    context,
+    now: Date.now(),
+  });
+
+  if (result.passed) {
+    console.log(`✅ Pre-trade checks passed for ${asset.name}`);
+  } else {
+    console.warn(`⚠️ Pre-trade checks failed for ${asset.name}:`, result.reasons.map((r) => r.code).join(", "));
+  }
+  return result;
+}
 
-    // Check minimum order value ($10) with the fixed price
-    const orderValue = size * currentPrice;
-    console.log(`Order value check with FIXED price: ${size} BTC at $${currentPrice} = $${orderValue.toFixed(2)}`);
+/**
+ * Builds the failure `ActionState` returned when an order is refused by the pre-trade checks.
+ */
+function preTradeFailure(result: PreTradeCheckResult): OrderFailureState {
+  return {
+    isSuccess: false,
+    message: `Order not sent: ${result.reasons.map((reason) => reason.message).join(" ")}`,
+    error: "Pre-trade checks failed.",
+  };
+}
 
-    // Since we're using a fixed price, this should now be correctly calculated
-    if (orderValue < 10) {
+/**
+ * Runs the pre-trade safety checks for an order without placing it, so the UI can show why an order would be refused.
+ * The same checks run again when the order is submitted.
+ *
+ * @param {object} params - The order to check.
+ * @param {string} params.assetName - The coin name or UI symbol of the asset (e.g., "ETH" or "ETH-PERP").
+ * @param {boolean} params.isBuy - True for a buy (long) order, false for a sell (short) order.
+ * @param {number} params.size - The order size in base asset units.
+ * @param {number} params.leverage - The leverage the order will use.
+ * @param {number} [params.limitPrice] - Limit price for limit orders. Market orders are valued at the mid price.
+ * @param {PreTradeGuardContext} [params.guard] - Review context (price fetch time, prediction timestamp, oracle deviation limit).
+ * @returns {Promise<ActionState<PreTradeCheckResult>>} The check outcome on success (even if checks failed), or an error if the asset is unknown.
+ */
+export async function checkPreTradeGuardsAction(params: {
+  assetName: string;
+  isBuy: boolean;
+  size: number;
+  leverage: number;
+  limitPrice?: number;
+  guard?: PreTradeGuardContext;
+}): Promise<ActionState<PreTradeCheckResult>> {
+  const { assetName, isBuy, size, leverage, limitPrice, guard = {} } = params;
+  console.log(`Executing checkPreTradeGuardsAction for ${assetName}: ${isBuy ? "BUY" : "SELL"} ${size} with ${leverage}x leverage`);
+
+  try {
+    const { config } = setupClients();
+    if (!config.account) {
       return {
         isSuccess: false,
-        message: `Order value ($${orderValue.toFixed(2)}) is below Hyperliquid's minimum of $10.`,
-        error: "Order value too small",
+        message: "Hyperliquid API secret not configured or invalid.",
+        error: "Wallet account setup failed.",
       };
     }
 
-    // Use a MUCH smaller slippage (2% instead of 10%) to stay within Hyperliquid's 80% limit
-    // This ensures the price is reasonable and won't be rejected
-    let priceString;
-    const TICK_SIZE = tickSize; // Use the dynamically determined tick size instead of hardcoding 0.5
-
+    const asset = await lookupPerpAsset(assetName);
+    let midPx: number | null = null;
     try {
-      // If an override price string is provided, use it directly instead of calculating
-      if (overridePriceString) {
-        priceString = overridePriceString;
-        console.log(`Using override price string: ${priceString} instead of calculating from reference price: ${currentPrice}`);
-      } else {
-        // Regular price calculation logic
-        if (isBuy) {
-          // For BUY orders, add 2% to reference price (within Hyperliquid's limits)
-          let buyPrice = currentPrice * 1.02;
-
-          // Round UP to nearest tick size for buy orders
-          // First, calculate how many ticks we need
-          const ticks = Math.ceil(buyPrice / TICK_SIZE);
-          // Then multiply back to get the exact price
-          buyPrice = ticks * TICK_SIZE;
-
-          // Convert to string with exactly one decimal place
-          priceString = buyPrice.toFixed(1);
-
-          console.log(`Buy price calculation:
-            Original price: ${currentPrice}
-            After 2% increase: ${currentPrice * 1.02}
-            Ticks needed: ${ticks}
-            Final price: ${buyPrice}
-            Tick size: ${TICK_SIZE}
-          `);
-        } else {
-          // For SELL orders, subtract 2% from reference price (within Hyperliquid's limits)
-          let sellPrice = currentPrice * 0.98;
-
-          // Round DOWN to nearest tick size for sell orders
-          // First, calculate how many ticks we need
-          const ticks = Math.floor(sellPrice / TICK_SIZE);
-          // Then multiply back to get the exact price
-          sellPrice = ticks * TICK_SIZE;
-
-          // Convert to string with exactly one decimal place
-          priceString = sellPrice.toFixed(1);
-
-          console.log(`Sell price calculation:
-            Original price: ${currentPrice}
-            After 2% decrease: ${currentPrice * 0.98}
-            Ticks needed: ${ticks}
-            Final price: ${sellPrice}
-            Tick size: ${TICK_SIZE}
-          `);
-        }
-      }
-
-      // Final validation to ensure price is at a valid tick
-      const finalPrice = parseFloat(priceString);
-      const tickCheck = (finalPrice / TICK_SIZE) % 1;
-
-      if (Math.abs(tickCheck) > 0.0001) { // Use small epsilon for floating point comparison
-        console.error(`CRITICAL ERROR: Final price ${priceString} (${finalPrice}) is not at a valid tick increment. Remainder: ${tickCheck}, Tick Size: ${TICK_SIZE}`);
-        // Emergency correction - calculate exact tick
-        const ticks = Math.round(finalPrice / TICK_SIZE);
-        const correctedPrice = ticks * TICK_SIZE;
-        priceString = correctedPrice.toFixed(1);
-        console.log(`Emergency correction to price: ${priceString} (${ticks} ticks)`);
-      }
+      midPx = await fetchMidPrice(asset.name);
+    } catch (priceError) {
+      console.error(`❌ Could not fetch mid price for ${asset.name}:`, priceError);
+    }
 
-      // Double check the final price is valid
-      const finalCheck = parseFloat(priceString);
-      const finalTickCheck = (finalCheck / TICK_SIZE) % 1;
-      if (Math.abs(finalTickCheck) > 0.0001) {
-        throw new Error(`Failed to generate valid tick size price. Final price: ${priceString}, Tick size: ${TICK_SIZE}, Remainder: ${finalTickCheck}`);
-      }
+    const result = await runPreTradeGuards({
+      asset,
+      midPx,
+      userAddress: config.account.address,
+      isBuy,
+      size,
+      leverage,
+      price: limitPrice ?? midPx,
+      context: guard,
+    });
 
-      console.log(`Using Hyperliquid-compatible price for ${isBuy ? "BUY" : "SELL"}: ${priceString} (reference: ${currentPrice}, tick size: ${TICK_SIZE})`);
+    return {
+      isSuccess: true,
+      message: result.passed ? "All pre-trade checks passed." : `${result.reasons.length} pre-trade check(s) failed.`,
+      data: result,
+    };
+  } catch (error) {
+    console.error(`❌ Error running pre-trade checks for ${assetName}:`, error);
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to run pre-trade checks: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
 
-    } catch (error) {
-      console.error("Error calculating price:", error);
-      throw new Error("Failed to calculate valid price for order");
-    }
+/**
+ * Fetches the current L2 order book of an asset, for depth and price-impact estimates.
+ *
+ * @param {string} assetName - The coin name or UI symbol of the asset (e.g., "ETH" or "ETH-PERP").
+ * @returns {Promise<ActionState<HyperliquidOrderBook>>} The order book snapshot on success, or an error message on failure.
+ */
+export async function fetchOrderBookAction(
+  assetName: string,
+): Promise<ActionState<HyperliquidOrderBook>> {
+  console.log(`Executing fetchOrderBookAction for asset: ${assetName}`);
+  try {
+    const asset = await lookupPerpAsset(assetName);
+    const book = await fetchOrderBook(asset);
+    return {
+      isSuccess: true,
+      message: `Fetched the ${asset.name} order book (${book.bids.length} bids, ${book.asks.length} asks).`,
+      data: book,
+    };
+  } catch (error) {
+    console.error(`❌ Error fetching the order book for ${assetName}:`, error);
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch order book: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
 
-    const sizeString = size.toString();
+/**
+ * Estimates the execution of a market (IOC) order from the current L2 order book: the limit price it would be sent with,
+ * the average fill price, and how much would be left unfilled within the slippage limit. Also reports how far the
+ * book mid is from the oracle price.
+ *
+ * @param {object} params - The order to estimate.
+ * @param {string} params.assetName - The coin name or UI symbol of the asset (e.g., "ETH" or "ETH-PERP").
+ * @param {boolean} params.isBuy - True for a buy (long) order, false for a sell (short) order.
+ * @param {number} params.size - The order size in base asset units.
+ * @param {number} [params.slippageBps] - The allowed slippage in basis points. Defaults to `DEFAULT_SLIPPAGE_BPS`.
+ * @returns {Promise<ActionState<HyperliquidExecutionEstimate>>} The estimate on success, or an error message on failure.
+ */
+export async function estimateExecutionAction(params: {
+  assetName: string;
+  isBuy: boolean;
+  size: number;
+  slippageBps?: number;
+}): Promise<ActionState<HyperliquidExecutionEstimate>> {
+  const { assetName, isBuy, size, slippageBps = DEFAULT_SLIPPAGE_BPS } = params;
+  console.log(`Executing estimateExecutionAction for ${assetName}: ${isBuy ? "BUY" : "SELL"} ${size} with ${slippageBps} bps slippage`);
 
-    console.log(`Order parameters:
-      Asset Index: ${assetIndex}
-      Direction: ${isBuy ? "BUY" : "SELL"}
-      Size: ${sizeString} ${assetName}
-      Current Price: ${currentPrice}
-      Limit Price: ${priceString} (raw: ${currentPrice}, adjusted to tick size: ${TICK_SIZE})
-      Leverage: ${leverage}x
-      Minimum Value Check: ${orderValue.toFixed(2)} USD (minimum: $10)
-    `);
+  try {
+    const slippageError = getSlippageError(slippageBps);
+    if (slippageError) {
+      return { isSuccess: false, message: slippageError, error: "Invalid slippage." };
+    }
 
-    // Set the leverage before placing the order
-    try {
-      // First, we need to set the leverage for this asset
-      const setLeveragePayload = {
-        asset: assetIndex,
-        isCross: true,  // Most exchanges use cross margin by default
-        leverage: leverage
-      };
+    const asset = await lookupPerpAsset(assetName);
+    const market = await fetchMarketContext(asset);
+    const direction = isBuy ? "long" : "short";
+    const limitPrice = market.bookMid !== null
+      ? parseFloat(formatPerpOrderPrice(applySlippage(market.bookMid, slippageBps, direction), asset.szDecimals, isBuy))
+      : null;
+    const fill = estimateBookFill(isBuy ? market.asks : market.bids, size, direction, limitPrice);
 
-      console.log("Setting leverage with payload:", JSON.stringify(setLeveragePayload, null, 2));
+    return {
+      isSuccess: true,
+      message: `Estimated execution for ${asset.name}.`,
+      data: {
+        assetName: asset.name,
+        bookMid: market.bookMid,
+        oraclePx: market.oraclePx,
+        oracleDeviationPercent: market.bookMid !== null && market.oraclePx !== null
+          ? calculateOracleDeviationPercent(market.bookMid, market.oraclePx)
+          : null,
+        slippageBps,
+        limitPrice,
+        fill,
+        bookTime: market.bookTime,
+      },
+    };
+  } catch (error) {
+    console.error(`❌ Error estimating execution for ${assetName}:`, error);
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to estimate execution: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Sets the leverage and margin mode for an asset before an order is placed.
+ * Hyperliquid rejects switching the margin mode of an asset with an open position.
+ *
+ * @throws {Error} If Hyperliquid rejects the leverage update.
+ */
+async function setAssetLeverage(
+  walletClient: WalletClient,
+  assetIndex: number,
+  leverage: number,
+  marginMode: HyperliquidMarginMode,
+): Promise<void> {
+  try {
+    const setLeveragePayload = {
+      asset: assetIndex,
+      isCross: marginMode === "cross",
+      leverage: leverage
+    };
+
+    console.log("Setting leverage with payload:", JSON.stringify(setLeveragePayload, null, 2));
+
+    // Submit the leverage update using the wallet client
+    const leverageResponse = await walletClient.updateLeverage(setLeveragePayload);
+    console.log("Leverage update response:", JSON.stringify(leverageResponse, null, 2));
+
+    if (leverageResponse.status !== "ok") {
+      throw new Error(`Failed to set leverage: ${leverageResponse.status}`);
+    }
+
+    console.log(`Successfully set leverage to ${leverage}x (${marginMode}) for asset index ${assetIndex}`);
+  } catch (leverageError: any) {
+    console.error("Error setting leverage:", leverageError);
+    throw new Error(`Failed to set leverage: ${leverageError.message || "Unknown error"}`);
+  }
+}
+
+/**
+ * Maps a single entry of `OrderResponseSuccess.response.data.statuses` to a `HyperliquidOrderResult`.
+ *
+ * @throws {Error} If the status contains an API error or has an unexpected shape.
+ */
+function mapOrderStatus(
+  statusData: OrderResponseSuccess["response"]["data"]["statuses"][number] | undefined,
+): HyperliquidOrderResult {
+  // Check for API error
+  if (statusData && "error" in statusData && statusData.error) {
+    const errorMsg = statusData.error;
+    console.error("API error:", errorMsg);
+
+    if (errorMsg.includes("size too small")) {
+      throw new Error(`Order size too small. Minimum trade size may be higher.`);
+    } else if (errorMsg.includes("master trade switch")) {
+      throw new Error("Master trade switch is disabled. Please enable it in settings.");
+    } else {
+      throw new Error(`Order error: ${errorMsg}`);
+    }
+  }
+
+  if (statusData && "resting" in statusData && statusData.resting) {
+    // Order is resting on the book
+    return {
+      oid: statusData.resting.oid,
+      cloid: statusData.resting.cloid,
+      status: 'resting',
+    };
+  }
+
+  if (statusData && "filled" in statusData && statusData.filled) {
+    // Order filled
+    return {
+      oid: statusData.filled.oid,
+      cloid: statusData.filled.cloid,
+      status: 'filled',
+      totalSz: statusData.filled.totalSz,
+      avgPx: statusData.filled.avgPx,
+    };
+  }
+
+  throw new Error("Unexpected response structure");
+}
+
+/**
+ * Submits one or more orders with the given grouping and returns the raw per-order statuses.
+ *
+ * @throws {Error} If the API rejects the request.
+ */
+async function submitOrders(
+  walletClient: WalletClient,
+  orders: OrderRequest["action"]["orders"],
+  grouping: OrderRequest["action"]["grouping"],
+): Promise<OrderResponseSuccess["response"]["data"]["statuses"]> {
+  try {
+    const orderPayload = { orders, grouping };
+    console.log("About to submit order with payload:", JSON.stringify(orderPayload, null, 2));
+
+    const orderResponse = await walletClient.order(orderPayload);
+    console.log("Order response:", JSON.stringify(orderResponse, null, 2));
+
+    if (orderResponse.status !== "ok") {
+      throw new Error(`API returned status: ${orderResponse.status}`);
+    }
+
+    return orderResponse.response.data.statuses;
+  } catch (error) {
+    console.error("Order submission error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Submits a single, ungrouped order and maps the response to a `HyperliquidOrderResult`.
+ *
+ * @throws {Error} If the API rejects the order.
+ */
+async function submitSingleOrder(
+  walletClient: WalletClient,
+  order: OrderRequest["action"]["orders"][number],
+): Promise<HyperliquidOrderResult> {
+  const statuses = await submitOrders(walletClient, [order], "na");
+  return mapOrderStatus(statuses[0]);
+}
+
+/**
+ * Maps an order placement error to a user-facing message.
+ *
+ * @param {unknown} error - The caught error.
+ * @param {string} fallbackMessage - Message used when the error is not an `Error` instance.
+ * @returns {string} The message to show in the UI.
+ */
+function mapOrderErrorMessage(error: unknown, fallbackMessage: string): string {
+  if (!(error instanceof Error)) {
+    return fallbackMessage;
+  }
+
+  if (error.message.includes("Order value too large")) {
+    return "Order value exceeds Hyperliquid's maximum.";
+  } else if (error.message.includes("minimum value")) {
+    return "Order value below Hyperliquid's $10 minimum.";
+  } else if (error.message.includes("tick size")) {
+    return "Price must be in increments of Hyperliquid's tick size.";
+  } else if (error.message.includes("master trade switch")) {
+    return "Master trade switch is disabled on Hyperliquid.";
+  } else if (error.message.includes("Post only order would have immediately matched")) {
+    return "Post-only order would have matched immediately and was cancelled. Move the limit price away from the market.";
+  }
+  return `API Error: ${error.message}`;
+}
+
+/** Parameters of `placeMarketOrderAction`. */
+interface MarketOrderParams {
+  assetName: string;
+  isBuy: boolean;
+  size: number;
+  slippageBps?: number;
+  leverage?: number; // Added leverage parameter
+  marginMode?: HyperliquidMarginMode;
+  cloid?: Hex | null;
+  overridePriceString?: string; // Add parameter to override calculated price
+  guard?: PreTradeGuardContext;
+}
+
+/**
+ * Validates and submits a market order. Called by `placeMarketOrderAction` once the order is prepared and recorded in
+ * the Trade Log.
+ */
+async function executeMarketOrder(
+  params: MarketOrderParams & { cloid: Hex },
+  prepared: PreparedOrder,
+): Promise<ActionState<HyperliquidOrderResult>> {
+  const { isBuy, slippageBps = DEFAULT_SLIPPAGE_BPS, leverage = 10, cloid, overridePriceString, guard = {} } = params; // Default leverage 10x
+
+  try {
+    console.log("Setting up clients for trade execution...");
+    const { walletClient, config } = setupClients();
+
+    // Ensure wallet client is available (API secret must be configured)
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
+
+    console.log("Successfully set up clients. Account address:", config.account.address);
+
+    const slippageError = getSlippageError(slippageBps);
+    if (slippageError) {
+      return { isSuccess: false, message: slippageError, error: "Invalid slippage." };
+    }
+
+    const { asset, sizeString, marginMode } = prepared;
+    const assetIndex = asset.index;
+    const currentPrice = asset.midPx;
+
+    // Check minimum order value ($10) against the current mid price
+    const orderValue = parseFloat(sizeString) * currentPrice;
+    console.log(`Order value check: ${sizeString} ${asset.name} at $${currentPrice} = $${orderValue.toFixed(2)}`);
+
+    if (orderValue < 10) {
+      return {
+        isSuccess: false,
+        message: `Order value ($${orderValue.toFixed(2)}) is below Hyperliquid's minimum of $10.`,
+        error: "Order value too small",
+      };
+    }
+
+    // Refuse to trade on stale inputs or beyond the account's margin and the asset's limits
+    const guardResult = await runPreTradeGuards({
+      asset,
+      midPx: asset.midPx,
+      userAddress: config.account.address,
+      isBuy,
+      size: parseFloat(sizeString),
+      leverage,
+      price: currentPrice,
+      context: guard,
+    });
+    if (!guardResult.passed) {
+      return preTradeFailure(guardResult);
+    }
+
+    // Limit the IOC order to the mid price plus the allowed slippage
+    let priceString: string;
+    if (overridePriceString) {
+      priceString = overridePriceString;
+      console.log(`Using override price string: ${priceString} instead of calculating from reference price: ${currentPrice}`);
+    } else {
+      const limitPrice = applySlippage(currentPrice, slippageBps, isBuy ? "long" : "short");
+      // Round buys up and sells down so the IOC limit never becomes tighter than intended
+      priceString = formatPerpOrderPrice(limitPrice, asset.szDecimals, isBuy);
+    }
+
+    console.log(`Order parameters:
+      Asset: ${asset.name} (index ${assetIndex})
+      Direction: ${isBuy ? "BUY" : "SELL"}
+      Size: ${sizeString} ${asset.name} (szDecimals: ${asset.szDecimals})
+      Current Price: ${currentPrice}
+      Limit Price: ${priceString} (slippage ${slippageBps} bps)
+      Leverage: ${leverage}x ${marginMode} (max ${asset.maxLeverage}x)
+      Minimum Value Check: ${orderValue.toFixed(2)} USD (minimum: $10)
+    `);
+
+    // Set the leverage before placing the order
+    await setAssetLeverage(walletClient, assetIndex, leverage, marginMode);
+
+    // Submit an IOC limit order to simulate a market order
+    const resultData = await submitSingleOrder(walletClient, {
+      a: assetIndex,     // Asset index
+      b: isBuy,          // Buy/Sell flag
+      p: priceString,    // Price formatted to the asset's price precision
+      s: sizeString,     // Size truncated to the asset's szDecimals
+      r: false,          // Reduce-only flag
+      t: { limit: { tif: "Ioc" } },  // Use IOC to simulate market order
+      c: cloid,          // Client order ID, recorded in the Trade Log
+    });
+
+    return {
+      isSuccess: true,
+      message: `Order ${resultData.status === 'filled' ? 'filled' : 'placed'} successfully.`,
+      data: resultData,
+    };
+
+  } catch (error) {
+    console.error(`Error placing order:`, error);
+    return {
+      isSuccess: false,
+      message: mapOrderErrorMessage(error, "Failed to place market order."),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Places a market order on Hyperliquid for a specified asset.
+ * Uses an Immediate-or-Cancel (IOC) limit order priced at the mid price plus the allowed slippage to simulate a market order.
+ * The asset is resolved by name from the live perp universe; unknown or delisted coins are rejected.
+ *
+ * @param {object} params - Parameters for the market order.
+ * @param {string} params.assetName - The coin name or UI symbol of the asset to trade (e.g., "ETH" or "ETH-PERP").
+ * @param {boolean} params.isBuy - True for a buy (long) order, false for a sell (short) order.
+ * @param {number} params.size - The size of the order in the base asset units. Truncated to the asset's `szDecimals`.
+ * @param {number} [params.slippageBps] - The allowed slippage in basis points (e.g., 50 for 0.5%), between `MIN_SLIPPAGE_BPS` and `MAX_SLIPPAGE_BPS`. Defaults to `DEFAULT_SLIPPAGE_BPS`.
+ * @param {number} params.leverage - The leverage to use for the position (e.g., 10.0 for 10x leverage).
+ * @param {HyperliquidMarginMode} [params.marginMode] - Cross or isolated margin. Defaults to cross (isolated for isolated-only assets).
+ * @param {string | null} [params.cloid] - Optional Client Order ID (must be a 16-byte hex string if provided). Reuse it when retrying; a cloid that was already recorded is not sent again. Generated if omitted.
+ * @param {string | null} [params.overridePriceString] - Optional override price string to use instead of calculating.
+ * @param {PreTradeGuardContext} [params.guard] - Review context for the pre-trade freshness checks.
+ * @param {TradeLogContext} [params.log] - Prediction, template and staging context recorded in the Trade Log entry.
+ * @returns {Promise<ActionState<HyperliquidOrderResult>>} An ActionState object containing the simplified order result on success, or an error message on failure.
+ */
+export async function placeMarketOrderAction(
+  params: MarketOrderParams & { log?: TradeLogContext },
+): Promise<ActionState<HyperliquidOrderResult>> {
+  const { assetName, isBuy, size, slippageBps = DEFAULT_SLIPPAGE_BPS, leverage = 10, marginMode, cloid, log } = params;
+  console.log(`Executing placeMarketOrderAction for ${assetName}: ${isBuy ? "BUY" : "SELL"} ${size} with ${leverage}x leverage`);
+
+  // Validate size and leverage and resolve the asset. Unknown coins are rejected.
+  const prepared = await prepareOrder(assetName, size, leverage, marginMode);
+  if ("isSuccess" in prepared) {
+    return prepared;
+  }
+
+  const tradeLog = await openTradeLog({
+    ...log,
+    symbol: `${prepared.asset.name}${PERP_SYMBOL_SUFFIX}`,
+    direction: isBuy ? "long" : "short",
+    size: parseFloat(prepared.sizeString),
+    entryPrice: prepared.asset.midPx,
+    action: "open",
+    leverage,
+    slippageBps,
+    cloid,
+  });
+  if ("isSuccess" in tradeLog) {
+    return tradeLog;
+  }
+
+  const result = await executeMarketOrder({ ...params, cloid: tradeLog.cloid as Hex }, prepared);
+  return finishTradeLog(tradeLog, result);
+}
+
+/** Parameters of `placeLimitOrderAction`. */
+interface LimitOrderParams {
+  assetName: string;
+  isBuy: boolean;
+  size: number;
+  limitPrice: number;
+  tif?: HyperliquidLimitTif;
+  leverage?: number;
+  marginMode?: HyperliquidMarginMode;
+  cloid?: Hex | null;
+  guard?: PreTradeGuardContext;
+}
+
+/**
+ * Validates and submits a limit order. Called by `placeLimitOrderAction` once the order is prepared and recorded in
+ * the Trade Log.
+ */
+async function executeLimitOrder(
+  params: LimitOrderParams & { cloid: Hex },
+  prepared: PreparedOrder,
+): Promise<ActionState<HyperliquidOrderResult>> {
+  const { isBuy, limitPrice, tif = "Gtc", leverage = 10, cloid, guard = {} } = params;
+
+  try {
+    const { walletClient, config } = setupClients();
+
+    // Ensure wallet client is available (API secret must be configured)
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
+
+    if (!Number.isFinite(limitPrice) || limitPrice <= 0) {
+      return {
+        isSuccess: false,
+        message: "Limit price must be greater than zero.",
+        error: "Invalid limit price.",
+      };
+    }
+
+    if (tif !== "Gtc" && tif !== "Alo") {
+      return {
+        isSuccess: false,
+        message: `Unsupported time-in-force "${tif}". Use "Gtc" or "Alo".`,
+        error: "Invalid time-in-force.",
+      };
+    }
+
+    const { asset, sizeString, marginMode } = prepared;
+
+    // Round buys down and sells up so the order never fills at a worse price than requested
+    const priceString = formatPerpOrderPrice(limitPrice, asset.szDecimals, !isBuy);
+
+    // Hyperliquid's $10 minimum applies to the order's notional at the limit price
+    const orderValue = parseFloat(sizeString) * parseFloat(priceString);
+    if (orderValue < 10) {
+      return {
+        isSuccess: false,
+        message: `Order value ($${orderValue.toFixed(2)}) is below Hyperliquid's minimum of $10.`,
+        error: "Order value too small",
+      };
+    }
+
+    const guardResult = await runPreTradeGuards({
+      asset,
+      midPx: asset.midPx,
+      userAddress: config.account.address,
+      isBuy,
+      size: parseFloat(sizeString),
+      leverage,
+      price: parseFloat(priceString),
+      context: guard,
+    });
+    if (!guardResult.passed) {
+      return preTradeFailure(guardResult);
+    }
+
+    console.log(`Limit order parameters:
+      Asset: ${asset.name} (index ${asset.index})
+      Direction: ${isBuy ? "BUY" : "SELL"}
+      Size: ${sizeString} ${asset.name}
+      Limit Price: ${priceString} (requested: ${limitPrice}, mid: ${asset.midPx})
+      Time-in-force: ${tif}
+      Leverage: ${leverage}x ${marginMode}
+    `);
+
+    await setAssetLeverage(walletClient, asset.index, leverage, marginMode);
+
+    const resultData = await submitSingleOrder(walletClient, {
+      a: asset.index,
+      b: isBuy,
+      p: priceString,
+      s: sizeString,
+      r: false,
+      t: { limit: { tif } },
+      c: cloid,
+    });
+
+    return {
+      isSuccess: true,
+      message: resultData.status === 'filled'
+        ? "Limit order filled immediately."
+        : `Limit order resting on the book at ${priceString}.`,
+      data: resultData,
+    };
+  } catch (error) {
+    console.error(`Error placing limit order:`, error);
+    return {
+      isSuccess: false,
+      message: mapOrderErrorMessage(error, "Failed to place limit order."),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Places a limit order on Hyperliquid at a user-specified price.
+ * Supports Good-Til-Cancelled (GTC) orders and Add-Liquidity-Only (ALO, post-only) orders.
+ * Orders that don't fill immediately rest on the book and are returned with `status: 'resting'`.
+ *
+ * @param {object} params - Parameters for the limit order.
+ * @param {string} params.assetName - The coin name or UI symbol of the asset to trade (e.g., "ETH" or "ETH-PERP").
+ * @param {boolean} params.isBuy - True for a buy (long) order, false for a sell (short) order.
+ * @param {number} params.size - The size of the order in the base asset units. Truncated to the asset's `szDecimals`.
+ * @param {number} params.limitPrice - The limit price. Rounded to the asset's price precision (buys down, sells up).
+ * @param {HyperliquidLimitTif} [params.tif="Gtc"] - Time-in-force: "Gtc" or "Alo" (post-only).
+ * @param {number} [params.leverage=10] - The leverage to use for the position.
+ * @param {HyperliquidMarginMode} [params.marginMode] - Cross or isolated margin. Defaults to cross (isolated for isolated-only assets).
+ * @param {Hex | null} [params.cloid] - Optional Client Order ID (must be a 16-byte hex string if provided). Reuse it when retrying; a cloid that was already recorded is not sent again. Generated if omitted.
+ * @param {PreTradeGuardContext} [params.guard] - Review context for the pre-trade freshness checks.
+ * @param {TradeLogContext} [params.log] - Prediction, template and staging context recorded in the Trade Log entry.
+ * @returns {Promise<ActionState<HyperliquidOrderResult>>} An ActionState object containing the simplified order result on success, or an error message on failure.
+ */
+export async function placeLimitOrderAction(
+  params: LimitOrderParams & { log?: TradeLogContext },
+): Promise<ActionState<HyperliquidOrderResult>> {
+  const { assetName, isBuy, size, limitPrice, tif = "Gtc", leverage = 10, marginMode, cloid, log } = params;
+  console.log(`Executing placeLimitOrderAction for ${assetName}: ${isBuy ? "BUY" : "SELL"} ${size} @ ${limitPrice} (${tif}) with ${leverage}x leverage`);
+
+  // Validate size and leverage and resolve the asset. Unknown coins are rejected.
+  const prepared = await prepareOrder(assetName, size, leverage, marginMode);
+  if ("isSuccess" in prepared) {
+    return prepared;
+  }
+
+  const tradeLog = await openTradeLog({
+    ...log,
+    symbol: `${prepared.asset.name}${PERP_SYMBOL_SUFFIX}`,
+    direction: isBuy ? "long" : "short",
+    size: parseFloat(prepared.sizeString),
+    entryPrice: limitPrice,
+    action: "open",
+    leverage,
+    slippageBps: null,
+    cloid,
+  });
+  if ("isSuccess" in tradeLog) {
+    return tradeLog;
+  }
+
+  const result = await executeLimitOrder({ ...params, cloid: tradeLog.cloid as Hex }, prepared);
+  return finishTradeLog(tradeLog, result);
+}
+
+/**
+ * Maps the status of a TP/SL child order in a grouped order response.
+ * Children of a `normalTpsl` group usually come back as plain strings such as
+ * "waitingForFill" or "waitingForTrigger" rather than `resting`/`filled` objects.
+ */
+function mapTriggerOrderStatus(
+  statusData: unknown,
+  triggerPx: string,
+): HyperliquidTriggerOrderStatus {
+  if (typeof statusData === "string") {
+    return { triggerPx, status: statusData };
+  }
+  if (statusData && typeof statusData === "object") {
+    const status = statusData as OrderResponseSuccess["response"]["data"]["statuses"][number];
+    if (status.error) {
+      return { triggerPx, status: "error", error: status.error };
+    }
+    if (status.resting) {
+      return { triggerPx, status: "resting", oid: status.resting.oid };
+    }
+    if (status.filled) {
+      return { triggerPx, status: "filled", oid: status.filled.oid };
+    }
+  }
+  return { triggerPx, status: "unknown" };
+}
+
+/** Parameters of `placeBracketOrderAction`. */
+interface BracketOrderParams {
+  assetName: string;
+  isBuy: boolean;
+  size: number;
+  leverage?: number;
+  marginMode?: HyperliquidMarginMode;
+  limitPrice?: number;
+  tif?: HyperliquidLimitTif;
+  slippageBps?: number;
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  cloid?: Hex | null;
+  guard?: PreTradeGuardContext;
+}
+
+/**
+ * Validates and submits a bracket order. Called by `placeBracketOrderAction` once the order is prepared and recorded
+ * in the Trade Log.
+ */
+async function executeBracketOrder(
+  params: BracketOrderParams & { cloid: Hex },
+  prepared: PreparedOrder,
+): Promise<ActionState<HyperliquidBracketOrderResult>> {
+  const {
+    isBuy,
+    leverage = 10,
+    limitPrice,
+    tif = "Gtc",
+    slippageBps = DEFAULT_SLIPPAGE_BPS,
+    takeProfitPrice,
+    stopLossPrice,
+    cloid,
+    guard = {},
+  } = params;
+
+  try {
+    const { walletClient, config } = setupClients();
+
+    // Ensure wallet client is available (API secret must be configured)
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
+
+    if (takeProfitPrice === undefined && stopLossPrice === undefined) {
+      return {
+        isSuccess: false,
+        message: "A bracket order needs a take-profit price, a stop-loss price, or both.",
+        error: "Missing TP/SL levels.",
+      };
+    }
+
+    if (limitPrice !== undefined && (!Number.isFinite(limitPrice) || limitPrice <= 0)) {
+      return {
+        isSuccess: false,
+        message: "Limit price must be greater than zero.",
+        error: "Invalid limit price.",
+      };
+    }
+
+    const slippageError = limitPrice === undefined ? getSlippageError(slippageBps) : null;
+    if (slippageError) {
+      return { isSuccess: false, message: slippageError, error: "Invalid slippage." };
+    }
+
+    const { asset, sizeString, marginMode } = prepared;
+
+    // TP/SL levels are validated against the expected entry price
+    const entryReference = limitPrice ?? asset.midPx;
+    const levelError = getBracketLevelError(entryReference, takeProfitPrice ?? null, stopLossPrice ?? null, isBuy ? "long" : "short");
+    if (levelError) {
+      return {
+        isSuccess: false,
+        message: levelError,
+        error: "Invalid TP/SL levels.",
+      };
+    }
+
+    const orderValue = parseFloat(sizeString) * entryReference;
+    if (orderValue < 10) {
+      return {
+        isSuccess: false,
+        message: `Order value ($${orderValue.toFixed(2)}) is below Hyperliquid's minimum of $10.`,
+        error: "Order value too small",
+      };
+    }
+
+    const guardResult = await runPreTradeGuards({
+      asset,
+      midPx: asset.midPx,
+      userAddress: config.account.address,
+      isBuy,
+      size: parseFloat(sizeString),
+      leverage,
+      price: entryReference,
+      context: guard,
+    });
+    if (!guardResult.passed) {
+      return preTradeFailure(guardResult);
+    }
+
+    // Entry order: user limit price, or an IOC limit at the mid price plus slippage for market entries
+    const entryOrder: OrderRequest["action"]["orders"][number] = limitPrice !== undefined
+      ? {
+        a: asset.index,
+        b: isBuy,
+        p: formatPerpOrderPrice(limitPrice, asset.szDecimals, !isBuy),
+        s: sizeString,
+        r: false,
+        t: { limit: { tif } },
+        c: cloid,
+      }
+      : {
+        a: asset.index,
+        b: isBuy,
+        p: formatPerpOrderPrice(applySlippage(asset.midPx, slippageBps, isBuy ? "long" : "short"), asset.szDecimals, isBuy),
+        s: sizeString,
+        r: false,
+        t: { limit: { tif: "Ioc" } },
+        c: cloid,
+      };
+
+    // Exit triggers close the position, so they trade on the opposite side and are reduce-only.
+    // The limit price allows wide slippage so the triggered market order actually fills.
+    const buildTrigger = (triggerPrice: number, tpsl: "tp" | "sl"): OrderRequest["action"]["orders"][number] => {
+      const closeIsBuy = !isBuy;
+      const slippagePrice = closeIsBuy
+        ? triggerPrice * (1 + TRIGGER_ORDER_SLIPPAGE)
+        : triggerPrice * (1 - TRIGGER_ORDER_SLIPPAGE);
+      return {
+        a: asset.index,
+        b: closeIsBuy,
+        p: formatPerpOrderPrice(slippagePrice, asset.szDecimals, closeIsBuy),
+        s: sizeString,
+        r: true,
+        t: {
+          trigger: {
+            isMarket: true,
+            triggerPx: formatPerpOrderPrice(triggerPrice, asset.szDecimals, tpsl === "tp" ? isBuy : !isBuy),
+            tpsl,
+          },
+        },
+      };
+    };
+
+    const orders: OrderRequest["action"]["orders"] = [entryOrder];
+    if (takeProfitPrice !== undefined) orders.push(buildTrigger(takeProfitPrice, "tp"));
+    if (stopLossPrice !== undefined) orders.push(buildTrigger(stopLossPrice, "sl"));
+
+    console.log(`Bracket order parameters:
+      Asset: ${asset.name} (index ${asset.index})
+      Direction: ${isBuy ? "BUY" : "SELL"}
+      Size: ${sizeString} ${asset.name}
+      Entry: ${limitPrice !== undefined ? `limit ${entryOrder.p} (${tif})` : `market (IOC limit ${entryOrder.p})`}
+      Take Profit: ${takeProfitPrice ?? "none"}
+      Stop Loss: ${stopLossPrice ?? "none"}
+      Leverage: ${leverage}x ${marginMode}
+    `);
+
+    await setAssetLeverage(walletClient, asset.index, leverage, marginMode);
+
+    const statuses = await submitOrders(walletClient, orders, "normalTpsl");
+    const entryResult = mapOrderStatus(statuses[0]);
+
+    const resultData: HyperliquidBracketOrderResult = { ...entryResult };
+    let statusIndex = 1;
+    for (const order of orders.slice(1)) {
+      if (!("trigger" in order.t)) continue;
+      const childStatus = mapTriggerOrderStatus(statuses[statusIndex++], order.t.trigger.triggerPx);
+      if (order.t.trigger.tpsl === "tp") {
+        resultData.takeProfit = childStatus;
+      } else {
+        resultData.stopLoss = childStatus;
+      }
+    }
+
+    const childErrors = [resultData.takeProfit, resultData.stopLoss]
+      .filter((child): child is HyperliquidTriggerOrderStatus => child?.status === "error")
+      .map((child) => child.error);
+    if (childErrors.length > 0) {
+      console.warn("⚠️ Entry placed but some TP/SL orders were rejected:", childErrors);
+    }
+
+    return {
+      isSuccess: true,
+      message: childErrors.length > 0
+        ? `Entry ${entryResult.status === 'filled' ? 'filled' : 'placed'}, but TP/SL was rejected: ${childErrors.join("; ")}`
+        : `Entry ${entryResult.status === 'filled' ? 'filled' : 'placed'} with TP/SL attached.`,
+      data: resultData,
+    };
+  } catch (error) {
+    console.error(`Error placing bracket order:`, error);
+    return {
+      isSuccess: false,
+      message: mapOrderErrorMessage(error, "Failed to place bracket order."),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Places an entry order with attached take-profit and/or stop-loss trigger orders,
+ * submitted together as one `normalTpsl` grouped order.
+ * The entry is a market (IOC) order unless a limit price is given.
+ * TP/SL orders are reduce-only market triggers on the opposite side for the same size.
+ *
+ * @param {object} params - Parameters for the bracket order.
+ * @param {string} params.assetName - The coin name or UI symbol of the asset to trade (e.g., "ETH" or "ETH-PERP").
+ * @param {boolean} params.isBuy - True for a long entry, false for a short entry.
+ * @param {number} params.size - The entry size in base asset units. Truncated to the asset's `szDecimals`.
+ * @param {number} [params.leverage=10] - The leverage to use for the position.
+ * @param {HyperliquidMarginMode} [params.marginMode] - Cross or isolated margin. Defaults to cross (isolated for isolated-only assets).
+ * @param {number} [params.limitPrice] - Optional entry limit price. If omitted, the entry is a market (IOC) order.
+ * @param {HyperliquidLimitTif} [params.tif="Gtc"] - Time-in-force for a limit entry.
+ * @param {number} [params.slippageBps] - Slippage for a market entry, in basis points. Defaults to `DEFAULT_SLIPPAGE_BPS`.
+ * @param {number} [params.takeProfitPrice] - Take-profit trigger price. Must be on the profit side of the entry.
+ * @param {number} [params.stopLossPrice] - Stop-loss trigger price. Must be on the loss side of the entry.
+ * @param {Hex | null} [params.cloid] - Optional Client Order ID of the entry order. Reuse it when retrying; a cloid that was already recorded is not sent again. Generated if omitted.
+ * @param {PreTradeGuardContext} [params.guard] - Review context for the pre-trade freshness checks.
+ * @param {TradeLogContext} [params.log] - Prediction, template and staging context recorded in the Trade Log entry.
+ * @returns {Promise<ActionState<HyperliquidBracketOrderResult>>} An ActionState object containing the entry result and TP/SL statuses on success, or an error message on failure.
+ */
+export async function placeBracketOrderAction(
+  params: BracketOrderParams & { log?: TradeLogContext },
+): Promise<ActionState<HyperliquidBracketOrderResult>> {
+  const { assetName, isBuy, size, leverage = 10, marginMode, limitPrice, takeProfitPrice, stopLossPrice, slippageBps = DEFAULT_SLIPPAGE_BPS, cloid, log } = params;
+  console.log(`Executing placeBracketOrderAction for ${assetName}: ${isBuy ? "BUY" : "SELL"} ${size} (TP: ${takeProfitPrice ?? "none"}, SL: ${stopLossPrice ?? "none"})`);
+
+  // Validate size and leverage and resolve the asset. Unknown coins are rejected.
+  const prepared = await prepareOrder(assetName, size, leverage, marginMode);
+  if ("isSuccess" in prepared) {
+    return prepared;
+  }
+
+  const tradeLog = await openTradeLog({
+    ...log,
+    symbol: `${prepared.asset.name}${PERP_SYMBOL_SUFFIX}`,
+    direction: isBuy ? "long" : "short",
+    size: parseFloat(prepared.sizeString),
+    entryPrice: limitPrice ?? prepared.asset.midPx,
+    action: "open",
+    leverage,
+    slippageBps: limitPrice === undefined ? slippageBps : null,
+    cloid,
+  });
+  if ("isSuccess" in tradeLog) {
+    return tradeLog;
+  }
+
+  const result = await executeBracketOrder({ ...params, cloid: tradeLog.cloid as Hex }, prepared);
+  return finishTradeLog(tradeLog, result);
+}
+
+/**
+ * Closes all or part of an open position with a reduce-only IOC order on the opposite side.
+ * Reduce-only (`r: true`) guarantees the order can only shrink the position, never flip or grow it.
+ * Provide either `fraction` (e.g. 1 for a full close, 0.5 to halve) or an absolute `size` to reduce by.
+ * The close is recorded in the Trade Log (`action: 'close'`) once the position has been read, right before submission.
+ * Unlike opening orders, closes are allowed on delisted assets as long as Hyperliquid still reports a mid price.
+ *
+ * @param {object} params - Parameters for the close order.
+ * @param {string} params.assetName - The coin name or UI symbol of the position (e.g., "ETH" or "ETH-PERP").
+ * @param {number} [params.fraction] - Fraction of the position to close, between 0 (exclusive) and 1 (inclusive).
+ * @param {number} [params.size] - Absolute size to reduce by, in base asset units. Capped at the position size.
+ * @param {number} [params.slippageBps] - Slippage allowed on the close, in basis points. Defaults to `DEFAULT_SLIPPAGE_BPS`.
+ * @param {Hex | null} [params.cloid] - Optional Client Order ID. Reuse it when retrying; a cloid that was already recorded is not sent again. Generated if omitted.
+ * @returns {Promise<ActionState<HyperliquidClosePositionResult>>} An ActionState object containing the close order result on success, or an error message on failure.
+ */
+export async function closePositionAction(params: {
+  assetName: string;
+  fraction?: number;
+  size?: number;
+  slippageBps?: number;
+  cloid?: Hex | null;
+}): Promise<ActionState<HyperliquidClosePositionResult>> {
+  const { assetName, fraction, size, slippageBps = DEFAULT_SLIPPAGE_BPS, cloid } = params;
+  console.log(`Executing closePositionAction for ${assetName}: ${size !== undefined ? `reduce by ${size}` : `close ${(fraction ?? 1) * 100}%`}`);
+
+  // Set once the close is recorded, so a failure after that point updates the entry
+  let tradeLog: TradeLogEntry | null = null;
+
+  try {
+    const { walletClient, publicClient, config } = setupClients();
+
+    // Ensure wallet client is available (API secret must be configured)
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
+
+    const slippageError = getSlippageError(slippageBps);
+    if (slippageError) {
+      return { isSuccess: false, message: slippageError, error: "Invalid slippage." };
+    }
+
+    if (size !== undefined && (!Number.isFinite(size) || size <= 0)) {
+      return {
+        isSuccess: false,
+        message: "Size to reduce by must be greater than zero.",
+        error: "Invalid reduce size.",
+      };
+    }
+
+    if (fraction !== undefined && (!Number.isFinite(fraction) || fraction <= 0 || fraction > 1)) {
+      return {
+        isSuccess: false,
+        message: "Close fraction must be greater than 0 and at most 1.",
+        error: "Invalid close fraction.",
+      };
+    }
+
+    // Reduce-only, so positions in delisted coins can still be closed
+    const asset = await resolvePerpAsset(assetName, true);
+
+    // Read the current position so the close size never exceeds it
+    const clearinghouseState = await publicClient.clearinghouseState({ user: config.account.address });
+    const position = clearinghouseState.assetPositions.find((p) => p.position.coin === asset.name);
+    const positionSize = parseFloat(position?.position.szi ?? "0");
+    if (!position || !Number.isFinite(positionSize) || positionSize === 0) {
+      return {
+        isSuccess: false,
+        message: `No open ${asset.name} position to close.`,
+        error: "Position not found.",
+      };
+    }
+
+    const isLong = positionSize > 0;
+    const absPositionSize = Math.abs(positionSize);
+    const requestedSize = size !== undefined ? Math.min(size, absPositionSize) : absPositionSize * (fraction ?? 1);
+    // Hyperliquid reports szi already rounded to szDecimals, so a full close can use it verbatim
+    const isFullClose = requestedSize >= absPositionSize;
+    const sizeString = isFullClose
+      ? position.position.szi.replace("-", "")
+      : formatOrderSize(requestedSize, asset.szDecimals);
+
+    if (parseFloat(sizeString) <= 0) {
+      return {
+        isSuccess: false,
+        message: `Size to close (${requestedSize} ${asset.name}) is below the minimum size increment (${getSizeIncrement(asset.szDecimals)} ${asset.name}).`,
+        error: "Order size too small.",
+      };
+    }
+
+    // Partial closes still need to meet the $10 minimum; closing the full position does not
+    const orderValue = parseFloat(sizeString) * asset.midPx;
+    if (!isFullClose && orderValue < 10) {
+      return {
+        isSuccess: false,
+        message: `Close value ($${orderValue.toFixed(2)}) is below Hyperliquid's minimum of $10. Close the full position instead.`,
+        error: "Order value too small",
+      };
+    }
+
+    // Closing trades on the opposite side of the position, with an IOC limit at the mid price plus slippage
+    const isBuy = !isLong;
+    const limitPrice = applySlippage(asset.midPx, slippageBps, isBuy ? "long" : "short");
+    const priceString = formatPerpOrderPrice(limitPrice, asset.szDecimals, isBuy);
+
+    console.log(`Close order parameters:
+      Asset: ${asset.name} (index ${asset.index})
+      Position: ${isLong ? "LONG" : "SHORT"} ${absPositionSize}
+      Close: ${isBuy ? "BUY" : "SELL"} ${sizeString} (${isFullClose ? "full" : "partial"})
+      Limit Price: ${priceString} (mid: ${asset.midPx})
+    `);
+
+    const openedLog = await openTradeLog({
+      symbol: `${asset.name}${PERP_SYMBOL_SUFFIX}`,
+      direction: isLong ? "long" : "short",
+      size: parseFloat(sizeString),
+      entryPrice: asset.midPx,
+      action: "close",
+      slippageBps,
+      stagingMarkPrice: asset.midPx,
+      cloid,
+    });
+    if ("isSuccess" in openedLog) {
+      return openedLog;
+    }
+    tradeLog = openedLog;
+
+    const resultData = await submitSingleOrder(walletClient, {
+      a: asset.index,
+      b: isBuy,
+      p: priceString,
+      s: sizeString,
+      r: true,           // Reduce-only: can only shrink the position
+      t: { limit: { tif: "Ioc" } },
+      c: tradeLog.cloid as Hex,
+    });
+
+    return finishTradeLog<HyperliquidClosePositionResult>(tradeLog, {
+      isSuccess: true,
+      message: `${isFullClose ? "Closed" : "Reduced"} ${asset.name} ${isLong ? "long" : "short"} by ${sizeString}${resultData.status === 'filled' ? ` at ${resultData.avgPx}` : ""}.`,
+      data: {
+        ...resultData,
+        assetName: asset.name,
+        positionDirection: isLong ? "long" : "short",
+        closedSize: sizeString,
+        isFullClose,
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Error closing position for ${assetName}:`, error);
+    const failure: ActionState<HyperliquidClosePositionResult> = {
+      isSuccess: false,
+      message: mapOrderErrorMessage(error, "Failed to close position."),
+      error: error instanceof Error ? error.message : String(error),
+    };
+    return tradeLog ? finishTradeLog<HyperliquidClosePositionResult>(tradeLog, failure) : failure;
+  }
+}
+
+/**
+ * Closes every open position with reduce-only market orders.
+ * Positions are closed one at a time; a failure on one position does not stop the others.
+ *
+ * @returns {Promise<ActionState<HyperliquidCloseAllEntry[]>>} An ActionState object containing the per-position outcomes, or an error message if positions could not be read.
+ */
+export async function closeAllPositionsAction(): Promise<ActionState<HyperliquidCloseAllEntry[]>> {
+  console.log("Executing closeAllPositionsAction");
+
+  try {
+    const { walletClient, publicClient, config } = setupClients();
+
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
 
-      // Submit the leverage update using the wallet client
-      const leverageResponse = await walletClient.updateLeverage(setLeveragePayload);
-      console.log("Leverage update response:", JSON.stringify(leverageResponse, null, 2));
+    const clearinghouseState = await publicClient.clearinghouseState({ user: config.account.address });
+    const openPositions = clearinghouseState.assetPositions.filter((p) => parseFloat(p.position.szi || "0") !== 0);
 
-      if (leverageResponse.status !== "ok") {
-        throw new Error(`Failed to set leverage: ${leverageResponse.status}`);
-      }
+    if (openPositions.length === 0) {
+      return {
+        isSuccess: true,
+        message: "No open positions to close.",
+        data: [],
+      };
+    }
 
-      console.log(`Successfully set leverage to ${leverage}x for asset index ${assetIndex}`);
-    } catch (leverageError: any) {
-      console.error("Error setting leverage:", leverageError);
-      throw new Error(`Failed to set leverage: ${leverageError.message || "Unknown error"}`);
+    const entries: HyperliquidCloseAllEntry[] = [];
+    for (const position of openPositions) {
+      const outcome = await closePositionAction({ assetName: position.position.coin, fraction: 1 });
+      entries.push({
+        assetName: position.position.coin,
+        positionDirection: parseFloat(position.position.szi) > 0 ? "long" : "short",
+        size: position.position.szi.replace("-", ""),
+        outcome,
+      });
     }
 
-    // Construct the order using a simpler approach
-    const orders = [{
-      a: assetIndex,     // Asset index
-      b: isBuy,          // Buy/Sell flag
-      p: priceString,    // Price as string with guaranteed tick size compliance
-      s: sizeString,     // Size as string
-      r: false,          // Reduce-only flag
-      t: { limit: { tif: "Ioc" } }  // Use IOC to simulate market order
-    }];
+    const failedCount = entries.filter((entry) => !entry.outcome.isSuccess).length;
+    if (failedCount > 0) {
+      console.warn(`⚠️ ${failedCount} of ${entries.length} positions could not be closed`);
+    }
 
-    const orderPayload = {
-      orders,
-      grouping: "na"
+    return {
+      isSuccess: true,
+      message: failedCount > 0
+        ? `Closed ${entries.length - failedCount} of ${entries.length} positions. ${failedCount} failed.`
+        : `Closed all ${entries.length} positions.`,
+      data: entries,
     };
+  } catch (error) {
+    console.error("❌ Error closing all positions:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      isSuccess: false,
+      message: `Failed to close positions: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
 
-    console.log("Sending order data:", JSON.stringify(orderPayload, null, 2));
+/**
+ * Adds margin to or removes margin from an open isolated position.
+ *
+ * @param {object} params - Parameters for the margin update.
+ * @param {string} params.assetName - The coin name or UI symbol of the position (e.g., "ETH" or "ETH-PERP").
+ * @param {number} params.amount - USD to add (positive) or remove (negative). Hyperliquid accepts up to 6 decimals.
+ * @returns {Promise<ActionState<HyperliquidIsolatedMarginResult>>} An ActionState object containing the applied change on success, or an error message on failure.
+ */
+export async function updateIsolatedMarginAction(params: {
+  assetName: string;
+  amount: number;
+}): Promise<ActionState<HyperliquidIsolatedMarginResult>> {
+  const { assetName, amount } = params;
+  console.log(`Executing updateIsolatedMarginAction for ${assetName}: ${amount > 0 ? "add" : "remove"} $${Math.abs(amount)}`);
 
-    try {
-      // Use the SDK but cast to any to bypass TypeScript errors
-      const orderPayloadAny: any = {
-        type: "order",
-        orders: [{
-          a: assetIndex,
-          b: isBuy,
-          p: priceString,
-          s: sizeString,
-          r: false,
-          t: { limit: { tif: "Ioc" } }
-        }],
-        grouping: "na"
-      };
-
-      console.log("About to submit order with payload:", JSON.stringify(orderPayloadAny, null, 2));
-
-      // Submit the order using the wallet client, bypassing TypeScript with any
-      const orderResponse = await walletClient.order(orderPayloadAny);
-      console.log("Order response:", JSON.stringify(orderResponse, null, 2));
-
-      if (orderResponse.status !== "ok") {
-        throw new Error(`API returned status: ${orderResponse.status}`);
-      }
+  try {
+    const { walletClient, publicClient, config } = setupClients();
 
-      // Process successful response
-      const statusData = orderResponse.response.data.statuses[0];
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
 
-      // Check for API error
-      if (statusData && "error" in statusData && statusData.error) {
-        const errorMsg = statusData.error;
-        console.error("API error:", errorMsg);
+    // Hyperliquid takes the amount as an integer number of micro-USD
+    const ntli = Math.round(amount * 1e6);
+    if (!Number.isFinite(amount) || ntli === 0) {
+      return {
+        isSuccess: false,
+        message: "Margin amount must be a non-zero number of USD.",
+        error: "Invalid margin amount.",
+      };
+    }
 
-        if (errorMsg.includes("size too small")) {
-          throw new Error(`Order size too small. Minimum trade size may be higher.`);
-        } else if (errorMsg.includes("master trade switch")) {
-          throw new Error("Master trade switch is disabled. Please enable it in settings.");
-        } else {
-          throw new Error(`Order error: ${errorMsg}`);
-        }
-      }
+    const asset = await lookupPerpAsset(assetName);
 
-      // Handle order outcome
-      let resultData: HyperliquidOrderResult = {
-        oid: -1,
-        status: 'resting'  // Default to 'resting' instead of 'unknown'
+    // Only isolated positions have their own margin to adjust
+    const clearinghouseState = await publicClient.clearinghouseState({ user: config.account.address });
+    const position = clearinghouseState.assetPositions.find((p) => p.position.coin === asset.name)?.position;
+    const positionSize = parseFloat(position?.szi ?? "0");
+    if (!position || !Number.isFinite(positionSize) || positionSize === 0) {
+      return {
+        isSuccess: false,
+        message: `No open ${asset.name} position to adjust.`,
+        error: "No open position.",
+      };
+    }
+    if (position.leverage.type !== "isolated") {
+      return {
+        isSuccess: false,
+        message: `The ${asset.name} position uses cross margin. Only isolated positions have margin to add or remove.`,
+        error: "Position is not isolated.",
       };
+    }
 
-      if (statusData && "resting" in statusData && statusData.resting) {
-        // Order is resting
-        resultData = {
-          oid: statusData.resting.oid,
-          cloid: statusData.resting.cloid,
-          status: 'resting',
-        };
-      } else if (statusData && "filled" in statusData && statusData.filled) {
-        // Order filled
-        resultData = {
-          oid: statusData.filled.oid,
-          cloid: statusData.filled.cloid,
-          status: 'filled',
-          totalSz: statusData.filled.totalSz,
-          avgPx: statusData.filled.avgPx,
-        };
-      } else {
-        throw new Error("Unexpected response structure");
-      }
+    const previousMargin = parseFloat(position.marginUsed) || 0;
+    const response = await walletClient.updateIsolatedMargin({ asset: asset.index, isBuy: positionSize > 0, ntli });
+    console.log("Isolated margin update response:", JSON.stringify(response, null, 2));
+
+    console.log(`✅ ${amount > 0 ? "Added" : "Removed"} $${Math.abs(amount)} of isolated margin on ${asset.name}`);
+    return {
+      isSuccess: true,
+      message: `${amount > 0 ? "Added" : "Removed"} $${Math.abs(amount).toFixed(2)} ${amount > 0 ? "to" : "from"} the ${asset.name} position's margin.`,
+      data: { assetName: asset.name, amount, previousMargin },
+    };
+  } catch (error) {
+    console.error(`❌ Error updating isolated margin for ${assetName}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      isSuccess: false,
+      message: `Failed to update isolated margin: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Fetches the open (resting or untriggered) orders for the configured wallet.
+ * Uses the `frontendOpenOrders` endpoint so order type, time-in-force and trigger details are included.
+ *
+ * @returns {Promise<ActionState<HyperliquidOpenOrder[]>>} An ActionState object containing the open orders (newest first) on success, or an error message on failure.
+ */
+export async function fetchOpenOrdersAction(): Promise<ActionState<HyperliquidOpenOrder[]>> {
+  console.log("Executing fetchOpenOrdersAction");
+  try {
+    const { publicClient, config } = setupClients();
+
+    if (!config.account) {
+      console.error("Hyperliquid wallet account not configured.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid.",
+        error: "Wallet account setup failed.",
+      };
+    }
+
+    const openOrders = await publicClient.frontendOpenOrders({ user: config.account.address });
+    const sortedOrders = [...openOrders].sort((a, b) => b.timestamp - a.timestamp);
+    console.log(`Found ${sortedOrders.length} open orders`);
+
+    return {
+      isSuccess: true,
+      message: "Successfully fetched open orders.",
+      data: sortedOrders,
+    };
+  } catch (error: unknown) {
+    console.error("❌ Error fetching open orders:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch open orders: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Counts the successful entries of a cancel response and collects the rejection reasons.
+ */
+function mapCancelStatuses(statuses: ("success" | { error: string })[]): HyperliquidCancelResult {
+  const errors = statuses
+    .filter((status): status is { error: string } => typeof status === "object" && "error" in status)
+    .map((status) => status.error);
+  return {
+    cancelledCount: statuses.length - errors.length,
+    errors,
+  };
+}
+
+/**
+ * Cancels a single open order, identified either by its order ID or by its client order ID.
+ *
+ * @param {object} params - Parameters for the cancel request.
+ * @param {string} params.assetName - The coin name or UI symbol of the order's asset (e.g., "ETH" or "ETH-PERP").
+ * @param {number} [params.oid] - The Hyperliquid order ID. Takes precedence over `cloid` if both are given.
+ * @param {Hex} [params.cloid] - The client order ID the order was placed with.
+ * @returns {Promise<ActionState<HyperliquidCancelResult>>} An ActionState object containing the cancel result on success, or an error message on failure.
+ */
+export async function cancelOrderAction(params: {
+  assetName: string;
+  oid?: number;
+  cloid?: Hex;
+}): Promise<ActionState<HyperliquidCancelResult>> {
+  const { assetName, oid, cloid } = params;
+  console.log(`Executing cancelOrderAction for ${assetName}: ${oid !== undefined ? `oid ${oid}` : `cloid ${cloid}`}`);
+
+  try {
+    const { walletClient, config } = setupClients();
+
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
+
+    if (oid === undefined && !cloid) {
+      return {
+        isSuccess: false,
+        message: "An order ID or client order ID is required to cancel an order.",
+        error: "Missing order identifier.",
+      };
+    }
+
+    const asset = await resolvePerpAsset(assetName);
+
+    const cancelResponse = oid !== undefined
+      ? await walletClient.cancel({ cancels: [{ a: asset.index, o: oid }] })
+      : await walletClient.cancelByCloid({ cancels: [{ asset: asset.index, cloid: cloid as Hex }] });
+    console.log("Cancel response:", JSON.stringify(cancelResponse, null, 2));
+
+    const result = mapCancelStatuses(cancelResponse.response.data.statuses);
+    if (result.cancelledCount === 0) {
+      return {
+        isSuccess: false,
+        message: `Failed to cancel order: ${result.errors.join("; ") || "Unknown error"}`,
+        error: result.errors.join("; "),
+      };
+    }
+
+    return {
+      isSuccess: true,
+      message: `Cancelled ${asset.name} order ${oid ?? cloid}.`,
+      data: result,
+    };
+  } catch (error) {
+    console.error(`❌ Error cancelling order:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      isSuccess: false,
+      message: `Failed to cancel order: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Cancels every open order for a single asset in one batched cancel request.
+ *
+ * @param {string} assetName - The coin name or UI symbol of the asset (e.g., "ETH" or "ETH-PERP").
+ * @returns {Promise<ActionState<HyperliquidCancelResult>>} An ActionState object containing how many orders were cancelled on success, or an error message on failure.
+ */
+export async function cancelAllOrdersForAssetAction(
+  assetName: string,
+): Promise<ActionState<HyperliquidCancelResult>> {
+  console.log(`Executing cancelAllOrdersForAssetAction for ${assetName}`);
 
+  try {
+    const { walletClient, publicClient, config } = setupClients();
+
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
+
+    const asset = await resolvePerpAsset(assetName);
+    const openOrders = await publicClient.openOrders({ user: config.account.address });
+    const assetOrders = openOrders.filter((order) => order.coin === asset.name);
+
+    if (assetOrders.length === 0) {
       return {
         isSuccess: true,
-        message: `Order ${resultData.status === 'filled' ? 'filled' : 'placed'} successfully.`,
-        data: resultData,
+        message: `No open ${asset.name} orders to cancel.`,
+        data: { cancelledCount: 0, errors: [] },
+      };
+    }
+
+    const cancelResponse = await walletClient.cancel({
+      cancels: assetOrders.map((order) => ({ a: asset.index, o: order.oid })),
+    });
+    console.log("Cancel-all response:", JSON.stringify(cancelResponse, null, 2));
+
+    const result = mapCancelStatuses(cancelResponse.response.data.statuses);
+    return {
+      isSuccess: true,
+      message: result.errors.length > 0
+        ? `Cancelled ${result.cancelledCount} of ${assetOrders.length} ${asset.name} orders. Errors: ${result.errors.join("; ")}`
+        : `Cancelled ${result.cancelledCount} ${asset.name} order${result.cancelledCount === 1 ? "" : "s"}.`,
+      data: result,
+    };
+  } catch (error) {
+    console.error(`❌ Error cancelling orders for ${assetName}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      isSuccess: false,
+      message: `Failed to cancel ${assetName} orders: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Modifies the price and/or size of an open order.
+ * The order's side, reduce-only flag, time-in-force and trigger type are kept from the existing order.
+ * For trigger (TP/SL) orders the new price is the trigger price; triggered market orders keep a
+ * wide slippage limit so they still fill once triggered.
+ *
+ * @param {object} params - Parameters for the modification.
+ * @param {string} params.assetName - The coin name or UI symbol of the order's asset (e.g., "ETH" or "ETH-PERP").
+ * @param {number} params.oid - The order ID of the open order to modify.
+ * @param {number} params.price - The new limit price (or trigger price for trigger orders).
+ * @param {number} params.size - The new order size in base asset units. Truncated to the asset's `szDecimals`.
+ * @returns {Promise<ActionState<HyperliquidModifyResult>>} An ActionState object containing the submitted price and size on success, or an error message on failure.
+ */
+export async function modifyOrderAction(params: {
+  assetName: string;
+  oid: number;
+  price: number;
+  size: number;
+}): Promise<ActionState<HyperliquidModifyResult>> {
+  const { assetName, oid, price, size } = params;
+  console.log(`Executing modifyOrderAction for ${assetName} order ${oid}: price ${price}, size ${size}`);
+
+  try {
+    const { walletClient, publicClient, config } = setupClients();
+
+    if (!walletClient || !config.account) {
+      console.error("Hyperliquid WalletClient not configured. API Secret is required for trading.");
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid. Please check your environment variables.",
+        error: "Wallet client setup failed.",
+      };
+    }
+
+    if (!Number.isFinite(price) || price <= 0) {
+      return {
+        isSuccess: false,
+        message: "Price must be greater than zero.",
+        error: "Invalid price.",
+      };
+    }
+
+    if (!Number.isFinite(size) || size <= 0) {
+      return {
+        isSuccess: false,
+        message: "Order size must be greater than zero.",
+        error: "Invalid order size.",
+      };
+    }
+
+    const asset = await resolvePerpAsset(assetName);
+
+    // The existing order provides the fields that are not being changed
+    const openOrders = await publicClient.frontendOpenOrders({ user: config.account.address });
+    const existingOrder = openOrders.find((order) => order.oid === oid);
+    if (!existingOrder) {
+      return {
+        isSuccess: false,
+        message: `Order ${oid} is no longer open. It may have been filled or cancelled.`,
+        error: "Order not found.",
+      };
+    }
+
+    const isBuy = existingOrder.side === "B";
+    const sizeString = formatOrderSize(size, asset.szDecimals);
+    if (parseFloat(sizeString) <= 0) {
+      return {
+        isSuccess: false,
+        message: `Order size (${size} ${asset.name}) is below the minimum size increment (${getSizeIncrement(asset.szDecimals)} ${asset.name}).`,
+        error: "Order size too small.",
+      };
+    }
+
+    let priceString: string;
+    let orderType: OrderRequest["action"]["orders"][number]["t"];
+    if (existingOrder.isTrigger) {
+      const isMarket = existingOrder.orderType.endsWith("Market");
+      const tpsl = existingOrder.orderType.startsWith("Take Profit") ? "tp" : "sl";
+      const limitPrice = isMarket
+        ? (isBuy ? price * (1 + TRIGGER_ORDER_SLIPPAGE) : price * (1 - TRIGGER_ORDER_SLIPPAGE))
+        : price;
+      priceString = formatPerpOrderPrice(limitPrice, asset.szDecimals, isBuy);
+      orderType = {
+        trigger: {
+          isMarket,
+          triggerPx: formatPerpOrderPrice(price, asset.szDecimals, isBuy),
+          tpsl,
+        },
       };
+    } else {
+      // Same rounding as placeLimitOrderAction: buys down, sells up
+      priceString = formatPerpOrderPrice(price, asset.szDecimals, !isBuy);
+      const tif = existingOrder.tif === "Alo" || existingOrder.tif === "Ioc" ? existingOrder.tif : "Gtc";
+      orderType = { limit: { tif } };
+    }
 
-    } catch (error) {
-      console.error("Order submission error:", error);
-      throw error;
+    // Reduce-only orders are exempt from the $10 minimum
+    const orderValue = parseFloat(sizeString) * price;
+    if (!existingOrder.reduceOnly && orderValue < 10) {
+      return {
+        isSuccess: false,
+        message: `Order value ($${orderValue.toFixed(2)}) is below Hyperliquid's minimum of $10.`,
+        error: "Order value too small",
+      };
     }
 
+    const modifyPayload = {
+      oid,
+      order: {
+        a: asset.index,
+        b: isBuy,
+        p: priceString,
+        s: sizeString,
+        r: existingOrder.reduceOnly,
+        t: orderType,
+        ...(existingOrder.cloid ? { c: existingOrder.cloid } : {}),
+      },
+    };
+    console.log("Submitting order modification:", JSON.stringify(modifyPayload, null, 2));
+
+    const modifyResponse = await walletClient.modify(modifyPayload);
+    console.log("Modify response:", JSON.stringify(modifyResponse, null, 2));
+
+    return {
+      isSuccess: true,
+      message: `Order ${oid} updated to ${sizeString} ${asset.name} @ ${priceString}.`,
+      data: { oid, price: priceString, size: sizeString },
+    };
   } catch (error) {
-    console.error(`Error placing order:`, error);
+    console.error(`❌ Error modifying order ${oid}:`, error);
+    return {
+      isSuccess: false,
+      message: mapOrderErrorMessage(error, "Failed to modify order."),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
 
-    let errorMessage = "Failed to place market order.";
-    let errorDetails = error instanceof Error ? error.message : String(error);
-
-    // Handle specific error types
-    if (error instanceof Error) {
-      if (error.message.includes("Order value too large")) {
-        errorMessage = "Order value exceeds Hyperliquid's maximum.";
-      } else if (error.message.includes("minimum value")) {
-        errorMessage = "Order value below Hyperliquid's $10 minimum.";
-      } else if (error.message.includes("tick size")) {
-        errorMessage = "Price must be in increments of Hyperliquid's tick size.";
-      } else if (error.message.includes("master trade switch")) {
-        errorMessage = "Master trade switch is disabled on Hyperliquid.";
-      } else {
-        errorMessage = `API Error: ${error.message}`;
+/**
+ * Fetches the user's current fee rates and fee tier from Hyperliquid.
+ * Used to show the expected fee for an order before it is confirmed.
+ *
+ * @returns {Promise<ActionState<HyperliquidFeeRates>>} An ActionState object containing the taker/maker rates and tier label on success, or an error message on failure.
+ */
+export async function fetchUserFeeRatesAction(): Promise<ActionState<HyperliquidFeeRates>> {
+  console.log("Executing fetchUserFeeRatesAction");
+  try {
+    const { publicClient, config } = setupClients();
+
+    if (!config.account) {
+      return {
+        isSuccess: false,
+        message: "Hyperliquid API secret not configured or invalid.",
+        error: "Wallet account setup failed.",
+      };
+    }
+
+    const fees = await publicClient.userFees({ user: config.account.address });
+    const { feeSchedule } = fees;
+
+    // Work out which VIP tier the user's taker rate corresponds to
+    let tier = "Custom";
+    if (fees.userCrossRate === feeSchedule.cross) {
+      tier = "Base";
+    } else {
+      const vipIndex = feeSchedule.tiers.vip.findIndex((vip) => vip.cross === fees.userCrossRate);
+      if (vipIndex !== -1) {
+        tier = `VIP ${vipIndex + 1}`;
       }
     }
 
+    const feeRates: HyperliquidFeeRates = {
+      takerRate: parseFloat(fees.userCrossRate),
+      makerRate: parseFloat(fees.userAddRate),
+      tier,
+    };
+    console.log("Fetched user fee rates:", feeRates);
+
+    return {
+      isSuccess: true,
+      message: "Successfully fetched Hyperliquid fee rates.",
+      data: feeRates,
+    };
+  } catch (error: unknown) {
+    console.error("❌ Error fetching Hyperliquid fee rates:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
     return {
       isSuccess: false,
-      message: errorMessage,
-      error: errorDetails,
+      message: `Failed to fetch Hyperliquid fee rates: ${errorMessage}`,
+      error: errorMessage,
     };
   }
 }
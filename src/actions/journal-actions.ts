@@ -0,0 +1,299 @@
+/**
+ * @description Server Actions for managing Trade Journal entries stored in the database.
+ * These actions interact with the Prisma client to perform CRUD operations on the TradeJournalEntry model,
+ * which holds the notes, tags, confidence rating and links attached to a Trade Log entry.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState, TradeJournalEntry and TradeJournalInput types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @prisma/client: Specifically for handling Prisma-related errors like unique constraint violations.
+ * - @/lib/journal: Validates and normalizes tags, confidence ratings and links.
+ *
+ * @notes
+ * - A Trade Log entry has at most one journal entry; creating a second one fails.
+ * - Tags are stored lowercase and deduped.
+ */
+"use server";
+
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import type { ActionState, TradeJournalEntry, TradeJournalInput } from "@/types";
+import prisma from "@/lib/prisma";
+import { getJournalConfidenceError, getJournalLinkError, normalizeJournalTags } from "@/lib/journal";
+
+/**
+ * Validates the editable journal fields that are present and returns them normalized.
+ * Throws an Error with a user-facing message for the first invalid field.
+ */
+function normalizeJournalFields(
+  data: Partial<Omit<TradeJournalInput, "tradeLogId">>,
+): Partial<Omit<TradeJournalInput, "tradeLogId">> {
+  const fields: Partial<Omit<TradeJournalInput, "tradeLogId">> = {};
+
+  if (data.notes !== undefined) {
+    if (typeof data.notes !== "string") {
+      throw new Error("Journal notes must be text.");
+    }
+    fields.notes = data.notes.trim();
+  }
+  if (data.tags !== undefined) {
+    if (!Array.isArray(data.tags) || data.tags.some((tag) => typeof tag !== "string")) {
+      throw new Error("Journal tags must be a list of text values.");
+    }
+    fields.tags = normalizeJournalTags(data.tags);
+  }
+  if (data.confidence !== undefined) {
+    const confidenceError = data.confidence !== null ? getJournalConfidenceError(data.confidence) : null;
+    if (confidenceError) {
+      throw new Error(`Journal confidence is invalid. ${confidenceError}`);
+    }
+    fields.confidence = data.confidence;
+  }
+  if (data.links !== undefined) {
+    if (!Array.isArray(data.links)) {
+      throw new Error("Journal links must be a list of URLs.");
+    }
+    const links = data.links.map((link) => String(link).trim()).filter((link) => link !== "");
+    const linkError = links.map(getJournalLinkError).find((error) => error !== null);
+    if (linkError) {
+      throw new Error(`Journal link is invalid. ${linkError}`);
+    }
+    fields.links = Array.from(new Set(links));
+  }
+
+  return fields;
+}
+
+/** Whether an error was thrown by `normalizeJournalFields` and carries a user-facing message. */
+function isJournalValidationError(message: string): boolean {
+  return message.startsWith("Journal ");
+}
+
+/**
+ * Fetches the journal entry of a Trade Log entry.
+ *
+ * @param {string} tradeLogId - The ID of the Trade Log entry.
+ * @returns {Promise<ActionState<TradeJournalEntry | null>>} An ActionState object containing the journal entry (null if the trade has none) on success, or an error message on failure.
+ */
+export async function getJournalEntryAction(
+  tradeLogId: string,
+): Promise<ActionState<TradeJournalEntry | null>> {
+  console.log(`Executing getJournalEntryAction for trade log ID: ${tradeLogId}`);
+  try {
+    const entry = await prisma.tradeJournalEntry.findUnique({
+      where: { tradeLogId },
+    });
+
+    return {
+      isSuccess: true,
+      message: entry ? "Successfully fetched journal entry." : "This trade has no journal entry.",
+      data: entry,
+    };
+  } catch (error: unknown) {
+    console.error(`❌ Error fetching journal entry for trade log ID ${tradeLogId}:`, error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch journal entry: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Fetches every tag used in journal entries, for the tag filters.
+ *
+ * @returns {Promise<ActionState<string[]>>} An ActionState object containing the distinct tags in alphabetical order on success, or an error message on failure.
+ */
+export async function getJournalTagsAction(): Promise<ActionState<string[]>> {
+  console.log("Executing getJournalTagsAction");
+  try {
+    const entries = await prisma.tradeJournalEntry.findMany({
+      where: { tags: { isEmpty: false } },
+      select: { tags: true },
+    });
+    const tags = Array.from(new Set(entries.flatMap((entry) => entry.tags))).sort();
+
+    console.log(`Successfully fetched ${tags.length} journal tags.`);
+    return {
+      isSuccess: true,
+      message: "Successfully fetched journal tags.",
+      data: tags,
+    };
+  } catch (error: unknown) {
+    console.error("❌ Error fetching journal tags:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch journal tags: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Creates the journal entry of a Trade Log entry.
+ *
+ * @param {TradeJournalInput} data - The Trade Log entry ID and the notes, tags, confidence rating and links.
+ * @returns {Promise<ActionState<TradeJournalEntry>>} An ActionState object containing the created entry on success, or an error message on failure.
+ */
+export async function createJournalEntryAction(
+  data: TradeJournalInput,
+): Promise<ActionState<TradeJournalEntry>> {
+  console.log("Executing createJournalEntryAction with data:", data);
+  try {
+    if (!data.tradeLogId || typeof data.tradeLogId !== "string") {
+      throw new Error("Journal entry must belong to a trade.");
+    }
+    const fields = normalizeJournalFields(data);
+
+    const newEntry = await prisma.tradeJournalEntry.create({
+      data: {
+        tradeLogId: data.tradeLogId,
+        notes: fields.notes ?? "",
+        tags: fields.tags ?? [],
+        confidence: fields.confidence ?? null,
+        links: fields.links ?? [],
+      },
+    });
+
+    console.log(`Successfully created journal entry ${newEntry.id} for trade log ID ${newEntry.tradeLogId}`);
+    return {
+      isSuccess: true,
+      message: "Journal entry saved.",
+      data: newEntry,
+    };
+  } catch (error: unknown) {
+    console.error("❌ Error creating journal entry:", error);
+    let errorMessage = "An unknown error occurred";
+    let userMessage = "Failed to save journal entry.";
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      if (error.code === "P2002") {
+        // Unique constraint on 'tradeLogId'
+        userMessage = "Failed to save journal entry: This trade already has a journal entry. Refresh and edit it instead.";
+        errorMessage = `Unique constraint violation on field: ${error.meta?.target}`;
+      } else if (error.code === "P2003") {
+        // Foreign key constraint on 'tradeLogId'
+        userMessage = "Failed to save journal entry: Trade not found.";
+        errorMessage = `Trade log entry not found (ID: ${data.tradeLogId})`;
+      } else {
+        errorMessage = `Prisma error (${error.code}): ${error.message}`;
+      }
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+      // Use specific validation messages if thrown
+      if (isJournalValidationError(errorMessage)) {
+        userMessage = `Failed to save journal entry: ${errorMessage}`;
+      }
+    }
+
+    return {
+      isSuccess: false,
+      message: userMessage,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Updates an existing journal entry.
+ *
+ * @param {string} id - The ID of the journal entry to update.
+ * @param {Partial<Omit<TradeJournalInput, 'tradeLogId'>>} data - The fields to update (notes, tags, confidence, links).
+ * @returns {Promise<ActionState<TradeJournalEntry>>} An ActionState object containing the updated entry on success, or an error message on failure.
+ */
+export async function updateJournalEntryAction(
+  id: string,
+  data: Partial<Omit<TradeJournalInput, "tradeLogId">>,
+): Promise<ActionState<TradeJournalEntry>> {
+  console.log(`Executing updateJournalEntryAction for ID: ${id} with data:`, data);
+  try {
+    const fields = normalizeJournalFields(data);
+
+    const updatedEntry = await prisma.tradeJournalEntry.update({
+      where: { id },
+      data: fields,
+    });
+
+    console.log(`Successfully updated journal entry ${updatedEntry.id}`);
+    return {
+      isSuccess: true,
+      message: "Journal entry updated.",
+      data: updatedEntry,
+    };
+  } catch (error: unknown) {
+    console.error(`❌ Error updating journal entry ID ${id}:`, error);
+    let errorMessage = "An unknown error occurred";
+    let userMessage = "Failed to update journal entry.";
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      if (error.code === "P2025") {
+        // Handle case where the entry to update doesn't exist
+        userMessage = "Failed to update journal entry: Entry not found.";
+        errorMessage = `Record to update not found (ID: ${id})`;
+      } else {
+        errorMessage = `Prisma error (${error.code}): ${error.message}`;
+      }
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+      // Use specific validation messages if thrown
+      if (isJournalValidationError(errorMessage)) {
+        userMessage = `Failed to update journal entry: ${errorMessage}`;
+      }
+    }
+
+    return {
+      isSuccess: false,
+      message: userMessage,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Deletes a journal entry. The Trade Log entry itself is kept.
+ *
+ * @param {string} id - The ID of the journal entry to delete.
+ * @returns {Promise<ActionState<{ id: string }>>} An ActionState object containing the deleted entry's ID on success, or an error message on failure.
+ */
+export async function deleteJournalEntryAction(
+  id: string,
+): Promise<ActionState<{ id: string }>> {
+  console.log(`Executing deleteJournalEntryAction for ID: ${id}`);
+  try {
+    await prisma.tradeJournalEntry.delete({
+      where: { id },
+    });
+
+    console.log(`Successfully deleted journal entry (ID: ${id})`);
+    return {
+      isSuccess: true,
+      message: "Journal entry deleted.",
+      data: { id },
+    };
+  } catch (error: unknown) {
+    console.error(`❌ Error deleting journal entry ID ${id}:`, error);
+    let errorMessage = "An unknown error occurred";
+    let userMessage = "Failed to delete journal entry.";
+
+    if (error instanceof PrismaClientKnownRequestError) {
+      if (error.code === "P2025") {
+        // Handle case where the entry to delete doesn't exist
+        userMessage = "Failed to delete journal entry: Entry not found.";
+        errorMessage = `Record to delete not found (ID: ${id})`;
+      } else {
+        errorMessage = `Prisma error (${error.code}): ${error.message}`;
+      }
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+
+    return {
+      isSuccess: false,
+      message: userMessage,
+      error: errorMessage,
+    };
+  }
+}
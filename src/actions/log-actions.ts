@@ -3,26 +3,36 @@
  * These actions interact with the Prisma client to create and retrieve records from the TradeLog model.
  *
  * @dependencies
- * - @/types: Provides ActionState and TradeLogEntry types.
+ * - @/types: Provides ActionState and the Trade Log entry, query and page types.
  * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
  * - @prisma/client: For Prisma-related types and potential errors.
+ * - @/lib/notifier: Delivers 'tradeFilled' / 'tradeFailed' events to the notification channels.
+ * - @/lib/trade-log: Builds the notification events for logged trades and runs paginated Trade Log reads.
+ *
+ * @notes
+ * - Orders placed through the app are logged server-side by the order Server Actions (see `@/lib/trade-log`).
+ *   `logTradeAction` records trades that happen outside them.
  */
 "use server";
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
-import type { ActionState, TradeLogEntry } from "@/types";
+import type { ActionState, TradeLogEntry, TradeLogPage, TradeLogQuery } from "@/types";
 import prisma from "@/lib/prisma";
+import { dispatchNotifications } from "@/lib/notifier";
+import { buildTradeNotificationEvent, queryTradeLog } from "@/lib/trade-log";
 import { Prisma } from "@prisma/client";
 
 /**
  * Creates a new Trade Log entry in the database.
- * This action is typically called after a trade attempt (successful or failed).
+ * Used for trades made outside the order Server Actions, which write their own entries.
+ * Filled and failed trades are also delivered to the configured notification channels.
  *
- * @param {Omit<TradeLogEntry, 'id' | 'timestamp'>} data - The details of the trade to log.
- * Includes symbol, direction, size, entryPrice, status, and optionally hyperliquidOrderId and errorMessage.
+ * @param {Omit<TradeLogEntry, 'id' | 'timestamp' | 'journal'>} data - The details of the trade to log.
+ * Includes symbol, direction, size, entryPrice, status, and optionally hyperliquidOrderId, errorMessage and action ('open' or 'close').
+ * May also carry the trade's context (source prediction, template, leverage, slippage and mark price at staging time).
  * @returns {Promise<ActionState<TradeLogEntry>>} An ActionState object containing the created log entry on success, or an error message on failure.
  */
 export async function logTradeAction(
-  data: Omit<TradeLogEntry, "id" | "timestamp">,
+  data: Omit<TradeLogEntry, "id" | "timestamp" | "journal">,
 ): Promise<ActionState<TradeLogEntry>> {
   const startTime = Date.now();
   console.log("[TradeLog] Starting to log trade with data:", JSON.stringify(data, null, 2));
@@ -60,6 +70,18 @@ export async function logTradeAction(
       ...data,
       hyperliquidOrderId: data.hyperliquidOrderId || null,
       errorMessage: data.errorMessage || null,
+      action: data.action || "open",
+      predictionTopicId: data.predictionTopicId ?? null,
+      predictionTimeframe: data.predictionTimeframe || null,
+      predictionTimestamp: data.predictionTimestamp ? new Date(data.predictionTimestamp) : null,
+      predictedPrice: data.predictedPrice ?? null,
+      confidenceIntervalValues: data.confidenceIntervalValues ?? [],
+      confidenceIntervalPercentiles: data.confidenceIntervalPercentiles ?? [],
+      templateId: data.templateId || null,
+      leverage: data.leverage ?? null,
+      slippageBps: data.slippageBps ?? null,
+      stagingMarkPrice: data.stagingMarkPrice ?? null,
+      cloid: data.cloid || null,
     };
 
     console.log("[TradeLog] Attempting to create entry with data:", JSON.stringify(entryData, null, 2));
@@ -77,11 +99,20 @@ export async function logTradeAction(
         symbol: newLogEntry.symbol,
         direction: newLogEntry.direction,
         status: newLogEntry.status,
+        action: newLogEntry.action,
+        predictionTopicId: newLogEntry.predictionTopicId,
+        templateId: newLogEntry.templateId,
         hyperliquidOrderId: newLogEntry.hyperliquidOrderId,
         errorMessage: newLogEntry.errorMessage
       }, null, 2)
     );
 
+    // Notify before the connection is closed below; delivery problems are logged, never thrown
+    const notificationEvent = buildTradeNotificationEvent(newLogEntry);
+    if (notificationEvent) {
+      await dispatchNotifications([notificationEvent]);
+    }
+
     return {
       isSuccess: true,
       message: `Trade logged successfully with status: ${newLogEntry.status}.`,
@@ -132,52 +163,33 @@ export async function logTradeAction(
 }
 
 /**
- * Fetches recent Trade Log entries from the database.
+ * Fetches a page of Trade Log entries matching a query.
  *
- * @param {number} [limit=50] - The maximum number of log entries to fetch. Defaults to 50.
- * @param {number} [timestamp] - Optional timestamp to help invalidate cache between requests.
- * @returns {Promise<ActionState<TradeLogEntry[]>>} An ActionState object containing an array of log entries on success, or an error message on failure.
+ * @param {TradeLogQuery} [query={}] - Filters (date range, symbol, direction, status, has-error, error message search),
+ * sort column and direction, and the cursor of the page to fetch. An empty query returns the newest entries.
+ * @returns {Promise<ActionState<TradeLogPage>>} An ActionState object containing the page of entries and the cursor of
+ * the next page on success, or an error message on failure.
  */
 export async function fetchTradeLogAction(
-  limit: number = 50,
-  timestamp?: number, // Optional timestamp to force fresh fetch
-): Promise<ActionState<TradeLogEntry[]>> {
+  query: TradeLogQuery = {},
+): Promise<ActionState<TradeLogPage>> {
   const startTime = Date.now();
-  console.log(`[TradeLog] Starting fetch at ${new Date().toISOString()}`);
+  console.log(`[TradeLog] Starting fetch at ${new Date().toISOString()} with query:`, JSON.stringify(query));
 
   try {
-    // Validate limit
-    if (typeof limit !== "number" || limit <= 0 || !Number.isInteger(limit)) {
-      console.warn(`Invalid limit provided: ${limit}. Using default limit of 50.`);
-      limit = 50;
-    }
-
-    // Log server time to help debug timezone issues
-    console.log(`[TradeLog] Server time before DB query: ${new Date().toISOString()}`);
-
-    const logEntries = await prisma.tradeLog.findMany({
-      take: limit,
-      orderBy: {
-        timestamp: "desc", // Fetch the most recent entries first
-      },
-    });
+    const page = await queryTradeLog(query);
 
     // Log timing and results
     const fetchTime = Date.now() - startTime;
     console.log(`[TradeLog] Fetch completed in ${fetchTime}ms`);
-
-    if (logEntries.length > 0) {
-      console.log(`[TradeLog] Found ${logEntries.length} entries`);
-      console.log(`[TradeLog] Newest entry: ${new Date(logEntries[0].timestamp).toISOString()}`);
-      console.log(`[TradeLog] Oldest entry: ${new Date(logEntries[logEntries.length - 1].timestamp).toISOString()}`);
-    } else {
-      console.log(`[TradeLog] No entries found`);
-    }
+    console.log(
+      `[TradeLog] Found ${page.entries.length} of ${page.totalCount} matching entries${page.nextCursor ? " (more available)" : ""}`,
+    );
 
     return {
       isSuccess: true,
       message: "Successfully fetched trade log entries.",
-      data: logEntries,
+      data: page,
     };
   } catch (error: unknown) {
     const fetchTime = Date.now() - startTime;
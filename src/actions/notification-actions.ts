@@ -0,0 +1,297 @@
+/**
+ * @description Server Actions for managing outbound notification channels and reading the delivery log.
+ * Channels are stored in the NotificationChannel model; every delivery attempt is recorded in NotificationDelivery.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState and the notification types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @prisma/client: Specifically for handling Prisma-related errors like unique constraint violations.
+ * - @/lib/notifications: Channel validation.
+ * - @/lib/notifier: Delivers test notifications and records them in the delivery log.
+ *
+ * @notes
+ * - Events themselves are dispatched by the actions that produce them (alert evaluation, trade logging).
+ */
+"use server";
+
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+import type {
+  ActionState,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationDelivery,
+  NotificationDeliveryWithChannel,
+} from "@/types";
+import prisma from "@/lib/prisma";
+import { getNotificationChannelError } from "@/lib/notifications";
+import { deliverToChannel } from "@/lib/notifier";
+
+/**
+ * Normalizes channel fields: trims text and clears the chat ID for channels that don't use it.
+ */
+function normalizeChannelInput<T extends Partial<NotificationChannelInput>>(data: T): T {
+  const normalized = { ...data };
+  if (normalized.name !== undefined) normalized.name = normalized.name.trim();
+  if (normalized.target !== undefined) normalized.target = normalized.target.trim();
+  if (normalized.chatId !== undefined) normalized.chatId = normalized.chatId?.trim() || null;
+  if (normalized.type !== undefined && normalized.type !== "telegram") normalized.chatId = null;
+  if (normalized.events !== undefined) normalized.events = Array.from(new Set(normalized.events));
+  return normalized;
+}
+
+/**
+ * Maps a Prisma or validation error from a channel write into a user-facing message.
+ */
+function mapChannelWriteError(
+  error: unknown,
+  verb: "create" | "update" | "delete",
+  id?: string,
+): { isSuccess: false; message: string; error: string } {
+  let errorMessage = "An unknown error occurred";
+  let userMessage = `Failed to ${verb} notification channel.`;
+
+  if (error instanceof PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      userMessage = `Failed to ${verb} notification channel: A channel with this name already exists. Please choose a unique name.`;
+      errorMessage = `Unique constraint violation on field: ${error.meta?.target}`;
+    } else if (error.code === "P2025") {
+      userMessage = `Failed to ${verb} notification channel: Channel not found.`;
+      errorMessage = `Record not found (ID: ${id})`;
+    } else {
+      errorMessage = `Prisma error (${error.code}): ${error.message}`;
+    }
+  } else if (error instanceof Error) {
+    errorMessage = error.message;
+    userMessage = `Failed to ${verb} notification channel: ${errorMessage}`;
+  }
+
+  return {
+    isSuccess: false,
+    message: userMessage,
+    error: errorMessage,
+  };
+}
+
+/**
+ * Fetches all notification channels from the database.
+ *
+ * @returns {Promise<ActionState<NotificationChannel[]>>} An ActionState object containing an array of channels on success, or an error message on failure.
+ */
+export async function getNotificationChannelsAction(): Promise<ActionState<NotificationChannel[]>> {
+  console.log("[Notifications] Executing getNotificationChannelsAction");
+  try {
+    const channels = await prisma.notificationChannel.findMany({
+      orderBy: { name: "asc" },
+    });
+    return {
+      isSuccess: true,
+      message: "Successfully fetched notification channels.",
+      data: channels,
+    };
+  } catch (error: unknown) {
+    console.error("[Notifications] ❌ Error fetching notification channels:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch notification channels: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Creates a new notification channel.
+ *
+ * @param {NotificationChannelInput} data - The channel fields.
+ * @returns {Promise<ActionState<NotificationChannel>>} An ActionState object containing the created channel on success, or an error message on failure.
+ */
+export async function createNotificationChannelAction(
+  data: NotificationChannelInput,
+): Promise<ActionState<NotificationChannel>> {
+  console.log(`[Notifications] Executing createNotificationChannelAction for "${data.name}" (${data.type})`);
+  try {
+    const channelData = normalizeChannelInput(data);
+    const validationError = getNotificationChannelError(channelData);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const channel = await prisma.notificationChannel.create({ data: channelData });
+
+    console.log(`[Notifications] ✅ Created notification channel: ${channel.name}`);
+    return {
+      isSuccess: true,
+      message: `Notification channel "${channel.name}" created successfully.`,
+      data: channel,
+    };
+  } catch (error: unknown) {
+    console.error("[Notifications] ❌ Error creating notification channel:", error);
+    return mapChannelWriteError(error, "create");
+  }
+}
+
+/**
+ * Updates an existing notification channel.
+ * The target is validated against the stored type when only one of the two is changed.
+ *
+ * @param {string} id - The ID of the channel to update.
+ * @param {Partial<NotificationChannelInput>} data - The fields to update.
+ * @returns {Promise<ActionState<NotificationChannel>>} An ActionState object containing the updated channel on success, or an error message on failure.
+ */
+export async function updateNotificationChannelAction(
+  id: string,
+  data: Partial<NotificationChannelInput>,
+): Promise<ActionState<NotificationChannel>> {
+  console.log(`[Notifications] Executing updateNotificationChannelAction for ID: ${id}`);
+  try {
+    const channelData = normalizeChannelInput(data);
+
+    let validationError = getNotificationChannelError(channelData);
+    if (!validationError && (channelData.type !== undefined || channelData.target !== undefined)) {
+      const existing = await prisma.notificationChannel.findUniqueOrThrow({ where: { id } });
+      validationError = getNotificationChannelError({
+        type: channelData.type ?? existing.type,
+        target: channelData.target ?? existing.target,
+        chatId: channelData.chatId !== undefined ? channelData.chatId : existing.chatId,
+      });
+    }
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const channel = await prisma.notificationChannel.update({
+      where: { id },
+      data: channelData,
+    });
+
+    console.log(`[Notifications] ✅ Updated notification channel: ${channel.name}`);
+    return {
+      isSuccess: true,
+      message: `Notification channel "${channel.name}" updated successfully.`,
+      data: channel,
+    };
+  } catch (error: unknown) {
+    console.error(`[Notifications] ❌ Error updating notification channel ID ${id}:`, error);
+    return mapChannelWriteError(error, "update", id);
+  }
+}
+
+/**
+ * Deletes a notification channel together with its delivery log.
+ *
+ * @param {string} id - The ID of the channel to delete.
+ * @returns {Promise<ActionState<{ id: string }>>} An ActionState object containing the deleted channel's ID on success, or an error message on failure.
+ */
+export async function deleteNotificationChannelAction(
+  id: string,
+): Promise<ActionState<{ id: string }>> {
+  console.log(`[Notifications] Executing deleteNotificationChannelAction for ID: ${id}`);
+  try {
+    const channel = await prisma.notificationChannel.delete({
+      where: { id },
+      select: { id: true, name: true },
+    });
+
+    console.log(`[Notifications] ✅ Deleted notification channel: ${channel.name} (ID: ${id})`);
+    return {
+      isSuccess: true,
+      message: `Notification channel "${channel.name}" deleted successfully.`,
+      data: { id },
+    };
+  } catch (error: unknown) {
+    console.error(`[Notifications] ❌ Error deleting notification channel ID ${id}:`, error);
+    return mapChannelWriteError(error, "delete", id);
+  }
+}
+
+/**
+ * Sends a test notification to a channel, bypassing its enable flag, event filter and throttle.
+ * The attempt is recorded in the delivery log like any other.
+ *
+ * @param {string} id - The ID of the channel to test.
+ * @returns {Promise<ActionState<NotificationDelivery["status"]>>} An ActionState object that is successful only if the channel accepted the test message.
+ */
+export async function sendTestNotificationAction(
+  id: string,
+): Promise<ActionState<NotificationDelivery["status"]>> {
+  console.log(`[Notifications] Executing sendTestNotificationAction for ID: ${id}`);
+  try {
+    const channel = await prisma.notificationChannel.findUnique({ where: { id } });
+    if (!channel) {
+      return {
+        isSuccess: false,
+        message: "Notification channel not found.",
+        error: `Record not found (ID: ${id})`,
+      };
+    }
+
+    const outcome = await deliverToChannel(channel, {
+      type: "contradiction",
+      key: `test:${channel.id}:${Date.now()}`,
+      title: "Test notification",
+      message: `This is a test notification for channel "${channel.name}" from the Allora-Hyperliquid Trade Assistant.`,
+      data: { test: true },
+    });
+
+    if (outcome.status === "failed") {
+      return {
+        isSuccess: false,
+        message: `Test notification to "${channel.name}" failed: ${outcome.error}`,
+        error: outcome.error ?? "Delivery failed.",
+      };
+    }
+
+    return {
+      isSuccess: true,
+      message: `Test notification sent to "${channel.name}".`,
+      data: outcome.status,
+    };
+  } catch (error: unknown) {
+    console.error(`[Notifications] ❌ Error sending test notification to channel ID ${id}:`, error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to send test notification: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Fetches the most recent notification delivery attempts, newest first.
+ *
+ * @param {number} [limit=50] - Maximum number of entries to return.
+ * @returns {Promise<ActionState<NotificationDeliveryWithChannel[]>>} An ActionState object containing the deliveries on success, or an error message on failure.
+ */
+export async function getNotificationDeliveriesAction(
+  limit: number = 50,
+): Promise<ActionState<NotificationDeliveryWithChannel[]>> {
+  console.log(`[Notifications] Executing getNotificationDeliveriesAction (limit ${limit})`);
+  try {
+    const deliveries = await prisma.notificationDelivery.findMany({
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      include: { channel: { select: { name: true } } },
+    });
+
+    return {
+      isSuccess: true,
+      message: `Successfully fetched ${deliveries.length} notification deliveries.`,
+      data: deliveries.map(({ channel, ...delivery }) => ({
+        ...delivery,
+        channelName: channel.name,
+      })),
+    };
+  } catch (error: unknown) {
+    console.error("[Notifications] ❌ Error fetching notification deliveries:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch notification deliveries: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @description Server Actions for configuring the server-side background poller.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState and PollerIntervals types.
+ * - @/lib/poller: The poller itself.
+ *
+ * @notes
+ * - The Settings page pushes the refresh intervals from the browser settings here, so the server polls
+ *   Allora and Hyperliquid at the rates the user configured. The intervals are saved and survive restarts.
+ */
+"use server";
+
+import type { ActionState, PollerIntervals } from "@/types";
+import { setPollerIntervals } from "@/lib/poller";
+
+/**
+ * Updates the server-side polling intervals.
+ *
+ * @param {PollerIntervals} intervals - The prediction and account intervals, in milliseconds.
+ * @returns {Promise<ActionState<PollerIntervals>>} An ActionState object containing the intervals now in effect, or an error message on failure.
+ */
+export async function updatePollerIntervalsAction(
+  intervals: PollerIntervals,
+): Promise<ActionState<PollerIntervals>> {
+  console.log("[Poller] Executing updatePollerIntervalsAction with:", intervals);
+  try {
+    if (
+      !Number.isFinite(intervals.predictionIntervalMs) ||
+      !Number.isFinite(intervals.accountIntervalMs) ||
+      intervals.predictionIntervalMs <= 0 ||
+      intervals.accountIntervalMs <= 0
+    ) {
+      throw new Error("Intervals must be positive numbers.");
+    }
+
+    const applied = await setPollerIntervals(intervals);
+    return {
+      isSuccess: true,
+      message: "Server polling intervals updated.",
+      data: applied,
+    };
+  } catch (error: unknown) {
+    console.error("[Poller] ❌ Error updating polling intervals:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to update polling intervals: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * @description Server Actions for persisting Allora predictions and scoring their accuracy.
+ * Every fetched prediction is stored in the PredictionRecord model. Once a prediction's horizon
+ * has elapsed, the scoring job records the actual Hyperliquid price and computes the
+ * directional hit, absolute error and confidence interval check.
+ *
+ * @dependencies
+ * - @/types: Provides ActionState, AlloraPrediction, PredictionRecord and PredictionAccuracyStats types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @/lib/hyperliquid-client: Provides the setupClients function for historical candle lookups.
+ * - @/lib/prediction-scoring: Pure scoring and aggregation helpers.
+ * - ./hyperliquid-actions: For the current mark price.
+ *
+ * @notes
+ * - Predictions are deduped by `topicId` + `predictionTimestamp`, so saving the same inference twice is a no-op.
+ * - The reference price is the Hyperliquid price when the prediction was made: the live mark price for predictions
+ *   made within the last minute, otherwise the open of the 1-minute candle containing the prediction time.
+ * - Predictions whose timeframe cannot be parsed into a horizon are not stored; the reason is logged.
+ * - If scoring runs shortly after the target time the live mark price is used; otherwise the
+ *   open of the 1-minute candle at the target time is used as the actual price.
+ */
+"use server";
+
+import type { ActionState, AlloraPrediction, PredictionAccuracyStats } from "@/types";
+import prisma from "@/lib/prisma";
+import { setupClients } from "@/lib/hyperliquid-client";
+import {
+  calculateAccuracyStats,
+  getPredictionTargetTime,
+  scorePrediction,
+} from "@/lib/prediction-scoring";
+import { fetchCurrentPriceAction } from "./hyperliquid-actions";
+
+// Predictions scored within this window after their target time use the live mark price
+const LIVE_PRICE_SCORING_WINDOW_MS = 2 * 60 * 1000;
+// Predictions saved within this window after they were made use the live mark price as reference
+const LIVE_REFERENCE_PRICE_WINDOW_MS = 60 * 1000;
+// Maximum number of predictions scored per run
+const MAX_PREDICTIONS_PER_SCORING_RUN = 100;
+// Number of most recent records per token and timeframe used for accuracy statistics
+const ACCURACY_SAMPLE_SIZE = 500;
+
+/**
+ * Looks up the price of an asset at a past point in time using the 1-minute candle containing it.
+ *
+ * @param {string} coin - The asset's coin name (e.g., "BTC").
+ * @param {number} time - The point in time (ms since epoch).
+ * @returns {Promise<number | null>} The candle's open price, or null if no candle was found.
+ */
+async function fetchHistoricalPrice(coin: string, time: number): Promise<number | null> {
+  const { publicClient } = setupClients();
+  const minuteStart = Math.floor(time / 60000) * 60000;
+  const candles = await publicClient.candleSnapshot({
+    coin,
+    interval: "1m",
+    startTime: minuteStart,
+    endTime: minuteStart + 60000,
+  });
+  const candle = candles.find((c) => c.t === minuteStart) ?? candles[0];
+  const price = candle ? parseFloat(candle.o) : NaN;
+  return Number.isFinite(price) ? price : null;
+}
+
+/**
+ * Looks up the price of an asset when a prediction was made, as the reference for directional scoring.
+ *
+ * @param {string} coin - The asset's coin name (e.g., "BTC").
+ * @param {number} time - When the prediction was made (ms since epoch).
+ * @returns {Promise<number | null>} The price, or null if it could not be fetched.
+ */
+async function fetchReferencePrice(coin: string, time: number): Promise<number | null> {
+  try {
+    if (Date.now() - time <= LIVE_REFERENCE_PRICE_WINDOW_MS) {
+      const priceResult = await fetchCurrentPriceAction(coin);
+      if (priceResult.isSuccess) {
+        return parseFloat(priceResult.data.price);
+      }
+      console.warn(`[PredictionHistory] ⚠️ Could not fetch reference mark price for ${coin}:`, priceResult.message);
+    }
+    return await fetchHistoricalPrice(coin, time);
+  } catch (error) {
+    console.warn(`[PredictionHistory] ⚠️ Could not fetch reference price for ${coin} at ${new Date(time).toISOString()}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Persists fetched Allora predictions, skipping any that were already stored.
+ * The Hyperliquid price of each prediction's token at the prediction time is stored alongside as the reference for
+ * directional scoring. Predictions with a timeframe that has no known horizon are skipped.
+ *
+ * @param {AlloraPrediction[]} predictions - The predictions returned by `fetchAlloraPredictionsAction`.
+ * @returns {Promise<ActionState<{ saved: number }>>} An ActionState object containing how many new predictions were stored, or an error message on failure.
+ */
+export async function savePredictionsAction(
+  predictions: AlloraPrediction[],
+): Promise<ActionState<{ saved: number }>> {
+  console.log(`[PredictionHistory] Saving ${predictions.length} predictions`);
+  try {
+    const records: { prediction: AlloraPrediction; targetTime: number }[] = [];
+    for (const prediction of predictions) {
+      const targetTime = getPredictionTargetTime(prediction.timestamp, prediction.timeframe);
+      if (targetTime === null) {
+        console.warn(`[PredictionHistory] ⚠️ Skipping ${prediction.token} prediction of topic ${prediction.topicId}: unsupported timeframe '${prediction.timeframe}'`);
+        continue;
+      }
+      records.push({ prediction, targetTime });
+    }
+
+    if (records.length === 0) {
+      return {
+        isSuccess: true,
+        message: "No predictions to save.",
+        data: { saved: 0 },
+      };
+    }
+
+    // The reference price is optional; predictions are still stored without it. Looked up once per token and minute.
+    const referencePriceKey = (prediction: AlloraPrediction) =>
+      `${prediction.token}:${Math.floor(prediction.timestamp / 60000)}`;
+    const referencePrices = new Map<string, number | null>();
+    for (const { prediction } of records) {
+      const key = referencePriceKey(prediction);
+      if (!referencePrices.has(key)) {
+        referencePrices.set(key, await fetchReferencePrice(prediction.token, prediction.timestamp));
+      }
+    }
+
+    const { count } = await prisma.predictionRecord.createMany({
+      data: records.map(({ prediction, targetTime }) => ({
+        topicId: prediction.topicId,
+        token: prediction.token,
+        timeframe: prediction.timeframe,
+        predictionTimestamp: new Date(prediction.timestamp),
+        targetTime: new Date(targetTime),
+        predictedPrice: prediction.price,
+        priceAtPrediction: referencePrices.get(referencePriceKey(prediction)) ?? null,
+        confidenceIntervalValues: prediction.confidenceIntervalValues ?? [],
+        confidenceIntervalPercentiles: prediction.confidenceIntervalPercentiles ?? [],
+      })),
+      skipDuplicates: true,
+    });
+
+    console.log(`[PredictionHistory] ✅ Stored ${count} new predictions`);
+    return {
+      isSuccess: true,
+      message: `Stored ${count} new predictions.`,
+      data: { saved: count },
+    };
+  } catch (error: unknown) {
+    console.error("[PredictionHistory] ❌ Error saving predictions:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to save predictions: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Scores stored predictions whose horizon has elapsed.
+ * Records the actual Hyperliquid price at the target time, the directional hit,
+ * the absolute error and whether the actual price fell inside the confidence interval.
+ *
+ * @returns {Promise<ActionState<{ scored: number }>>} An ActionState object containing how many predictions were scored, or an error message on failure.
+ */
+export async function scorePredictionsAction(): Promise<ActionState<{ scored: number }>> {
+  console.log("[PredictionHistory] Executing scorePredictionsAction");
+  try {
+    const now = Date.now();
+    const duePredictions = await prisma.predictionRecord.findMany({
+      where: {
+        scoredAt: null,
+        targetTime: { lte: new Date(now) },
+      },
+      orderBy: { targetTime: "asc" },
+      take: MAX_PREDICTIONS_PER_SCORING_RUN,
+    });
+
+    if (duePredictions.length === 0) {
+      return {
+        isSuccess: true,
+        message: "No predictions due for scoring.",
+        data: { scored: 0 },
+      };
+    }
+
+    // Live mark prices are fetched at most once per token per run
+    const livePrices = new Map<string, number | null>();
+    let scored = 0;
+
+    for (const record of duePredictions) {
+      try {
+        let actualPrice: number | null;
+        if (now - record.targetTime.getTime() <= LIVE_PRICE_SCORING_WINDOW_MS) {
+          if (!livePrices.has(record.token)) {
+            const priceResult = await fetchCurrentPriceAction(record.token);
+            livePrices.set(record.token, priceResult.isSuccess ? parseFloat(priceResult.data.price) : null);
+          }
+          actualPrice = livePrices.get(record.token) ?? null;
+        } else {
+          actualPrice = await fetchHistoricalPrice(record.token, record.targetTime.getTime());
+        }
+
+        if (actualPrice === null) {
+          console.warn(`[PredictionHistory] ⚠️ No actual price for ${record.token} at ${record.targetTime.toISOString()}, will retry`);
+          continue;
+        }
+
+        const score = scorePrediction(record, actualPrice);
+        await prisma.predictionRecord.update({
+          where: { id: record.id },
+          data: {
+            actualPrice,
+            scoredAt: new Date(),
+            ...score,
+          },
+        });
+        scored++;
+      } catch (scoreError) {
+        console.error(`[PredictionHistory] ❌ Failed to score prediction ${record.id}:`, scoreError);
+      }
+    }
+
+    console.log(`[PredictionHistory] ✅ Scored ${scored} of ${duePredictions.length} due predictions`);
+    return {
+      isSuccess: true,
+      message: `Scored ${scored} predictions.`,
+      data: { scored },
+    };
+  } catch (error: unknown) {
+    console.error("[PredictionHistory] ❌ Error scoring predictions:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to score predictions: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Fetches prediction accuracy statistics per token and timeframe, based on the most recent stored predictions.
+ *
+ * @returns {Promise<ActionState<PredictionAccuracyStats[]>>} An ActionState object containing one entry per stored token and timeframe, or an error message on failure.
+ */
+export async function fetchPredictionAccuracyAction(): Promise<ActionState<PredictionAccuracyStats[]>> {
+  console.log("[PredictionHistory] Executing fetchPredictionAccuracyAction");
+  try {
+    const groups = await prisma.predictionRecord.findMany({
+      distinct: ["token", "timeframe"],
+      select: { token: true, timeframe: true },
+      orderBy: [{ token: "asc" }, { timeframe: "asc" }],
+    });
+
+    const stats = await Promise.all(
+      groups.map(async ({ token, timeframe }) => {
+        const records = await prisma.predictionRecord.findMany({
+          where: { token, timeframe },
+          orderBy: { predictionTimestamp: "desc" },
+          take: ACCURACY_SAMPLE_SIZE,
+        });
+        return calculateAccuracyStats(token, timeframe, records);
+      }),
+    );
+
+    return {
+      isSuccess: true,
+      message: "Successfully fetched prediction accuracy.",
+      data: stats,
+    };
+  } catch (error: unknown) {
+    console.error("[PredictionHistory] ❌ Error fetching prediction accuracy:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return {
+      isSuccess: false,
+      message: `Failed to fetch prediction accuracy: ${errorMessage}`,
+      error: errorMessage,
+    };
+  }
+}
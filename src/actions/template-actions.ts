@@ -6,6 +6,8 @@
  * - @/types: Provides ActionState and TradeTemplate types.
  * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
  * - @prisma/client: Specifically for handling Prisma-related errors like unique constraint violations.
+ * - @/lib/trading-calcs: Validates the template's slippage.
+ * - @/lib/constants: Provides the accepted margin modes.
  */
 "use server";
 
@@ -13,6 +15,8 @@ import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import { Prisma } from "@prisma/client";
 import type { ActionState, TradeTemplate } from "@/types";
 import prisma from "@/lib/prisma";
+import { getSlippageError } from "@/lib/trading-calcs";
+import { MARGIN_MODES } from "@/lib/constants";
 
 /**
  * Fetches all saved Trade Parameter Templates from the database.
@@ -49,7 +53,7 @@ export async function getTemplatesAction(): Promise<ActionState<TradeTemplate[]>
 /**
  * Creates a new Trade Parameter Template in the database.
  *
- * @param {Omit<TradeTemplate, 'id' | 'createdAt' | 'updatedAt'>} data - The data for the new template (name, size, leverage).
+ * @param {Omit<TradeTemplate, 'id' | 'createdAt' | 'updatedAt'>} data - The data for the new template (name, size, leverage, slippage, margin mode).
  * @returns {Promise<ActionState<TradeTemplate>>} An ActionState object containing the created template on success, or an error message on failure.
  */
 export async function createTemplateAction(
@@ -67,12 +71,21 @@ export async function createTemplateAction(
     if (typeof data.leverage !== "number" || data.leverage <= 0) {
       throw new Error("Template leverage must be a positive number.");
     }
+    const slippageError = data.slippageBps !== null ? getSlippageError(data.slippageBps) : null;
+    if (slippageError) {
+      throw new Error(`Template slippage is invalid. ${slippageError}`);
+    }
+    if (!MARGIN_MODES.includes(data.marginMode as (typeof MARGIN_MODES)[number])) {
+      throw new Error("Template margin mode must be 'cross' or 'isolated'.");
+    }
 
     const newTemplate = await prisma.tradeTemplate.create({
       data: {
         name: data.name.trim(), // Trim whitespace from name
         size: data.size,
         leverage: data.leverage,
+        slippageBps: data.slippageBps,
+        marginMode: data.marginMode,
       },
     });
 
@@ -102,7 +115,9 @@ export async function createTemplateAction(
       if (
         errorMessage.includes("name is required") ||
         errorMessage.includes("size must be") ||
-        errorMessage.includes("leverage must be")
+        errorMessage.includes("leverage must be") ||
+        errorMessage.includes("slippage is invalid") ||
+        errorMessage.includes("margin mode must be")
       ) {
         userMessage = `Failed to create template: ${errorMessage}`;
       }
@@ -120,7 +135,7 @@ export async function createTemplateAction(
  * Updates an existing Trade Parameter Template in the database.
  *
  * @param {string} id - The ID of the template to update.
- * @param {Partial<Omit<TradeTemplate, 'id' | 'createdAt' | 'updatedAt'>>} data - The data fields to update (name, size, leverage).
+ * @param {Partial<Omit<TradeTemplate, 'id' | 'createdAt' | 'updatedAt'>>} data - The data fields to update (name, size, leverage, slippage, margin mode).
  * @returns {Promise<ActionState<TradeTemplate>>} An ActionState object containing the updated template on success, or an error message on failure.
  */
 export async function updateTemplateAction(
@@ -139,6 +154,13 @@ export async function updateTemplateAction(
     if (data.leverage !== undefined && (typeof data.leverage !== 'number' || data.leverage <= 0)) {
         throw new Error("Template leverage must be a positive number.");
     }
+    const slippageError = data.slippageBps !== undefined && data.slippageBps !== null ? getSlippageError(data.slippageBps) : null;
+    if (slippageError) {
+        throw new Error(`Template slippage is invalid. ${slippageError}`);
+    }
+    if (data.marginMode !== undefined && !MARGIN_MODES.includes(data.marginMode as (typeof MARGIN_MODES)[number])) {
+        throw new Error("Template margin mode must be 'cross' or 'isolated'.");
+    }
 
     // Prepare data for update, trimming name if present
     const updateData = { ...data };
@@ -183,7 +205,9 @@ export async function updateTemplateAction(
        if (
         errorMessage.includes("name cannot be empty") ||
         errorMessage.includes("size must be") ||
-        errorMessage.includes("leverage must be")
+        errorMessage.includes("leverage must be") ||
+        errorMessage.includes("slippage is invalid") ||
+        errorMessage.includes("margin mode must be")
       ) {
         userMessage = `Failed to update template: ${errorMessage}`;
       }
@@ -0,0 +1,425 @@
+/**
+ * @description
+ * Client Component displaying trading performance analytics calculated from imported Hyperliquid fills.
+ *
+ * Key features:
+ * - Lookback period selector (7, 30, 90, 365 days or all fills).
+ * - Journal tag selector limiting the figures to trades tagged in the trading journal.
+ * - "Import Fills" pulls new fills from Hyperliquid and recalculates.
+ * - Shows net PnL, win rate, profit factor, average win and loss, max drawdown and fee totals.
+ * - Charts net PnL per day or week and the cumulative net PnL curve.
+ * - Breaks closed trades down by direction and by prediction timeframe.
+ *
+ * @dependencies
+ * - react: For component structure and state.
+ * - @/types: Provides the analytics type definitions.
+ * - @/actions/analytics-actions: Server Action calculating trading performance.
+ * - @/actions/fill-actions: Server Action importing fills from Hyperliquid.
+ * - @/hooks/use-toast: For displaying action results.
+ * - @/lib/trade-analytics: Provides the key of unattributed trades.
+ * - @/lib/formatting: Utility functions for formatting numbers and dates.
+ * - @/lib/constants: Provides the default lookback period.
+ * - @/components/ui/*: Shadcn UI components (Card, Button, Select, Table).
+ *
+ * @notes
+ * - Charts are plain SVG, like the backtest equity curve.
+ * - Periods are UTC days and weeks (starting Monday).
+ */
+"use client";
+
+import React from "react";
+import type { PnlBreakdownRow, PnlCurvePoint, PnlPeriod, PnlPeriodBucket, TradingPerformance } from "@/types";
+import { fetchTradingPerformanceAction } from "@/actions/analytics-actions";
+import { importUserFillsAction } from "@/actions/fill-actions";
+import { useToast } from "@/hooks/use-toast";
+import { UNATTRIBUTED_KEY } from "@/lib/trade-analytics";
+import { formatCurrency, formatPercentage, formatDateTime } from "@/lib/formatting";
+import { DEFAULT_ANALYTICS_LOOKBACK_DAYS } from "@/lib/constants";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import ErrorDisplay from "@/components/ui/ErrorDisplay";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import clsx from "clsx";
+import { Download, RefreshCw } from "lucide-react";
+
+interface AnalyticsDashboardProps {
+  initialPerformance: TradingPerformance | null;
+  initialError: string | null;
+  journalTags: string[];
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+/** Tag selector value including every trade. */
+const ALL_TAGS = "all";
+
+/** Lookback periods offered by the selector; 'all' includes every imported fill. */
+const LOOKBACK_OPTIONS: { value: string; label: string }[] = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 365 days" },
+  { value: "all", label: "All time" },
+];
+
+/**
+ * Returns the text color class for a PnL value.
+ */
+const getPnlColor = (value: number): string => {
+  if (value > 0) return "text-green-600 dark:text-green-500";
+  if (value < 0) return "text-red-600 dark:text-red-500";
+  return "text-muted-foreground";
+};
+
+/**
+ * Formats the start of a UTC period for chart labels.
+ */
+const formatPeriod = (periodStart: number): string =>
+  new Date(periodStart).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+/**
+ * Renders a single labelled statistic.
+ */
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className }) => (
+  <div className="rounded-md border p-3">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className={clsx("text-lg font-semibold", className)}>{value}</p>
+  </div>
+);
+
+/**
+ * Renders net PnL per period as an SVG bar chart, gains in green and losses in red.
+ */
+const PnlBarChart: React.FC<{ buckets: PnlPeriodBucket[] }> = ({ buckets }) => {
+  if (buckets.length === 0) {
+    return <p className="text-sm text-muted-foreground">No fills in this period.</p>;
+  }
+
+  const values = buckets.map((bucket) => bucket.netPnl);
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const range = high - low || 1;
+  const toY = (value: number) => CHART_HEIGHT - ((value - low) / range) * CHART_HEIGHT;
+  const slotWidth = CHART_WIDTH / buckets.length;
+  const barWidth = Math.max(slotWidth * 0.7, 1);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-40"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Net PnL per period"
+      >
+        {buckets.map((bucket, i) => {
+          const top = toY(Math.max(bucket.netPnl, 0));
+          const bottom = toY(Math.min(bucket.netPnl, 0));
+          return (
+            <rect
+              key={bucket.periodStart}
+              x={i * slotWidth + (slotWidth - barWidth) / 2}
+              y={top}
+              width={barWidth}
+              height={Math.max(bottom - top, 1)}
+              className={bucket.netPnl >= 0 ? "fill-green-600" : "fill-red-600"}
+            >
+              <title>{`${formatPeriod(bucket.periodStart)}: ${formatCurrency(bucket.netPnl)} (${bucket.fillCount} fills)`}</title>
+            </rect>
+          );
+        })}
+        <line x1={0} x2={CHART_WIDTH} y1={toY(0)} y2={toY(0)} stroke="currentColor" className="text-muted-foreground" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>{formatPeriod(buckets[0].periodStart)}</span>
+        <span>{formatPeriod(buckets[buckets.length - 1].periodStart)}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders the cumulative net PnL as an SVG line chart with a zero baseline.
+ */
+const CumulativePnlChart: React.FC<{ points: PnlCurvePoint[] }> = ({ points }) => {
+  if (points.length < 2) {
+    return <p className="text-sm text-muted-foreground">Not enough fills to plot cumulative PnL.</p>;
+  }
+
+  const minTime = points[0].time;
+  const maxTime = points[points.length - 1].time;
+  const values = points.map((p) => p.cumulativePnl);
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const timeRange = maxTime - minTime || 1;
+  const range = high - low || 1;
+  const toY = (value: number) => CHART_HEIGHT - ((value - low) / range) * CHART_HEIGHT;
+
+  const path = points
+    .map((p, i) => {
+      const x = ((p.time - minTime) / timeRange) * CHART_WIDTH;
+      return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${toY(p.cumulativePnl).toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-40"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Cumulative net PnL"
+      >
+        <line x1={0} x2={CHART_WIDTH} y1={toY(0)} y2={toY(0)} stroke="currentColor" strokeDasharray="4 4" className="text-muted-foreground" vectorEffect="non-scaling-stroke" />
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-primary" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>{formatDateTime(minTime)}</span>
+        <span>{formatCurrency(low)} min / {formatCurrency(high)} max</span>
+        <span>{formatDateTime(maxTime)}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders closed trades grouped by one attribute.
+ */
+const BreakdownTable: React.FC<{ title: string; rows: PnlBreakdownRow[]; formatKey: (key: string) => string }> = ({
+  title,
+  rows,
+  formatKey,
+}) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{title}</TableHead>
+        <TableHead className="text-right">Trades</TableHead>
+        <TableHead className="text-right">Win Rate</TableHead>
+        <TableHead className="text-right">Net PnL</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={4} className="text-center text-muted-foreground">No closed trades.</TableCell>
+        </TableRow>
+      ) : (
+        rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{formatKey(row.key)}</TableCell>
+            <TableCell className="text-right">{row.tradeCount}</TableCell>
+            <TableCell className="text-right">{formatPercentage(row.winCount / row.tradeCount, 1)}</TableCell>
+            <TableCell className={clsx("text-right font-mono", getPnlColor(row.netPnl))}>{formatCurrency(row.netPnl)}</TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+);
+
+/**
+ * Renders the analytics figures, charts and breakdowns.
+ * @param {AnalyticsDashboardProps} props - Component props.
+ * @returns {React.ReactElement} The rendered analytics dashboard.
+ */
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ initialPerformance, initialError, journalTags }): React.ReactElement => {
+  const { toast } = useToast();
+
+  const [lookback, setLookback] = React.useState<string>(String(DEFAULT_ANALYTICS_LOOKBACK_DAYS));
+  const [tag, setTag] = React.useState<string>(ALL_TAGS);
+  const [period, setPeriod] = React.useState<PnlPeriod>("day");
+  const [performance, setPerformance] = React.useState<TradingPerformance | null>(initialPerformance);
+  const [error, setError] = React.useState<string | null>(initialError);
+  const [isLoading, setIsLoading] = React.useState<boolean>(false);
+  const [isImporting, setIsImporting] = React.useState<boolean>(false);
+
+  const loadPerformance = async (lookbackValue: string, tagValue: string) => {
+    setIsLoading(true);
+    try {
+      const result = await fetchTradingPerformanceAction(
+        lookbackValue === "all" ? null : Number(lookbackValue),
+        tagValue === ALL_TAGS ? null : tagValue,
+      );
+      if (result.isSuccess) {
+        setPerformance(result.data);
+        setError(null);
+      } else {
+        setError(result.message);
+      }
+    } catch (loadError) {
+      console.error("[AnalyticsDashboard] Error loading performance:", loadError);
+      setError(loadError instanceof Error ? loadError.message : "An unknown error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLookbackChange = (value: string) => {
+    setLookback(value);
+    loadPerformance(value, tag);
+  };
+
+  const handleTagChange = (value: string) => {
+    setTag(value);
+    loadPerformance(lookback, value);
+  };
+
+  const handleImportFills = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importUserFillsAction();
+      toast({
+        title: result.isSuccess ? "Fills Imported" : "Import Failed",
+        description: result.message,
+        variant: result.isSuccess ? "default" : "destructive",
+      });
+      if (result.isSuccess && result.data.imported > 0) {
+        await loadPerformance(lookback, tag);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatTimeframe = (key: string) => (key === UNATTRIBUTED_KEY ? "No prediction" : key);
+  const formatDirection = (key: string) => key.charAt(0).toUpperCase() + key.slice(1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={lookback} onValueChange={handleLookbackChange} disabled={isLoading}>
+          <SelectTrigger className="w-[160px]" aria-label="Lookback period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOOKBACK_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={tag} onValueChange={handleTagChange} disabled={isLoading}>
+          <SelectTrigger className="w-[180px]" aria-label="Journal tag">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TAGS}>All trades</SelectItem>
+            {journalTags.map((journalTag) => (
+              <SelectItem key={journalTag} value={journalTag}>Tag: {journalTag}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={() => loadPerformance(lookback, tag)} disabled={isLoading}>
+          <RefreshCw className={clsx("h-4 w-4 mr-2", isLoading && "animate-spin")} />
+          Refresh
+        </Button>
+        <Button variant="outline" onClick={handleImportFills} disabled={isImporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {isImporting ? "Importing..." : "Import Fills"}
+        </Button>
+        {isLoading && <LoadingSpinner size={16} />}
+      </div>
+
+      {error && <ErrorDisplay error={error} />}
+
+      {performance && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+            <Stat label="Net PnL" value={formatCurrency(performance.netPnl)} className={getPnlColor(performance.netPnl)} />
+            <Stat label="Realized PnL (before fees)" value={formatCurrency(performance.realizedPnl)} className={getPnlColor(performance.realizedPnl)} />
+            <Stat label="Total Fees" value={formatCurrency(performance.totalFees)} />
+            <Stat label="Max Drawdown" value={formatCurrency(performance.maxDrawdown)} />
+            <Stat label="Closed Trades" value={`${performance.tradeCount} (${performance.winCount}W / ${performance.lossCount}L)`} />
+            <Stat label="Win Rate" value={performance.winRate !== null ? formatPercentage(performance.winRate, 1) : "N/A"} />
+            <Stat
+              label="Profit Factor"
+              value={performance.profitFactor !== null ? performance.profitFactor.toFixed(2) : performance.grossProfit > 0 ? "No losses" : "N/A"}
+            />
+            <Stat
+              label="Average Win"
+              value={performance.averageWin !== null ? formatCurrency(performance.averageWin) : "N/A"}
+              className={performance.averageWin !== null ? getPnlColor(performance.averageWin) : undefined}
+            />
+            <Stat
+              label="Average Loss"
+              value={performance.averageLoss !== null ? formatCurrency(performance.averageLoss) : "N/A"}
+              className={performance.averageLoss !== null ? getPnlColor(performance.averageLoss) : undefined}
+            />
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <div>
+                <CardTitle>Net PnL by {period === "day" ? "Day" : "Week"}</CardTitle>
+                <CardDescription>Realized PnL minus fees of all fills, per UTC {period}.</CardDescription>
+              </div>
+              <div className="flex gap-1">
+                <Button variant={period === "day" ? "default" : "outline"} size="sm" onClick={() => setPeriod("day")}>Day</Button>
+                <Button variant={period === "week" ? "default" : "outline"} size="sm" onClick={() => setPeriod("week")}>Week</Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <PnlBarChart buckets={period === "day" ? performance.pnlByDay : performance.pnlByWeek} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cumulative Net PnL</CardTitle>
+              <CardDescription>Max drawdown is the largest fall from a previous high of this curve.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CumulativePnlChart points={performance.pnlCurve} />
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>By Direction</CardTitle>
+                <CardDescription>Closed trades by the direction of the closed position.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BreakdownTable title="Direction" rows={performance.pnlByDirection} formatKey={formatDirection} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>By Prediction Timeframe</CardTitle>
+                <CardDescription>Closed trades by the Allora prediction the position was opened from.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BreakdownTable title="Timeframe" rows={performance.pnlByTimeframe} formatKey={formatTimeframe} />
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
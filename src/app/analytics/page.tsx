@@ -0,0 +1,49 @@
+/**
+ * @description
+ * Server Component for the trading performance analytics page (route '/analytics').
+ * Calculates performance over the default lookback period from the imported fills and renders the
+ * client component that shows the figures and charts and lets the period be changed.
+ *
+ * @dependencies
+ * - React: For component structure.
+ * - @/actions/analytics-actions: Server Action calculating trading performance.
+ * - @/actions/journal-actions: Server Action listing the journal tags offered as filters.
+ * - @/lib/constants: Provides the default lookback period.
+ * - @/app/analytics/_components/AnalyticsDashboard: Client component displaying the analytics.
+ *
+ * @notes
+ * - Analytics are based on fills imported from Hyperliquid, so trades appear once their fills are imported.
+ */
+import React from 'react';
+import { Metadata } from 'next';
+import { fetchTradingPerformanceAction } from '@/actions/analytics-actions';
+import { getJournalTagsAction } from '@/actions/journal-actions';
+import { DEFAULT_ANALYTICS_LOOKBACK_DAYS } from '@/lib/constants';
+import AnalyticsDashboard from './_components/AnalyticsDashboard';
+
+export const metadata: Metadata = {
+  title: "Analytics - Allora Hyperliquid Assistant",
+};
+
+/**
+ * Renders the analytics page.
+ * @returns {Promise<JSX.Element>} A promise resolving to the rendered analytics page component.
+ */
+export default async function AnalyticsPage(): Promise<JSX.Element> {
+  const [performanceResult, tagsResult] = await Promise.all([
+    fetchTradingPerformanceAction(DEFAULT_ANALYTICS_LOOKBACK_DAYS),
+    getJournalTagsAction(),
+  ]);
+
+  const performance = performanceResult.isSuccess ? performanceResult.data : null;
+  const performanceError = !performanceResult.isSuccess ? performanceResult.message : null;
+  const journalTags = tagsResult.isSuccess ? tagsResult.data : [];
+
+  return (
+    <div className="container mx-auto mt-16 space-y-8">
+      <h2 className="text-2xl font-semibold tracking-tight">Performance Analytics</h2>
+
+      <AnalyticsDashboard initialPerformance={performance} initialError={performanceError} journalTags={journalTags} />
+    </div>
+  );
+}
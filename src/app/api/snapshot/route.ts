@@ -0,0 +1,42 @@
+/**
+ * @description
+ * API route serving the server-side poller's cached snapshot (route '/api/snapshot').
+ *
+ * - GET: Returns the full `PollerSnapshot`. Starts the poller if it is not running yet.
+ * - POST `{ "section": "<section>" }`: Polls the job owning that section right away, then returns the snapshot.
+ *   Used after user actions (e.g. a trade) that should be reflected without waiting for the next poll.
+ *
+ * @dependencies
+ * - next/server: For the JSON response helper.
+ * - @/lib/poller: The server-side poller and its cache.
+ * - @/types: Provides PollerSection and PollerSnapshot types.
+ *
+ * @notes
+ * - Always dynamic: the snapshot must never be statically cached by Next.js.
+ */
+import { NextResponse } from "next/server";
+import type { PollerSection, PollerSnapshot } from "@/types";
+import { getPollerSnapshot, refreshPollerSection, startPoller } from "@/lib/poller";
+
+export const dynamic = "force-dynamic";
+
+const SECTIONS: PollerSection[] = ["predictions", "accountInfo", "positions", "openOrders", "alerts"];
+
+export async function GET(): Promise<NextResponse<PollerSnapshot>> {
+  await startPoller();
+  return NextResponse.json(getPollerSnapshot());
+}
+
+export async function POST(request: Request): Promise<NextResponse<PollerSnapshot | { error: string }>> {
+  const body = await request.json().catch(() => null);
+  const section = body?.section as PollerSection | undefined;
+  if (!section || !SECTIONS.includes(section)) {
+    return NextResponse.json(
+      { error: `Unknown section. Expected one of: ${SECTIONS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  await startPoller();
+  return NextResponse.json(await refreshPollerSection(section));
+}
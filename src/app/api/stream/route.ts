@@ -0,0 +1,69 @@
+/**
+ * @description
+ * API route streaming real-time Hyperliquid updates to the browser as Server-Sent Events (route '/api/stream').
+ *
+ * - GET: Opens an event stream. The first message carries the current state; later messages carry mid prices,
+ *   account/open order updates, fills, order status changes and connection status changes.
+ *   Each message is a JSON-encoded `HyperliquidStreamEvent`.
+ *
+ * @dependencies
+ * - @/lib/hyperliquid-stream: The server-side WebSocket subscriptions.
+ * - @/lib/constants: Provides the heartbeat interval.
+ * - @/types: Provides HyperliquidStreamEvent.
+ *
+ * @notes
+ * - Always dynamic and on the Node.js runtime: the stream is long-lived and the WebSocket lives in the server process.
+ * - A comment line is sent every `STREAM_HEARTBEAT_MS` so proxies keep idle connections open.
+ * - The listener is removed when the browser disconnects (request aborted).
+ */
+import type { HyperliquidStreamEvent } from "@/types";
+import { subscribeToHyperliquidStream } from "@/lib/hyperliquid-stream";
+import { STREAM_HEARTBEAT_MS } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(request: Request): Promise<Response> {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream was closed; cleanup runs from the abort handler
+        }
+      };
+
+      const unsubscribe = subscribeToHyperliquidStream((event: HyperliquidStreamEvent) => {
+        send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": keep-alive\n\n"), STREAM_HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      request.signal.addEventListener("abort", () => cleanup?.());
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
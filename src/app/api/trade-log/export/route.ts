@@ -0,0 +1,75 @@
+/**
+ * @description
+ * API route exporting the Trade Log (route '/api/trade-log/export').
+ *
+ * - GET: Returns every entry matching the filters as a file download.
+ *   Query parameters: `format` ('csv' or 'json', default 'csv') plus the `TradeLogQuery` filters and sort
+ *   (`from`, `to`, `symbol`, `direction`, `status`, `hasError`, `search`, `tag`, `sortBy`, `sortOrder`).
+ *
+ * @dependencies
+ * - next/server: For the JSON response helper.
+ * - @/types: Provides the TradeLogQuery type.
+ * - @/lib/trade-log: Reads the matching entries.
+ * - @/lib/trade-log-query: Parses and validates the filters and formats the CSV.
+ * - @/lib/constants: Provides the export row limit.
+ *
+ * @notes
+ * - Always dynamic: exports must reflect the current Trade Log.
+ * - At most `TRADE_LOG_EXPORT_MAX_ROWS` entries are exported; the `X-Export-Truncated: true` header marks a
+ *   truncated export.
+ * - Invalid parameters return 400 and database failures 500, with `{ error }`.
+ */
+import { NextResponse } from "next/server";
+import type { TradeLogQuery } from "@/types";
+import { exportTradeLog } from "@/lib/trade-log";
+import { normalizeTradeLogQuery, parseTradeLogSearchParams, tradeLogEntriesToCsv } from "@/lib/trade-log-query";
+import { TRADE_LOG_EXPORT_MAX_ROWS } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+const FORMATS = ["csv", "json"];
+
+export async function GET(request: Request): Promise<Response> {
+  const searchParams = new URL(request.url).searchParams;
+  const format = searchParams.get("format") ?? "csv";
+  if (!FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `Unknown format. Expected one of: ${FORMATS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  let query: TradeLogQuery;
+  try {
+    query = normalizeTradeLogQuery(parseTradeLogSearchParams(searchParams));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid query." },
+      { status: 400 },
+    );
+  }
+
+  let result: Awaited<ReturnType<typeof exportTradeLog>>;
+  try {
+    result = await exportTradeLog(query, TRADE_LOG_EXPORT_MAX_ROWS);
+  } catch (error) {
+    console.error("[TradeLogExport] ❌ Export failed:", error);
+    return NextResponse.json(
+      { error: `Failed to export the trade log: ${error instanceof Error ? error.message : "An unknown error occurred"}` },
+      { status: 500 },
+    );
+  }
+
+  const filename = `trade-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const body = format === "csv"
+    ? tradeLogEntriesToCsv(result.entries)
+    : JSON.stringify(result.entries, null, 2);
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "X-Export-Truncated": String(result.truncated),
+    },
+  });
+}
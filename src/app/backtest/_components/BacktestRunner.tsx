@@ -0,0 +1,397 @@
+/**
+ * @description
+ * Client Component for running backtests of the prediction-following strategy.
+ * Replays stored Allora predictions against recorded Hyperliquid candles, sized by a saved Trade Template.
+ *
+ * Key features:
+ * - "Record Candles" downloads 1-minute candles for the selected asset and range into the database.
+ * - "Run Backtest" runs entirely against stored data, so results are reproducible offline.
+ * - Shows final equity, return, max drawdown, Sharpe ratio, win rate and fees.
+ * - Plots the equity curve and lists every simulated trade.
+ *
+ * @dependencies
+ * - react: For component structure and state.
+ * - @/types: Provides TradeTemplate and BacktestResult type definitions.
+ * - @/actions/backtest-actions: Server Actions for recording candles and running backtests.
+ * - @/hooks/use-toast: For displaying action results.
+ * - @/hooks/useTradeableAssets: Lists the tradeable perp assets for the asset picker.
+ * - @/lib/prediction-scoring: For the supported prediction timeframes.
+ * - @/lib/formatting: Utility functions for formatting numbers and dates.
+ * - @/lib/constants: Backtest defaults and the default asset.
+ * - @/components/ui/*: Shadcn UI components (Card, Button, Input, Label, Select, Table, Badge).
+ *
+ * @notes
+ * - The range applies to prediction times; candles are recorded up to the longest horizon past the end.
+ */
+"use client";
+
+import React from "react";
+import type { BacktestEquityPoint, BacktestResult, TradeTemplate } from "@/types";
+import { recordCandlesAction, runBacktestAction } from "@/actions/backtest-actions";
+import { useToast } from "@/hooks/use-toast";
+import { useTradeableAssets, withSelectedAsset } from "@/hooks/useTradeableAssets";
+import { TIMEFRAME_HORIZON_MS } from "@/lib/prediction-scoring";
+import { formatCurrency, formatNumber, formatPercentage, formatDateTime } from "@/lib/formatting";
+import {
+  DEFAULT_BACKTEST_FEE_RATE,
+  DEFAULT_BACKTEST_INITIAL_EQUITY,
+  DEFAULT_BACKTEST_SLIPPAGE_BPS,
+  DEFAULT_TRADE_ASSET,
+} from "@/lib/constants";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import ErrorDisplay from "@/components/ui/ErrorDisplay";
+import clsx from "clsx";
+import { Download, Play } from "lucide-react";
+
+interface BacktestRunnerProps {
+  templates: TradeTemplate[];
+  templatesError: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+/**
+ * Formats a timestamp as a value for a `datetime-local` input (local time).
+ */
+const toDateTimeLocal = (time: number): string => {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+};
+
+/**
+ * Returns the text color class for a PnL value.
+ */
+const getPnlColor = (value: number): string => {
+  if (value > 0) return "text-green-600 dark:text-green-500";
+  if (value < 0) return "text-red-600 dark:text-red-500";
+  return "text-muted-foreground";
+};
+
+/**
+ * Renders a single labelled statistic.
+ */
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className }) => (
+  <div className="rounded-md border p-3">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className={clsx("text-lg font-semibold", className)}>{value}</p>
+  </div>
+);
+
+/**
+ * Renders the equity curve as a simple SVG line chart.
+ */
+const EquityCurveChart: React.FC<{ points: BacktestEquityPoint[] }> = ({ points }) => {
+  if (points.length < 2) {
+    return <p className="text-sm text-muted-foreground">Not enough trades to plot an equity curve.</p>;
+  }
+
+  const minTime = points[0].time;
+  const maxTime = points[points.length - 1].time;
+  const equities = points.map((p) => p.equity);
+  const minEquity = Math.min(...equities);
+  const maxEquity = Math.max(...equities);
+  const timeRange = maxTime - minTime || 1;
+  const equityRange = maxEquity - minEquity || 1;
+
+  const path = points
+    .map((p, i) => {
+      const x = ((p.time - minTime) / timeRange) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((p.equity - minEquity) / equityRange) * CHART_HEIGHT;
+      return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-40"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Equity curve"
+      >
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-primary" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>{formatCurrency(minEquity)} min</span>
+        <span>{formatCurrency(maxEquity)} max</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders the backtest form and results.
+ * @param {BacktestRunnerProps} props - Component props.
+ * @returns {React.ReactElement} The rendered backtest runner.
+ */
+const BacktestRunner: React.FC<BacktestRunnerProps> = ({ templates, templatesError }): React.ReactElement => {
+  const { toast } = useToast();
+  const timeframes = Object.keys(TIMEFRAME_HORIZON_MS);
+
+  const { assets: tradeableAssets } = useTradeableAssets();
+  const [token, setToken] = React.useState<string>(DEFAULT_TRADE_ASSET);
+  const [timeframe, setTimeframe] = React.useState<string>(timeframes[0]);
+  const [templateId, setTemplateId] = React.useState<string>(templates[0]?.id ?? "");
+  const [startInput, setStartInput] = React.useState<string>(() => toDateTimeLocal(Date.now() - 7 * DAY_MS));
+  const [endInput, setEndInput] = React.useState<string>(() => toDateTimeLocal(Date.now()));
+  const [initialEquityInput, setInitialEquityInput] = React.useState<string>(String(DEFAULT_BACKTEST_INITIAL_EQUITY));
+  const [feePercentInput, setFeePercentInput] = React.useState<string>(String(DEFAULT_BACKTEST_FEE_RATE * 100));
+  const [slippageBpsInput, setSlippageBpsInput] = React.useState<string>(String(DEFAULT_BACKTEST_SLIPPAGE_BPS));
+  const [minEdgeInput, setMinEdgeInput] = React.useState<string>("0");
+
+  const [isRecording, setIsRecording] = React.useState<boolean>(false);
+  const [isRunning, setIsRunning] = React.useState<boolean>(false);
+  const [result, setResult] = React.useState<BacktestResult | null>(null);
+  const [runError, setRunError] = React.useState<string | null>(null);
+
+  const startTime = new Date(startInput).getTime();
+  const endTime = new Date(endInput).getTime();
+  const isRangeValid = Number.isFinite(startTime) && Number.isFinite(endTime) && startTime < endTime;
+
+  /**
+   * Records candles covering the selected range plus the longest prediction horizon,
+   * so exits of predictions made near the end of the range can be simulated.
+   */
+  const handleRecordCandles = async () => {
+    if (!isRangeValid) return;
+    setIsRecording(true);
+    const longestHorizon = Math.max(...Object.values(TIMEFRAME_HORIZON_MS));
+    const recordResult = await recordCandlesAction({
+      coin: token,
+      startTime,
+      endTime: Math.min(endTime + longestHorizon, Date.now()),
+    });
+    setIsRecording(false);
+    toast({
+      title: recordResult.isSuccess ? "Candles Recorded" : "Recording Failed",
+      description: recordResult.message,
+      variant: recordResult.isSuccess ? "default" : "destructive",
+    });
+  };
+
+  const handleRunBacktest = async () => {
+    if (!isRangeValid || !templateId) return;
+    setIsRunning(true);
+    setRunError(null);
+    const backtestResult = await runBacktestAction({
+      token,
+      timeframe,
+      templateId,
+      startTime,
+      endTime,
+      initialEquity: parseFloat(initialEquityInput),
+      feeRate: parseFloat(feePercentInput) / 100,
+      slippageBps: parseFloat(slippageBpsInput),
+      minEdgePercent: parseFloat(minEdgeInput),
+    });
+    setIsRunning(false);
+    if (backtestResult.isSuccess) {
+      setResult(backtestResult.data);
+    } else {
+      setResult(null);
+      setRunError(backtestResult.message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Strategy</CardTitle>
+          <CardDescription>
+            Enters in the direction of each stored prediction and exits when its horizon elapses.
+            Record candles for the range once, then run as many backtests as needed offline.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {templatesError && <ErrorDisplay error={templatesError} />}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-token">Asset</Label>
+              <Select value={token} onValueChange={setToken}>
+                <SelectTrigger id="backtest-token">
+                  <SelectValue placeholder="Select asset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {withSelectedAsset(tradeableAssets, token).map((asset) => (
+                    <SelectItem key={asset} value={asset}>{asset}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-timeframe">Prediction Timeframe</Label>
+              <Select value={timeframe} onValueChange={setTimeframe}>
+                <SelectTrigger id="backtest-timeframe">
+                  <SelectValue placeholder="Select timeframe" />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeframes.map((tf) => (
+                    <SelectItem key={tf} value={tf}>{tf}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-template">Trade Template</Label>
+              <Select value={templateId} onValueChange={setTemplateId} disabled={templates.length === 0}>
+                <SelectTrigger id="backtest-template">
+                  <SelectValue placeholder={templates.length === 0 ? "No templates saved" : "Select template"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name} ({formatNumber(template.size, 4)} @ {template.leverage}x)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-start">From</Label>
+              <Input id="backtest-start" type="datetime-local" value={startInput} onChange={(e) => setStartInput(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-end">To</Label>
+              <Input id="backtest-end" type="datetime-local" value={endInput} onChange={(e) => setEndInput(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-equity">Initial Equity (USD)</Label>
+              <Input id="backtest-equity" type="number" min="0" step="any" value={initialEquityInput} onChange={(e) => setInitialEquityInput(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-fee">Fee per Fill (%)</Label>
+              <Input id="backtest-fee" type="number" min="0" step="any" value={feePercentInput} onChange={(e) => setFeePercentInput(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-slippage">Slippage per Fill (bps)</Label>
+              <Input id="backtest-slippage" type="number" min="0" step="any" value={slippageBpsInput} onChange={(e) => setSlippageBpsInput(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-edge">Min. Predicted Move (%)</Label>
+              <Input id="backtest-edge" type="number" min="0" step="any" value={minEdgeInput} onChange={(e) => setMinEdgeInput(e.target.value)} />
+            </div>
+          </div>
+          {!isRangeValid && (
+            <p className="text-sm text-red-600 dark:text-red-500">The start time must be before the end time.</p>
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleRecordCandles} disabled={!isRangeValid || isRecording || isRunning}>
+              <Download className="mr-2 h-4 w-4" />
+              {isRecording ? "Recording..." : "Record Candles"}
+            </Button>
+            <Button onClick={handleRunBacktest} disabled={!isRangeValid || !templateId || isRunning || isRecording}>
+              <Play className="mr-2 h-4 w-4" />
+              {isRunning ? "Running..." : "Run Backtest"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {runError && <ErrorDisplay error={runError} />}
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Results</CardTitle>
+              <CardDescription>
+                {result.trades.length} trades · {result.skippedPredictions} predictions skipped
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+                <Stat label="Final Equity" value={formatCurrency(result.finalEquity)} />
+                <Stat label="Total Return" value={formatPercentage(result.totalReturn, 2)} className={getPnlColor(result.totalReturn)} />
+                <Stat label="Max Drawdown" value={formatPercentage(result.maxDrawdown, 2)} />
+                <Stat label="Sharpe Ratio" value={result.sharpeRatio !== null ? formatNumber(result.sharpeRatio, 2) : "N/A"} />
+                <Stat label="Win Rate" value={result.winRate !== null ? formatPercentage(result.winRate, 1) : "N/A"} />
+                <Stat label="Fees Paid" value={formatCurrency(result.totalFees)} />
+              </div>
+              <EquityCurveChart points={result.equityCurve} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Trades</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {result.trades.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No trades were entered.</p>
+              ) : (
+                <div className="max-h-96 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Entry</TableHead>
+                        <TableHead>Side</TableHead>
+                        <TableHead className="text-right">Predicted</TableHead>
+                        <TableHead className="text-right">Entry Px</TableHead>
+                        <TableHead className="text-right">Exit Px</TableHead>
+                        <TableHead className="text-right">Fees</TableHead>
+                        <TableHead className="text-right">PnL</TableHead>
+                        <TableHead className="text-right">Equity</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.trades.map((trade) => (
+                        <TableRow key={trade.entryTime}>
+                          <TableCell className="whitespace-nowrap">{formatDateTime(trade.entryTime)}</TableCell>
+                          <TableCell>
+                            <Badge variant={trade.direction === "long" ? "default" : "destructive"}>
+                              {trade.direction.toUpperCase()}
+                            </Badge>
+                            {trade.exitReason === "liquidation" && (
+                              <Badge variant="outline" className="ml-1">LIQ</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(trade.predictedPrice)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(trade.entryPrice)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(trade.exitPrice)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(trade.fees)}</TableCell>
+                          <TableCell className={clsx("text-right", getPnlColor(trade.pnl))}>{formatCurrency(trade.pnl)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(trade.equityAfter)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestRunner;
@@ -0,0 +1,42 @@
+/**
+ * @description
+ * Server Component for the backtesting page (route '/backtest').
+ * Fetches the saved Trade Parameter Templates used for position sizing and renders the
+ * client component that records candles, runs backtests and displays the results.
+ *
+ * @dependencies
+ * - React: For component structure.
+ * - @/actions/template-actions: Server Action to fetch trade templates from the database.
+ * - @/app/backtest/_components/BacktestRunner: Client component for running backtests.
+ *
+ * @notes
+ * - Backtests replay predictions stored by the dashboard, so results only cover the period
+ *   during which the dashboard was fetching predictions.
+ */
+import React from 'react';
+import { Metadata } from 'next';
+import { getTemplatesAction } from '@/actions/template-actions';
+import BacktestRunner from './_components/BacktestRunner';
+
+export const metadata: Metadata = {
+  title: "Backtest - Allora Hyperliquid Assistant",
+};
+
+/**
+ * Renders the backtest page.
+ * @returns {Promise<JSX.Element>} A promise resolving to the rendered backtest page component.
+ */
+export default async function BacktestPage(): Promise<JSX.Element> {
+  const templatesResult = await getTemplatesAction();
+
+  const templates = templatesResult.isSuccess ? templatesResult.data : [];
+  const templatesError = !templatesResult.isSuccess ? templatesResult.message : null;
+
+  return (
+    <div className="container mx-auto mt-16 space-y-8">
+      <h2 className="text-2xl font-semibold tracking-tight">Backtest</h2>
+
+      <BacktestRunner templates={templates} templatesError={templatesError} />
+    </div>
+  );
+}
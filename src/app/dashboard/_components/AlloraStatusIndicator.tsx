@@ -1,30 +1,28 @@
 /**
  * @description
  * Client component responsible for displaying the connection status of the Allora API.
- * It periodically attempts to fetch predictions using `fetchAlloraPredictionsAction`
+ * It periodically reads the predictions section of the server-side poller's snapshot
  * and updates the status displayed by the `StatusIndicator` component based on
  * the success or failure of the fetch attempts.
  *
  * @dependencies
  * - react: For component structure and hooks (`useState`, `useEffect`, `useRef`).
- * - @/hooks/usePeriodicFetcher: Custom hook for periodic data fetching.
+ * - @/hooks/useServerSnapshot: Custom hook for reading the server-side poller's snapshot.
  * - @/hooks/useLocalStorage: Custom hook for accessing settings from localStorage.
- * - @/actions/allora-actions: Server Action to fetch Allora predictions.
  * - @/components/ui/StatusIndicator: Reusable component to display status visually.
  * - @/lib/constants: Provides default settings values.
  * - @/types: Type definitions (AppSettings, AlloraPrediction, ActionState).
  *
  * @notes
- * - Fetches predictions periodically based on the interval configured in settings.
- * - Maps the state (`isLoading`, `error`) from `usePeriodicFetcher` to the `StatusType`
+ * - Reads the cached predictions periodically based on the interval configured in settings; errors reflect the server's last poll.
+ * - Maps the state (`isLoading`, `error`) from `useServerSnapshot` to the `StatusType`
  * required by `StatusIndicator` ('connecting', 'connected', 'error', 'idle').
  */
 "use client";
 
 import React, { useState, useEffect, useRef } from 'react';
-import { usePeriodicFetcher } from '@/hooks/usePeriodicFetcher';
+import { useServerSnapshot } from '@/hooks/useServerSnapshot';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { fetchAlloraPredictionsAction } from '@/actions/allora-actions';
 import StatusIndicator, { StatusType } from '@/components/ui/StatusIndicator';
 import { DEFAULT_APP_SETTINGS } from '@/lib/constants';
 import type { AppSettings } from '@/types';
@@ -41,10 +39,10 @@ const AlloraStatusIndicator: React.FC = () => {
   // Track if we've ever successfully loaded data
   const hasLoadedDataRef = useRef<boolean>(false);
 
-  // Use the periodic fetcher hook to attempt fetching predictions
+  // Read the cached predictions from the server snapshot
   // We don't need the actual prediction data here, just the fetch status.
-  const { isLoading, error, data } = usePeriodicFetcher(
-    fetchAlloraPredictionsAction, // The server action to call
+  const { isLoading, error, data } = useServerSnapshot(
+    "predictions", // The snapshot section to read
     settings.predictionRefreshInterval, // Interval from settings
     null // No initial data needed for status check
   );
@@ -2,66 +2,77 @@
  * @description
  * Client Component responsible for rendering the main content of the dashboard.
  * It receives initial data fetched on the server (passed as props) and manages
- * client-side state, periodic data fetching, interactions between dashboard components,
- * and the contradictory prediction alert logic.
+ * client-side state, periodic reads of the server-side snapshot, interactions between dashboard components,
+ * and the display of contradictory prediction alerts.
  *
  * Key features:
- * - Manages periodic fetching of Hyperliquid account info and positions.
+ * - Reads Hyperliquid account info, positions, predictions and alerts from the server-side poller's cache.
+ * - Uses live account info from the real-time Hyperliquid stream while it is connected, and announces new fills
+ *   and automatic order status changes (e.g. triggered TP/SL, margin cancellations) with toasts.
  * - Displays API connection statuses using StatusIndicator.
- * - Renders AccountSummary, PositionTable, PredictionFeed, TradePanel, and TradeLog.
+ * - Renders AccountSummary, PositionTable, OpenOrdersTable, PredictionFeed, TradePanel, TradeLog, RealizedPnlTable, and PredictionAccuracyPanel.
  * - Manages shared state like the selected prediction.
- * - Implements logic to compare predictions against open positions and trigger alerts based on user settings.
- * - Passes alert status down to the PositionTable.
+ * - Passes the alerts raised by the server-side rule evaluation, with their reasons, down to the PositionTable
+ *   (when alerts are enabled in settings).
  *
  * @dependencies
  * - react: For component structure, state (`useState`), effects (`useEffect`), and refs (`useRef`).
  * - @/types: Type definitions for initial props and state.
- * - @/hooks/usePeriodicFetcher: Custom hook for periodic data fetching.
+ * - @/hooks/useServerSnapshot: Custom hook for reading the server-side poller's snapshot.
+ * - @/hooks/useHyperliquidStream: Custom hook for the real-time Hyperliquid stream.
+ * - @/hooks/use-toast: For announcing fills and order status changes.
  * - @/hooks/useLocalStorage: Custom hook for accessing settings from localStorage.
- * - @/actions/*: Server Actions for fetching data.
  * - @/components/ui/*: Various UI components (StatusIndicator, Button, etc.).
  * - ./AccountSummary: Component to display account balance/margin info.
- * - ./PositionTable: Component to display open positions (now receives alertStatusMap).
+ * - ./PositionTable: Component to display open positions (receives the triggered alerts).
+ * - ./OpenOrdersTable: Component to display, cancel and modify open orders.
  * - ./PredictionFeed: Component to display Allora predictions.
+ * - ./PredictionAccuracyPanel: Component to display per-timeframe prediction accuracy.
  * - ./AlloraStatusIndicator: Component to display Allora API status.
  * - ./HyperliquidStatusIndicator: Component to display Hyperliquid API status.
  * - ./TradePanel: Component for staging trades.
  * - ./TradeLogDisplay: Component for displaying trade history.
+ * - ./RealizedPnlTable: Component for displaying realized PnL and fees from imported fills.
  * - @/lib/constants: Provides default settings values.
+ * - @/lib/formatting: For formatting fill prices and sizes.
  *
  * @notes
  * - Marked with `"use client"` directive.
  * - Takes initial data and error states as props from the parent Server Component (`DashboardPage`).
- * - Manages fetching and state for Hyperliquid account info and positions.
- * - The alert logic currently uses a simple threshold (1% difference in the opposite direction) and checks against the latest 8hr prediction. This logic can be refined.
+ * - Upstream APIs are polled by the server (see `@/lib/poller`); this component only reads the cache, at the
+ *   refresh intervals from settings. "Refresh All" asks the server to poll immediately.
+ * - Alert rules are managed on the Settings page; without any rules, the default 8h / 1% vs entry rule applies.
  * - Improved layout structure with dedicated header row for status/refresh.
  */
 "use client";
 
-import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import React, { useState, useCallback, useRef, useMemo } from "react";
 import type {
   HyperliquidAccountInfo,
   HyperliquidPosition,
   AlloraPrediction,
-  TradeLogEntry,
+  TradeLogPage,
   AppSettings,
+  PositionAlert,
+  HyperliquidFill,
+  HyperliquidOrderUpdate,
 } from "@/types";
-import { usePeriodicFetcher } from "@/hooks/usePeriodicFetcher";
+import { useServerSnapshot } from "@/hooks/useServerSnapshot";
+import { useHyperliquidStream } from "@/hooks/useHyperliquidStream";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
-import {
-  fetchHyperliquidAccountInfoAction,
-  fetchHyperliquidPositionsAction,
-} from "@/actions/hyperliquid-actions";
-import { fetchAlloraPredictionsAction } from "@/actions/allora-actions";
-import { fetchTradeLogAction } from "@/actions/log-actions"; // Import fetchTradeLogAction
+import { useToast } from "@/hooks/use-toast";
 import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
+import { formatCurrency, formatNumber } from "@/lib/formatting";
 import AccountSummary from "./AccountSummary";
 import PositionTable from "./PositionTable";
+import OpenOrdersTable from "./OpenOrdersTable";
 import PredictionFeed from "./PredictionFeed";
+import PredictionAccuracyPanel from "./PredictionAccuracyPanel";
 import AlloraStatusIndicator from "./AlloraStatusIndicator";
 import HyperliquidStatusIndicator from "./HyperliquidStatusIndicator";
 import TradePanel from "./TradePanel";
 import TradeLogDisplay, { TradeLogDisplayRef } from "./TradeLogDisplay"; // Import ref type
+import RealizedPnlTable from "./RealizedPnlTable";
 import { Button } from "@/components/ui/button";
 import { RefreshCw } from "lucide-react";
 
@@ -76,7 +87,7 @@ interface DashboardClientContentProps {
   initialPositionsError: string | null;
   initialPredictions: AlloraPrediction[] | null;
   initialPredictionsError: string | null;
-  initialLogs: TradeLogEntry[] | null; // Add initial logs prop
+  initialLogs: TradeLogPage | null; // First page of the trade log
   initialLogsError: string | null; // Add initial logs error prop
 }
 
@@ -110,9 +121,7 @@ export default function DashboardClientContent({
 
   // Ref for TradeLogDisplay component to trigger refresh
   const tradeLogRef = useRef<TradeLogDisplayRef>(null);
-
-  // State for contradictory prediction alerts
-  const [alertStatusMap, setAlertStatusMap] = useState<Record<string, boolean>>({});
+  const { toast } = useToast();
 
   // --- Data Fetching Hooks ---
   const {
@@ -120,8 +129,8 @@ export default function DashboardClientContent({
     isLoading: isLoadingAccountInfo,
     error: accountInfoError,
     refresh: refreshAccountInfo,
-  } = usePeriodicFetcher(
-    fetchHyperliquidAccountInfoAction,
+  } = useServerSnapshot(
+    "accountInfo",
     settings.accountRefreshInterval,
     initialAccountInfo
   );
@@ -131,8 +140,8 @@ export default function DashboardClientContent({
     isLoading: isLoadingPositions,
     error: positionsError,
     refresh: refreshPositions,
-  } = usePeriodicFetcher(
-    fetchHyperliquidPositionsAction,
+  } = useServerSnapshot(
+    "positions",
     settings.accountRefreshInterval,
     initialPositions
   );
@@ -142,14 +151,39 @@ export default function DashboardClientContent({
     isLoading: isLoadingPredictions,
     error: predictionsError,
     refresh: refreshPredictions,
-  } = usePeriodicFetcher(
-    fetchAlloraPredictionsAction,
+  } = useServerSnapshot(
+    "predictions",
     settings.predictionRefreshInterval,
     initialPredictions
   );
 
-  // Combine initial and fetched data
-  const currentAccountInfo = accountInfo ?? initialAccountInfo;
+  // --- Real-time Stream ---
+  // Fills refresh the trade log; order statuses the user didn't trigger from this UI get a toast
+  const handleFills = useCallback((fills: HyperliquidFill[]) => {
+    for (const fill of fills) {
+      toast({
+        title: `${fill.coin} ${fill.dir}`,
+        description: `Filled ${formatNumber(parseFloat(fill.sz), 6)} @ ${formatCurrency(parseFloat(fill.px))}`,
+      });
+    }
+    tradeLogRef.current?.refresh();
+  }, [toast]);
+
+  const handleOrderUpdates = useCallback((updates: HyperliquidOrderUpdate[]) => {
+    for (const { order, status } of updates) {
+      if (status === "open" || status === "filled" || status === "canceled") continue;
+      toast({
+        title: `${order.coin} order ${status === "triggered" ? "triggered" : "cancelled"}`,
+        description: `Order ${order.oid} (${order.side === "B" ? "buy" : "sell"} ${order.origSz}): ${status}`,
+        variant: status === "triggered" ? "default" : "destructive",
+      });
+    }
+  }, [toast]);
+
+  const stream = useHyperliquidStream({ onFills: handleFills, onOrderUpdates: handleOrderUpdates });
+
+  // Combine live, fetched and initial data
+  const currentAccountInfo = (stream.isLive ? stream.accountInfo : null) ?? accountInfo ?? initialAccountInfo;
   const currentPositions = positions ?? initialPositions;
   const currentPredictions = predictions ?? initialPredictions;
   const currentAccountInfoError = accountInfo === null ? initialAccountError : accountInfoError;
@@ -157,69 +191,22 @@ export default function DashboardClientContent({
   const currentPredictionsError = predictions === null ? initialPredictionsError : predictionsError;
 
   // --- Alert Logic ---
-  useEffect(() => {
-    // Only run alert logic if alerts are enabled in settings
-    if (!settings.alertsEnabled || !currentPositions || !currentPredictions) {
-      setAlertStatusMap({}); // Clear alerts if disabled or data missing
-      return;
-    }
-
-    console.log("Checking for contradictory predictions...");
-    const newAlertStatusMap: Record<string, boolean> = {};
-    const alertThresholdPercent = 0.01; // Example: 1% threshold
-
-    const openPositions = currentPositions.filter(p => p?.position?.szi && parseFloat(p.position.szi) !== 0);
-    const latestPredictions = currentPredictions // Sort by timestamp descending
-      .sort((a, b) => b.timestamp - a.timestamp);
-
-    openPositions.forEach(pos => {
-      const assetName = pos.position?.coin;
-      const entryPrice = parseFloat(pos.position?.entryPx || "0");
-      const positionSize = parseFloat(pos.position?.szi || "0");
-
-      if (!assetName || isNaN(entryPrice) || isNaN(positionSize) || positionSize === 0) {
-        console.warn("Skipping position due to invalid data:", pos);
-        return; // Skip if essential data is missing
-      }
-
-      const isLong = positionSize > 0;
-
-      // Find the latest relevant prediction (e.g., 8hr) for this asset
-      // Assumption: We only care about BTC for now. Extend if needed.
-      const relevantPrediction = latestPredictions.find(pred => pred.timeframe === '8h'); // Hardcoded 8hr for now
-
-      if (relevantPrediction) {
-        const predictionPrice = relevantPrediction.price;
-        let isContradictory = false;
-
-        if (isLong) {
-          // Long position contradicts if prediction is significantly lower
-          const lowerBound = entryPrice * (1 - alertThresholdPercent);
-          if (predictionPrice < lowerBound) {
-            isContradictory = true;
-            console.log(`Alert: LONG ${assetName} (Entry: ${entryPrice}) contradicts 8h prediction (${predictionPrice})`);
-          }
-        } else { // Short position
-          // Short position contradicts if prediction is significantly higher
-          const upperBound = entryPrice * (1 + alertThresholdPercent);
-          if (predictionPrice > upperBound) {
-            isContradictory = true;
-            console.log(`Alert: SHORT ${assetName} (Entry: ${entryPrice}) contradicts 8h prediction (${predictionPrice})`);
-          }
-        }
-        newAlertStatusMap[assetName] = isContradictory;
-      } else {
-        console.log(`No relevant 8h prediction found for ${assetName} to check alert status.`);
-      }
-    });
+  // Rules are evaluated by the server poller alongside every account poll
+  const { data: alerts } = useServerSnapshot(
+    "alerts",
+    settings.accountRefreshInterval,
+  );
 
-    // Update the state only if the map has changed
-    if (JSON.stringify(newAlertStatusMap) !== JSON.stringify(alertStatusMap)) {
-      console.log("Updating alert status map:", newAlertStatusMap);
-      setAlertStatusMap(newAlertStatusMap);
+  // Group triggered alerts by asset for the position table
+  const positionAlerts = useMemo(() => {
+    const grouped: Record<string, PositionAlert[]> = {};
+    if (!settings.alertsEnabled) return grouped;
+    for (const alert of alerts ?? []) {
+      if (!grouped[alert.assetName]) grouped[alert.assetName] = [];
+      grouped[alert.assetName].push(alert);
     }
-
-  }, [currentPredictions, currentPositions, settings.alertsEnabled, alertStatusMap]); // Added alertStatusMap to dependencies
+    return grouped;
+  }, [alerts, settings.alertsEnabled]);
 
 
   // --- Callbacks ---
@@ -245,6 +232,12 @@ export default function DashboardClientContent({
     }
   }, [isManualRefreshing, refreshAccountInfo, refreshPositions, refreshPredictions]); // Dependencies
 
+  // After a position is closed from the table, refresh account info and the trade log
+  const handlePositionsClosed = useCallback(() => {
+    refreshAccountInfo();
+    tradeLogRef.current?.refresh();
+  }, [refreshAccountInfo]);
+
   const handleSelectPrediction = (prediction: AlloraPrediction | null) => {
     setSelectedPrediction(prediction);
   };
@@ -284,14 +277,17 @@ export default function DashboardClientContent({
             key="position-table"
             initialPositions={initialPositions} // Pass initial for first render
             initialError={initialPositionsError}
-            alertStatusMap={alertStatusMap} // Pass down the alert status
+            positionAlerts={positionAlerts} // Pass down the triggered alerts
+            onPositionsClosed={handlePositionsClosed}
           />
+          <OpenOrdersTable key="open-orders-table" />
           <TradeLogDisplay
             key="trade-log"
-            initialLogEntries={initialLogs}
+            initialLogPage={initialLogs}
             initialError={initialLogsError}
             ref={tradeLogRef} // Assign ref
           />
+          <RealizedPnlTable key="realized-pnl" />
         </div>
 
         {/* Right Column */}
@@ -306,6 +302,7 @@ export default function DashboardClientContent({
             key="trade-panel"
             selectedPrediction={selectedPrediction}
           />
+          <PredictionAccuracyPanel key="prediction-accuracy" />
         </div>
       </div>
     </div>
@@ -0,0 +1,482 @@
+/**
+ * @description
+ * Client Component responsible for displaying the user's open Hyperliquid orders in a table.
+ * Resting limit orders (GTC/post-only) and untriggered TP/SL orders are shown here,
+ * with actions to cancel an order, cancel all orders for an asset, or modify an order's price and size.
+ *
+ * Key features:
+ * - Shows live open orders from `useHyperliquidStream` while the stream is connected; otherwise reads them
+ *   periodically from the server snapshot using `useServerSnapshot`,
+ *   on the same cadence as positions (`settings.accountRefreshInterval`).
+ * - Displays orders in a Shadcn `Table` with horizontal scrolling on small screens.
+ * - Per-row "Edit" (price/size dialog) and "Cancel" actions.
+ * - "Cancel all" per asset, guarded by an AlertDialog confirmation.
+ * - Handles loading, error, and empty states gracefully.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (`useState`, `useMemo`, `useCallback`).
+ * - @/types: Provides HyperliquidOpenOrder, AppSettings type definitions.
+ * - @/hooks/useServerSnapshot: Custom hook for reading the server-side poller's snapshot.
+ * - @/hooks/useHyperliquidStream: Custom hook for the real-time Hyperliquid stream.
+ * - @/hooks/useLocalStorage: Custom hook for accessing settings from localStorage.
+ * - @/hooks/use-toast: For displaying feedback on cancel/modify results.
+ * - @/actions/hyperliquid-actions: Server Actions for cancelling and modifying open orders.
+ * - @/lib/formatting: Utility functions for formatting numbers and dates.
+ * - @/lib/constants: Provides default settings values.
+ * - @/components/ui/*: Shadcn Card, Table, Dialog, AlertDialog, Button, Input, Label, Badge components.
+ * - lucide-react: For icons.
+ *
+ * @notes
+ * - The order list is refreshed immediately after a successful cancel or modify.
+ * - For trigger orders the editable price is the trigger price, not the limit price.
+ */
+"use client";
+
+import React from "react";
+import type { HyperliquidOpenOrder, AppSettings } from "@/types";
+import { useServerSnapshot } from "@/hooks/useServerSnapshot";
+import { useHyperliquidStream } from "@/hooks/useHyperliquidStream";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useToast } from "@/hooks/use-toast";
+import {
+  cancelOrderAction,
+  cancelAllOrdersForAssetAction,
+  modifyOrderAction,
+} from "@/actions/hyperliquid-actions";
+import { formatCurrency, formatNumber, formatDateTime } from "@/lib/formatting";
+import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import ErrorDisplay from "@/components/ui/ErrorDisplay";
+import clsx from "clsx";
+import { Pencil, X } from "lucide-react";
+
+/**
+ * Props for the OpenOrdersTable component.
+ * @property {HyperliquidOpenOrder[] | null} [initialOrders] - Optional initial open orders data.
+ */
+interface OpenOrdersTableProps {
+  initialOrders?: HyperliquidOpenOrder[] | null;
+}
+
+/**
+ * Returns the price shown for an order: the trigger price for trigger orders, otherwise the limit price.
+ */
+const getOrderPrice = (order: HyperliquidOpenOrder): string =>
+  order.isTrigger ? order.triggerPx : order.limitPx;
+
+/**
+ * Renders a table displaying the user's open Hyperliquid orders with cancel and modify actions.
+ * @param {OpenOrdersTableProps} props - Component props.
+ * @returns {React.ReactElement} The rendered open orders table component.
+ */
+const OpenOrdersTable: React.FC<OpenOrdersTableProps> = ({
+  initialOrders = null,
+}): React.ReactElement => {
+  const { toast } = useToast();
+  // Get app settings from local storage for refresh interval
+  const [settings] = useLocalStorage<AppSettings>(
+    "alloraHyperliquidApp_settings",
+    DEFAULT_APP_SETTINGS,
+  );
+
+  // Fetch open orders on the same cadence as positions
+  const {
+    data: orders,
+    isLoading,
+    error,
+    refresh,
+  } = useServerSnapshot(
+    "openOrders",
+    settings.accountRefreshInterval,
+    initialOrders ?? undefined,
+  );
+  // Live open orders pushed by the server; polling is the fallback
+  const stream = useHyperliquidStream();
+
+  // Oid of the order currently being cancelled (for per-row loading state)
+  const [cancellingOid, setCancellingOid] = React.useState<number | null>(null);
+  // Asset whose orders are pending a "cancel all" confirmation
+  const [cancelAllAsset, setCancelAllAsset] = React.useState<string | null>(null);
+  const [isCancellingAll, setIsCancellingAll] = React.useState<boolean>(false);
+  // Order being edited and the edit form values
+  const [editingOrder, setEditingOrder] = React.useState<HyperliquidOpenOrder | null>(null);
+  const [editPrice, setEditPrice] = React.useState<string>("");
+  const [editSize, setEditSize] = React.useState<string>("");
+  const [isModifying, setIsModifying] = React.useState<boolean>(false);
+
+  const currentOrders = React.useMemo(
+    () => (stream.isLive ? stream.openOrders : null) ?? orders ?? [],
+    [stream.isLive, stream.openOrders, orders],
+  );
+
+  // Assets that currently have open orders, for the "cancel all" buttons
+  const assetsWithOrders = React.useMemo(
+    () => Array.from(new Set(currentOrders.map((order) => order.coin))).sort(),
+    [currentOrders],
+  );
+
+  // Cancel a single order by oid
+  const handleCancel = React.useCallback(async (order: HyperliquidOpenOrder) => {
+    setCancellingOid(order.oid);
+    try {
+      const result = await cancelOrderAction({ assetName: order.coin, oid: order.oid });
+      if (result.isSuccess) {
+        toast({
+          title: "Order Cancelled",
+          description: result.message,
+        });
+        refresh();
+      } else {
+        toast({
+          title: "Cancel Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (e) {
+      console.error("Error cancelling order:", e);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while cancelling the order.",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingOid(null);
+    }
+  }, [refresh, toast]);
+
+  // Cancel every open order for the confirmed asset
+  const handleConfirmCancelAll = async () => {
+    if (!cancelAllAsset) return;
+
+    setIsCancellingAll(true);
+    try {
+      const result = await cancelAllOrdersForAssetAction(cancelAllAsset);
+      toast({
+        title: result.isSuccess ? "Orders Cancelled" : "Cancel Failed",
+        description: result.message,
+        variant: result.isSuccess && result.data.errors.length === 0 ? "default" : "destructive",
+      });
+      if (result.isSuccess) {
+        refresh();
+      }
+    } catch (e) {
+      console.error("Error cancelling orders:", e);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while cancelling orders.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancellingAll(false);
+      setCancelAllAsset(null);
+    }
+  };
+
+  // Open the edit dialog pre-filled with the order's current price and size
+  const handleEditClick = (order: HyperliquidOpenOrder) => {
+    setEditingOrder(order);
+    setEditPrice(getOrderPrice(order));
+    setEditSize(order.sz);
+  };
+
+  // Submit the price/size modification
+  const handleConfirmModify = async () => {
+    if (!editingOrder) return;
+
+    const price = parseFloat(editPrice);
+    const size = parseFloat(editSize);
+    if (isNaN(price) || price <= 0 || isNaN(size) || size <= 0) {
+      toast({
+        title: "Invalid Values",
+        description: "Price and size must be positive numbers.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsModifying(true);
+    try {
+      const result = await modifyOrderAction({
+        assetName: editingOrder.coin,
+        oid: editingOrder.oid,
+        price,
+        size,
+      });
+      if (result.isSuccess) {
+        toast({
+          title: "Order Modified",
+          description: result.message,
+        });
+        setEditingOrder(null);
+        refresh();
+      } else {
+        toast({
+          title: "Modify Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (e) {
+      console.error("Error modifying order:", e);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while modifying the order.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsModifying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle>Open Orders</CardTitle>
+            <CardDescription>
+              Resting limit orders and pending TP/SL triggers.
+              {error && orders && (
+                <span className="text-destructive font-medium ml-2">(Error fetching updates)</span>
+              )}
+            </CardDescription>
+          </div>
+          {assetsWithOrders.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {assetsWithOrders.map((coin) => (
+                <Button
+                  key={coin}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCancelAllAsset(coin)}
+                  disabled={isCancellingAll}
+                >
+                  Cancel all {coin}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="min-h-[100px]">
+          {isLoading && !orders && (
+            <div className="flex justify-center items-center h-24">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {error && !orders && (
+            <div className="flex justify-center items-center h-24">
+              <ErrorDisplay error={error} />
+            </div>
+          )}
+
+          {!isLoading && !error && currentOrders.length === 0 && (
+            <p className="text-muted-foreground text-center py-8">
+              No open orders.
+            </p>
+          )}
+
+          {currentOrders.length > 0 && (
+            <div className="w-full overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[140px]">Time</TableHead>
+                    <TableHead className="min-w-[70px]">Asset</TableHead>
+                    <TableHead className="min-w-[60px]">Side</TableHead>
+                    <TableHead className="min-w-[120px]">Type</TableHead>
+                    <TableHead className="text-right min-w-[110px]">Price</TableHead>
+                    <TableHead className="text-right min-w-[100px]">Size</TableHead>
+                    <TableHead className="text-right min-w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {currentOrders.map((order) => {
+                    const isBuy = order.side === "B";
+                    const isCancelling = cancellingOid === order.oid;
+                    return (
+                      <TableRow key={order.oid}>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {formatDateTime(order.timestamp)}
+                        </TableCell>
+                        <TableCell className="font-medium whitespace-nowrap">{order.coin}</TableCell>
+                        <TableCell
+                          className={clsx(
+                            "whitespace-nowrap font-medium",
+                            isBuy ? "text-green-600 dark:text-green-500" : "text-red-600 dark:text-red-500",
+                          )}
+                        >
+                          {isBuy ? "Buy" : "Sell"}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          <span>{order.orderType}</span>
+                          {order.tif === "Alo" && (
+                            <Badge variant="outline" className="ml-1 text-xs">Post-only</Badge>
+                          )}
+                          {order.reduceOnly && (
+                            <Badge variant="secondary" className="ml-1 text-xs">Reduce</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {formatCurrency(getOrderPrice(order), { maximumFractionDigits: 6 })}
+                          {order.isTrigger && (
+                            <span className="block text-xs text-muted-foreground">{order.triggerCondition}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {formatNumber(order.sz, 4)}
+                          {order.sz !== order.origSz && (
+                            <span className="block text-xs text-muted-foreground">of {formatNumber(order.origSz, 4)}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              onClick={() => handleEditClick(order)}
+                              aria-label={`Edit order ${order.oid}`}
+                              className="h-8 w-8"
+                              disabled={isCancelling}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              size="icon"
+                              onClick={() => handleCancel(order)}
+                              aria-label={`Cancel order ${order.oid}`}
+                              className="h-8 w-8"
+                              disabled={isCancelling}
+                            >
+                              {isCancelling ? <LoadingSpinner size={14} /> : <X className="h-4 w-4" />}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Modify Order Dialog */}
+      <Dialog open={editingOrder !== null} onOpenChange={(open) => !open && !isModifying && setEditingOrder(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Modify Order</DialogTitle>
+            <DialogDescription>
+              {editingOrder && (
+                <>
+                  {editingOrder.side === "B" ? "Buy" : "Sell"} {editingOrder.coin} {editingOrder.orderType} order #{editingOrder.oid}.
+                  {editingOrder.isTrigger && " The price is the trigger price."}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="modify-order-price">{editingOrder?.isTrigger ? "Trigger Price" : "Limit Price"}</Label>
+              <Input
+                id="modify-order-price"
+                type="number"
+                step="any"
+                min="0"
+                value={editPrice}
+                onChange={(e) => setEditPrice(e.target.value)}
+                disabled={isModifying}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="modify-order-size">Size ({editingOrder?.coin})</Label>
+              <Input
+                id="modify-order-size"
+                type="number"
+                step="any"
+                min="0"
+                value={editSize}
+                onChange={(e) => setEditSize(e.target.value)}
+                disabled={isModifying}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingOrder(null)} disabled={isModifying}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmModify} disabled={isModifying}>
+              {isModifying ? "Saving..." : "Save Changes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel All Confirmation Dialog */}
+      <AlertDialog open={cancelAllAsset !== null} onOpenChange={(open) => !open && !isCancellingAll && setCancelAllAsset(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel all {cancelAllAsset} orders?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will cancel every open {cancelAllAsset} order, including pending take-profit and stop-loss triggers.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCancellingAll}>Keep Orders</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmCancelAll}
+              disabled={isCancellingAll}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isCancellingAll ? "Cancelling..." : "Cancel All"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default OpenOrdersTable;
@@ -1,50 +1,83 @@
 /**
  * @description
  * Client Component responsible for displaying the user's open Hyperliquid positions in a table.
- * It fetches position data periodically and handles loading, error, and empty states.
- * It now also accepts an alert status map to visually indicate positions that might contradict recent predictions.
+ * It shows live positions and mid prices from the real-time Hyperliquid stream, falls back to the server-side poller's
+ * cache when the stream is unavailable, and handles loading, error, and empty states.
+ * It also accepts the triggered alert rules to indicate positions that contradict recent predictions, with the reason.
  *
  * Key features:
- * - Fetches open positions periodically using `usePeriodicFetcher` and `fetchHyperliquidPositionsAction`.
+ * - Uses live positions (with PnL) and mid prices from `useHyperliquidStream` while the stream is connected.
+ * - Otherwise reads open positions periodically from the server snapshot using `useServerSnapshot` and polls prices.
  * - Uses `useLocalStorage` to get the refresh interval from settings.
  * - Displays positions in a Shadcn `Table` with horizontal scrolling on small screens.
  * - Formats numeric data (size, price, PnL) using `lib/formatting`.
  * - Handles loading, error, and empty states gracefully.
  * - Applies styling for PnL (green/red) and ensures consistent text alignment.
- * - Accepts `alertStatusMap` to visually highlight potentially contradictory positions.
- * - Displays real-time mark prices when available.
+ * - Accepts `positionAlerts` to highlight contradictory positions and show why each alert rule triggered.
+ * - Displays real-time prices when available.
+ * - Shows the liquidation price reported by Hyperliquid, falling back to our estimate from the clearinghouse state
+ *   (`@/lib/liquidation`), and flags positions where the two diverge.
+ * - Per-row "Close", "Close 50%" and "Reduce by X" actions that submit reduce-only orders after a confirmation dialog, using the default slippage from settings.
+ * - A "Close All" panic action guarded by two confirmation steps.
+ * - Shows each position's leverage and margin mode, with a "Margin" action on isolated positions to add or remove margin.
+ * - Each close request carries a client order ID (`cloid`), reused if the request is retried after a lost response.
+ *   If the server refuses the cloid as a duplicate, the dialog stays open with the same cloid and the data is refreshed.
+ *   The close action records the close in the Trade Log (`action: 'close'`) server-side.
  *
  * @dependencies
  * - react: For component structure and hooks (`useState`, `useEffect`, `useMemo`).
  * - @/types: Provides HyperliquidPosition, AppSettings type definitions.
- * - @/hooks/usePeriodicFetcher: Custom hook for periodic data fetching.
+ * - @/hooks/useServerSnapshot: Custom hook for reading the server-side poller's snapshot.
+ * - @/hooks/useHyperliquidStream: Custom hook for the real-time Hyperliquid stream.
  * - @/hooks/useLocalStorage: Custom hook for accessing settings from localStorage.
- * - @/actions/hyperliquid-actions: Server Action for fetching Hyperliquid positions and current price.
+ * - @/actions/hyperliquid-actions: Server Actions for fetching the current price, closing positions and adjusting isolated margin.
+ * - @/lib/cloid: Generates client order IDs for close requests.
+ * - @/hooks/use-toast: For displaying close results.
  * - @/lib/formatting: Utility functions for formatting numbers.
+ * - @/lib/liquidation: Estimates liquidation prices from the clearinghouse state.
  * - @/lib/constants: Provides default settings values and potentially asset details.
  * - @/components/ui/card: Shadcn Card components for layout.
  * - @/components/ui/table: Shadcn Table components for data display.
  * - @/components/ui/LoadingSpinner: Component to display loading state.
  * - @/components/ui/ErrorDisplay: Component to display error messages.
  * - @/components/ui/tooltip: Shadcn Tooltip components.
+ * - @/components/ui/dialog, alert-dialog, button, input, label: Shadcn components for the close and margin actions.
  * - clsx: Utility for conditional class names.
  * - lucide-react: For icons (AlertTriangle).
  *
  * @notes
  * - This component manages its own data fetching cycle after receiving initial data via props.
- * - Calculation of Unrealized PnL and Liquidation Price relies on data provided directly by the Hyperliquid API (`assetPositions` structure).
+ * - REST price polling (`fetchCurrentPriceAction`) only runs while the stream is not live.
+ * - Unrealized PnL and the liquidation price come directly from the Hyperliquid API (`assetPositions` structure).
+ *   Our own estimate is shown (marked "~") only when Hyperliquid reports none, and is compared with the reported price
+ *   otherwise; a difference above `LIQUIDATION_DIVERGENCE_WARN_PERCENT` is flagged.
  * - Asset name mapping uses the 'coin' field from the position data.
- * - Alert display depends on the `alertStatusMap` prop passed from the parent component.
+ * - Alert display depends on the `positionAlerts` prop passed from the parent component.
+ * - Close and margin actions are disabled while the master trade switch is off.
+ * - Margin can only be adjusted on isolated positions; cross positions share the account's margin.
  */
 "use client";
 
 import React from "react";
-import type { HyperliquidPosition, AppSettings } from "@/types";
-import { usePeriodicFetcher } from "@/hooks/usePeriodicFetcher";
+import type { HyperliquidPosition, AppSettings, PositionAlert } from "@/types";
+import { useServerSnapshot } from "@/hooks/useServerSnapshot";
+import { useHyperliquidStream } from "@/hooks/useHyperliquidStream";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
-import { fetchHyperliquidPositionsAction, fetchCurrentPriceAction } from "@/actions/hyperliquid-actions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchCurrentPriceAction,
+  closePositionAction,
+  closeAllPositionsAction,
+  updateIsolatedMarginAction,
+} from "@/actions/hyperliquid-actions";
 import { formatCurrency, formatNumber } from "@/lib/formatting";
-import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
+import {
+  DEFAULT_APP_SETTINGS,
+  DEFAULT_SLIPPAGE_BPS,
+  LIQUIDATION_DIVERGENCE_WARN_PERCENT,
+} from "@/lib/constants";
+import { calculateLiquidationPrice, getLiquidationDivergencePercent } from "@/lib/liquidation";
+import { DUPLICATE_CLOID_ERROR, generateCloid, type Cloid } from "@/lib/cloid";
 import {
   Card,
   CardContent,
@@ -70,18 +103,67 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/** How much of a position a close request covers. */
+type CloseMode = "full" | "half" | "custom";
 
+/**
+ * A pending close request awaiting confirmation.
+ * @property {string} assetName - Coin name of the position.
+ * @property {number} size - Signed position size (positive for long, negative for short).
+ * @property {CloseMode} mode - Full close, 50% close, or reduce by a custom size.
+ * @property {Cloid} cloid - Client order ID of the close order, kept across retries of the same request.
+ */
+interface CloseRequest {
+  assetName: string;
+  size: number;
+  mode: CloseMode;
+  cloid: Cloid;
+}
+
+/**
+ * A pending isolated margin adjustment.
+ * @property {string} assetName - Coin name of the position.
+ * @property {number} marginUsed - Margin currently allocated to the position (USD).
+ */
+interface MarginRequest {
+  assetName: string;
+  marginUsed: number;
+}
 
 /**
  * Props for the PositionTable component.
  * @property {HyperliquidPosition[] | null} initialPositions - The initial position data fetched server-side.
  * @property {string | null} initialError - An error message if the initial fetch failed.
- * @property {Record<string, boolean>} [alertStatusMap] - Optional map where keys are asset names and values are true if an alert should be shown for that position.
+ * @property {Record<string, PositionAlert[]>} [positionAlerts] - Optional map of asset names to the alerts triggered for that position.
+ * @property {() => void} [onPositionsClosed] - Optional callback invoked after a close order was submitted (e.g., to refresh the trade log and account info).
  */
 interface PositionTableProps {
   initialPositions: HyperliquidPosition[] | null;
   initialError: string | null;
-  alertStatusMap?: Record<string, boolean>; // Added prop for alert status
+  positionAlerts?: Record<string, PositionAlert[]>;
+  onPositionsClosed?: () => void;
 }
 
 /**
@@ -92,16 +174,21 @@ interface PositionTableProps {
 const PositionTable: React.FC<PositionTableProps> = ({
   initialPositions,
   initialError,
-  alertStatusMap = {}, // Default to empty object
+  positionAlerts = {}, // Default to empty object
+  onPositionsClosed,
 }): React.ReactElement => {
+  const { toast } = useToast();
   // Get app settings from local storage for refresh interval
   const [settings] = useLocalStorage<AppSettings>(
     "alloraHyperliquidApp_settings",
     DEFAULT_APP_SETTINGS,
   );
 
-  // State to store current mark prices
-  const [markPrices, setMarkPrices] = React.useState<Record<string, number>>({});
+  // Real-time positions and prices pushed by the server
+  const stream = useHyperliquidStream();
+
+  // State to store prices polled over REST (fallback when the stream is not live)
+  const [polledMarkPrices, setPolledMarkPrices] = React.useState<Record<string, number>>({});
   const [isLoadingPrices, setIsLoadingPrices] = React.useState<boolean>(false); // Can be used for per-row loading if needed
 
   // Fetch positions periodically using the custom hook
@@ -109,16 +196,22 @@ const PositionTable: React.FC<PositionTableProps> = ({
     data: positions,
     isLoading,
     error,
-  } = usePeriodicFetcher(
-    fetchHyperliquidPositionsAction,
+    refresh,
+  } = useServerSnapshot(
+    "positions",
     settings.accountRefreshInterval,
     initialPositions,
   );
 
   // Use the initial error from props if the first client-side fetch hasn't happened yet or if fetcher has no error yet
   const currentError = positions === null && !isLoading ? initialError : error;
-  // Prefer fresh data from the fetcher, fallback to initial data if fetcher hasn't populated yet
-  const currentPositions = positions ?? initialPositions;
+  // Prefer live data from the stream, then fresh data from the fetcher, then the initial data
+  const livePositions = stream.isLive ? stream.accountInfo?.assetPositions ?? null : null;
+  const currentPositions = livePositions ?? positions ?? initialPositions;
+
+  // Clearinghouse state (account value, maintenance margin) for our liquidation estimates
+  const { data: accountSnapshot } = useServerSnapshot("accountInfo", settings.accountRefreshInterval, null);
+  const clearinghouseState = (stream.isLive ? stream.accountInfo : null) ?? accountSnapshot;
 
   /**
    * Helper function to get asset name from position data, handling potential variations.
@@ -152,7 +245,7 @@ const PositionTable: React.FC<PositionTableProps> = ({
       if (result.isSuccess && result.data?.price) {
         const price = parseFloat(result.data.price);
         if (!isNaN(price)) {
-          setMarkPrices(prev => ({
+          setPolledMarkPrices(prev => ({
             ...prev,
             [assetName]: price,
           }));
@@ -169,9 +262,9 @@ const PositionTable: React.FC<PositionTableProps> = ({
     }
   }, []); // No dependencies here to avoid recreating this function
 
-  // Fetch mark prices for each unique asset when positions change or periodically
+  // Fetch mark prices for each unique asset when positions change or periodically (only while the stream is not live)
   React.useEffect(() => {
-    if (!currentPositions || currentPositions.length === 0) return;
+    if (stream.isLive || !currentPositions || currentPositions.length === 0) return;
 
     const uniqueAssets = new Set<string>();
     currentPositions.forEach(position => {
@@ -187,7 +280,7 @@ const PositionTable: React.FC<PositionTableProps> = ({
     // Initial fetch for prices not yet loaded
     Array.from(uniqueAssets).forEach(assetName => {
       // Fetch immediately only if not already present
-      if (markPrices[assetName] === undefined) {
+      if (polledMarkPrices[assetName] === undefined) {
         fetchMarkPrice(assetName);
       }
     });
@@ -204,7 +297,175 @@ const PositionTable: React.FC<PositionTableProps> = ({
       if (priceRefreshInterval) clearInterval(priceRefreshInterval);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPositions, settings.accountRefreshInterval]); // Dependencies: positions and interval setting
+  }, [currentPositions, settings.accountRefreshInterval, stream.isLive]); // Dependencies: positions, interval setting and stream state
+
+  // Current price per asset: streamed mid prices while live, otherwise the polled prices
+  const markPrices = React.useMemo((): Record<string, number> => {
+    if (!stream.isLive) return polledMarkPrices;
+    const prices: Record<string, number> = { ...polledMarkPrices };
+    for (const [coin, mid] of Object.entries(stream.mids)) {
+      const price = parseFloat(mid);
+      if (!isNaN(price)) prices[coin] = price;
+    }
+    return prices;
+  }, [stream.isLive, stream.mids, polledMarkPrices]);
+
+  // State for the per-position close dialog
+  const [closeRequest, setCloseRequest] = React.useState<CloseRequest | null>(null);
+  const [reduceSizeInput, setReduceSizeInput] = React.useState<string>("");
+  const [isClosing, setIsClosing] = React.useState<boolean>(false);
+  // Close-all requires two confirmations: 1 = first prompt, 2 = final prompt
+  const [closeAllStep, setCloseAllStep] = React.useState<0 | 1 | 2>(0);
+  const [isClosingAll, setIsClosingAll] = React.useState<boolean>(false);
+  // State for the isolated margin dialog
+  const [marginRequest, setMarginRequest] = React.useState<MarginRequest | null>(null);
+  const [marginAmountInput, setMarginAmountInput] = React.useState<string>("");
+  const [isUpdatingMargin, setIsUpdatingMargin] = React.useState<boolean>(false);
+
+  const tradingEnabled = settings.tradeSwitchEnabled;
+
+  // Size (absolute, in base units) that the pending close request covers
+  const closeRequestSize = React.useMemo((): number | null => {
+    if (!closeRequest) return null;
+    const absSize = Math.abs(closeRequest.size);
+    if (closeRequest.mode === "full") return absSize;
+    if (closeRequest.mode === "half") return absSize / 2;
+    const parsed = parseFloat(reduceSizeInput);
+    return !isNaN(parsed) && parsed > 0 ? Math.min(parsed, absSize) : null;
+  }, [closeRequest, reduceSizeInput]);
+
+  const openCloseDialog = (assetName: string, size: number, mode: CloseMode) => {
+    setCloseRequest({ assetName, size, mode, cloid: generateCloid() });
+    setReduceSizeInput("");
+  };
+
+  // Submit the confirmed close request as a reduce-only order
+  const handleConfirmClose = async () => {
+    if (!closeRequest || closeRequestSize === null) return;
+
+    setIsClosing(true);
+    try {
+      const slippageBps = settings.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS;
+      const result = await closePositionAction(
+        closeRequest.mode === "custom"
+          ? { assetName: closeRequest.assetName, size: closeRequestSize, slippageBps, cloid: closeRequest.cloid }
+          : { assetName: closeRequest.assetName, fraction: closeRequest.mode === "full" ? 1 : 0.5, slippageBps, cloid: closeRequest.cloid },
+      );
+
+      if (result.isSuccess) {
+        toast({
+          title: result.data.isFullClose ? "Position Closed" : "Position Reduced",
+          description: result.message,
+        });
+      } else {
+        toast({
+          title: result.error === DUPLICATE_CLOID_ERROR ? "Close Already Submitted" : "Close Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+
+      // A duplicate cloid means the first attempt may still be live: keep the request (and its cloid) for retries
+      if (result.isSuccess || result.error !== DUPLICATE_CLOID_ERROR) {
+        setCloseRequest(null);
+      }
+      refresh();
+      onPositionsClosed?.();
+    } catch (e) {
+      console.error("Error closing position:", e);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while closing the position.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const openMarginDialog = (assetName: string, marginUsed: number) => {
+    setMarginRequest({ assetName, marginUsed });
+    setMarginAmountInput("");
+  };
+
+  const marginAmount = React.useMemo((): number | null => {
+    const parsed = parseFloat(marginAmountInput);
+    return !isNaN(parsed) && parsed > 0 ? parsed : null;
+  }, [marginAmountInput]);
+
+  // Add (positive) or remove (negative) margin from the isolated position
+  const handleUpdateMargin = async (isAdd: boolean) => {
+    if (!marginRequest || marginAmount === null) return;
+
+    setIsUpdatingMargin(true);
+    try {
+      const result = await updateIsolatedMarginAction({
+        assetName: marginRequest.assetName,
+        amount: isAdd ? marginAmount : -marginAmount,
+      });
+
+      if (result.isSuccess) {
+        toast({
+          title: isAdd ? "Margin Added" : "Margin Removed",
+          description: result.message,
+        });
+        setMarginRequest(null);
+        refresh();
+        onPositionsClosed?.();
+      } else {
+        toast({
+          title: "Margin Update Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (e) {
+      console.error("Error updating isolated margin:", e);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while updating the margin.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdatingMargin(false);
+    }
+  };
+
+  // Submit the close-all request after the second confirmation
+  const handleConfirmCloseAll = async () => {
+    setIsClosingAll(true);
+    try {
+      const result = await closeAllPositionsAction();
+      if (!result.isSuccess) {
+        toast({
+          title: "Close All Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const hasFailures = result.data.some((entry) => !entry.outcome.isSuccess);
+      toast({
+        title: hasFailures ? "Some Positions Not Closed" : "All Positions Closed",
+        description: result.message,
+        variant: hasFailures ? "destructive" : "default",
+      });
+
+      refresh();
+      onPositionsClosed?.();
+    } catch (e) {
+      console.error("Error closing all positions:", e);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while closing positions.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsClosingAll(false);
+      setCloseAllStep(0);
+    }
+  };
 
   // Helper function to determine PnL color
   const getPnlColor = (pnlValue: number): string => {
@@ -234,41 +495,59 @@ const PositionTable: React.FC<PositionTableProps> = ({
     }
   }, [currentPositions]);
 
-  // Calculate approximate liquidation price (simplified)
-  const calculateSimpleLiqPrice = (position: HyperliquidPosition): string | null => {
+  // Liquidation price: prefer Hyperliquid's reported value, and compare it with our estimate
+  const getLiquidationInfo = (position: HyperliquidPosition, assetName: string, markPrice: number) => {
+    const parsedReported = parseFloat(position.position?.liquidationPx ?? "");
+    const reported = Number.isFinite(parsedReported) && parsedReported > 0 ? parsedReported : null;
+    let estimated: number | null = null;
     try {
-      const entryPrice = parseFloat(position.position?.entryPx || "0");
-      const leverage = parseFloat(String(position.position?.leverage?.value || "0"));
-      const size = parseFloat(position.position?.szi || "0");
-
-      if (entryPrice <= 0 || leverage <= 0 || size === 0) return null;
-
-      const isLong = size > 0;
-      const inverseLeverage = 1 / leverage;
-      let liqPrice = 0;
-
-      if (isLong) {
-        liqPrice = entryPrice * (1 - inverseLeverage);
-      } else {
-        liqPrice = entryPrice * (1 + inverseLeverage);
-      }
-      return formatCurrency(Math.max(0, liqPrice)); // Ensure non-negative
-    } catch {
-      return null;
+      estimated = calculateLiquidationPrice({
+        assetName,
+        clearinghouseState,
+        markPrice,
+        maxLeverage: position.position?.maxLeverage ?? 0,
+        marginTiers: [],
+        marginMode: position.position?.leverage?.type ?? "cross",
+        trade: null,
+      })?.liquidationPrice ?? null;
+    } catch (e) {
+      console.error("Error estimating liquidation price:", e, position);
     }
+    const divergencePercent = reported !== null && estimated !== null
+      ? getLiquidationDivergencePercent(reported, estimated)
+      : null;
+    return {
+      reported,
+      estimated,
+      divergencePercent,
+      isDivergent: divergencePercent !== null && divergencePercent > LIQUIDATION_DIVERGENCE_WARN_PERCENT,
+    };
   };
 
   return (
     <Card>
       <CardHeader>
-        <div>
-          <CardTitle>Open Positions</CardTitle>
-          <CardDescription>
-            Your current open positions on Hyperliquid.
-            {currentError && currentPositions && (
-              <span className="text-destructive font-medium ml-2">(Error fetching updates)</span>
-            )}
-          </CardDescription>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle>Open Positions</CardTitle>
+            <CardDescription>
+              Your current open positions on Hyperliquid.
+              {currentError && currentPositions && (
+                <span className="text-destructive font-medium ml-2">(Error fetching updates)</span>
+              )}
+            </CardDescription>
+          </div>
+          {openPositions.length > 0 && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setCloseAllStep(1)}
+              disabled={!tradingEnabled || isClosingAll}
+              title={!tradingEnabled ? "Enable the master trade switch in settings to close positions" : undefined}
+            >
+              {isClosingAll ? "Closing..." : "Close All"}
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -304,7 +583,8 @@ const PositionTable: React.FC<PositionTableProps> = ({
                     <TableHead className="text-right min-w-[120px]">Entry Price</TableHead>
                     <TableHead className="text-right min-w-[120px]">Mark Price</TableHead>
                     <TableHead className="text-right min-w-[120px]">Unrealized PnL</TableHead>
-                    <TableHead className="text-right min-w-[120px]">Est. Liq. Price</TableHead>
+                    <TableHead className="text-right min-w-[120px]">Liq. Price</TableHead>
+                    <TableHead className="text-right min-w-[220px]">Actions</TableHead>
                     {/* <TableHead>Margin</TableHead> */}
                   </TableRow>
                 </TableHeader>
@@ -318,8 +598,11 @@ const PositionTable: React.FC<PositionTableProps> = ({
                       const leverage = parseFloat(String(position.position?.leverage?.value || "0"));
                       const markPrice = markPrices[assetName] ?? parseFloat(position.position?.entryPx || "0"); // Use dynamic price if available, fallback to entry price
                       const unrealizedPnl = parseFloat(position.position?.unrealizedPnl || "0");
-                      const isAlertActive = !!alertStatusMap?.[assetName]; // Check alert status
-                      const estimatedLiqPrice = calculateSimpleLiqPrice(position);
+                      const alerts = positionAlerts[assetName] ?? [];
+                      const isAlertActive = alerts.length > 0;
+                      const liquidation = getLiquidationInfo(position, assetName, markPrice);
+                      const marginMode = position.position?.leverage?.type ?? "cross";
+                      const marginUsed = parseFloat(position.position?.marginUsed || "0");
 
                       return (
                         <TableRow key={`${assetName}-${idx}`} className={clsx(isAlertActive && "bg-yellow-100/50 dark:bg-yellow-900/30")}>
@@ -333,26 +616,108 @@ const PositionTable: React.FC<PositionTableProps> = ({
                                     </div>
                                   </TooltipTrigger>
                                   <TooltipContent>
-                                    <p className="text-xs max-w-xs">Warning: A new prediction contradicts the basis of this position.</p>
+                                    <div className="space-y-1 max-w-xs">
+                                      {alerts.map((alert) => (
+                                        <p key={`${alert.ruleId}-${alert.timeframe}`} className="text-xs">{alert.reason}</p>
+                                      ))}
+                                    </div>
                                   </TooltipContent>
                                 </Tooltip>
                               </TooltipProvider>
                             ) : null}
                           </TableCell>
-                          <TableCell className="font-medium whitespace-nowrap">{assetName}</TableCell>
-                          <TableCell className="text-right whitespace-nowrap">{formatNumber(size, 6)}</TableCell>
+                          <TableCell className="font-medium whitespace-nowrap">
+                            {assetName}
+                            {alerts.map((alert) => (
+                              <p
+                                key={`${alert.ruleId}-${alert.timeframe}`}
+                                className="mt-1 text-xs font-normal text-red-600 dark:text-red-500 whitespace-normal max-w-[260px]"
+                              >
+                                {alert.reason}
+                              </p>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {formatNumber(size, 6)}
+                            <p className="text-xs text-muted-foreground capitalize">
+                              {leverage > 0 ? `${leverage}x ` : ""}{marginMode}
+                            </p>
+                          </TableCell>
                           <TableCell className="text-right whitespace-nowrap">{formatCurrency(entryPrice)}</TableCell>
                           <TableCell className="text-right whitespace-nowrap">
                             {formatCurrency(markPrice)}
                             {markPrices[assetName] !== undefined && markPrices[assetName] !== entryPrice && (
-                              <span className="ml-1 text-xs text-green-500 dark:text-green-400" title="Real-time Mark Price">•</span>
+                              <span className="ml-1 text-xs text-green-500 dark:text-green-400" title="Real-time Mid Price">•</span>
                             )}
                           </TableCell>
                           <TableCell className={clsx("text-right font-medium whitespace-nowrap", getPnlColor(unrealizedPnl))}>
                             {formatCurrency(unrealizedPnl)}
                           </TableCell>
                           <TableCell className="text-right whitespace-nowrap text-muted-foreground">
-                            {estimatedLiqPrice ?? "N/A"}
+                            {liquidation.reported !== null ? (
+                              formatCurrency(liquidation.reported)
+                            ) : liquidation.estimated !== null ? (
+                              <span title="Estimated (not reported by Hyperliquid)">~{formatCurrency(liquidation.estimated)}</span>
+                            ) : (
+                              "N/A"
+                            )}
+                            {liquidation.isDivergent && liquidation.estimated !== null && (
+                              <TooltipProvider>
+                                <Tooltip delayDuration={100}>
+                                  <TooltipTrigger asChild>
+                                    <AlertTriangle className="ml-1 inline h-3.5 w-3.5 text-orange-500" />
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p className="text-xs max-w-xs">
+                                      Our estimate ({formatCurrency(liquidation.estimated)}) differs from Hyperliquid&apos;s reported
+                                      liquidation price by {formatNumber(liquidation.divergencePercent ?? 0, 2)}%.
+                                    </p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <div className="flex justify-end space-x-1">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => openCloseDialog(assetName, size, "full")}
+                                disabled={!tradingEnabled || isClosing}
+                              >
+                                Close
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => openCloseDialog(assetName, size, "half")}
+                                disabled={!tradingEnabled || isClosing}
+                              >
+                                Close 50%
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => openCloseDialog(assetName, size, "custom")}
+                                disabled={!tradingEnabled || isClosing}
+                              >
+                                Reduce
+                              </Button>
+                              {marginMode === "isolated" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-7 px-2 text-xs"
+                                  onClick={() => openMarginDialog(assetName, marginUsed)}
+                                  disabled={!tradingEnabled || isUpdatingMargin}
+                                >
+                                  Margin
+                                </Button>
+                              )}
+                            </div>
                           </TableCell>
                           {/* Render other columns if data exists */}
                           {/* <TableCell>{formatCurrency(position.position?.marginUsed || '0')}</TableCell> */}
@@ -363,7 +728,7 @@ const PositionTable: React.FC<PositionTableProps> = ({
                       // Render a row indicating error for this specific position
                       return (
                         <TableRow key={`error-${idx}`}>
-                          <TableCell colSpan={7} className="text-center text-destructive text-xs py-4">
+                          <TableCell colSpan={8} className="text-center text-destructive text-xs py-4">
                             Error rendering position data. See console for details.
                           </TableCell>
                         </TableRow>
@@ -378,8 +743,8 @@ const PositionTable: React.FC<PositionTableProps> = ({
           {openPositions.length > 0 && (
             <div className="mt-3 text-xs text-muted-foreground flex items-center justify-end space-x-4">
               <span className="flex items-center gap-1">
-                <span className="h-2 w-2 rounded-full bg-green-500 dark:bg-green-400" title="Real-time Mark Price"></span>
-                <span>Real-time Mark Price</span>
+                <span className="h-2 w-2 rounded-full bg-green-500 dark:bg-green-400" title="Real-time Mid Price"></span>
+                <span>Real-time Mid Price</span>
               </span>
               <span className="flex items-center gap-1">
                 <AlertTriangle className="h-3 w-3 text-red-600" />
@@ -389,6 +754,165 @@ const PositionTable: React.FC<PositionTableProps> = ({
           )}
         </div>
       </CardContent>
+
+      {/* Close / Reduce Position Confirmation Dialog */}
+      <Dialog open={closeRequest !== null} onOpenChange={(open) => !open && !isClosing && setCloseRequest(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>
+              {closeRequest?.mode === "full" ? "Close Position" : closeRequest?.mode === "half" ? "Close 50% of Position" : "Reduce Position"}
+            </DialogTitle>
+            <DialogDescription>
+              A reduce-only market order will be submitted. It can only shrink the position, never flip it.
+            </DialogDescription>
+          </DialogHeader>
+          {closeRequest && (
+            <div className="grid gap-3 py-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Position</span>
+                <span className={clsx("font-medium", closeRequest.size > 0 ? "text-green-600" : "text-red-600")}>
+                  {closeRequest.size > 0 ? "LONG" : "SHORT"} {formatNumber(Math.abs(closeRequest.size), 6)} {closeRequest.assetName}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Mark Price</span>
+                <span>{markPrices[closeRequest.assetName] !== undefined ? formatCurrency(markPrices[closeRequest.assetName]) : "N/A"}</span>
+              </div>
+              {closeRequest.mode === "custom" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="reduce-size">Reduce by ({closeRequest.assetName})</Label>
+                  <Input
+                    id="reduce-size"
+                    type="number"
+                    step="any"
+                    min="0"
+                    max={Math.abs(closeRequest.size)}
+                    placeholder={`Up to ${Math.abs(closeRequest.size)}`}
+                    value={reduceSizeInput}
+                    onChange={(e) => setReduceSizeInput(e.target.value)}
+                    disabled={isClosing}
+                  />
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>Size to Close</span>
+                <span>
+                  {closeRequestSize !== null ? `${formatNumber(closeRequestSize, 6)} ${closeRequest.assetName}` : "—"}
+                </span>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCloseRequest(null)} disabled={isClosing}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmClose}
+              disabled={isClosing || closeRequestSize === null || !tradingEnabled}
+            >
+              {isClosing ? "Submitting..." : "Confirm Close"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Isolated Margin Dialog */}
+      <Dialog open={marginRequest !== null} onOpenChange={(open) => !open && !isUpdatingMargin && setMarginRequest(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Adjust Isolated Margin</DialogTitle>
+            <DialogDescription>
+              Adding margin moves the liquidation price away from the mark price; removing margin moves it closer.
+            </DialogDescription>
+          </DialogHeader>
+          {marginRequest && (
+            <div className="grid gap-3 py-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Position</span>
+                <span className="font-medium">{marginRequest.assetName}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Current Margin</span>
+                <span>{formatCurrency(marginRequest.marginUsed)}</span>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="margin-amount">Amount (USD)</Label>
+                <Input
+                  id="margin-amount"
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="e.g., 50"
+                  value={marginAmountInput}
+                  onChange={(e) => setMarginAmountInput(e.target.value)}
+                  disabled={isUpdatingMargin}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMarginRequest(null)} disabled={isUpdatingMargin}>
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleUpdateMargin(false)}
+              disabled={isUpdatingMargin || marginAmount === null || !tradingEnabled}
+            >
+              Remove
+            </Button>
+            <Button
+              onClick={() => handleUpdateMargin(true)}
+              disabled={isUpdatingMargin || marginAmount === null || !tradingEnabled}
+            >
+              {isUpdatingMargin ? "Submitting..." : "Add"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Close All - first confirmation */}
+      <AlertDialog open={closeAllStep === 1} onOpenChange={(open) => !open && setCloseAllStep(0)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close all {openPositions.length} positions?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every open position will be closed at market with reduce-only orders.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="destructive" onClick={() => setCloseAllStep(2)}>
+              Continue
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Close All - final confirmation */}
+      <AlertDialog open={closeAllStep === 2} onOpenChange={(open) => !open && !isClosingAll && setCloseAllStep(0)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. Positions in{" "}
+              <span className="font-semibold">{openPositions.map(getAssetName).join(", ")}</span>{" "}
+              will be closed immediately at the best available price.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isClosingAll}>Keep Positions</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmCloseAll}
+              disabled={isClosingAll}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isClosingAll ? "Closing..." : "Close All Positions"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
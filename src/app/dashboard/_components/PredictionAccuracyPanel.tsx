@@ -0,0 +1,139 @@
+/**
+ * @description
+ * Client Component that shows how accurate past Allora predictions were, per token and timeframe.
+ * Predictions are scored by the server-side poller once their horizon has elapsed; this panel only loads the statistics.
+ *
+ * Key features:
+ * - Directional hit rate, mean absolute error (USD and %), and confidence interval coverage per token and timeframe.
+ * - Shows how many predictions are scored and how many are still pending.
+ * - Refreshes on the prediction refresh interval from settings.
+ *
+ * @dependencies
+ * - react: For component structure and hooks.
+ * - @/types: Provides the AppSettings type definition.
+ * - @/hooks/usePeriodicFetcher: Custom hook for periodic data fetching.
+ * - @/hooks/useLocalStorage: Custom hook for accessing settings from localStorage.
+ * - @/actions/prediction-history-actions: Server Action for fetching accuracy stats.
+ * - @/lib/formatting: Utility functions for formatting numbers.
+ * - @/lib/constants: Provides default settings values.
+ * - @/components/ui/card, badge: Shadcn components for layout.
+ * - @/components/ui/LoadingSpinner, ErrorDisplay: Loading and error states.
+ *
+ * @notes
+ * - Statistics only cover predictions stored since persistence was enabled; the first scores
+ *   appear once the shortest horizon (5 minutes) has elapsed.
+ */
+"use client";
+
+import React from "react";
+import type { AppSettings } from "@/types";
+import { usePeriodicFetcher } from "@/hooks/usePeriodicFetcher";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { fetchPredictionAccuracyAction } from "@/actions/prediction-history-actions";
+import { formatCurrency, formatPercentage } from "@/lib/formatting";
+import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import ErrorDisplay from "@/components/ui/ErrorDisplay";
+
+/**
+ * Renders a single labelled statistic.
+ */
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="text-sm font-semibold">{value}</p>
+  </div>
+);
+
+/**
+ * Renders the prediction accuracy panel.
+ * @returns {React.ReactElement} The rendered panel.
+ */
+const PredictionAccuracyPanel: React.FC = (): React.ReactElement => {
+  const [settings] = useLocalStorage<AppSettings>(
+    "alloraHyperliquidApp_settings",
+    DEFAULT_APP_SETTINGS,
+  );
+
+  const {
+    data: stats,
+    isLoading,
+    error,
+  } = usePeriodicFetcher(
+    fetchPredictionAccuracyAction,
+    settings.predictionRefreshInterval,
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Prediction Accuracy</CardTitle>
+        <CardDescription>How past predictions compared to the actual Hyperliquid price.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !stats && (
+          <div className="flex justify-center items-center h-24">
+            <LoadingSpinner />
+          </div>
+        )}
+
+        {error && !stats && (
+          <div className="flex justify-center items-center h-24">
+            <ErrorDisplay error={error} />
+          </div>
+        )}
+
+        {stats && stats.length === 0 && (
+          <p className="text-xs text-muted-foreground">No predictions stored yet.</p>
+        )}
+
+        {stats && (
+          <div className="space-y-4">
+            {stats.map((entry) => (
+              <div key={`${entry.token}-${entry.timeframe}`} className="rounded-md border p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <Badge variant="secondary">{entry.token} {entry.timeframe}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {entry.scoredCount} scored · {entry.pendingCount} pending
+                  </span>
+                </div>
+                {entry.scoredCount === 0 ? (
+                  <p className="text-xs text-muted-foreground">No predictions scored yet.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    <Stat
+                      label="Directional Hit Rate"
+                      value={entry.directionalHitRate !== null ? formatPercentage(entry.directionalHitRate, 1) : "N/A"}
+                    />
+                    <Stat
+                      label="Mean Abs. Error"
+                      value={entry.meanAbsoluteError !== null ? formatCurrency(entry.meanAbsoluteError) : "N/A"}
+                    />
+                    <Stat
+                      label="Mean Abs. % Error"
+                      value={entry.meanAbsolutePercentError !== null ? formatPercentage(entry.meanAbsolutePercentError, 2) : "N/A"}
+                    />
+                    <Stat
+                      label="Inside Conf. Interval"
+                      value={entry.confidenceIntervalCoverage !== null ? formatPercentage(entry.confidenceIntervalCoverage, 1) : "N/A"}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PredictionAccuracyPanel;
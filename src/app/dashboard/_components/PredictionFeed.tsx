@@ -6,7 +6,8 @@
  *
  * Key features:
  * - Displays predictions including timeframe, predicted price, and timestamp.
- * - Periodically fetches new predictions using `usePeriodicFetcher` and `fetchAlloraPredictionsAction`.
+ * - Groups predictions by token and allows filtering to a single token.
+ * - Periodically reads the latest predictions from the server snapshot using `useServerSnapshot`.
  * - Uses `useLocalStorage` to get the refresh interval from settings.
  * - Handles loading, error, and empty states.
  * - Allows selecting a prediction via click, highlighting the selected item.
@@ -16,7 +17,7 @@
  * @dependencies
  * - react: For component structure, state (`useState`), and effects (`useEffect`).
  * - @/types: Provides AlloraPrediction, AppSettings type definitions.
- * - @/hooks/usePeriodicFetcher: Custom hook for periodic data fetching.
+ * - @/hooks/useServerSnapshot: Custom hook for reading the server-side poller's snapshot.
  * - @/hooks/useLocalStorage: Custom hook for accessing settings from localStorage.
  * - @/actions/allora-actions: Server Action for fetching Allora predictions.
  * - @/lib/formatting: Utility functions for formatting numbers and dates.
@@ -25,6 +26,7 @@
  * - @/components/ui/LoadingSpinner: Component to display loading state.
  * - @/components/ui/ErrorDisplay: Component to display error messages.
  * - @/components/ui/badge: Shadcn Badge component for displaying timeframes.
+ * - @/components/ui/select: Shadcn Select component for the token filter.
  * - clsx: Utility for conditional class names.
  * - lucide-react: Provides icons (e.g., CalendarClock, Target).
  *
@@ -37,9 +39,8 @@
 
 import React, { useState } from "react";
 import type { AlloraPrediction, AppSettings } from "@/types";
-import { usePeriodicFetcher } from "@/hooks/usePeriodicFetcher";
+import { useServerSnapshot } from "@/hooks/useServerSnapshot";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
-import { fetchAlloraPredictionsAction } from "@/actions/allora-actions";
 import { formatCurrency, formatDateTime } from "@/lib/formatting";
 import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
 import {
@@ -48,9 +49,15 @@ import {
   CardDescription,
   CardHeader,
   CardTitle,
-  CardFooter,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import LoadingSpinner from "@/components/ui/LoadingSpinner";
 import ErrorDisplay from "@/components/ui/ErrorDisplay";
 import clsx from "clsx";
@@ -90,8 +97,8 @@ const PredictionFeed: React.FC<PredictionFeedProps> = ({
     isLoading,
     error,
     refresh, // Function to manually trigger refresh if needed
-  } = usePeriodicFetcher(
-    fetchAlloraPredictionsAction,
+  } = useServerSnapshot(
+    "predictions",
     settings.predictionRefreshInterval, // Use the prediction refresh interval from settings
     initialPredictions, // Use initial data from server
   );
@@ -102,6 +109,9 @@ const PredictionFeed: React.FC<PredictionFeedProps> = ({
     string | null
   >(null);
 
+  // Token filter ("all" shows every token)
+  const [tokenFilter, setTokenFilter] = useState<string>("all");
+
   // Use the initial error from props if the first client-side fetch hasn't happened yet or if fetcher has no error yet
   const currentError = predictions === null && !isLoading ? initialError : error;
   // Prefer fresh data from the fetcher, fallback to initial data if fetcher hasn't populated yet
@@ -110,6 +120,15 @@ const PredictionFeed: React.FC<PredictionFeedProps> = ({
     (a, b) => b.timestamp - a.timestamp,
   );
 
+  // Tokens present in the feed, for the filter and grouping
+  const tokens = Array.from(new Set(currentPredictions.map((p) => p.token))).sort();
+  const visiblePredictions = tokenFilter === "all"
+    ? currentPredictions
+    : currentPredictions.filter((p) => p.token === tokenFilter);
+  const predictionGroups = tokens
+    .map((token) => ({ token, predictions: visiblePredictions.filter((p) => p.token === token) }))
+    .filter((group) => group.predictions.length > 0);
+
   // Check if data is stale
   const isDataStale = Boolean(
     error &&
@@ -150,7 +169,7 @@ const PredictionFeed: React.FC<PredictionFeedProps> = ({
       );
     }
 
-    if (!currentPredictions || currentPredictions.length === 0) {
+    if (!visiblePredictions || visiblePredictions.length === 0) {
       return (
         <p className="text-muted-foreground text-center py-10">
           No predictions available.
@@ -158,66 +177,71 @@ const PredictionFeed: React.FC<PredictionFeedProps> = ({
       );
     }
 
-    // Display predictions
+    // Display predictions grouped by token
     return (
       // Increased max height and added padding-right for scrollbar
-      <div className="space-y-3 max-h-[600px] overflow-y-auto pr-3">
-        {currentPredictions.map((prediction) => {
-          const predictionKey = `${prediction.topicId}-${prediction.timestamp}`;
-          const isSelected = selectedPredictionKey === predictionKey;
-
-          return (
-            <Card
-              key={predictionKey}
-              className={clsx(
-                "cursor-pointer transition-all hover:shadow-md relative overflow-hidden rounded-xl", // Changed border approach
-                isSelected
-                  ? "ring-[3px] ring-inset ring-border" // Use ring-inset with border color for double line effect
-                  : "border border-border",
-              )}
-              onClick={() => handlePredictionClick(prediction)}
-            >
-              <CardContent className="p-3 text-sm space-y-1">
-                {/* Header row: Timeframe and Timestamp */}
-                <div className="flex justify-between items-center">
-                  <div className="flex items-center gap-1">
-                    <Target size={14} className="text-primary flex-shrink-0" />
-                    <Badge variant="secondary" className="text-xs font-medium">
-                      {prediction.timeframe} Target
-                    </Badge>
-                  </div>
-                  <span className="text-xs text-muted-foreground flex items-center gap-1">
-                    <CalendarClock size={12} />
-                    {formatDateTime(prediction.timestamp, {
-                      month: 'short',
-                      day: 'numeric',
-                      year: 'numeric',
-                      hour: "2-digit",
-                      minute: "2-digit",
-                      second: "2-digit",
-                      hour12: false, // Use 24hr format
-                    })}
-                  </span>
-                </div>
-                {/* Price row */}
-                <div className="flex items-center pt-2 justify-start">
-                  <span className="font-semibold text-lg text-foreground">
-                    {formatCurrency(prediction.price, {
-                      minimumFractionDigits: 2,
-                      maximumFractionDigits: 2,
-                    })}
-                  </span>
-                </div>
-                {/* Optional: Display confidence interval if needed */}
-                {/* {prediction.confidenceIntervalValues && (
-                  <p className="text-xs text-muted-foreground pt-1">
-                    Confidence: {formatCurrency(prediction.confidenceIntervalValues[0])} - {formatCurrency(prediction.confidenceIntervalValues[1])}
-                  </p>
-                )} */}
-              </CardContent>
-            </Card>
-          );
-        })}
+      <div className="space-y-4 max-h-[600px] overflow-y-auto pr-3">
+        {predictionGroups.map((group) => (
+          <div key={group.token} className="space-y-3">
+            <h4 className="text-sm font-semibold text-muted-foreground">{group.token}</h4>
+            {group.predictions.map((prediction) => {
+              const predictionKey = `${prediction.topicId}-${prediction.timestamp}`;
+              const isSelected = selectedPredictionKey === predictionKey;
+
+              return (
+                <Card
+                  key={predictionKey}
+                  className={clsx(
+                    "cursor-pointer transition-all hover:shadow-md relative overflow-hidden rounded-xl", // Changed border approach
+                    isSelected
+                      ? "ring-[3px] ring-inset ring-border" // Use ring-inset with border color for double line effect
+                      : "border border-border",
+                  )}
+                  onClick={() => handlePredictionClick(prediction)}
+                >
+                  <CardContent className="p-3 text-sm space-y-1">
+                    {/* Header row: Timeframe and Timestamp */}
+                    <div className="flex justify-between items-center">
+                      <div className="flex items-center gap-1">
+                        <Target size={14} className="text-primary flex-shrink-0" />
+                        <Badge variant="secondary" className="text-xs font-medium">
+                          {prediction.timeframe} Target
+                        </Badge>
+                      </div>
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        <CalendarClock size={12} />
+                        {formatDateTime(prediction.timestamp, {
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric',
+                          hour: "2-digit",
+                          minute: "2-digit",
+                          second: "2-digit",
+                          hour12: false, // Use 24hr format
+                        })}
+                      </span>
+                    </div>
+                    {/* Price row */}
+                    <div className="flex items-center pt-2 justify-start">
+                      <span className="font-semibold text-lg text-foreground">
+                        {formatCurrency(prediction.price, {
+                          minimumFractionDigits: 2,
+                          maximumFractionDigits: 2,
+                        })}
+                      </span>
+                    </div>
+                    {/* Optional: Display confidence interval if needed */}
+                    {/* {prediction.confidenceIntervalValues && (
+                      <p className="text-xs text-muted-foreground pt-1">
+                        Confidence: {formatCurrency(prediction.confidenceIntervalValues[0])} - {formatCurrency(prediction.confidenceIntervalValues[1])}
+                      </p>
+                    )} */}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ))}
       </div>
     );
   };
@@ -225,7 +249,20 @@ const PredictionFeed: React.FC<PredictionFeedProps> = ({
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Allora Predictions (BTC)</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Allora Predictions</CardTitle>
+          <Select value={tokenFilter} onValueChange={setTokenFilter}>
+            <SelectTrigger className="w-28 h-8" aria-label="Filter by token">
+              <SelectValue placeholder="Token" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All tokens</SelectItem>
+              {tokens.map((token) => (
+                <SelectItem key={token} value={token}>{token}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <CardDescription>
           Latest price predictions fetched from the Allora network. Click to
           select.
@@ -235,10 +272,6 @@ const PredictionFeed: React.FC<PredictionFeedProps> = ({
         </CardDescription>
       </CardHeader>
       <CardContent>{renderContent()}</CardContent>
-      {/* Optional Footer for filtering/sorting controls later */}
-      {/* <CardFooter>
-        <p>Filters Placeholder</p>
-      </CardFooter> */}
     </Card>
   );
 };
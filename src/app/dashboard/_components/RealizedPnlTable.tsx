@@ -0,0 +1,235 @@
+/**
+ * @description
+ * Client Component that displays realized PnL and fees per trade, based on fills imported from Hyperliquid.
+ * Unlike the Trade Log, which records what the app submitted, these figures come from actual executions.
+ *
+ * Key features:
+ * - Imports new fills once on mount and on demand via the "Import Fills" button.
+ * - Fetches per-trade summaries periodically using `usePeriodicFetcher` and `fetchTradePnlAction`.
+ * - Shows totals for realized PnL, fees and net PnL across the listed trades.
+ * - Shows the logged price next to the actual average fill price for trades placed through the app.
+ *
+ * @dependencies
+ * - react: For component structure and hooks.
+ * - @/types: Provides TradePnlSummary, AppSettings type definitions.
+ * - @/hooks/usePeriodicFetcher: Custom hook for periodic data fetching.
+ * - @/hooks/useLocalStorage: Custom hook for accessing settings from localStorage.
+ * - @/hooks/use-toast: For displaying import results.
+ * - @/actions/fill-actions: Server Actions for importing fills and fetching realized PnL.
+ * - @/lib/pnl-calcs: For totalling realized PnL and fees.
+ * - @/lib/formatting: Utility functions for formatting numbers and dates.
+ * - @/components/ui/*: Shadcn Card, Table and Button components.
+ * - lucide-react: For the Download icon.
+ *
+ * @notes
+ * - Trades without a Trade Log entry were placed outside this app (e.g., on the Hyperliquid UI).
+ */
+"use client";
+
+import React from "react";
+import type { TradePnlSummary, AppSettings } from "@/types";
+import { usePeriodicFetcher } from "@/hooks/usePeriodicFetcher";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useToast } from "@/hooks/use-toast";
+import { importUserFillsAction, fetchTradePnlAction } from "@/actions/fill-actions";
+import { totalRealizedPnl } from "@/lib/pnl-calcs";
+import { formatCurrency, formatNumber, formatDateTime } from "@/lib/formatting";
+import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import LoadingSpinner from "@/components/ui/LoadingSpinner";
+import ErrorDisplay from "@/components/ui/ErrorDisplay";
+import clsx from "clsx";
+import { Download } from "lucide-react";
+
+/**
+ * Returns the text color class for a PnL value.
+ */
+const getPnlColor = (value: number): string => {
+  if (value > 0) return "text-green-600 dark:text-green-500";
+  if (value < 0) return "text-red-600 dark:text-red-500";
+  return "text-muted-foreground";
+};
+
+/**
+ * Renders the realized PnL and fees view.
+ * @returns {React.ReactElement} The rendered realized PnL card.
+ */
+const RealizedPnlTable: React.FC = (): React.ReactElement => {
+  const { toast } = useToast();
+  const [settings] = useLocalStorage<AppSettings>(
+    "alloraHyperliquidApp_settings",
+    DEFAULT_APP_SETTINGS,
+  );
+  const [isImporting, setIsImporting] = React.useState<boolean>(false);
+
+  const fetchSummaries = React.useCallback(() => fetchTradePnlAction(50), []);
+
+  const {
+    data: summaries,
+    isLoading,
+    error,
+    refresh,
+  } = usePeriodicFetcher<TradePnlSummary[]>(
+    fetchSummaries,
+    settings.accountRefreshInterval,
+  );
+
+  const totals = React.useMemo(() => totalRealizedPnl(summaries ?? []), [summaries]);
+
+  /**
+   * Imports new fills from Hyperliquid and refreshes the summaries.
+   * @param {boolean} notify - Whether to show a toast with the result.
+   */
+  const importFills = React.useCallback(async (notify: boolean) => {
+    setIsImporting(true);
+    try {
+      const result = await importUserFillsAction();
+      if (notify || !result.isSuccess) {
+        toast({
+          title: result.isSuccess ? "Fills Imported" : "Fill Import Failed",
+          description: result.message,
+          variant: result.isSuccess ? "default" : "destructive",
+        });
+      }
+      if (result.isSuccess && result.data.imported > 0) {
+        await refresh();
+      }
+    } catch (e) {
+      console.error("[RealizedPnl] Error importing fills:", e);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [refresh, toast]);
+
+  // Pull any fills made since the last visit
+  React.useEffect(() => {
+    importFills(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between pb-2">
+        <div>
+          <CardTitle>Realized PnL</CardTitle>
+          <CardDescription>
+            Per-trade PnL and fees from actual Hyperliquid fills.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => importFills(true)}
+          disabled={isImporting}
+        >
+          <Download className={clsx("h-4 w-4 mr-2", isImporting && "animate-pulse")} />
+          {isImporting ? "Importing..." : "Import Fills"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {summaries && summaries.length > 0 && (
+          <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Realized PnL</p>
+              <p className={clsx("font-semibold", getPnlColor(totals.realizedPnl))}>{formatCurrency(totals.realizedPnl)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Fees</p>
+              <p className="font-semibold">{formatCurrency(totals.fees)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Net PnL</p>
+              <p className={clsx("font-semibold", getPnlColor(totals.netPnl))}>{formatCurrency(totals.netPnl)}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="min-h-[100px]">
+          {isLoading && !summaries && (
+            <div className="flex justify-center items-center h-24">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {error && !summaries && (
+            <div className="flex justify-center items-center h-24">
+              <ErrorDisplay error={error} />
+            </div>
+          )}
+
+          {!isLoading && !error && summaries?.length === 0 && (
+            <p className="text-muted-foreground text-center py-8">
+              No fills imported yet.
+            </p>
+          )}
+
+          {summaries && summaries.length > 0 && (
+            <div className="w-full overflow-x-auto rounded-md border max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader className="sticky top-0 bg-background border-b z-10">
+                  <TableRow>
+                    <TableHead className="min-w-[140px]">Time</TableHead>
+                    <TableHead>Asset</TableHead>
+                    <TableHead className="min-w-[100px]">Direction</TableHead>
+                    <TableHead className="text-right">Size</TableHead>
+                    <TableHead className="text-right min-w-[110px]">Avg Fill Price</TableHead>
+                    <TableHead className="text-right min-w-[110px]">Logged Price</TableHead>
+                    <TableHead className="text-right">Fees</TableHead>
+                    <TableHead className="text-right min-w-[110px]">Realized PnL</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.map((summary) => (
+                    <TableRow key={summary.hyperliquidOrderId}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {formatDateTime(summary.lastFillTime)}
+                      </TableCell>
+                      <TableCell className="font-medium">{summary.coin}</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {summary.direction}
+                        {summary.fillCount > 1 && (
+                          <span className="ml-1 text-xs text-muted-foreground">({summary.fillCount} fills)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatNumber(summary.totalSize, 4)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatCurrency(summary.avgPrice, { maximumFractionDigits: 6 })}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm text-muted-foreground">
+                        {summary.tradeLog
+                          ? formatCurrency(summary.tradeLog.entryPrice, { maximumFractionDigits: 6 })
+                          : <span title="Placed outside this app">—</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatCurrency(summary.fees, { maximumFractionDigits: 4 })}</TableCell>
+                      <TableCell className={clsx("text-right font-mono text-sm font-medium", getPnlColor(summary.netPnl))}>
+                        {formatCurrency(summary.realizedPnl)}
+                        <span className="block text-xs text-muted-foreground">net {formatCurrency(summary.netPnl)}</span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RealizedPnlTable;
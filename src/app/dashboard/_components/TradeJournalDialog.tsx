@@ -0,0 +1,294 @@
+/**
+ * @description
+ * Client Component: Renders a Dialog for writing the trading journal entry of a Trade Log entry.
+ * Handles form state, validation, submission via Server Actions, and provides user feedback.
+ *
+ * Key features:
+ * - Free-form notes.
+ * - Comma-separated tags, with the suggested tags (e.g. 'followed signal', 'override') toggled by buttons.
+ * - Optional confidence rating from 1 to 5.
+ * - Links (e.g. chart screenshots), one per line.
+ * - Calls `createJournalEntryAction` or `updateJournalEntryAction` on save, and `deleteJournalEntryAction` after the
+ *   delete button is clicked twice.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (useState, useEffect).
+ * - @/types: Provides the Trade Log and journal entry type definitions.
+ * - @/actions/journal-actions: Server Actions for creating, updating and deleting journal entries.
+ * - @/lib/journal: Shared tag, confidence and link validation.
+ * - @/lib/constants: Provides the suggested tags and the confidence range.
+ * - @/lib/formatting: Utility functions for formatting the trade summary.
+ * - @/hooks/use-toast: Hook to trigger toasts.
+ * - @/components/ui/*: Shadcn Dialog, Button, Input, Label and Select components.
+ */
+"use client";
+
+import React, { useState, useEffect, FormEvent } from "react";
+import type { TradeJournalEntry, TradeLogEntry } from "@/types";
+import {
+  createJournalEntryAction,
+  deleteJournalEntryAction,
+  updateJournalEntryAction,
+} from "@/actions/journal-actions";
+import { getJournalLinkError, parseJournalTags } from "@/lib/journal";
+import { MAX_JOURNAL_CONFIDENCE, MIN_JOURNAL_CONFIDENCE, SUGGESTED_JOURNAL_TAGS } from "@/lib/constants";
+import { formatDateTime, formatNumber } from "@/lib/formatting";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface TradeJournalDialogProps {
+  log: TradeLogEntry | null; // The trade being journaled; the dialog is open while set
+  onOpenChange: (isOpen: boolean) => void;
+  onSaved: (tradeLogId: string, entry: TradeJournalEntry | null) => void; // Called with null after a delete
+}
+
+// Select value standing for "no rating"
+const NO_CONFIDENCE = "none";
+
+const CONFIDENCE_OPTIONS = Array.from(
+  { length: MAX_JOURNAL_CONFIDENCE - MIN_JOURNAL_CONFIDENCE + 1 },
+  (_, index) => String(MIN_JOURNAL_CONFIDENCE + index),
+);
+
+const TradeJournalDialog: React.FC<TradeJournalDialogProps> = ({ log, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<string>("");
+  const [tagsInput, setTagsInput] = useState<string>("");
+  const [confidence, setConfidence] = useState<string>(NO_CONFIDENCE);
+  const [linksInput, setLinksInput] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const journal = log?.journal ?? null;
+
+  // Populate form when the dialog opens
+  useEffect(() => {
+    if (log) {
+      setNotes(log.journal?.notes ?? "");
+      setTagsInput(log.journal?.tags.join(", ") ?? "");
+      setConfidence(log.journal?.confidence != null ? String(log.journal.confidence) : NO_CONFIDENCE);
+      setLinksInput(log.journal?.links.join("\n") ?? "");
+      setIsConfirmingDelete(false);
+      setFormError(null);
+    }
+  }, [log]);
+
+  const tags = parseJournalTags(tagsInput);
+
+  const toggleTag = (tag: string) => {
+    setTagsInput((tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag]).join(", "));
+  };
+
+  // Handle form submission
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!log) return;
+
+    const links = linksInput.split("\n").map((link) => link.trim()).filter((link) => link !== "");
+    const validationError = links.map(getJournalLinkError).find((error) => error !== null) ?? null;
+    setFormError(validationError);
+    if (validationError) {
+      return;
+    }
+
+    const journalData = {
+      notes: notes.trim(),
+      tags,
+      confidence: confidence === NO_CONFIDENCE ? null : Number(confidence),
+      links,
+    };
+
+    setIsSaving(true);
+    try {
+      const result = journal
+        ? await updateJournalEntryAction(journal.id, journalData)
+        : await createJournalEntryAction({ ...journalData, tradeLogId: log.id });
+
+      if (result.isSuccess) {
+        toast({
+          title: "Success",
+          description: result.message,
+        });
+        onSaved(log.id, result.data);
+        onOpenChange(false);
+      } else {
+        toast({
+          title: "Error Saving Journal Entry",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error saving journal entry:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while saving the journal entry.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!log || !journal) return;
+    if (!isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await deleteJournalEntryAction(journal.id);
+      if (result.isSuccess) {
+        toast({
+          title: "Success",
+          description: result.message,
+        });
+        onSaved(log.id, null);
+        onOpenChange(false);
+      } else {
+        toast({
+          title: "Error Deleting Journal Entry",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error deleting journal entry:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while deleting the journal entry.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+      setIsConfirmingDelete(false);
+    }
+  };
+
+  return (
+    <Dialog open={log !== null} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{journal ? "Edit Journal Entry" : "Add Journal Entry"}</DialogTitle>
+          <DialogDescription>
+            {log
+              ? `${log.direction.toUpperCase()} ${formatNumber(log.size, 6)} ${log.symbol} · ${formatDateTime(log.timestamp)} · ${log.status}`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="journal-notes">Notes</Label>
+            <textarea
+              id="journal-notes"
+              rows={4}
+              className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={isSaving}
+              placeholder="Why you took the trade, how it went, what to do differently"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="journal-tags">Tags</Label>
+            <Input
+              id="journal-tags"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              disabled={isSaving}
+              placeholder="Comma-separated, e.g. followed signal, news"
+            />
+            <div className="flex flex-wrap gap-1">
+              {SUGGESTED_JOURNAL_TAGS.map((tag) => (
+                <Button
+                  key={tag}
+                  type="button"
+                  variant={tags.includes(tag) ? "default" : "outline"}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => toggleTag(tag)}
+                  disabled={isSaving}
+                >
+                  {tag}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="journal-confidence">Confidence</Label>
+            <Select value={confidence} onValueChange={setConfidence} disabled={isSaving}>
+              <SelectTrigger id="journal-confidence">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CONFIDENCE}>Not rated</SelectItem>
+                {CONFIDENCE_OPTIONS.map((value) => (
+                  <SelectItem key={value} value={value}>{value} / {MAX_JOURNAL_CONFIDENCE}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="journal-links">Screenshots & Links</Label>
+            <textarea
+              id="journal-links"
+              rows={2}
+              className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm font-mono shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+              value={linksInput}
+              onChange={(e) => setLinksInput(e.target.value)}
+              disabled={isSaving}
+              placeholder="One URL per line"
+            />
+          </div>
+
+          {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+          <DialogFooter className="gap-2">
+            {journal && (
+              <Button
+                type="button"
+                variant="destructive"
+                className="sm:mr-auto"
+                onClick={handleDelete}
+                disabled={isSaving}
+              >
+                {isConfirmingDelete ? "Confirm Delete" : "Delete"}
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Entry"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TradeJournalDialog;
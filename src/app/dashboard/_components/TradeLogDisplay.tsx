@@ -1,30 +1,45 @@
 /**
  * @description
- * Client Component: Displays a table of recent trade log entries fetched from the database.
+ * Client Component: Displays a filterable, sortable and paginated table of trade log entries fetched from the database.
  * Handles periodic fetching (or manual refresh) and displays loading, error, and empty states.
  *
  * Key features:
  * - Fetches trade logs using `usePeriodicFetcher` and `WorkspaceTradeLogAction`.
  * - Displays log entries in a Shadcn `Table`.
  * - Includes columns for Timestamp, Symbol, Direction, Size, Entry Price, Status, Order ID, and Error Message.
+ * - Tags entries that closed or reduced a position (`action: 'close'`) next to the direction.
+ * - Each row expands to show the trade's context: the Allora prediction and template it was staged from,
+ *   leverage, slippage, the mark price at staging time and the client order ID.
+ * - Orders still awaiting the exchange response are shown with status 'pending'.
+ * - Each row opens a trading journal dialog (notes, tags, confidence rating, links); the journal shows in the
+ *   expanded row.
+ * - Filter bar: date range, symbol, direction, status, with/without error, journal tag, and free-text search on
+ *   error messages.
+ * - Every column header sorts the table; clicking the active column again reverses the order.
+ * - Loads the newest page first and older pages with "Load more" (cursor-based pagination).
+ * - Exports every entry matching the current filters and sort as CSV or JSON via `/api/trade-log/export`.
  * - Formats data using `lib/formatting`.
  * - Provides a manual refresh button.
  * - Handles loading, error, and empty states gracefully.
  *
  * @dependencies
- * - react: For component structure and hooks (useState, useCallback).
- * - @/types: Provides TradeLogEntry, AppSettings type definitions.
+ * - react: For component structure and hooks (useState, useCallback, useMemo).
+ * - @/types: Provides the Trade Log entry, page and query type definitions.
  * - @/hooks/usePeriodicFetcher: Custom hook for periodic data fetching.
- * - @/hooks/useLocalStorage: Custom hook for accessing settings (not strictly needed here, but consistent pattern).
- * - @/actions/log-actions: Server Action for fetching trade logs (`WorkspaceTradeLogAction`).
+ * - @/actions/log-actions: Server Action for fetching trade log pages (`fetchTradeLogAction`).
+ * - @/actions/journal-actions: Server Action listing the journal tags offered by the tag filter.
+ * - ./TradeJournalDialog: Dialog for editing a trade's journal entry.
  * - @/lib/formatting: Utility functions for formatting dates and numbers.
- * - @/lib/constants: Provides default settings values.
+ * - @/hooks/useTradeableAssets: Lists the tradeable perp assets offered by the symbol filter.
+ * - @/lib/constants: Provides the statuses offered by the filters and the confidence range.
+ * - @/lib/trade-log-query: Builds the export link's query parameters.
  * - @/components/ui/card: Shadcn Card components for layout.
  * - @/components/ui/table: Shadcn Table components for data display.
  * - @/components/ui/LoadingSpinner: Component to display loading state.
  * - @/components/ui/ErrorDisplay: Component to display error messages.
  * - @/components/ui/button: Shadcn Button component for refresh.
- * - lucide-react: For the RefreshCw icon.
+ * - @/components/ui/input, label, select: Shadcn form components for the filter bar.
+ * - lucide-react: For the refresh, chevron, journal, sort, search and download icons.
  * - clsx: Utility for conditional class names.
  *
  * @notes
@@ -32,16 +47,21 @@
  * - Manages its own data fetching cycle after the initial load.
  * - Uses a manual refresh button as logs typically only change when a trade occurs.
  * Periodic fetching might be less necessary compared to price/balance data.
+ * - Entries logged before the context fields existed (and closes) show "N/A" for the missing context.
+ * - Date filters cover whole days in the browser's time zone.
+ * - Periodic fetching pauses while older pages are shown; "Refresh Logs" returns to the first page.
  */
 "use client";
 
-import React, { useState, useCallback, forwardRef, useImperativeHandle, useRef, useEffect } from "react";
-import type { TradeLogEntry, AppSettings, ActionState } from "@/types";
+import React, { useState, useCallback, useMemo, forwardRef, useImperativeHandle, useRef, useEffect } from "react";
+import type { TradeJournalEntry, TradeLogEntry, TradeLogPage, TradeLogQuery, TradeLogSortField, ActionState } from "@/types";
 import { usePeriodicFetcher } from "@/hooks/usePeriodicFetcher";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useTradeableAssets } from "@/hooks/useTradeableAssets";
 import { fetchTradeLogAction } from "@/actions/log-actions";
+import { getJournalTagsAction } from "@/actions/journal-actions";
 import { formatDateTime, formatNumber, formatCurrency } from "@/lib/formatting";
-import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
+import { MAX_JOURNAL_CONFIDENCE, PERP_SYMBOL_SUFFIX, TRADE_LOG_STATUSES } from "@/lib/constants";
+import { tradeLogQueryToSearchParams } from "@/lib/trade-log-query";
 import {
   Card,
   CardContent,
@@ -61,19 +81,166 @@ import {
 import LoadingSpinner from "@/components/ui/LoadingSpinner";
 import ErrorDisplay from "@/components/ui/ErrorDisplay";
 import { Button } from "@/components/ui/button";
-import { RefreshCw } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  NotebookPen,
+  RefreshCw,
+  Search,
+} from "lucide-react";
 import clsx from "clsx";
+import TradeJournalDialog from "./TradeJournalDialog";
 
 /**
  * Props for the TradeLogDisplay component.
- * @property {TradeLogEntry[] | null} initialLogEntries - The initial log data fetched server-side.
+ * @property {TradeLogPage | null} initialLogPage - The first page of log entries fetched server-side.
  * @property {string | null} initialError - An error message if the initial fetch failed.
  */
 interface TradeLogDisplayProps {
-  initialLogEntries: TradeLogEntry[] | null;
+  initialLogPage: TradeLogPage | null;
   initialError: string | null;
 }
 
+/**
+ * Renders the context a trade was staged with and its journal entry, shown when its row is expanded.
+ */
+const TradeLogContext: React.FC<{ log: TradeLogEntry }> = ({ log }) => {
+  const confidenceInterval = log.confidenceIntervalValues && log.confidenceIntervalValues.length > 0
+    ? log.confidenceIntervalValues
+      .map((value, index) => `${log.confidenceIntervalPercentiles?.[index] ?? "?"}: ${formatCurrency(value)}`)
+      .join(", ")
+    : null;
+  const items: { label: string; value: string }[] = [
+    {
+      label: "Prediction",
+      value: log.predictionTopicId != null
+        ? `Topic ${log.predictionTopicId}${log.predictionTimeframe ? ` (${log.predictionTimeframe})` : ""}`
+        : "N/A",
+    },
+    { label: "Predicted Price", value: log.predictedPrice != null ? formatCurrency(log.predictedPrice) : "N/A" },
+    { label: "Prediction Time", value: log.predictionTimestamp ? formatDateTime(log.predictionTimestamp) : "N/A" },
+    { label: "Confidence Interval", value: confidenceInterval ?? "N/A" },
+    { label: "Template", value: log.templateId ?? "None" },
+    { label: "Leverage", value: log.leverage != null ? `${log.leverage}x` : "N/A" },
+    { label: "Slippage", value: log.slippageBps != null ? `${log.slippageBps} bps` : "N/A" },
+    { label: "Mark Price at Staging", value: log.stagingMarkPrice != null ? formatCurrency(log.stagingMarkPrice) : "N/A" },
+    { label: "Client Order ID", value: log.cloid ?? "N/A" },
+  ];
+
+  const journal = log.journal;
+
+  return (
+    <div className="space-y-3 py-2 text-xs">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2">
+        {items.map((item) => (
+          <div key={item.label}>
+            <p className="text-muted-foreground">{item.label}</p>
+            <p className="font-mono break-all">{item.value}</p>
+          </div>
+        ))}
+      </div>
+      {journal && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2 border-t pt-2">
+          <div className="col-span-2">
+            <p className="text-muted-foreground">Journal Notes</p>
+            <p className="whitespace-pre-wrap">{journal.notes || "None"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Tags</p>
+            <p>{journal.tags.length > 0 ? journal.tags.join(", ") : "None"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Confidence</p>
+            <p>{journal.confidence != null ? `${journal.confidence} / ${MAX_JOURNAL_CONFIDENCE}` : "Not rated"}</p>
+          </div>
+          {journal.links.length > 0 && (
+            <div className="col-span-2 md:col-span-4">
+              <p className="text-muted-foreground">Links</p>
+              {journal.links.map((link) => (
+                <a key={link} href={link} target="_blank" rel="noopener noreferrer" className="block font-mono break-all underline">
+                  {link}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Filter values as entered in the filter bar. 'all' (or an empty string) disables a filter.
+ */
+interface TradeLogFilters {
+  fromDate: string;
+  toDate: string;
+  symbol: string;
+  direction: string;
+  status: string;
+  errors: "all" | "with" | "without";
+  tag: string;
+  search: string;
+}
+
+const DEFAULT_FILTERS: TradeLogFilters = {
+  fromDate: "",
+  toDate: "",
+  symbol: "all",
+  direction: "all",
+  status: "all",
+  errors: "all",
+  tag: "all",
+  search: "",
+};
+
+/** Table columns after the expand toggle, in display order. Every column is sortable. */
+const COLUMNS: { field: TradeLogSortField; label: string; className?: string }[] = [
+  { field: "timestamp", label: "Timestamp", className: "w-[150px]" },
+  { field: "symbol", label: "Symbol" },
+  { field: "direction", label: "Direction" },
+  { field: "size", label: "Size", className: "text-right" },
+  { field: "entryPrice", label: "Entry Price", className: "text-right" },
+  { field: "status", label: "Status" },
+  { field: "hyperliquidOrderId", label: "Order ID" },
+  { field: "errorMessage", label: "Error Message", className: "w-[150px]" },
+];
+
+/**
+ * Builds the Trade Log query for the filter bar and sort. Dates cover whole days in the browser's time zone.
+ */
+function buildTradeLogQuery(
+  filters: TradeLogFilters,
+  sortBy: TradeLogSortField,
+  sortOrder: "asc" | "desc",
+): TradeLogQuery {
+  return {
+    from: filters.fromDate ? new Date(`${filters.fromDate}T00:00:00`).toISOString() : undefined,
+    to: filters.toDate ? new Date(`${filters.toDate}T23:59:59.999`).toISOString() : undefined,
+    symbol: filters.symbol !== "all" ? filters.symbol : undefined,
+    direction: filters.direction !== "all" ? filters.direction : undefined,
+    status: filters.status !== "all" ? filters.status : undefined,
+    hasError: filters.errors === "all" ? undefined : filters.errors === "with",
+    search: filters.search || undefined,
+    tag: filters.tag !== "all" ? filters.tag : undefined,
+    sortBy,
+    sortOrder,
+  };
+}
+
 /**
  * Interface for the methods exposed by the component ref
  */
@@ -82,7 +249,7 @@ export interface TradeLogDisplayRef {
 }
 
 const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
-  initialLogEntries,
+  initialLogPage,
   initialError,
 }, ref) => {
   // Use a longer interval for periodic fetching
@@ -91,27 +258,44 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
   // State for manual refresh loading indicator
   const [isManualLoading, setIsManualLoading] = useState(false);
   const [lastRefreshTime, setLastRefreshTime] = useState<string>('');
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  // IDs of the rows showing their trade context
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  // Filters and sort applied to the query
+  const [filters, setFilters] = useState<TradeLogFilters>(DEFAULT_FILTERS);
+  const [searchInput, setSearchInput] = useState("");
+  const [sortBy, setSortBy] = useState<TradeLogSortField>("timestamp");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  // Pages loaded after the first one with "Load more"
+  const [olderEntries, setOlderEntries] = useState<TradeLogEntry[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  // Trade whose journal dialog is open, journal entries saved since the last fetch, and the tags offered by the filter
+  const [journalLog, setJournalLog] = useState<TradeLogEntry | null>(null);
+  const [journalOverrides, setJournalOverrides] = useState<Map<string, TradeJournalEntry | null>>(new Map());
+  const [journalTags, setJournalTags] = useState<string[]>([]);
+  const { assets: tradeableAssets } = useTradeableAssets();
 
-  // Create a custom fetcher function that includes timestamp to avoid caching
-  const customFetcher = useCallback(async () => {
-    if (isRefreshing) {
-      console.log('[TradeLogDisplay] Skipping fetch - already in progress');
-      return {
-        isSuccess: true,
-        message: "Skipped refresh - already in progress",
-        data: null
-      } as ActionState<TradeLogEntry[] | null>;
-    }
+  const query = useMemo(() => buildTradeLogQuery(filters, sortBy, sortOrder), [filters, sortBy, sortOrder]);
 
-    console.log('[TradeLogDisplay] Fetching trade logs...');
-    setIsRefreshing(true);
+  const toggleExpanded = useCallback((id: string) => {
+    setExpandedIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
 
+  // Fetches the first page for the current filters and sort
+  const customFetcher = useCallback(async () => {
+    console.log('[TradeLogDisplay] Fetching trade logs...', query);
     try {
-      const result = await fetchTradeLogAction(100, Date.now());
+      const result = await fetchTradeLogAction(query);
       console.log('[TradeLogDisplay] Fetch result:', {
         success: result.isSuccess,
-        count: result.data?.length || 0,
+        count: result.data?.entries.length || 0,
+        total: result.data?.totalCount || 0,
         error: result.error
       });
       return result;
@@ -121,67 +305,56 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
         isSuccess: false,
         message: error instanceof Error ? error.message : "An unknown error occurred",
         error: error instanceof Error ? error.message : "An unknown error occurred"
-      } as ActionState<TradeLogEntry[] | null>;
-    } finally {
-      setIsRefreshing(false);
-      console.log('[TradeLogDisplay] Fetch completed, refreshing state reset');
+      } as ActionState<TradeLogPage>;
     }
-  }, [isRefreshing]);
+  }, [query]);
 
-  // Fetch logs using the hook with the customFetcher
+  // Fetch logs using the hook with the customFetcher.
+  // Periodic fetching pauses while older pages are shown, so new entries don't shift the first page under them.
   const {
-    data: logs,
+    data: logPage,
     isLoading: isPeriodicLoading,
     error,
     refresh,
   } = usePeriodicFetcher(
     customFetcher,
-    LOG_REFRESH_INTERVAL,
-    initialLogEntries,
+    olderEntries.length > 0 ? null : LOG_REFRESH_INTERVAL,
+    initialLogPage ?? undefined,
   );
+  // Keeps the effects below from re-running every time the hook recreates `refresh`
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
 
   // Combine loading states
-  const isLoading = isPeriodicLoading || isManualLoading || isRefreshing;
-
-  // Fix error handling - don't show error if we have logs or are loading
-  const currentError = (!isLoading && ((logs && logs.length === 0) || logs === null)) ? error : null;
+  const isLoading = isPeriodicLoading || isManualLoading;
 
   // Prefer fresh data from the fetcher, fallback to initial data if fetcher hasn't populated yet
-  const currentLogs = logs ?? initialLogEntries;
+  const firstPage = logPage ?? initialLogPage;
+  const currentLogs = firstPage
+    ? [...firstPage.entries, ...olderEntries.filter((entry) => !firstPage.entries.some((log) => log.id === entry.id))]
+      .map((log) => (journalOverrides.has(log.id) ? { ...log, journal: journalOverrides.get(log.id) } : log))
+    : null;
+  const nextCursor = olderEntries.length > 0 ? olderCursor : firstPage?.nextCursor ?? null;
 
-  // Enhanced refresh function with better error handling and debouncing
+  // Don't show the error if we have logs or are loading
+  const currentError = (!isLoading && (!currentLogs || currentLogs.length === 0)) ? error : null;
+
+  // Returns to the first page and fetches it again
   const performRefresh = useCallback(async () => {
-    if (isManualLoading || isRefreshing) {
+    if (isManualLoading) {
       console.log('[TradeLogDisplay] Skipping refresh - already in progress');
       return;
     }
 
     setIsManualLoading(true);
-    console.log('[TradeLogDisplay] Starting manual refresh...');
+    console.log(`[TradeLogDisplay] Refresh started at ${new Date().toISOString()}`);
 
     try {
-      const now = new Date();
-      console.log(`[TradeLogDisplay] Refresh started at ${now.toISOString()}`);
-
-      // Force cache invalidation by passing a timestamp parameter
-      const fetchResult = await fetchTradeLogAction(100, Date.now());
-
-      // Log the results to help debug
-      if (fetchResult.isSuccess && fetchResult.data) {
-        console.log(`[TradeLogDisplay] Fetched ${fetchResult.data.length} trade logs`);
-        if (fetchResult.data.length > 0) {
-          console.log('[TradeLogDisplay] Most recent log:', {
-            timestamp: new Date(fetchResult.data[0].timestamp).toISOString(),
-            symbol: fetchResult.data[0].symbol,
-            direction: fetchResult.data[0].direction,
-            status: fetchResult.data[0].status
-          });
-        }
-      } else {
-        console.error('[TradeLogDisplay] Error fetching trade logs:', fetchResult.message);
-      }
-
-      // Update last refresh time
+      setOlderEntries([]);
+      setOlderCursor(null);
+      setLoadMoreError(null);
+      await refreshRef.current();
+      setJournalOverrides(new Map());
       setLastRefreshTime(new Date().toLocaleTimeString());
     } catch (error) {
       console.error('[TradeLogDisplay] Error during refresh:', error);
@@ -190,7 +363,29 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
       setIsManualLoading(false);
       console.log('[TradeLogDisplay] Refresh completed, loading state reset');
     }
-  }, [isManualLoading, isRefreshing]);
+  }, [isManualLoading]);
+
+  // Fetches the page after the last one shown
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const result = await fetchTradeLogAction({ ...query, cursor: nextCursor });
+      if (result.isSuccess) {
+        setOlderEntries((previous) => [...previous, ...result.data.entries]);
+        setOlderCursor(result.data.nextCursor);
+      } else {
+        console.error('[TradeLogDisplay] Error loading more trade logs:', result.message);
+        setLoadMoreError(result.message);
+      }
+    } catch (error) {
+      console.error('[TradeLogDisplay] Error loading more trade logs:', error);
+      setLoadMoreError(error instanceof Error ? error.message : "An unknown error occurred");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, query]);
 
   // Expose the refresh method via ref with better implementation
   useImperativeHandle(ref, () => ({
@@ -209,36 +404,81 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
     }
   }), [performRefresh]);
 
-  // Add effect to log when data changes
-  useEffect(() => {
-    if (logs) {
-      console.log(`[TradeLogDisplay] Logs updated, count: ${logs.length}`);
-      if (logs.length > 0) {
-        console.log('[TradeLogDisplay] Most recent log:', {
-          timestamp: new Date(logs[0].timestamp).toISOString(),
-          symbol: logs[0].symbol,
-          direction: logs[0].direction,
-          status: logs[0].status
-        });
+  // Loads the tags offered by the tag filter
+  const loadJournalTags = useCallback(async () => {
+    try {
+      const result = await getJournalTagsAction();
+      if (result.isSuccess) {
+        setJournalTags(result.data);
+      } else {
+        console.error('[TradeLogDisplay] Error loading journal tags:', result.message);
       }
-      // Reset loading states when new data arrives
-      setIsManualLoading(false);
-      setIsRefreshing(false);
+    } catch (error) {
+      console.error('[TradeLogDisplay] Error loading journal tags:', error);
     }
-  }, [logs]);
+  }, []);
 
-  // Add effect to refresh logs when the component mounts
   useEffect(() => {
-    console.log('[TradeLogDisplay] Component mounted, performing initial refresh');
-    performRefresh();
-  }, [performRefresh]);
+    loadJournalTags();
+  }, [loadJournalTags]);
+
+  // Shows a saved (or deleted) journal entry right away, without waiting for the next fetch
+  const handleJournalSaved = useCallback((tradeLogId: string, entry: TradeJournalEntry | null) => {
+    setJournalOverrides((previous) => new Map(previous).set(tradeLogId, entry));
+    loadJournalTags();
+  }, [loadJournalTags]);
+
+  // Start over from the first page whenever the filters or sort change (the hook fetches on mount by itself)
+  const isFirstQueryRef = useRef(true);
+  useEffect(() => {
+    if (isFirstQueryRef.current) {
+      isFirstQueryRef.current = false;
+      return;
+    }
+    setOlderEntries([]);
+    setOlderCursor(null);
+    setLoadMoreError(null);
+    setExpandedIds(new Set());
+    refreshRef.current();
+  }, [query]);
+
+  const updateFilter = useCallback(<K extends keyof TradeLogFilters>(key: K, value: TradeLogFilters[K]) => {
+    setFilters((previous) => ({ ...previous, [key]: value }));
+  }, []);
+
+  const handleSearchSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    updateFilter("search", searchInput.trim());
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setFilters(DEFAULT_FILTERS);
+  };
+
+  const handleSort = (field: TradeLogSortField) => {
+    if (field === sortBy) {
+      setSortOrder((previous) => (previous === "desc" ? "asc" : "desc"));
+    } else {
+      setSortBy(field);
+      setSortOrder("desc");
+    }
+  };
+
+  const exportHref = (format: "csv" | "json") => {
+    const params = tradeLogQueryToSearchParams(query);
+    params.set("format", format);
+    return `/api/trade-log/export?${params.toString()}`;
+  };
+
+  const hasActiveFilters = JSON.stringify(filters) !== JSON.stringify(DEFAULT_FILTERS);
 
   const renderTableContent = () => {
     // Prioritize showing loading state
     if (isLoading && (!currentLogs || currentLogs.length === 0)) {
       return (
         <TableRow>
-          <TableCell colSpan={8} className="h-32 text-center">
+          <TableCell colSpan={9} className="h-32 text-center">
             <div className="flex justify-center items-center">
               <LoadingSpinner />
             </div>
@@ -251,7 +491,7 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
     if (currentError && (!currentLogs || currentLogs.length === 0)) {
       return (
         <TableRow>
-          <TableCell colSpan={8} className="h-32 text-center">
+          <TableCell colSpan={9} className="h-32 text-center">
             <div className="flex justify-center items-center">
               <ErrorDisplay error={currentError} />
             </div>
@@ -264,7 +504,7 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
     if (!currentLogs || currentLogs.length === 0) {
       return (
         <TableRow>
-          <TableCell colSpan={8} className="h-32 text-center">
+          <TableCell colSpan={9} className="h-32 text-center">
             <div className="flex justify-center items-center text-muted-foreground">
               No trade logs found. Trades executed via this app will appear here.
             </div>
@@ -274,46 +514,92 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
     }
 
     // Display log entries
-    return currentLogs.map((log) => (
-      <TableRow key={log.id}>
-        <TableCell className="text-xs whitespace-nowrap">
-          {formatDateTime(log.timestamp)}
-        </TableCell>
-        <TableCell className="font-medium">{log.symbol}</TableCell>
-        <TableCell>
-          <span
-            className={clsx("font-medium", {
-              "text-green-600": log.direction.toLowerCase() === "long",
-              "text-red-600": log.direction.toLowerCase() === "short",
-            })}
-          >
-            {log.direction.toUpperCase()}
-          </span>
-        </TableCell>
-        <TableCell className="text-right font-mono text-sm">{formatNumber(log.size, 6)}</TableCell>
-        <TableCell className="text-right font-mono text-sm">
-          {log.status === 'filled' || log.status === 'partially_filled' ? formatCurrency(log.entryPrice) : 'N/A'}
-        </TableCell>
-        <TableCell>
-          <span
-            className={clsx("text-xs font-medium px-2 py-0.5 rounded-full", {
-              "bg-green-100 text-green-800": log.status === "filled",
-              "bg-yellow-100 text-yellow-800": log.status === "resting_ioc" || log.status === "partially_filled",
-              "bg-red-100 text-red-800": log.status === "failed",
-              "bg-gray-100 text-gray-800": log.status !== "filled" && log.status !== "failed" && log.status !== "resting_ioc" && log.status !== "partially_filled",
-            })}
-          >
-            {log.status}
-          </span>
-        </TableCell>
-        <TableCell className="text-xs font-mono truncate max-w-[120px]" title={log.hyperliquidOrderId || "N/A"}>
-          {log.hyperliquidOrderId || "N/A"}
-        </TableCell>
-        <TableCell className="text-xs text-destructive truncate max-w-[120px]" title={log.errorMessage ?? ''}>
-          {log.errorMessage || "None"}
-        </TableCell>
-      </TableRow>
-    ));
+    return currentLogs.map((log) => {
+      const isExpanded = expandedIds.has(log.id);
+      return (
+        <React.Fragment key={log.id}>
+          <TableRow>
+            <TableCell className="px-2 whitespace-nowrap">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => toggleExpanded(log.id)}
+                aria-label={isExpanded ? "Hide trade context" : "Show trade context"}
+              >
+                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={clsx("h-6 w-6 p-0", log.journal ? "text-blue-600" : "text-muted-foreground")}
+                onClick={() => setJournalLog(log)}
+                aria-label={log.journal ? "Edit journal entry" : "Add journal entry"}
+                title={log.journal
+                  ? `Journal${log.journal.tags.length > 0 ? `: ${log.journal.tags.join(", ")}` : ""}`
+                  : "Add journal entry"}
+              >
+                <NotebookPen className="h-4 w-4" />
+              </Button>
+            </TableCell>
+            <TableCell className="text-xs whitespace-nowrap">
+              {formatDateTime(log.timestamp)}
+            </TableCell>
+            <TableCell className="font-medium">{log.symbol}</TableCell>
+            <TableCell>
+              <span
+                className={clsx("font-medium", {
+                  "text-green-600": log.direction.toLowerCase() === "long",
+                  "text-red-600": log.direction.toLowerCase() === "short",
+                })}
+              >
+                {log.direction.toUpperCase()}
+              </span>
+              {log.action === "close" && (
+                <span className="ml-1 text-xs font-medium px-1.5 py-0.5 rounded bg-gray-100 text-gray-800" title="Reduce-only order that closed or reduced a position">
+                  CLOSE
+                </span>
+              )}
+            </TableCell>
+            <TableCell className="text-right font-mono text-sm">{formatNumber(log.size, 6)}</TableCell>
+            <TableCell className="text-right font-mono text-sm">
+              {log.status === 'filled' || log.status === 'partially_filled'
+                ? formatCurrency(log.entryPrice)
+                : log.status === 'resting'
+                  ? <span title="Limit price of the resting order">{formatCurrency(log.entryPrice)} <span className="text-xs text-muted-foreground">(limit)</span></span>
+                  : 'N/A'}
+            </TableCell>
+            <TableCell>
+              <span
+                className={clsx("text-xs font-medium px-2 py-0.5 rounded-full", {
+                  "bg-green-100 text-green-800": log.status === "filled",
+                  "bg-yellow-100 text-yellow-800": log.status === "resting_ioc" || log.status === "partially_filled",
+                  "bg-blue-100 text-blue-800": log.status === "resting",
+                  "bg-red-100 text-red-800": log.status === "failed",
+                  "bg-gray-100 text-gray-800": log.status !== "filled" && log.status !== "failed" && log.status !== "resting_ioc" && log.status !== "partially_filled" && log.status !== "resting",
+                })}
+              >
+                {log.status}
+              </span>
+            </TableCell>
+            <TableCell className="text-xs font-mono truncate max-w-[120px]" title={log.hyperliquidOrderId || "N/A"}>
+              {log.hyperliquidOrderId || "N/A"}
+            </TableCell>
+            <TableCell className="text-xs text-destructive truncate max-w-[120px]" title={log.errorMessage ?? ''}>
+              {log.errorMessage || "None"}
+            </TableCell>
+          </TableRow>
+          {isExpanded && (
+            <TableRow className="bg-muted/30 hover:bg-muted/30">
+              <TableCell />
+              <TableCell colSpan={8}>
+                <TradeLogContext log={log} />
+              </TableCell>
+            </TableRow>
+          )}
+        </React.Fragment>
+      );
+    });
   };
 
   return (
@@ -332,37 +618,210 @@ const TradeLogDisplay = forwardRef<TradeLogDisplayRef, TradeLogDisplayProps>(({
           </CardDescription>
         </div>
 
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={performRefresh}
-          disabled={isManualLoading}
-        >
-          <RefreshCw className={clsx("h-4 w-4 mr-2", isManualLoading && "animate-spin")} />
-          {isManualLoading ? 'Refreshing...' : 'Refresh Logs'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportHref("csv")} download>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportHref("json")} download>
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </a>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={performRefresh}
+            disabled={isManualLoading}
+          >
+            <RefreshCw className={clsx("h-4 w-4 mr-2", isManualLoading && "animate-spin")} />
+            {isManualLoading ? 'Refreshing...' : 'Refresh Logs'}
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="p-0">
+        {/* Filters */}
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-9 gap-2 px-6 pb-4 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="trade-log-from" className="text-xs">From</Label>
+            <Input
+              id="trade-log-from"
+              type="date"
+              className="h-8 text-xs"
+              value={filters.fromDate}
+              onChange={(e) => updateFilter("fromDate", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-log-to" className="text-xs">To</Label>
+            <Input
+              id="trade-log-to"
+              type="date"
+              className="h-8 text-xs"
+              value={filters.toDate}
+              onChange={(e) => updateFilter("toDate", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-log-symbol" className="text-xs">Symbol</Label>
+            <Select value={filters.symbol} onValueChange={(value) => updateFilter("symbol", value)}>
+              <SelectTrigger id="trade-log-symbol" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All symbols</SelectItem>
+                {tradeableAssets.map((asset) => (
+                  <SelectItem key={asset} value={`${asset}${PERP_SYMBOL_SUFFIX}`}>
+                    {asset}{PERP_SYMBOL_SUFFIX}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-log-direction" className="text-xs">Direction</Label>
+            <Select value={filters.direction} onValueChange={(value) => updateFilter("direction", value)}>
+              <SelectTrigger id="trade-log-direction" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All directions</SelectItem>
+                <SelectItem value="long">Long</SelectItem>
+                <SelectItem value="short">Short</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-log-status" className="text-xs">Status</Label>
+            <Select value={filters.status} onValueChange={(value) => updateFilter("status", value)}>
+              <SelectTrigger id="trade-log-status" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {TRADE_LOG_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-log-errors" className="text-xs">Errors</Label>
+            <Select
+              value={filters.errors}
+              onValueChange={(value) => updateFilter("errors", value as TradeLogFilters["errors"])}
+            >
+              <SelectTrigger id="trade-log-errors" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any</SelectItem>
+                <SelectItem value="with">With error</SelectItem>
+                <SelectItem value="without">Without error</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trade-log-tag" className="text-xs">Journal Tag</Label>
+            <Select value={filters.tag} onValueChange={(value) => updateFilter("tag", value)}>
+              <SelectTrigger id="trade-log-tag" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any tag</SelectItem>
+                {journalTags.map((tag) => (
+                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <form onSubmit={handleSearchSubmit} className="space-y-1 col-span-2">
+            <Label htmlFor="trade-log-search" className="text-xs">Search errors</Label>
+            <div className="flex gap-2">
+              <Input
+                id="trade-log-search"
+                className="h-8 text-xs"
+                placeholder="e.g. insufficient margin"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+              <Button type="submit" variant="outline" size="sm" className="h-8" aria-label="Search error messages">
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8"
+                onClick={clearFilters}
+                disabled={!hasActiveFilters && !searchInput}
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+        </div>
+
         <div className="border rounded-md">
           <div className="overflow-auto max-h-[300px]">
             <Table>
               <TableHeader className="sticky top-0 bg-background border-b z-10">
                 <TableRow>
-                  <TableHead className="w-[150px]">Timestamp</TableHead>
-                  <TableHead>Symbol</TableHead>
-                  <TableHead>Direction</TableHead>
-                  <TableHead className="text-right">Size</TableHead>
-                  <TableHead className="text-right">Entry Price</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Order ID</TableHead>
-                  <TableHead className="w-[150px]">Error Message</TableHead>
+                  <TableHead className="w-[72px] px-2" />
+                  {COLUMNS.map((column) => (
+                    <TableHead
+                      key={column.field}
+                      className={column.className}
+                      aria-sort={sortBy === column.field ? (sortOrder === "asc" ? "ascending" : "descending") : undefined}
+                    >
+                      <button
+                        type="button"
+                        className={clsx(
+                          "inline-flex items-center gap-1 hover:text-foreground",
+                          sortBy === column.field && "text-foreground",
+                        )}
+                        onClick={() => handleSort(column.field)}
+                      >
+                        {column.label}
+                        {sortBy !== column.field
+                          ? <ArrowUpDown className="h-3 w-3 opacity-40" />
+                          : sortOrder === "asc"
+                            ? <ArrowUp className="h-3 w-3" />
+                            : <ArrowDown className="h-3 w-3" />}
+                      </button>
+                    </TableHead>
+                  ))}
                 </TableRow>
               </TableHeader>
               <TableBody>{renderTableContent()}</TableBody>
             </Table>
           </div>
         </div>
+
+        {/* Pagination */}
+        {firstPage && firstPage.totalCount > 0 && (
+          <div className="flex items-center justify-between px-6 py-3 text-xs text-muted-foreground">
+            <span>
+              Showing {currentLogs?.length ?? 0} of {firstPage.totalCount} {firstPage.totalCount === 1 ? "entry" : "entries"}
+              {loadMoreError && <span className="text-red-600 ml-2">(Failed to load more: {loadMoreError})</span>}
+            </span>
+            {nextCursor && (
+              <Button variant="outline" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            )}
+          </div>
+        )}
       </CardContent>
+
+      <TradeJournalDialog
+        log={journalLog}
+        onOpenChange={(open) => !open && setJournalLog(null)}
+        onSaved={handleJournalSaved}
+      />
     </Card>
   );
 });
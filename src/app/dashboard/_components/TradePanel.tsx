@@ -6,11 +6,19 @@
  *
  * Key features:
  * - Displays details of the selected Allora prediction.
- * - Provides form inputs for trade size and leverage.
+ * - Provides form inputs for trade size, leverage and margin mode (cross or isolated; isolated-only assets force isolated).
+ * - Supports market (IOC), limit (GTC) and post-only (ALO) order types, with a limit price input.
+ * - Market orders take a slippage tolerance (bps), defaulting to the settings value or the selected template's.
+ * - Optionally attaches take-profit / stop-loss orders: TP defaults to the predicted price (or a
+ *   confidence-interval value) and SL is a configurable distance from entry. Shows the risk/reward ratio.
  * - Fetches and displays saved Trade Parameter Templates from the database.
- * - Periodically fetches the current market price for BTC.
+ * - Lets the user pick which perpetual asset to trade: any listed, non-delisted perp from the asset registry.
+ * - Periodically fetches the current market price and leverage limit for the selected asset.
  * - Suggests a trade direction (Long/Short) based on prediction vs. current price.
- * - Calculates and displays estimated margin requirement and liquidation price.
+ * - Calculates and displays estimated margin requirement and the post-trade liquidation price, which accounts for the
+ *   account's cross margin, any existing position in the asset and the asset's maintenance margin (see `@/lib/liquidation`).
+ * - For market orders, periodically fetches the L2 order book and shows the expected average fill price, price impact,
+ *   book depth within the slippage band and any size that would not fill within it.
  * - Integrates with the master trade execution switch from settings.
  * - Enables a "Review Trade" button when inputs are valid and estimates are available.
  * - Opens the `ConfirmationModal` when "Review Trade" is clicked.
@@ -22,21 +30,32 @@
  * - @/types: Provides type definitions (AlloraPrediction, TradeTemplate, AppSettings, ActionState).
  * - @/hooks/useLocalStorage: For accessing app settings (master trade switch).
  * - @/hooks/usePeriodicFetcher: For fetching current price periodically.
+ * - @/hooks/useServerSnapshot, @/hooks/useHyperliquidStream: For the account's clearinghouse state (liquidation estimate).
  * - @/hooks/use-toast: For displaying notifications.
+ * - @/hooks/useTradeableAssets: Lists the tradeable perp assets for the asset picker.
  * - @/actions/template-actions: Server Action to fetch trade templates.
- * - @/actions/hyperliquid-actions: Server Action to fetch current market price.
- * - @/lib/constants: Provides default settings and constants (BTC symbol).
+ * - @/actions/hyperliquid-actions: Server Actions to fetch the current market price and order book.
+ * - @/lib/constants: Provides default settings and the default asset.
  * - @/lib/formatting: For formatting numbers (currency, decimals).
- * - @/lib/trading-calcs: For calculating estimated margin and liquidation price, suggesting direction.
- * - @/components/ui/*: Shadcn UI components (Card, Button, Input, Label, Select, Badge, Tooltip).
+ * - @/lib/trading-calcs: For calculating estimated margin and price impact, suggesting direction, and TP/SL levels.
+ * - @/lib/liquidation: For the post-trade liquidation price.
+ * - @/lib/precision: For rounding prices and sizes to the asset's Hyperliquid precision.
+ * - @/components/ui/*: Shadcn UI components (Card, Button, Input, Label, Select, Switch, Badge, Tooltip).
  * - @/components/ui/ConfirmationModal: The modal component for final trade confirmation.
  * - @/components/ui/ApiStatusIndicator: Component to show API configuration status.
  * - lucide-react: For icons (Info).
  *
  * @notes
  * - Leverage input is primarily for estimation; actual leverage is set per-asset on Hyperliquid.
- * - Margin and liquidation price calculations are simplified estimates.
- * - Assumes BTC is the target asset (using BTC_SYMBOL_UI and BTC_ASSET_INDEX).
+ * - Margin and liquidation price calculations are estimates (fees, funding and tier maintenance deductions are ignored).
+ * - Liquidation prices are estimated for the selected margin mode; an existing position keeps its own mode on Hyperliquid,
+ *   so the estimate (and a note) uses the position's mode instead.
+ * - The price impact is estimated from the visible book (up to 20 levels per side), which refreshes with the price.
+ * - The direction is only suggested when the selected asset matches the prediction's token; selecting a prediction switches to its asset.
+ *   For other assets the user picks the direction manually.
+ * - Leverage is capped at the selected asset's `maxLeverage` reported by Hyperliquid.
+ * - Limit price defaults, the review price limit and the reviewed size follow Hyperliquid's precision rules
+ *   (5 significant figures, `6 - szDecimals` price decimals, sizes truncated to `szDecimals`), matching what the server submits.
  * - Error handling for template/price fetching is included.
  * - Added `ApiStatusIndicator` to show if trading API is configured.
  */
@@ -48,19 +67,40 @@ import type {
   TradeTemplate,
   ActionState,
   AppSettings,
+  HyperliquidMarginMode,
+  LiquidationEstimate,
 } from "@/types";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
 import { usePeriodicFetcher } from "@/hooks/usePeriodicFetcher";
+import { useServerSnapshot } from "@/hooks/useServerSnapshot";
+import { useHyperliquidStream } from "@/hooks/useHyperliquidStream";
 import { useToast } from "@/hooks/use-toast";
+import { useTradeableAssets, withSelectedAsset } from "@/hooks/useTradeableAssets";
 import { getTemplatesAction } from "@/actions/template-actions";
-import { fetchCurrentPriceAction } from "@/actions/hyperliquid-actions";
-import { DEFAULT_APP_SETTINGS, BTC_SYMBOL_UI } from "@/lib/constants";
+import { fetchCurrentPriceAction, fetchOrderBookAction } from "@/actions/hyperliquid-actions";
+import {
+  DEFAULT_APP_SETTINGS,
+  DEFAULT_MAX_ORACLE_DEVIATION_PERCENT,
+  DEFAULT_SLIPPAGE_BPS,
+  DEFAULT_STOP_LOSS_PERCENT,
+  MAX_SLIPPAGE_BPS,
+  MIN_SLIPPAGE_BPS,
+  DEFAULT_TRADE_ASSET,
+  PERP_SYMBOL_SUFFIX,
+} from "@/lib/constants";
 import { formatCurrency, formatNumber, formatDateTime } from "@/lib/formatting";
 import {
+  applySlippage,
   calculateEstimatedMargin,
-  calculateEstimatedLiquidationPrice,
+  calculateRiskRewardRatio,
+  calculateStopLossPrice,
+  estimatePriceImpact,
+  getBracketLevelError,
+  getSlippageError,
   suggestTradeDirection,
 } from "@/lib/trading-calcs";
+import { formatOrderSize, formatPerpOrderPrice, getSizeIncrement, roundPerpPrice } from "@/lib/precision";
+import { calculateLiquidationPrice } from "@/lib/liquidation";
 import {
   Card,
   CardContent,
@@ -80,6 +120,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Info, Target, CalendarClock } from "lucide-react";
 import ErrorDisplay from "@/components/ui/ErrorDisplay";
 import LoadingSpinner from "@/components/ui/LoadingSpinner";
@@ -90,7 +131,11 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 // Import the ConfirmationModal and its props type
-import ConfirmationModal, { TradeConfirmationDetails } from "@/components/ui/ConfirmationModal";
+import ConfirmationModal, {
+  ORDER_TYPE_LABELS,
+  TradeConfirmationDetails,
+  TradeOrderType,
+} from "@/components/ui/ConfirmationModal";
 // Import the ApiStatusIndicator
 import ApiStatusIndicator from "@/components/ui/ApiStatusIndicator";
 
@@ -100,6 +145,9 @@ interface TradePanelProps {
 
 type TradeDirection = "long" | "short";
 
+// Leverage cap used until the selected asset's own limit has been fetched
+const FALLBACK_MAX_LEVERAGE = 40;
+
 const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
   const { toast } = useToast();
   const [settings] = useLocalStorage<AppSettings>(
@@ -108,6 +156,8 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
   );
 
   // Form State
+  const { assets: tradeableAssets } = useTradeableAssets();
+  const [selectedAsset, setSelectedAsset] = useState<string>(DEFAULT_TRADE_ASSET);
   const [tradeSize, setTradeSize] = useState<string>(""); // Size in base currency (e.g., BTC)
   const [leverage, setLeverage] = useState<string>("10"); // Default leverage
   const [templates, setTemplates] = useState<TradeTemplate[]>([]);
@@ -115,6 +165,19 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
   const [isLoadingTemplates, setIsLoadingTemplates] = useState<boolean>(false);
   const [templateError, setTemplateError] = useState<string | null>(null);
   const [direction, setDirection] = useState<TradeDirection | null>(null);
+  const [orderType, setOrderType] = useState<TradeOrderType>("market");
+  const [limitPrice, setLimitPrice] = useState<string>("");
+  const [marginMode, setMarginMode] = useState<HyperliquidMarginMode>("cross");
+  const [slippageBps, setSlippageBps] = useState<string>(
+    String(settings.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS),
+  );
+
+  // TP/SL State. tpSource is "prediction", "none", or "ci:<index>" for a confidence-interval value.
+  const [attachTpsl, setAttachTpsl] = useState<boolean>(false);
+  const [tpSource, setTpSource] = useState<string>("prediction");
+  const [stopLossPercent, setStopLossPercent] = useState<string>(
+    String(settings.defaultStopLossPercent ?? DEFAULT_STOP_LOSS_PERCENT),
+  );
 
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
@@ -123,20 +186,61 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
   // Add lastValidPrice state to persist price between refreshes
   const [lastValidPrice, setLastValidPrice] = useState<number | null>(null);
 
+  // Price fetcher bound to the currently selected asset
+  const fetchSelectedAssetPrice = useCallback(
+    () => fetchCurrentPriceAction(selectedAsset),
+    [selectedAsset],
+  );
+
   // Price State
   const {
     data: priceData,
     isLoading: isLoadingPrice,
     error: priceError,
+    refresh: refreshPrice,
   } = usePeriodicFetcher(
-    fetchCurrentPriceAction, // Fetches BTC price by default
+    fetchSelectedAssetPrice,
     settings.accountRefreshInterval, // Use account refresh interval for price
     null, // No initial price needed from server prop
   );
 
+  // Order book fetcher bound to the currently selected asset
+  const fetchSelectedAssetBook = useCallback(
+    () => fetchOrderBookAction(selectedAsset),
+    [selectedAsset],
+  );
+
+  // Order Book State (refreshed with the price)
+  const {
+    data: bookData,
+    refresh: refreshBook,
+  } = usePeriodicFetcher(
+    fetchSelectedAssetBook,
+    settings.accountRefreshInterval,
+    null,
+  );
+
+  // Clearinghouse state for the liquidation estimate: live from the stream, else the server snapshot
+  const stream = useHyperliquidStream();
+  const { data: accountSnapshot } = useServerSnapshot("accountInfo", settings.accountRefreshInterval, null);
+  const clearinghouseState = (stream.isLive ? stream.accountInfo : null) ?? accountSnapshot;
+
+  // Ignore price data that still belongs to a previously selected asset
+  const assetPriceData = priceData?.assetName === selectedAsset ? priceData : null;
+  const assetBook = bookData?.assetName === selectedAsset ? bookData : null;
+  const maxLeverage = assetPriceData?.maxLeverage ?? FALLBACK_MAX_LEVERAGE;
+  // Some assets only allow isolated margin
+  const onlyIsolated = assetPriceData?.onlyIsolated ?? false;
+  const effectiveMarginMode: HyperliquidMarginMode = onlyIsolated ? "isolated" : marginMode;
+  // Display decimals for prices; order prices are rounded with the precision helpers
+  const priceDecimals = assetPriceData ? Math.max(2, 6 - assetPriceData.szDecimals) : 2;
+  // The selected prediction only drives direction and take-profit for the asset it predicts
+  const predictionAsset = selectedPrediction?.token ?? DEFAULT_TRADE_ASSET;
+  const predictionApplies = selectedAsset === predictionAsset;
+
   // Use lastValidPrice as fallback when current price is temporarily unavailable
   const currentPrice = useMemo(() => {
-    const price = priceData?.price ? parseFloat(priceData.price) : null;
+    const price = assetPriceData?.price ? parseFloat(assetPriceData.price) : null;
     // If we get a valid price, update our lastValidPrice
     if (price !== null && !isNaN(price)) {
       setLastValidPrice(price);
@@ -144,11 +248,17 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
     }
     // Otherwise return the last valid price we had
     return lastValidPrice;
-  }, [priceData, lastValidPrice]);
+  }, [assetPriceData, lastValidPrice]);
+
+  // Rounds a price to the nearest valid Hyperliquid price for the selected asset (for input defaults)
+  const toValidPrice = useCallback((price: number): string => {
+    if (!assetPriceData || !(price > 0)) return price.toFixed(2);
+    return roundPerpPrice(price, assetPriceData.szDecimals);
+  }, [assetPriceData]);
 
   // Estimate State
   const [estimatedMargin, setEstimatedMargin] = useState<number | null>(null);
-  const [estimatedLiqPrice, setEstimatedLiqPrice] = useState<number | null>(
+  const [liquidationEstimate, setLiquidationEstimate] = useState<LiquidationEstimate | null>(
     null,
   );
 
@@ -185,9 +295,18 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
     fetchTemplates();
   }, [toast]);
 
+  // Reset price and direction, and fetch the new price immediately, when the asset changes
+  useEffect(() => {
+    setLastValidPrice(null);
+    setDirection(null);
+    refreshPrice();
+    refreshBook();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedAsset]);
+
   // Effect to update suggested direction when prediction or price changes
   useEffect(() => {
-    if (selectedPrediction && currentPrice) {
+    if (selectedPrediction && currentPrice && predictionApplies) {
       const suggestedDir = suggestTradeDirection(selectedPrediction.price, currentPrice);
       setDirection(suggestedDir); // Allow user to override later if needed
     }
@@ -195,25 +314,104 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
     else if (!selectedPrediction) {
       setDirection(null);
     }
-  }, [selectedPrediction, currentPrice]);
+  }, [selectedPrediction, currentPrice, predictionApplies]);
 
   // Effect to recalculate estimates when inputs change
   useEffect(() => {
     const sizeNum = parseFloat(tradeSize);
     const leverageNum = parseFloat(leverage);
-    const priceToUse = currentPrice ?? lastValidPrice; // Use current or fallback to last valid
+    const limitPriceNum = parseFloat(limitPrice);
+    // Limit orders are estimated at their limit price, market orders at the current price
+    const priceToUse = orderType === "market"
+      ? currentPrice ?? lastValidPrice // Use current or fallback to last valid
+      : (limitPriceNum > 0 ? limitPriceNum : null);
 
     if (priceToUse && sizeNum > 0 && leverageNum > 0 && direction) {
       const margin = calculateEstimatedMargin(priceToUse, sizeNum, leverageNum);
-      const liqPrice = calculateEstimatedLiquidationPrice(priceToUse, leverageNum, direction);
+      const liquidation = calculateLiquidationPrice({
+        assetName: selectedAsset,
+        clearinghouseState,
+        markPrice: currentPrice ?? lastValidPrice ?? priceToUse,
+        maxLeverage,
+        marginTiers: assetPriceData?.marginTiers ?? [],
+        marginMode: effectiveMarginMode,
+        trade: { direction, size: sizeNum, price: priceToUse, leverage: leverageNum },
+      });
       setEstimatedMargin(margin);
-      setEstimatedLiqPrice(liqPrice);
+      setLiquidationEstimate(liquidation);
     } else {
       // Reset estimates if core inputs are invalid or price is unavailable
       setEstimatedMargin(null);
-      setEstimatedLiqPrice(null);
+      setLiquidationEstimate(null);
+    }
+  }, [tradeSize, leverage, currentPrice, lastValidPrice, direction, orderType, limitPrice, selectedAsset, clearinghouseState, maxLeverage, assetPriceData, effectiveMarginMode]);
+
+  // Clear the limit price when the asset changes so a stale price is never submitted
+  useEffect(() => {
+    setLimitPrice("");
+  }, [selectedAsset]);
+
+  // Keep the stop-loss distance in sync with the default from settings
+  useEffect(() => {
+    setStopLossPercent(String(settings.defaultStopLossPercent ?? DEFAULT_STOP_LOSS_PERCENT));
+  }, [settings.defaultStopLossPercent]);
+
+  // Keep the slippage in sync with the default from settings
+  useEffect(() => {
+    setSlippageBps(String(settings.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS));
+  }, [settings.defaultSlippageBps]);
+
+  // Reset the TP source when a new prediction is selected
+  useEffect(() => {
+    setTpSource("prediction");
+  }, [selectedPrediction]);
+
+  // Switch to the predicted asset when a prediction for a tradeable asset is selected
+  useEffect(() => {
+    if (selectedPrediction && tradeableAssets.includes(selectedPrediction.token)) {
+      setSelectedAsset(selectedPrediction.token);
     }
-  }, [tradeSize, leverage, currentPrice, lastValidPrice, direction]);
+  }, [selectedPrediction, tradeableAssets]);
+
+  // Expected entry price used to position the TP/SL levels
+  const bracketEntryPrice = orderType === "market"
+    ? currentPrice
+    : (parseFloat(limitPrice) > 0 ? parseFloat(limitPrice) : null);
+
+  // Take-profit from the prediction (only when the prediction targets the selected asset)
+  const takeProfitPrice = useMemo(() => {
+    if (!attachTpsl || !selectedPrediction || !predictionApplies || tpSource === "none") return null;
+    if (tpSource === "prediction") return selectedPrediction.price;
+    const index = parseInt(tpSource.replace("ci:", ""), 10);
+    return selectedPrediction.confidenceIntervalValues?.[index] ?? null;
+  }, [attachTpsl, selectedPrediction, predictionApplies, tpSource]);
+
+  // Stop-loss a configurable distance from entry
+  const stopLossPrice = useMemo(() => {
+    if (!attachTpsl) return null;
+    const price = calculateStopLossPrice(bracketEntryPrice, direction, parseFloat(stopLossPercent));
+    return price > 0 ? price : null;
+  }, [attachTpsl, bracketEntryPrice, direction, stopLossPercent]);
+
+  const bracketError = useMemo(() => {
+    if (!attachTpsl) return null;
+    if (takeProfitPrice === null && stopLossPrice === null) {
+      return "Set a take-profit source or a valid stop-loss distance.";
+    }
+    if (!bracketEntryPrice || !direction) return null;
+    return getBracketLevelError(bracketEntryPrice, takeProfitPrice, stopLossPrice, direction);
+  }, [attachTpsl, takeProfitPrice, stopLossPrice, bracketEntryPrice, direction]);
+
+  const riskRewardRatio = calculateRiskRewardRatio(bracketEntryPrice, takeProfitPrice, stopLossPrice, direction);
+
+  // Handler for order type selection. Pre-fills the limit price with the current price.
+  const handleOrderTypeChange = (value: string) => {
+    const nextType = value as TradeOrderType;
+    setOrderType(nextType);
+    if (nextType !== "market" && !limitPrice && currentPrice) {
+      setLimitPrice(toValidPrice(currentPrice));
+    }
+  };
 
 
   // Handler for template selection
@@ -228,10 +426,21 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
     const selected = templates.find((t) => t.id === templateId);
     if (selected) {
       setTradeSize(String(selected.size));
-      setLeverage(String(selected.leverage));
+      setLeverage(String(Math.min(selected.leverage, maxLeverage)));
+      setSlippageBps(String(selected.slippageBps ?? settings.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS));
+      setMarginMode(selected.marginMode === "isolated" ? "isolated" : "cross");
     }
   };
 
+  const slippageError = orderType === "market" ? getSlippageError(parseFloat(slippageBps)) : null;
+
+  // Price impact of a market order against the current order book
+  const priceImpact = useMemo(() => {
+    const sizeNum = parseFloat(tradeSize);
+    if (orderType !== "market" || !direction || !assetBook || !(sizeNum > 0) || slippageError) return null;
+    return estimatePriceImpact(assetBook, sizeNum, direction, parseFloat(slippageBps));
+  }, [orderType, direction, assetBook, tradeSize, slippageBps, slippageError]);
+
   // Validation for enabling the review button
   const isReviewEnabled = useMemo(() => {
     const sizeNum = parseFloat(tradeSize);
@@ -241,11 +450,13 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
     const conditions = {
       selectedPrediction: selectedPrediction !== null,
       sizeValid: sizeNum > 0,
-      leverageValid: leverageNum > 0,
+      leverageValid: leverageNum > 0 && leverageNum <= maxLeverage,
+      limitPriceValid: orderType === "market" || parseFloat(limitPrice) > 0,
+      slippageValid: slippageError === null,
+      bracketValid: !attachTpsl || bracketError === null,
       priceAvailable,
       hasDirection: direction !== null,
       hasEstimatedMargin: estimatedMargin !== null,
-      hasEstimatedLiqPrice: estimatedLiqPrice !== null,
       tradeSwitchEnabled: settings.tradeSwitchEnabled
     };
 
@@ -267,39 +478,58 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
     lastValidPrice,
     direction,
     estimatedMargin,
-    estimatedLiqPrice,
+    maxLeverage,
+    orderType,
+    limitPrice,
+    slippageError,
+    attachTpsl,
+    bracketError,
     settings.tradeSwitchEnabled,
   ]);
 
   const handleReviewTrade = () => {
     if (!isReviewEnabled) return;
 
-    const sizeNum = parseFloat(tradeSize);
+    // The server truncates the size to the asset's size decimals; review the size that will actually be submitted
+    const sizeNum = assetPriceData
+      ? parseFloat(formatOrderSize(parseFloat(tradeSize), assetPriceData.szDecimals))
+      : parseFloat(tradeSize);
     let leverageNum = parseFloat(leverage);
     const priceToUse = currentPrice ?? lastValidPrice; // Use best available price
 
     // This should not happen if isReviewEnabled is true, but double-check
-    if (!selectedPrediction || !priceToUse || !direction || estimatedMargin === null || estimatedLiqPrice === null) {
+    if (!selectedPrediction || !priceToUse || !direction || estimatedMargin === null) {
       toast({ title: "Error", description: "Missing required trade details. Please ensure a prediction is selected and inputs are valid.", variant: "destructive" });
-      console.error("handleReviewTrade called with invalid state despite isReviewEnabled being true. State:", { selectedPrediction, priceToUse, direction, estimatedMargin, estimatedLiqPrice });
+      console.error("handleReviewTrade called with invalid state despite isReviewEnabled being true. State:", { selectedPrediction, priceToUse, direction, estimatedMargin, liquidationEstimate });
       return;
     }
 
+    if (!(sizeNum > 0)) {
+      toast({
+        title: "Size Too Small",
+        description: `The minimum size increment for ${selectedAsset} is ${getSizeIncrement(assetPriceData?.szDecimals ?? 0)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
 
     // Cap leverage if necessary
-    if (leverageNum > 40) {
-      leverageNum = 40;
-      setLeverage("40"); // Update state for consistency
+    if (leverageNum > maxLeverage) {
+      leverageNum = maxLeverage;
+      setLeverage(String(maxLeverage)); // Update state for consistency
       toast({
         title: "Leverage Limit Applied",
-        description: "Hyperliquid supports up to 40x leverage for BTC. Leverage capped at 40x.",
+        description: `Hyperliquid supports up to ${maxLeverage}x leverage for ${selectedAsset}. Leverage capped at ${maxLeverage}x.`,
         variant: "destructive",
         duration: 5000,
       });
     }
 
-    // Check minimum order value ($10)
-    const orderValue = sizeNum * priceToUse;
+    const limitPriceNum = parseFloat(limitPrice);
+    const isLimitOrder = orderType !== "market";
+
+    // Check minimum order value ($10), using the limit price for limit orders
+    const orderValue = sizeNum * (isLimitOrder ? limitPriceNum : priceToUse);
     if (orderValue < 10) {
       toast({
         title: "Order Value Too Small",
@@ -309,42 +539,59 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
       return;
     }
 
-    const suggestedDir = suggestTradeDirection(selectedPrediction.price, priceToUse);
-    const isDirectionOverridden = suggestedDir !== direction;
+    // Only suggest a direction when the prediction targets the selected asset
+    const suggestedDir = predictionApplies
+      ? suggestTradeDirection(selectedPrediction.price, priceToUse)
+      : null;
+    const isDirectionOverridden = suggestedDir !== null && suggestedDir !== direction;
 
-    // Calculate a wide price limit for the market order (e.g., +/- 10%)
-    const slippagePercent = 0.10; // 10%
-    let rawPriceLimit = direction === 'long'
-      ? priceToUse * (1 + slippagePercent) // Higher price for buys
-      : priceToUse * (1 - slippagePercent); // Lower price for sells
+    // Limit orders use the user's price; market orders are limited to the current price plus slippage
+    const slippageBpsNum = Math.round(parseFloat(slippageBps));
+    const rawPriceLimit = isLimitOrder
+      ? limitPriceNum
+      : applySlippage(priceToUse, slippageBpsNum, direction);
 
-    const TICK_SIZE = 0.5; // Assuming BTC tick size
-    rawPriceLimit = Math.round(rawPriceLimit / TICK_SIZE) * TICK_SIZE;
-    rawPriceLimit = Math.round(rawPriceLimit * 10) / 10; // Ensure one decimal
-
-    // Final validation & correction
-    if ((rawPriceLimit * 10) % 5 !== 0) {
-      const correctedPrice = Math.round(rawPriceLimit / TICK_SIZE) * TICK_SIZE;
-      rawPriceLimit = Math.round(correctedPrice * 10) / 10;
-      console.warn(`Price limit emergency correction applied: ${rawPriceLimit}`);
-    }
-
-    const priceString = rawPriceLimit.toFixed(1);
-    const finalPriceLimitValue = parseFloat(priceString); // Use the corrected, formatted value
-    const formattedPriceLimit = '$' + finalPriceLimitValue.toFixed(1).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    // Round the way the server formats the order price: buys round up, sells round down
+    const finalPriceLimitValue = assetPriceData && rawPriceLimit > 0
+      ? parseFloat(formatPerpOrderPrice(rawPriceLimit, assetPriceData.szDecimals, direction === 'long'))
+      : rawPriceLimit;
+    const formattedPriceLimit = formatCurrency(finalPriceLimitValue, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: priceDecimals,
+    });
 
     const details: TradeConfirmationDetails = {
-      symbol: BTC_SYMBOL_UI,
+      assetName: selectedAsset,
+      symbol: `${selectedAsset}${PERP_SYMBOL_SUFFIX}`,
       currentMarketPrice: priceToUse,
+      // Null when reviewing at a remembered price after a failed fetch; the server refuses the order in that case
+      priceFetchedAt: assetPriceData?.fetchedAt ?? null,
+      predictionTimestamp: selectedPrediction.timestamp,
+      predictionTopicId: selectedPrediction.topicId,
+      predictionTimeframe: selectedPrediction.timeframe,
+      predictedPrice: selectedPrediction.price,
+      confidenceIntervalValues: selectedPrediction.confidenceIntervalValues,
+      confidenceIntervalPercentiles: selectedPrediction.confidenceIntervalPercentiles,
+      templateId: selectedTemplateId !== "none" ? selectedTemplateId : null,
+      slippageBps: isLimitOrder ? undefined : slippageBpsNum,
+      maxOracleDeviationPercent: settings.maxOracleDeviationPercent ?? DEFAULT_MAX_ORACLE_DEVIATION_PERCENT,
       direction,
       size: sizeNum,
       leverage: leverageNum,
+      // An open position keeps its margin mode; placing the order in another mode would be rejected
+      marginMode: liquidationEstimate?.marginMode ?? effectiveMarginMode,
       estimatedMargin,
-      estimatedLiqPrice,
+      // Null when the trade closes the position or nothing can liquidate it
+      estimatedLiqPrice: liquidationEstimate?.liquidationPrice ?? null,
       priceLimit: formattedPriceLimit,
       priceLimitValue: finalPriceLimitValue,
       isDirectionOverridden: isDirectionOverridden,
-      suggestedDirection: suggestedDir || undefined
+      suggestedDirection: suggestedDir || undefined,
+      orderType,
+      limitPrice: isLimitOrder ? limitPriceNum : undefined,
+      takeProfitPrice: attachTpsl && takeProfitPrice !== null ? takeProfitPrice : undefined,
+      stopLossPrice: attachTpsl && stopLossPrice !== null ? stopLossPrice : undefined,
+      riskRewardRatio: attachTpsl ? riskRewardRatio ?? undefined : undefined,
     };
 
     console.log("Opening confirmation modal with details:", details);
@@ -377,7 +624,7 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
               <div className="flex items-center gap-1">
                 <Target size={14} className="text-primary flex-shrink-0" />
                 <Badge variant="secondary" className="text-xs font-medium">
-                  {selectedPrediction ? `${selectedPrediction.timeframe} Target` : 'No Prediction'}
+                  {selectedPrediction ? `${selectedPrediction.token} ${selectedPrediction.timeframe} Target` : 'No Prediction'}
                 </Badge>
               </div>
               {selectedPrediction && (
@@ -411,14 +658,31 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
             )}
           </div>
 
+          {/* Asset Selector */}
+          <div className="space-y-1">
+            <Label htmlFor="asset">Asset</Label>
+            <Select value={selectedAsset} onValueChange={setSelectedAsset}>
+              <SelectTrigger id="asset">
+                <SelectValue placeholder="Select asset" />
+              </SelectTrigger>
+              <SelectContent>
+                {withSelectedAsset(tradeableAssets, selectedAsset).map((asset) => (
+                  <SelectItem key={asset} value={asset}>
+                    {asset}{PERP_SYMBOL_SUFFIX}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Current Price Display */}
           <div className="min-h-[24px] flex items-center"> {/* Ensure consistent height */}
             {isLoadingPrice && !currentPrice && <LoadingSpinner size={16} />}
             {priceError && !isLoadingPrice && <ErrorDisplay error={`Price Error: ${priceError}`} className="text-xs p-1 text-destructive" />}
             {currentPrice !== null && (
               <p className="text-sm text-muted-foreground">
-                <span className="font-medium text-foreground">Market Price ({BTC_SYMBOL_UI.split('-')[0]}):</span>{' '}
-                {formatCurrency(currentPrice)}
+                <span className="font-medium text-foreground">Market Price ({selectedAsset}):</span>{' '}
+                {formatCurrency(currentPrice, { minimumFractionDigits: 2, maximumFractionDigits: priceDecimals })}
                 {priceError && <span className="text-destructive ml-1">(Stale)</span>}
               </p>
             )}
@@ -431,14 +695,18 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
           <div className="space-y-4 pt-4 border-t">
             {/* Suggested Direction & Override */}
             <div className="min-h-[40px]"> {/* Ensure consistent height */}
-              {selectedPrediction && currentPrice && direction && (
+              {selectedPrediction && currentPrice && (
                 <div className="space-y-2">
                   <p className="text-sm">
                     <span className="font-medium">Direction:</span>{" "}
-                    <Badge variant={direction === 'long' ? 'default' : 'destructive'} className={`${direction === 'long' ? 'bg-green-600 hover:bg-green-700' : ''} text-white`}>
-                      {direction.toUpperCase()}
-                    </Badge>
-                    {suggestTradeDirection(selectedPrediction.price, currentPrice) !== direction &&
+                    {direction ? (
+                      <Badge variant={direction === 'long' ? 'default' : 'destructive'} className={`${direction === 'long' ? 'bg-green-600 hover:bg-green-700' : ''} text-white`}>
+                        {direction.toUpperCase()}
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground italic">Select below (prediction is for {predictionAsset})</span>
+                    )}
+                    {predictionApplies && direction && suggestTradeDirection(selectedPrediction.price, currentPrice) !== direction &&
                       <span className="text-xs text-orange-600 ml-2">(Overridden)</span>
                     }
                   </p>
@@ -481,16 +749,78 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
               {templateError && <ErrorDisplay error={`Template Error: ${templateError}`} className="text-xs p-1 mt-1 text-destructive" />}
             </div>
 
+            {/* Order Type Selector */}
+            <div className="space-y-1">
+              <Label htmlFor="orderType">Order Type</Label>
+              <Select value={orderType} onValueChange={handleOrderTypeChange} disabled={!selectedPrediction}>
+                <SelectTrigger id="orderType">
+                  <SelectValue placeholder="Select order type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ORDER_TYPE_LABELS) as TradeOrderType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {ORDER_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Limit Price Input (limit / post-only orders) */}
+            {orderType !== "market" && (
+              <div className="space-y-1">
+                <Label htmlFor="limitPrice">Limit Price (USD)</Label>
+                <Input
+                  id="limitPrice"
+                  type="number"
+                  placeholder={currentPrice ? toValidPrice(currentPrice) : "e.g., 100"}
+                  value={limitPrice}
+                  onChange={(e) => setLimitPrice(e.target.value)}
+                  min="0"
+                  step="any"
+                  disabled={!selectedPrediction}
+                  className={parseFloat(limitPrice) <= 0 && limitPrice !== '' ? "border-destructive" : ""}
+                />
+                {orderType === "postOnly" && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Post-only orders are cancelled if they would fill immediately.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Slippage Input (market orders) */}
+            {orderType === "market" && (
+              <div className="space-y-1">
+                <Label htmlFor="slippage">Slippage (bps)</Label>
+                <Input
+                  id="slippage"
+                  type="number"
+                  placeholder={String(DEFAULT_SLIPPAGE_BPS)}
+                  value={slippageBps}
+                  onChange={(e) => setSlippageBps(e.target.value)}
+                  min={MIN_SLIPPAGE_BPS}
+                  max={MAX_SLIPPAGE_BPS}
+                  step="1"
+                  disabled={!selectedPrediction}
+                  className={slippageError ? "border-destructive" : ""}
+                />
+                <p className={`text-xs mt-1 ${slippageError ? "text-destructive" : "text-muted-foreground"}`}>
+                  {slippageError ?? `The order fills up to ${formatNumber(parseFloat(slippageBps) / 100, 2)}% away from the current price.`}
+                </p>
+              </div>
+            )}
+
             {/* Trade Size Input */}
             <div className="space-y-1">
-              <Label htmlFor="size">Size ({BTC_SYMBOL_UI.split('-')[0]})</Label>
+              <Label htmlFor="size">Size ({selectedAsset})</Label>
               <Input
                 id="size"
                 type="number"
                 placeholder="e.g., 0.1"
                 value={tradeSize}
                 onChange={(e) => setTradeSize(e.target.value)}
-                min="0.00011" // Rough minimum based on $10 value
+                min="0"
                 step="any" // Allow any decimal input initially
                 disabled={!selectedPrediction}
                 className={parseFloat(tradeSize) <= 0 && tradeSize !== '' ? "border-destructive" : ""}
@@ -506,6 +836,27 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
               )}
             </div>
 
+            {/* Margin Mode Selector */}
+            <div className="space-y-1">
+              <Label htmlFor="marginMode">Margin Mode</Label>
+              <Select
+                value={effectiveMarginMode}
+                onValueChange={(value) => setMarginMode(value as HyperliquidMarginMode)}
+                disabled={!selectedPrediction || onlyIsolated}
+              >
+                <SelectTrigger id="marginMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cross">Cross</SelectItem>
+                  <SelectItem value="isolated">Isolated</SelectItem>
+                </SelectContent>
+              </Select>
+              {onlyIsolated && (
+                <p className="text-xs text-muted-foreground mt-1">{selectedAsset} can only be traded with isolated margin.</p>
+              )}
+            </div>
+
             {/* Leverage Input */}
             <div className="space-y-1">
               <Label htmlFor="leverage">Leverage <span className="text-muted-foreground">(for estimation)</span></Label>
@@ -518,45 +869,156 @@ const TradePanel: React.FC<TradePanelProps> = ({ selectedPrediction }) => {
                   onChange={(e) => {
                     const value = e.target.value;
                     const numValue = parseFloat(value);
-                    if (!isNaN(numValue) && numValue > 40) setLeverage("40");
+                    if (!isNaN(numValue) && numValue > maxLeverage) setLeverage(String(maxLeverage));
                     else if (!isNaN(numValue) && numValue < 1) setLeverage("1");
                     else setLeverage(value);
                   }}
                   min="1"
-                  max="40"
+                  max={maxLeverage}
                   step="any"
                   disabled={!selectedPrediction}
-                  className={(parseFloat(leverage) <= 0 || parseFloat(leverage) > 40) && leverage !== '' ? "border-destructive" : ""}
+                  className={(parseFloat(leverage) <= 0 || parseFloat(leverage) > maxLeverage) && leverage !== '' ? "border-destructive" : ""}
                 />
                 <TooltipProvider>
                   <Tooltip delayDuration={100}>
                     <TooltipTrigger asChild><Info className="h-4 w-4 text-muted-foreground cursor-help flex-shrink-0" /></TooltipTrigger>
-                    <TooltipContent><p className="text-xs max-w-xs">Hyperliquid sets leverage per-asset (Max 40x for BTC). This value is used for estimates.</p></TooltipContent>
+                    <TooltipContent><p className="text-xs max-w-xs">Hyperliquid sets leverage per-asset (Max {maxLeverage}x for {selectedAsset}). This value is used for estimates.</p></TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
               </div>
-              {(parseFloat(leverage) <= 0 || parseFloat(leverage) > 40) && leverage !== '' && (
-                <p className="text-xs text-destructive mt-1">Leverage must be between 1 and 40.</p>
+              {(parseFloat(leverage) <= 0 || parseFloat(leverage) > maxLeverage) && leverage !== '' && (
+                <p className="text-xs text-destructive mt-1">Leverage must be between 1 and {maxLeverage}.</p>
+              )}
+            </div>
+
+            {/* TP/SL Bracket */}
+            <div className="space-y-3 pt-3 border-t">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="attachTpsl">Attach Take-Profit / Stop-Loss</Label>
+                <Switch
+                  id="attachTpsl"
+                  checked={attachTpsl}
+                  onCheckedChange={setAttachTpsl}
+                  disabled={!selectedPrediction}
+                />
+              </div>
+              {attachTpsl && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="tpSource" className="text-xs">Take-Profit</Label>
+                      <Select value={predictionApplies ? tpSource : "none"} onValueChange={setTpSource} disabled={!predictionApplies}>
+                        <SelectTrigger id="tpSource" className="h-8 text-xs">
+                          <SelectValue placeholder="TP source" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="prediction">Predicted price</SelectItem>
+                          {selectedPrediction?.confidenceIntervalValues?.map((value, index) => (
+                            <SelectItem key={index} value={`ci:${index}`}>
+                              P{selectedPrediction.confidenceIntervalPercentiles?.[index] ?? index} ({formatCurrency(value)})
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="none">No take-profit</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="stopLossPercent" className="text-xs">Stop-Loss Distance (%)</Label>
+                      <Input
+                        id="stopLossPercent"
+                        type="number"
+                        min="0.1"
+                        max="99"
+                        step="0.1"
+                        className="h-8 text-xs"
+                        value={stopLossPercent}
+                        onChange={(e) => setStopLossPercent(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  {!predictionApplies && (
+                    <p className="text-xs text-muted-foreground">
+                      The prediction is for {predictionAsset}, so only a stop-loss can be attached for {selectedAsset}.
+                    </p>
+                  )}
+                  <div className="space-y-1 text-sm text-muted-foreground">
+                    <div className="flex justify-between">
+                      <span>TP Price:</span>
+                      <span className="font-medium text-foreground">{takeProfitPrice !== null ? formatCurrency(takeProfitPrice, { minimumFractionDigits: 2, maximumFractionDigits: priceDecimals }) : "None"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>SL Price:</span>
+                      <span className="font-medium text-foreground">{stopLossPrice !== null ? formatCurrency(stopLossPrice, { minimumFractionDigits: 2, maximumFractionDigits: priceDecimals }) : "None"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Risk / Reward:</span>
+                      <span className="font-medium text-foreground">{riskRewardRatio !== null ? `1 : ${formatNumber(riskRewardRatio, 2)}` : "N/A"}</span>
+                    </div>
+                  </div>
+                  {bracketError && (
+                    <p className="text-xs text-destructive">{bracketError}</p>
+                  )}
+                </div>
               )}
             </div>
 
             {/* Estimates Display */}
             <div className="min-h-[70px] flex flex-col justify-center"> {/* Reduced from 80px to 70px */}
-              {(estimatedMargin !== null || estimatedLiqPrice !== null) && (
+              {(estimatedMargin !== null || liquidationEstimate !== null) && (
                 <div className="space-y-1 text-sm border-t pt-3 text-muted-foreground">
                   <h4 className="font-medium text-foreground text-xs uppercase tracking-wider mb-1">Estimates:</h4>
                   <div className="flex justify-between">
-                    <span>Required Margin:</span>
+                    <span>Required Margin ({liquidationEstimate?.marginMode ?? effectiveMarginMode}):</span>
                     <span className="font-medium text-foreground">{estimatedMargin !== null ? formatCurrency(estimatedMargin) : "N/A"}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Liquidation Price:</span>
-                    <span className="font-medium text-foreground">{estimatedLiqPrice !== null ? formatCurrency(estimatedLiqPrice) : "N/A"}</span>
+                    <span className="font-medium text-foreground">
+                      {!liquidationEstimate
+                        ? "N/A"
+                        : liquidationEstimate.liquidationPrice !== null
+                          ? formatCurrency(liquidationEstimate.liquidationPrice)
+                          : "None"}
+                    </span>
                   </div>
+                  {liquidationEstimate && liquidationEstimate.marginMode !== effectiveMarginMode && (
+                    <p className="text-xs text-orange-600">
+                      Your open {selectedAsset} position uses {liquidationEstimate.marginMode} margin, which Hyperliquid keeps for this trade.
+                    </p>
+                  )}
+                  {priceImpact && (
+                    <>
+                      <div className="flex justify-between">
+                        <span>Est. Avg. Fill:</span>
+                        <span className="font-medium text-foreground">
+                          {priceImpact.avgPrice !== null
+                            ? formatCurrency(priceImpact.avgPrice, { minimumFractionDigits: 2, maximumFractionDigits: priceDecimals })
+                            : "No liquidity"}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Price Impact:</span>
+                        <span className="font-medium text-foreground">
+                          {priceImpact.priceImpactPercent !== null ? `${formatNumber(priceImpact.priceImpactPercent, 3)}%` : "N/A"}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Depth Within Slippage:</span>
+                        <span className="font-medium text-foreground">
+                          {formatNumber(priceImpact.depthWithinLimit, assetBook?.szDecimals ?? 4)} {selectedAsset}
+                        </span>
+                      </div>
+                      {priceImpact.unfilledSize > 0 && (
+                        <p className="text-xs text-orange-600">
+                          {formatNumber(priceImpact.unfilledSize, assetBook?.szDecimals ?? 4)} {selectedAsset} would not fill within the slippage band.
+                        </p>
+                      )}
+                    </>
+                  )}
                   <p className="text-xs italic text-center mt-1">Approximate values, excluding fees/funding.</p>
                 </div>
               )}
-              {!estimatedMargin && !estimatedLiqPrice && parseFloat(tradeSize) > 0 && parseFloat(leverage) > 0 && direction && currentPrice !== null && (
+              {!estimatedMargin && !liquidationEstimate && parseFloat(tradeSize) > 0 && parseFloat(leverage) > 0 && direction && currentPrice !== null && (
                 <p className="text-xs text-muted-foreground text-center pt-4">Calculating estimates...</p>
               )}
             </div>
@@ -3,13 +3,13 @@
  * Layout component for the main application dashboard section (`(dashboard)` route group).
  * Defines the primary structure including a header and main content area.
  * Wraps the content in React Suspense to handle loading states.
- * Includes a navigation link to the Settings page.
+ * Includes navigation links to the Analytics, Backtest and Settings pages.
  *
  * @dependencies
  * - react: For component structure and Suspense.
  * - next/link: For client-side navigation.
  * - @/components/ui/button: Shadcn Button component for styling the link.
- * - lucide-react: For the Settings icon.
+ * - lucide-react: For the Analytics, Backtest and Settings icons.
  *
  * @notes
  * - This is a Server Component by default.
@@ -20,7 +20,7 @@
 import React from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { Settings } from "lucide-react";
+import { BarChart3, FlaskConical, Settings } from "lucide-react";
 import { cn } from "@/lib/utils"; // Import cn utility
 
 /**
@@ -49,6 +49,20 @@ export default function DashboardLayout({
             {/* Placeholder for Status Indicators & Master Switch (populated by Client Component) */}
             {/* <div id="dashboard-header-status"></div> */}
 
+            {/* Analytics Link */}
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/analytics" aria-label="Analytics">
+                <BarChart3 className="h-5 w-5" />
+              </Link>
+            </Button>
+
+            {/* Backtest Link */}
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/backtest" aria-label="Backtest">
+                <FlaskConical className="h-5 w-5" />
+              </Link>
+            </Button>
+
             {/* Settings Link */}
             <Button variant="ghost" size="icon" asChild>
               <Link href="/settings" aria-label="Settings">
@@ -2,35 +2,32 @@
  * @description
  * The main page component for the dashboard route (`/dashboard`).
  * This async Server Component is responsible for fetching the initial data required
- * for the dashboard (account info, positions, predictions, trade logs) using Server Actions.
+ * for the dashboard: account info, positions and predictions from the server-side poller's cache, and trade logs via a Server Action.
  * It then passes this initial data down to the `DashboardClientContent` client component for rendering and dynamic updates.
  *
  * @dependencies
  * - React: For component structure.
- * - @/actions/hyperliquid-actions: Server Actions for fetching Hyperliquid account info and positions.
- * - @/actions/allora-actions: Server Action for fetching Allora predictions.
+ * - @/lib/poller: Provides the cached account info, positions and predictions.
  * - @/actions/log-actions: Server Action for fetching trade logs.
  * - @/app/dashboard/_components/DashboardClientContent: The client component that renders the dashboard UI.
  * - @/types: Type definitions for API responses and ActionState.
  *
  * @notes
+ * - Reading from the poller's cache avoids a duplicate upstream fetch on every page load; a section is polled
+ *   once on demand if the poller has not reached it yet.
  * - Uses `Promise.allSettled` to fetch initial data concurrently. This allows the page to load even if some initial fetches fail.
  * - Extracts data or error messages from the ActionState results and passes them as props.
  * - Renders `DashboardClientContent` with the initial data.
  */
 import React from "react";
-import {
-  fetchHyperliquidAccountInfoAction,
-  fetchHyperliquidPositionsAction,
-} from "@/actions/hyperliquid-actions";
-import { fetchAlloraPredictionsAction } from "@/actions/allora-actions";
+import { getPollerSectionState } from "@/lib/poller";
 import { fetchTradeLogAction } from "@/actions/log-actions";
 import DashboardClientContent from "@/app/dashboard/_components/DashboardClientContent";
 import type {
   HyperliquidAccountInfo,
   HyperliquidPosition,
   AlloraPrediction,
-  TradeLogEntry,
+  TradeLogPage,
 } from "@/types";
 import { Metadata } from "next";
 
@@ -49,9 +46,9 @@ export default async function DashboardPage() {
     predictionsResult,
     logsResult,
   ] = await Promise.allSettled([
-    fetchHyperliquidAccountInfoAction(),
-    fetchHyperliquidPositionsAction(),
-    fetchAlloraPredictionsAction(),
+    getPollerSectionState("accountInfo"),
+    getPollerSectionState("positions"),
+    getPollerSectionState("predictions"),
     fetchTradeLogAction(),
   ]);
 
@@ -89,7 +86,7 @@ export default async function DashboardPage() {
   const initialPredictions = getDataOrNull<AlloraPrediction[]>(predictionsResult);
   const initialPredictionsError = getErrorOrNull(predictionsResult);
 
-  const initialLogs = getDataOrNull<TradeLogEntry[]>(logsResult);
+  const initialLogs = getDataOrNull<TradeLogPage>(logsResult);
   const initialLogsError = getErrorOrNull(logsResult);
 
   console.log("Initial data fetch complete.");
@@ -0,0 +1,289 @@
+/**
+ * @description
+ * Client Component: Renders a form within a Sheet (slide-over panel) for creating or editing contradiction alert rules.
+ * Handles form state, validation, submission via Server Actions, and provides user feedback.
+ *
+ * Key features:
+ * - Scope: asset (or any) and prediction timeframe (or any).
+ * - Threshold in percent or in confidence interval half-widths.
+ * - Optional maximum prediction age, and comparison against entry or mark price.
+ * - Calls `createAlertRuleAction` or `updateAlertRuleAction` Server Actions on submit.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (useState, useEffect).
+ * - @/types: Provides AlertRule and AlertRuleInput type definitions.
+ * - @/components/ui/*: Shadcn Sheet, Button, Input, Label, Select and Switch components.
+ * - @/hooks/use-toast: Hook to trigger toasts.
+ * - @/hooks/useTradeableAssets: Lists the tradeable perp assets for the asset picker.
+ * - @/actions/alert-rule-actions: Server actions for creating/updating rules.
+ * - @/lib/alert-rules: Shared rule validation.
+ * - @/lib/prediction-scoring: For the supported prediction timeframes.
+ */
+"use client";
+
+import React, { useState, useEffect, FormEvent } from "react";
+import type { AlertRule, AlertRuleInput } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetFooter,
+  SheetClose,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { useTradeableAssets, withSelectedAsset } from "@/hooks/useTradeableAssets";
+import {
+  createAlertRuleAction,
+  updateAlertRuleAction,
+} from "@/actions/alert-rule-actions";
+import { getAlertRuleError } from "@/lib/alert-rules";
+import { TIMEFRAME_HORIZON_MS } from "@/lib/prediction-scoring";
+
+interface AlertRuleEditorProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  ruleToEdit?: AlertRule | null; // Pass rule data if editing
+  onRuleSaved: () => void; // Callback after successful save
+}
+
+// Select value standing for "no filter"
+const ANY = "any";
+
+const AlertRuleEditor: React.FC<AlertRuleEditorProps> = ({
+  isOpen,
+  onOpenChange,
+  ruleToEdit,
+  onRuleSaved,
+}) => {
+  const { toast } = useToast();
+  const { assets: tradeableAssets } = useTradeableAssets();
+  const [name, setName] = useState<string>("");
+  const [enabled, setEnabled] = useState<boolean>(true);
+  const [assetName, setAssetName] = useState<string>(ANY);
+  const [timeframe, setTimeframe] = useState<string>(ANY);
+  const [thresholdType, setThresholdType] = useState<string>("percent");
+  const [thresholdValue, setThresholdValue] = useState<string>("");
+  const [maxAge, setMaxAge] = useState<string>("");
+  const [compareTo, setCompareTo] = useState<string>("entry");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Populate form when the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setName(ruleToEdit?.name ?? "");
+      setEnabled(ruleToEdit?.enabled ?? true);
+      setAssetName(ruleToEdit?.assetName ?? ANY);
+      setTimeframe(ruleToEdit?.timeframe ?? ANY);
+      setThresholdType(ruleToEdit?.thresholdType ?? "percent");
+      setThresholdValue(ruleToEdit ? String(ruleToEdit.thresholdValue) : "1");
+      setMaxAge(ruleToEdit?.maxPredictionAgeMinutes != null ? String(ruleToEdit.maxPredictionAgeMinutes) : "");
+      setCompareTo(ruleToEdit?.compareTo ?? "entry");
+      setFormError(null);
+    }
+  }, [ruleToEdit, isOpen]);
+
+  // Handle form submission
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const ruleData: AlertRuleInput = {
+      name: name.trim(),
+      enabled,
+      assetName: assetName === ANY ? null : assetName,
+      timeframe: timeframe === ANY ? null : timeframe,
+      thresholdType,
+      thresholdValue: parseFloat(thresholdValue),
+      maxPredictionAgeMinutes: maxAge.trim() === "" ? null : Number(maxAge),
+      compareTo,
+    };
+    const validationError = getAlertRuleError(ruleData);
+    setFormError(validationError);
+    if (validationError) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = ruleToEdit
+        ? await updateAlertRuleAction(ruleToEdit.id, ruleData)
+        : await createAlertRuleAction(ruleData);
+
+      if (result.isSuccess) {
+        toast({
+          title: "Success",
+          description: result.message,
+        });
+        onRuleSaved();
+        onOpenChange(false);
+      } else {
+        toast({
+          title: `Error ${ruleToEdit ? "Updating" : "Creating"} Alert Rule`,
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error saving alert rule:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while saving the alert rule.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-[425px] md:max-w-[550px]">
+        <SheetHeader>
+          <SheetTitle>{ruleToEdit ? "Edit Alert Rule" : "Create Alert Rule"}</SheetTitle>
+          <SheetDescription>
+            Alert when the latest matching prediction points against an open position by more than the threshold.
+          </SheetDescription>
+        </SheetHeader>
+        <form onSubmit={handleSubmit} className="grid gap-4 py-6">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="rule-name" className="text-right col-span-1">Name</Label>
+            <Input
+              id="rule-name"
+              className="col-span-3"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              placeholder="e.g., BTC 8h strong reversal"
+            />
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="rule-enabled" className="text-right col-span-1">Enabled</Label>
+            <div className="col-span-3">
+              <Switch id="rule-enabled" checked={enabled} onCheckedChange={setEnabled} disabled={isSaving} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="rule-asset" className="text-right col-span-1">Asset</Label>
+            <div className="col-span-3">
+              <Select value={assetName} onValueChange={setAssetName} disabled={isSaving}>
+                <SelectTrigger id="rule-asset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any asset</SelectItem>
+                  {withSelectedAsset(tradeableAssets, assetName === ANY ? "" : assetName).map((asset) => (
+                    <SelectItem key={asset} value={asset}>{asset}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="rule-timeframe" className="text-right col-span-1">Timeframe</Label>
+            <div className="col-span-3">
+              <Select value={timeframe} onValueChange={setTimeframe} disabled={isSaving}>
+                <SelectTrigger id="rule-timeframe">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Latest of any timeframe</SelectItem>
+                  {Object.keys(TIMEFRAME_HORIZON_MS).map((tf) => (
+                    <SelectItem key={tf} value={tf}>{tf}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="rule-threshold-type" className="text-right col-span-1">Threshold</Label>
+            <div className="col-span-3 grid grid-cols-2 gap-2">
+              <Input
+                id="rule-threshold-value"
+                type="number"
+                min="0"
+                step="any"
+                value={thresholdValue}
+                onChange={(e) => setThresholdValue(e.target.value)}
+                disabled={isSaving}
+                aria-label="Threshold value"
+              />
+              <Select value={thresholdType} onValueChange={setThresholdType} disabled={isSaving}>
+                <SelectTrigger id="rule-threshold-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">% of price</SelectItem>
+                  <SelectItem value="confidenceInterval">CI half-widths</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="rule-compare" className="text-right col-span-1">Compare To</Label>
+            <div className="col-span-3">
+              <Select value={compareTo} onValueChange={setCompareTo} disabled={isSaving}>
+                <SelectTrigger id="rule-compare">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="entry">Entry price</SelectItem>
+                  <SelectItem value="mark">Mark price</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="rule-max-age" className="text-right col-span-1">Max Age (min)</Label>
+            <div className="col-span-3 space-y-1">
+              <Input
+                id="rule-max-age"
+                type="number"
+                min="1"
+                step="1"
+                value={maxAge}
+                onChange={(e) => setMaxAge(e.target.value)}
+                disabled={isSaving}
+                placeholder="No limit"
+              />
+              <p className="text-xs text-muted-foreground">Predictions older than this are ignored.</p>
+            </div>
+          </div>
+
+          {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+          <SheetFooter className="mt-6 pt-4 border-t">
+            <SheetClose asChild>
+              <Button type="button" variant="outline" disabled={isSaving}>
+                Cancel
+              </Button>
+            </SheetClose>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Rule"}
+            </Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AlertRuleEditor;
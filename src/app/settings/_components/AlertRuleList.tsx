@@ -0,0 +1,218 @@
+/**
+ * @description
+ * Client Component: Displays the saved contradiction alert rules in a table.
+ * Allows enabling/disabling rules inline, initiating edits, and deleting rules with confirmation.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (useState).
+ * - @/types: Provides AlertRule type.
+ * - @/components/ui/*: Shadcn Table, Button, Switch and AlertDialog components.
+ * - @/hooks/use-toast: Hook to trigger toasts.
+ * - @/actions/alert-rule-actions: Server actions for toggling and deleting rules.
+ * - @/lib/formatting: For formatting thresholds.
+ * - lucide-react: For icons (Pencil, Trash2).
+ */
+"use client";
+
+import React, { useState } from "react";
+import type { AlertRule } from "@/types";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Trash2 } from "lucide-react";
+import { formatNumber } from "@/lib/formatting";
+import { useToast } from "@/hooks/use-toast";
+import { deleteAlertRuleAction, updateAlertRuleAction } from "@/actions/alert-rule-actions";
+
+interface AlertRuleListProps {
+  rules: AlertRule[] | null;
+  onEdit: (rule: AlertRule) => void;
+  onRulesChanged: () => void;
+}
+
+/**
+ * Describes a rule's threshold for display.
+ */
+const describeThreshold = (rule: AlertRule): string =>
+  rule.thresholdType === "confidenceInterval"
+    ? `${formatNumber(rule.thresholdValue, 2)} CI half-widths`
+    : `${formatNumber(rule.thresholdValue, 2)}%`;
+
+const AlertRuleList: React.FC<AlertRuleListProps> = ({
+  rules,
+  onEdit,
+  onRulesChanged,
+}) => {
+  const { toast } = useToast();
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  const [ruleToDelete, setRuleToDelete] = useState<AlertRule | null>(null);
+  const [togglingRuleId, setTogglingRuleId] = useState<string | null>(null);
+
+  // Enables or disables a rule in place
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    setTogglingRuleId(rule.id);
+    const result = await updateAlertRuleAction(rule.id, { enabled });
+    setTogglingRuleId(null);
+    if (result.isSuccess) {
+      onRulesChanged();
+    } else {
+      toast({
+        title: "Error Updating Alert Rule",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Handler for confirming deletion
+  const handleConfirmDelete = async () => {
+    if (!ruleToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      const result = await deleteAlertRuleAction(ruleToDelete.id);
+      if (result.isSuccess) {
+        toast({
+          title: "Success",
+          description: result.message,
+        });
+        onRulesChanged();
+      } else {
+        toast({
+          title: "Error Deleting Alert Rule",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error deleting alert rule:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while deleting the alert rule.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+      setRuleToDelete(null);
+    }
+  };
+
+  const renderTableContent = () => {
+    if (!rules || rules.length === 0) {
+      return (
+        <TableRow>
+          <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+            No alert rules yet. The default rule (latest 8h prediction, 1% against entry) applies.
+          </TableCell>
+        </TableRow>
+      );
+    }
+
+    return rules.map((rule) => (
+      <TableRow key={rule.id}>
+        <TableCell className="font-medium">{rule.name}</TableCell>
+        <TableCell className="whitespace-nowrap">
+          {rule.assetName ?? "Any"} / {rule.timeframe ?? "Any"}
+        </TableCell>
+        <TableCell className="whitespace-nowrap">
+          {describeThreshold(rule)} vs {rule.compareTo}
+        </TableCell>
+        <TableCell className="whitespace-nowrap">
+          {rule.maxPredictionAgeMinutes !== null ? `${rule.maxPredictionAgeMinutes} min` : "No limit"}
+        </TableCell>
+        <TableCell>
+          <Switch
+            checked={rule.enabled}
+            onCheckedChange={(checked) => handleToggle(rule, checked)}
+            disabled={togglingRuleId === rule.id}
+            aria-label={`${rule.enabled ? "Disable" : "Enable"} rule ${rule.name}`}
+          />
+        </TableCell>
+        <TableCell className="text-right whitespace-nowrap">
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onEdit(rule)}
+              aria-label={`Edit rule ${rule.name}`}
+              className="h-8 w-8"
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="destructive"
+              size="icon"
+              onClick={() => setRuleToDelete(rule)}
+              aria-label={`Delete rule ${rule.name}`}
+              className="h-8 w-8"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+    ));
+  };
+
+  return (
+    <AlertDialog open={ruleToDelete !== null} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+      <div className="w-full overflow-x-auto border rounded-md">
+        <Table>
+          <TableCaption className="mt-4">Rules are evaluated against open positions on every prediction refresh.</TableCaption>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[150px]">Name</TableHead>
+              <TableHead className="min-w-[110px]">Asset / TF</TableHead>
+              <TableHead className="min-w-[150px]">Threshold</TableHead>
+              <TableHead className="min-w-[90px]">Max Age</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="text-right min-w-[100px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>{renderTableContent()}</TableBody>
+        </Table>
+      </div>
+
+      {/* Confirmation Dialog */}
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete alert rule?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This action cannot be undone. This will permanently delete the rule{" "}
+            <span className="font-semibold">&quot;{ruleToDelete?.name}&quot;</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirmDelete}
+            disabled={isDeleting}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isDeleting ? "Deleting..." : "Delete Rule"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default AlertRuleList;
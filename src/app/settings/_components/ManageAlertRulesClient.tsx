@@ -0,0 +1,99 @@
+/**
+ * @description
+ * Client Component: Manages the Contradiction Alert Rules section on the Settings page.
+ * Renders the rule list and the editor, and refreshes server data after changes.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (useState, useCallback).
+ * - next/navigation: Provides `useRouter` for refreshing data.
+ * - @/types: Provides AlertRule type definition.
+ * - @/components/ui/*: Shadcn Button and Card components, ErrorDisplay.
+ * - ./AlertRuleList: Component to display the list of rules.
+ * - ./AlertRuleEditor: Component to edit/create rules.
+ * - lucide-react: For the Plus icon.
+ *
+ * @notes
+ * - Alerts are only evaluated while "Enable Contradictory Prediction Alerts" is on in the UI preferences.
+ */
+"use client";
+
+import React, { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import type { AlertRule } from "@/types";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import ErrorDisplay from "@/components/ui/ErrorDisplay";
+import AlertRuleList from "./AlertRuleList";
+import AlertRuleEditor from "./AlertRuleEditor";
+import { Plus } from "lucide-react";
+
+interface ManageAlertRulesClientProps {
+  initialRules: AlertRule[] | null;
+  initialError?: string | null;
+}
+
+const ManageAlertRulesClient: React.FC<ManageAlertRulesClientProps> = ({
+  initialRules,
+  initialError,
+}) => {
+  const router = useRouter();
+  const [isEditorOpen, setIsEditorOpen] = useState<boolean>(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+
+  const handleCreateNew = useCallback(() => {
+    setEditingRule(null);
+    setIsEditorOpen(true);
+  }, []);
+
+  const handleEditRule = useCallback((rule: AlertRule) => {
+    setEditingRule(rule);
+    setIsEditorOpen(true);
+  }, []);
+
+  // Refresh server-side data to update the list after any change
+  const handleRulesChanged = useCallback(() => {
+    setEditingRule(null);
+    router.refresh();
+  }, [router]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex-grow">
+          <CardTitle>Contradiction Alert Rules</CardTitle>
+          <CardDescription className="mt-1">
+            Define when a prediction counts as contradicting an open position.
+          </CardDescription>
+        </div>
+        <div className="flex-shrink-0">
+          <Button onClick={handleCreateNew} size="sm">
+            <Plus className="mr-2 h-4 w-4" /> Create Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {initialError && <ErrorDisplay error={initialError} className="mb-4" />}
+        <AlertRuleList
+          rules={initialRules}
+          onEdit={handleEditRule}
+          onRulesChanged={handleRulesChanged}
+        />
+      </CardContent>
+
+      <AlertRuleEditor
+        isOpen={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        ruleToEdit={editingRule}
+        onRuleSaved={handleRulesChanged}
+      />
+    </Card>
+  );
+};
+
+export default ManageAlertRulesClient;
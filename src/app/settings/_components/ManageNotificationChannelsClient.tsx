@@ -0,0 +1,156 @@
+/**
+ * @description
+ * Client Component: Manages the Notification Channels section on the Settings page.
+ * Renders the channel list, the editor, and the most recent delivery attempts, and refreshes server data after changes.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (useState, useCallback).
+ * - next/navigation: Provides `useRouter` for refreshing data.
+ * - @/types: Provides the notification channel and delivery types.
+ * - @/components/ui/*: Shadcn Button, Card, Table and Badge components, ErrorDisplay.
+ * - @/lib/formatting: For formatting delivery timestamps.
+ * - ./NotificationChannelList: Component to display the list of channels.
+ * - ./NotificationChannelEditor: Component to edit/create channels.
+ * - lucide-react: For icons (Plus, RefreshCw).
+ */
+"use client";
+
+import React, { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import type { NotificationChannel, NotificationDeliveryWithChannel } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import ErrorDisplay from "@/components/ui/ErrorDisplay";
+import { formatDateTime } from "@/lib/formatting";
+import NotificationChannelList from "./NotificationChannelList";
+import NotificationChannelEditor from "./NotificationChannelEditor";
+import { Plus, RefreshCw } from "lucide-react";
+
+interface ManageNotificationChannelsClientProps {
+  initialChannels: NotificationChannel[] | null;
+  initialDeliveries: NotificationDeliveryWithChannel[] | null;
+  initialError?: string | null;
+}
+
+const ManageNotificationChannelsClient: React.FC<ManageNotificationChannelsClientProps> = ({
+  initialChannels,
+  initialDeliveries,
+  initialError,
+}) => {
+  const router = useRouter();
+  const [isEditorOpen, setIsEditorOpen] = useState<boolean>(false);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+
+  const handleCreateNew = useCallback(() => {
+    setEditingChannel(null);
+    setIsEditorOpen(true);
+  }, []);
+
+  const handleEditChannel = useCallback((channel: NotificationChannel) => {
+    setEditingChannel(channel);
+    setIsEditorOpen(true);
+  }, []);
+
+  // Refresh server-side data to update the channels and delivery log after any change
+  const handleChannelsChanged = useCallback(() => {
+    setEditingChannel(null);
+    router.refresh();
+  }, [router]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex-grow">
+          <CardTitle>Notification Channels</CardTitle>
+          <CardDescription className="mt-1">
+            Deliver contradiction alerts, trade fills/failures and near-liquidation warnings to webhooks, email or chat.
+          </CardDescription>
+        </div>
+        <div className="flex-shrink-0">
+          <Button onClick={handleCreateNew} size="sm">
+            <Plus className="mr-2 h-4 w-4" /> Add Channel
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {initialError && <ErrorDisplay error={initialError} className="mb-4" />}
+        <NotificationChannelList
+          channels={initialChannels}
+          onEdit={handleEditChannel}
+          onChannelsChanged={handleChannelsChanged}
+        />
+
+        {/* Delivery log */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Recent Deliveries</h3>
+            <Button variant="ghost" size="sm" onClick={() => router.refresh()}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+            </Button>
+          </div>
+          <div className="w-full overflow-x-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[150px]">Time</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead className="min-w-[200px]">Event</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!initialDeliveries || initialDeliveries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-16 text-center text-muted-foreground">
+                      No notifications delivered yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  initialDeliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap text-xs">{formatDateTime(delivery.createdAt)}</TableCell>
+                      <TableCell>{delivery.channelName}</TableCell>
+                      <TableCell className="text-xs">
+                        {delivery.title}
+                        {delivery.error && <div className="text-destructive mt-1">{delivery.error}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={delivery.status === "sent" ? "secondary" : "destructive"}>
+                          {delivery.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+
+      <NotificationChannelEditor
+        isOpen={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        channelToEdit={editingChannel}
+        onChannelSaved={handleChannelsChanged}
+      />
+    </Card>
+  );
+};
+
+export default ManageNotificationChannelsClient;
@@ -0,0 +1,314 @@
+/**
+ * @description
+ * Client Component: Renders a form within a Sheet (slide-over panel) for creating or editing notification channels.
+ * Handles form state, validation, submission via Server Actions, and provides user feedback.
+ *
+ * Key features:
+ * - Channel type: generic webhook, email (SMTP), Telegram bot or Discord webhook.
+ * - Target URL or recipient address, plus the chat ID for Telegram.
+ * - Per-event subscriptions and a throttle window for repeated events.
+ * - Calls `createNotificationChannelAction` or `updateNotificationChannelAction` Server Actions on submit.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (useState, useEffect).
+ * - @/types: Provides the notification channel type definitions.
+ * - @/components/ui/*: Shadcn Sheet, Button, Input, Label, Select and Switch components.
+ * - @/hooks/use-toast: Hook to trigger toasts.
+ * - @/actions/notification-actions: Server actions for creating/updating channels.
+ * - @/lib/constants: For event labels and the default throttle.
+ */
+"use client";
+
+import React, { useState, useEffect, FormEvent } from "react";
+import type { NotificationChannel, NotificationChannelInput, NotificationEventType } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetFooter,
+  SheetClose,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createNotificationChannelAction,
+  updateNotificationChannelAction,
+} from "@/actions/notification-actions";
+import { DEFAULT_NOTIFICATION_THROTTLE_MINUTES, NOTIFICATION_EVENT_LABELS } from "@/lib/constants";
+
+interface NotificationChannelEditorProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  channelToEdit?: NotificationChannel | null; // Pass channel data if editing
+  onChannelSaved: () => void; // Callback after successful save
+}
+
+const EVENT_TYPES = Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEventType[];
+
+const TARGET_PLACEHOLDERS: Record<string, string> = {
+  webhook: "https://example.com/hooks/allora",
+  email: "you@example.com",
+  telegram: "https://api.telegram.org/bot<token>/sendMessage",
+  discord: "https://discord.com/api/webhooks/...",
+};
+
+const NotificationChannelEditor: React.FC<NotificationChannelEditorProps> = ({
+  isOpen,
+  onOpenChange,
+  channelToEdit,
+  onChannelSaved,
+}) => {
+  const { toast } = useToast();
+  const [name, setName] = useState<string>("");
+  const [enabled, setEnabled] = useState<boolean>(true);
+  const [type, setType] = useState<string>("webhook");
+  const [target, setTarget] = useState<string>("");
+  const [chatId, setChatId] = useState<string>("");
+  const [events, setEvents] = useState<string[]>(EVENT_TYPES);
+  const [throttle, setThrottle] = useState<string>(String(DEFAULT_NOTIFICATION_THROTTLE_MINUTES));
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [errors, setErrors] = useState<{ name?: string; target?: string; chatId?: string; events?: string; throttle?: string }>({});
+
+  // Populate form when the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setName(channelToEdit?.name ?? "");
+      setEnabled(channelToEdit?.enabled ?? true);
+      setType(channelToEdit?.type ?? "webhook");
+      setTarget(channelToEdit?.target ?? "");
+      setChatId(channelToEdit?.chatId ?? "");
+      // An empty event list means "all events"
+      setEvents(channelToEdit && channelToEdit.events.length > 0 ? channelToEdit.events : EVENT_TYPES);
+      setThrottle(String(channelToEdit?.throttleMinutes ?? DEFAULT_NOTIFICATION_THROTTLE_MINUTES));
+      setErrors({});
+    }
+  }, [channelToEdit, isOpen]);
+
+  const toggleEvent = (eventType: string, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, eventType] : current.filter((e) => e !== eventType),
+    );
+  };
+
+  // Basic client-side validation; the server action re-validates
+  const validateForm = (): boolean => {
+    const newErrors: typeof errors = {};
+    if (!name.trim()) newErrors.name = "Channel name is required.";
+    if (!target.trim()) newErrors.target = type === "email" ? "Recipient is required." : "URL is required.";
+    if (type === "telegram" && !chatId.trim()) newErrors.chatId = "Chat ID is required for Telegram.";
+    if (events.length === 0) newErrors.events = "Select at least one event.";
+    const throttleNum = Number(throttle);
+    if (throttle.trim() === "" || !Number.isInteger(throttleNum) || throttleNum < 0) {
+      newErrors.throttle = "Throttle must be zero or a whole number of minutes.";
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!validateForm()) {
+      return;
+    }
+
+    const channelData: NotificationChannelInput = {
+      name: name.trim(),
+      enabled,
+      type,
+      target: target.trim(),
+      chatId: type === "telegram" ? chatId.trim() : null,
+      // Store "all events" as an empty list so future event types are included automatically
+      events: events.length === EVENT_TYPES.length ? [] : events,
+      throttleMinutes: Number(throttle),
+    };
+
+    setIsSaving(true);
+    try {
+      const result = channelToEdit
+        ? await updateNotificationChannelAction(channelToEdit.id, channelData)
+        : await createNotificationChannelAction(channelData);
+
+      if (result.isSuccess) {
+        toast({
+          title: "Success",
+          description: result.message,
+        });
+        onChannelSaved();
+        onOpenChange(false);
+      } else {
+        toast({
+          title: `Error ${channelToEdit ? "Updating" : "Creating"} Channel`,
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error saving notification channel:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while saving the channel.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-[425px] md:max-w-[550px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{channelToEdit ? "Edit Notification Channel" : "Create Notification Channel"}</SheetTitle>
+          <SheetDescription>
+            Choose where alert and trade events are delivered.
+          </SheetDescription>
+        </SheetHeader>
+        <form onSubmit={handleSubmit} className="grid gap-4 py-6">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="channel-name" className="text-right col-span-1">Name</Label>
+            <div className="col-span-3">
+              <Input
+                id="channel-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSaving}
+                placeholder="e.g., Trading desk Discord"
+                className={errors.name ? "border-destructive" : ""}
+              />
+              {errors.name && <p className="text-xs text-destructive mt-1">{errors.name}</p>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="channel-enabled" className="text-right col-span-1">Enabled</Label>
+            <div className="col-span-3">
+              <Switch id="channel-enabled" checked={enabled} onCheckedChange={setEnabled} disabled={isSaving} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="channel-type" className="text-right col-span-1">Type</Label>
+            <div className="col-span-3">
+              <Select value={type} onValueChange={setType} disabled={isSaving}>
+                <SelectTrigger id="channel-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="webhook">Generic webhook (JSON)</SelectItem>
+                  <SelectItem value="email">Email (SMTP)</SelectItem>
+                  <SelectItem value="telegram">Telegram bot</SelectItem>
+                  <SelectItem value="discord">Discord webhook</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="channel-target" className="text-right col-span-1">
+              {type === "email" ? "Recipient" : "URL"}
+            </Label>
+            <div className="col-span-3">
+              <Input
+                id="channel-target"
+                type={type === "email" ? "email" : "url"}
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                disabled={isSaving}
+                placeholder={TARGET_PLACEHOLDERS[type]}
+                className={errors.target ? "border-destructive" : ""}
+              />
+              {errors.target && <p className="text-xs text-destructive mt-1">{errors.target}</p>}
+              {type === "email" && (
+                <p className="text-xs text-muted-foreground mt-1">Sent through the SMTP server configured in the environment.</p>
+              )}
+            </div>
+          </div>
+
+          {type === "telegram" && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="channel-chat-id" className="text-right col-span-1">Chat ID</Label>
+              <div className="col-span-3">
+                <Input
+                  id="channel-chat-id"
+                  value={chatId}
+                  onChange={(e) => setChatId(e.target.value)}
+                  disabled={isSaving}
+                  placeholder="e.g., 123456789"
+                  className={errors.chatId ? "border-destructive" : ""}
+                />
+                {errors.chatId && <p className="text-xs text-destructive mt-1">{errors.chatId}</p>}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 items-start gap-4">
+            <Label className="text-right col-span-1 pt-1">Events</Label>
+            <div className="col-span-3 space-y-2">
+              {EVENT_TYPES.map((eventType) => (
+                <div key={eventType} className="flex items-center justify-between">
+                  <Label htmlFor={`channel-event-${eventType}`} className="font-normal">
+                    {NOTIFICATION_EVENT_LABELS[eventType]}
+                  </Label>
+                  <Switch
+                    id={`channel-event-${eventType}`}
+                    checked={events.includes(eventType)}
+                    onCheckedChange={(checked) => toggleEvent(eventType, checked)}
+                    disabled={isSaving}
+                  />
+                </div>
+              ))}
+              {errors.events && <p className="text-xs text-destructive">{errors.events}</p>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="channel-throttle" className="text-right col-span-1">Throttle (min)</Label>
+            <div className="col-span-3">
+              <Input
+                id="channel-throttle"
+                type="number"
+                min="0"
+                step="1"
+                value={throttle}
+                onChange={(e) => setThrottle(e.target.value)}
+                disabled={isSaving}
+                className={errors.throttle ? "border-destructive" : ""}
+              />
+              {errors.throttle ? (
+                <p className="text-xs text-destructive mt-1">{errors.throttle}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground mt-1">Minimum time before the same alert is sent again. 0 sends every time.</p>
+              )}
+            </div>
+          </div>
+
+          <SheetFooter className="mt-6 pt-4 border-t">
+            <SheetClose asChild>
+              <Button type="button" variant="outline" disabled={isSaving}>
+                Cancel
+              </Button>
+            </SheetClose>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Channel"}
+            </Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default NotificationChannelEditor;
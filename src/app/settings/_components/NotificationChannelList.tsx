@@ -0,0 +1,244 @@
+/**
+ * @description
+ * Client Component: Displays the configured notification channels in a table.
+ * Allows enabling/disabling channels inline, sending a test notification, editing, and deleting with confirmation.
+ *
+ * @dependencies
+ * - react: For component structure and hooks (useState).
+ * - @/types: Provides NotificationChannel and NotificationEventType types.
+ * - @/components/ui/*: Shadcn Table, Button, Switch and AlertDialog components.
+ * - @/hooks/use-toast: Hook to trigger toasts.
+ * - @/actions/notification-actions: Server actions for toggling, testing and deleting channels.
+ * - @/lib/constants: For event labels.
+ * - lucide-react: For icons (Pencil, Trash2, Send).
+ */
+"use client";
+
+import React, { useState } from "react";
+import type { NotificationChannel, NotificationEventType } from "@/types";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Send, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteNotificationChannelAction,
+  sendTestNotificationAction,
+  updateNotificationChannelAction,
+} from "@/actions/notification-actions";
+import { NOTIFICATION_EVENT_LABELS } from "@/lib/constants";
+
+interface NotificationChannelListProps {
+  channels: NotificationChannel[] | null;
+  onEdit: (channel: NotificationChannel) => void;
+  onChannelsChanged: () => void;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  webhook: "Webhook",
+  email: "Email",
+  telegram: "Telegram",
+  discord: "Discord",
+};
+
+const NotificationChannelList: React.FC<NotificationChannelListProps> = ({
+  channels,
+  onEdit,
+  onChannelsChanged,
+}) => {
+  const { toast } = useToast();
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  const [channelToDelete, setChannelToDelete] = useState<NotificationChannel | null>(null);
+  const [busyChannelId, setBusyChannelId] = useState<string | null>(null);
+
+  // Enables or disables a channel in place
+  const handleToggle = async (channel: NotificationChannel, enabled: boolean) => {
+    setBusyChannelId(channel.id);
+    const result = await updateNotificationChannelAction(channel.id, { enabled });
+    setBusyChannelId(null);
+    if (result.isSuccess) {
+      onChannelsChanged();
+    } else {
+      toast({
+        title: "Error Updating Channel",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Sends a test notification and refreshes the delivery log
+  const handleTest = async (channel: NotificationChannel) => {
+    setBusyChannelId(channel.id);
+    const result = await sendTestNotificationAction(channel.id);
+    setBusyChannelId(null);
+    toast({
+      title: result.isSuccess ? "Test Sent" : "Test Failed",
+      description: result.message,
+      variant: result.isSuccess ? "default" : "destructive",
+    });
+    onChannelsChanged();
+  };
+
+  // Handler for confirming deletion
+  const handleConfirmDelete = async () => {
+    if (!channelToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      const result = await deleteNotificationChannelAction(channelToDelete.id);
+      if (result.isSuccess) {
+        toast({
+          title: "Success",
+          description: result.message,
+        });
+        onChannelsChanged();
+      } else {
+        toast({
+          title: "Error Deleting Channel",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error deleting notification channel:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred while deleting the channel.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+      setChannelToDelete(null);
+    }
+  };
+
+  const renderTableContent = () => {
+    if (!channels || channels.length === 0) {
+      return (
+        <TableRow>
+          <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+            No notification channels configured.
+          </TableCell>
+        </TableRow>
+      );
+    }
+
+    return channels.map((channel) => (
+      <TableRow key={channel.id}>
+        <TableCell className="font-medium">{channel.name}</TableCell>
+        <TableCell>{TYPE_LABELS[channel.type] ?? channel.type}</TableCell>
+        <TableCell className="text-xs text-muted-foreground">
+          {channel.events.length === 0
+            ? "All events"
+            : channel.events
+                .map((e) => NOTIFICATION_EVENT_LABELS[e as NotificationEventType] ?? e)
+                .join(", ")}
+        </TableCell>
+        <TableCell className="whitespace-nowrap">
+          {channel.throttleMinutes > 0 ? `${channel.throttleMinutes} min` : "Off"}
+        </TableCell>
+        <TableCell>
+          <Switch
+            checked={channel.enabled}
+            onCheckedChange={(checked) => handleToggle(channel, checked)}
+            disabled={busyChannelId === channel.id}
+            aria-label={`${channel.enabled ? "Disable" : "Enable"} channel ${channel.name}`}
+          />
+        </TableCell>
+        <TableCell className="text-right whitespace-nowrap">
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleTest(channel)}
+              disabled={busyChannelId === channel.id}
+              aria-label={`Send test notification to ${channel.name}`}
+              className="h-8 w-8"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onEdit(channel)}
+              aria-label={`Edit channel ${channel.name}`}
+              className="h-8 w-8"
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="destructive"
+              size="icon"
+              onClick={() => setChannelToDelete(channel)}
+              aria-label={`Delete channel ${channel.name}`}
+              className="h-8 w-8"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+    ));
+  };
+
+  return (
+    <AlertDialog open={channelToDelete !== null} onOpenChange={(open) => !open && setChannelToDelete(null)}>
+      <div className="w-full overflow-x-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[150px]">Name</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="min-w-[150px]">Events</TableHead>
+              <TableHead>Throttle</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="text-right min-w-[140px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>{renderTableContent()}</TableBody>
+        </Table>
+      </div>
+
+      {/* Confirmation Dialog */}
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete notification channel?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This action cannot be undone. This will permanently delete the channel{" "}
+            <span className="font-semibold">&quot;{channelToDelete?.name}&quot;</span> and its delivery log.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirmDelete}
+            disabled={isDeleting}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isDeleting ? "Deleting..." : "Delete Channel"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default NotificationChannelList;
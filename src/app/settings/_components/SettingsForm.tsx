@@ -5,36 +5,48 @@
  *
  * Key features:
  * - Uses `useLocalStorage` hook to persist settings.
- * - Provides inputs for prediction and account refresh intervals.
+ * - Provides inputs for prediction and account refresh intervals, which also drive the server-side poller.
+ * - Provides an input for the default stop-loss distance used for TP/SL brackets.
+ * - Provides inputs for the default market order slippage and the maximum book mid vs oracle price deviation.
  * - Provides switches to enable/disable contradictory prediction alerts and the master trade execution switch.
  * - Uses Shadcn UI components for form elements.
  * - Performs basic validation on interval inputs.
  * - Improved responsive layout using grid.
  *
  * @dependencies
- * - react: For component structure and hooks (useState, useEffect).
+ * - react: For component structure and hooks (useState, useEffect, useRef).
  * - @/types: Provides AppSettings type definition.
  * - @/hooks/useLocalStorage: Custom hook for managing state synced with localStorage.
  * - @/lib/constants: Provides default settings values (DEFAULT_APP_SETTINGS).
+ * - @/lib/trading-calcs: Provides slippage validation.
  * - @/components/ui/card: Shadcn Card components for layout.
  * - @/components/ui/input: Shadcn Input component.
  * - @/components/ui/label: Shadcn Label component.
  * - @/components/ui/switch: Shadcn Switch component.
  * - @/components/ui/toast: For potential feedback (not used currently, but available via useToast).
  * - @/hooks/use-toast: Hook to trigger toasts.
+ * - @/actions/poller-actions: Server Action for updating the server-side polling intervals.
  *
  * @notes
  * - Settings are saved directly to localStorage on change via the `useLocalStorage` hook.
  * - Input values for intervals are stored as numbers, but managed as strings in the local component state
  * to handle user input correctly (e.g., typing in progress).
  * - Basic validation prevents non-numeric or negative values for intervals.
+ * - Interval changes are pushed to the server (debounced) because the server-side poller fetches the data
+ *   all tabs display; the most recently saved intervals win.
  */
 "use client";
 
-import React, { useState, useEffect, ChangeEvent } from "react";
+import React, { useState, useEffect, useRef, ChangeEvent } from "react";
 import { AppSettings } from "@/types";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
-import { DEFAULT_APP_SETTINGS } from "@/lib/constants";
+import {
+  DEFAULT_APP_SETTINGS,
+  DEFAULT_MAX_ORACLE_DEVIATION_PERCENT,
+  DEFAULT_SLIPPAGE_BPS,
+  DEFAULT_STOP_LOSS_PERCENT,
+} from "@/lib/constants";
+import { getSlippageError } from "@/lib/trading-calcs";
 import {
   Card,
   CardContent,
@@ -46,6 +58,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { updatePollerIntervalsAction } from "@/actions/poller-actions";
 
 const SettingsForm: React.FC = () => {
   const { toast } = useToast();
@@ -62,6 +75,15 @@ const SettingsForm: React.FC = () => {
   const [accountIntervalInput, setAccountIntervalInput] = useState(
     String(settings.accountRefreshInterval / 1000), // Display in seconds
   );
+  const [stopLossInput, setStopLossInput] = useState(
+    String(settings.defaultStopLossPercent ?? DEFAULT_STOP_LOSS_PERCENT),
+  );
+  const [slippageInput, setSlippageInput] = useState(
+    String(settings.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS),
+  );
+  const [oracleDeviationInput, setOracleDeviationInput] = useState(
+    String(settings.maxOracleDeviationPercent ?? DEFAULT_MAX_ORACLE_DEVIATION_PERCENT),
+  );
 
   // State for input validation errors
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
@@ -70,8 +92,35 @@ const SettingsForm: React.FC = () => {
   useEffect(() => {
     setPredictionIntervalInput(String(settings.predictionRefreshInterval / 1000));
     setAccountIntervalInput(String(settings.accountRefreshInterval / 1000));
+    setStopLossInput(String(settings.defaultStopLossPercent ?? DEFAULT_STOP_LOSS_PERCENT));
+    setSlippageInput(String(settings.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS));
+    setOracleDeviationInput(String(settings.maxOracleDeviationPercent ?? DEFAULT_MAX_ORACLE_DEVIATION_PERCENT));
   }, [settings]);
 
+  // Push interval changes to the server-side poller, debounced so typing doesn't send every keystroke
+  const hasMountedRef = useRef<boolean>(false);
+  useEffect(() => {
+    if (!hasMountedRef.current) {
+      hasMountedRef.current = true;
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const result = await updatePollerIntervalsAction({
+        predictionIntervalMs: settings.predictionRefreshInterval,
+        accountIntervalMs: settings.accountRefreshInterval,
+      });
+      if (!result.isSuccess) {
+        toast({
+          title: "Error Updating Server Polling",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [settings.predictionRefreshInterval, settings.accountRefreshInterval, toast]);
+
   // Generic handler for input changes, updates local state and persists to localStorage
   const handleIntervalChange = (
     event: ChangeEvent<HTMLInputElement>,
@@ -102,6 +151,64 @@ const SettingsForm: React.FC = () => {
     setErrors(newErrors);
   };
 
+  // Handler for the default stop-loss distance (percent)
+  const handleStopLossChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setStopLossInput(value);
+
+    const numericValue = parseFloat(value);
+    const newErrors = { ...errors };
+    if (isNaN(numericValue) || numericValue <= 0 || numericValue >= 100) {
+      newErrors.defaultStopLossPercent = "Stop-loss distance must be between 0 and 100 percent.";
+    } else {
+      delete newErrors.defaultStopLossPercent;
+      setSettings((prevSettings) => ({
+        ...prevSettings,
+        defaultStopLossPercent: numericValue,
+      }));
+    }
+    setErrors(newErrors);
+  };
+
+  // Handler for the default market order slippage (basis points)
+  const handleSlippageChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setSlippageInput(value);
+
+    const numericValue = Number(value);
+    const newErrors = { ...errors };
+    const slippageError = value.trim() === "" ? "Slippage is required." : getSlippageError(numericValue);
+    if (slippageError) {
+      newErrors.defaultSlippageBps = slippageError;
+    } else {
+      delete newErrors.defaultSlippageBps;
+      setSettings((prevSettings) => ({
+        ...prevSettings,
+        defaultSlippageBps: numericValue,
+      }));
+    }
+    setErrors(newErrors);
+  };
+
+  // Handler for the maximum book mid vs oracle deviation (percent)
+  const handleOracleDeviationChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setOracleDeviationInput(value);
+
+    const numericValue = parseFloat(value);
+    const newErrors = { ...errors };
+    if (isNaN(numericValue) || numericValue <= 0) {
+      newErrors.maxOracleDeviationPercent = "Oracle deviation must be a positive percentage.";
+    } else {
+      delete newErrors.maxOracleDeviationPercent;
+      setSettings((prevSettings) => ({
+        ...prevSettings,
+        maxOracleDeviationPercent: numericValue,
+      }));
+    }
+    setErrors(newErrors);
+  };
+
   // Handler for switch changes
   const handleSwitchChange = (
     checked: boolean,
@@ -119,7 +226,7 @@ const SettingsForm: React.FC = () => {
         <CardTitle>UI & Fetch Settings</CardTitle>
         <CardDescription>
           Configure data refresh rates and feature toggles. Settings are saved
-          locally in your browser.
+          locally in your browser; refresh intervals also set how often the server polls.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -190,6 +297,89 @@ const SettingsForm: React.FC = () => {
           </div>
         </div>
 
+        {/* Default Stop-Loss Distance */}
+        <div className="grid grid-cols-1 md:grid-cols-3 items-start md:items-center gap-4">
+          <Label htmlFor="defaultStopLoss" className="md:text-right md:mt-2">
+            Default Stop-Loss Distance (%)
+          </Label>
+          <div className="md:col-span-2 space-y-1">
+            <Input
+              id="defaultStopLoss"
+              type="number"
+              min="0.1"
+              max="99"
+              step="0.1"
+              value={stopLossInput}
+              onChange={handleStopLossChange}
+              className={errors.defaultStopLossPercent ? "border-destructive" : ""}
+              placeholder="e.g., 2"
+            />
+            {errors.defaultStopLossPercent && (
+              <p className="text-xs text-destructive">
+                {errors.defaultStopLossPercent}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Distance from entry used for the stop-loss when attaching TP/SL to a trade.
+            </p>
+          </div>
+        </div>
+
+        {/* Default Slippage */}
+        <div className="grid grid-cols-1 md:grid-cols-3 items-start md:items-center gap-4">
+          <Label htmlFor="defaultSlippage" className="md:text-right md:mt-2">
+            Default Slippage (bps)
+          </Label>
+          <div className="md:col-span-2 space-y-1">
+            <Input
+              id="defaultSlippage"
+              type="number"
+              min="1"
+              max="1000"
+              step="1"
+              value={slippageInput}
+              onChange={handleSlippageChange}
+              className={errors.defaultSlippageBps ? "border-destructive" : ""}
+              placeholder="e.g., 200"
+            />
+            {errors.defaultSlippageBps && (
+              <p className="text-xs text-destructive">
+                {errors.defaultSlippageBps}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              How far past the mid price market orders may fill (100 bps = 1%). Can be changed per trade.
+            </p>
+          </div>
+        </div>
+
+        {/* Max Oracle Deviation */}
+        <div className="grid grid-cols-1 md:grid-cols-3 items-start md:items-center gap-4">
+          <Label htmlFor="maxOracleDeviation" className="md:text-right md:mt-2">
+            Max Oracle Deviation (%)
+          </Label>
+          <div className="md:col-span-2 space-y-1">
+            <Input
+              id="maxOracleDeviation"
+              type="number"
+              min="0.01"
+              step="0.1"
+              value={oracleDeviationInput}
+              onChange={handleOracleDeviationChange}
+              className={errors.maxOracleDeviationPercent ? "border-destructive" : ""}
+              placeholder="e.g., 1"
+            />
+            {errors.maxOracleDeviationPercent && (
+              <p className="text-xs text-destructive">
+                {errors.maxOracleDeviationPercent}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Trades are blocked while the order book mid is further than this from the oracle price.
+            </p>
+          </div>
+        </div>
+
         {/* Alert Toggle */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between space-y-2 sm:space-y-0 sm:space-x-4 border-t pt-6">
           <div className="flex-grow space-y-1">
@@ -197,7 +387,7 @@ const SettingsForm: React.FC = () => {
               Enable Contradictory Prediction Alerts
             </Label>
             <p className="text-xs text-muted-foreground">
-              Show an alert on open positions if a new 8hr prediction opposes its basis.
+              Show alerts on open positions when a prediction breaches one of the contradiction alert rules below.
             </p>
           </div>
           <div className="flex-shrink-0">
@@ -5,7 +5,7 @@
  *
  * Key features:
  * - Uses Shadcn UI Sheet for the form container.
- * - Form includes inputs for Template Name, Size, and Leverage.
+ * - Form includes inputs for Template Name, Size, Leverage, an optional market order Slippage (bps) and the Margin Mode (cross/isolated).
  * - Populates form fields when editing an existing template.
  * - Performs client-side validation before submitting.
  * - Calls `createTemplateAction` or `updateTemplateAction` Server Actions on submit.
@@ -20,9 +20,11 @@
  * - @/components/ui/button: Shadcn Button component.
  * - @/components/ui/input: Shadcn Input component.
  * - @/components/ui/label: Shadcn Label component.
+ * - @/components/ui/select: Shadcn Select component for the margin mode.
  * - @/components/ui/toast: For displaying feedback via useToast hook.
  * - @/hooks/use-toast: Hook to trigger toasts.
  * - @/actions/template-actions: Server actions for creating/updating templates.
+ * - @/lib/trading-calcs: Validates the slippage.
  *
  * @notes
  * - Assumes basic client-side validation. More complex validation could be added.
@@ -35,6 +37,13 @@ import { TradeTemplate } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Sheet,
   SheetContent,
@@ -49,6 +58,7 @@ import {
   createTemplateAction,
   updateTemplateAction,
 } from "@/actions/template-actions";
+import { getSlippageError } from "@/lib/trading-calcs";
 
 interface TemplateEditorProps {
   isOpen: boolean;
@@ -67,6 +77,8 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({
   const [name, setName] = useState<string>("");
   const [size, setSize] = useState<string>(""); // Store as string for input control
   const [leverage, setLeverage] = useState<string>(""); // Store as string
+  const [slippage, setSlippage] = useState<string>(""); // Empty uses the default slippage from settings
+  const [marginMode, setMarginMode] = useState<string>("cross");
   const [isSaving, setIsSaving] = useState<boolean>(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
@@ -77,12 +89,16 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({
             setName(templateToEdit.name);
             setSize(String(templateToEdit.size));
             setLeverage(String(templateToEdit.leverage));
+            setSlippage(templateToEdit.slippageBps !== null ? String(templateToEdit.slippageBps) : "");
+            setMarginMode(templateToEdit.marginMode);
             setErrors({}); // Clear errors when opening editor
         } else {
             // Reset form when opening for creation
             setName("");
             setSize("");
             setLeverage("");
+            setSlippage("");
+            setMarginMode("cross");
             setErrors({});
         }
     }
@@ -105,6 +121,12 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({
     } else if (leverageNum > 40) {
       newErrors.leverage = "Hyperliquid only supports up to 40x leverage for BTC.";
     }
+    if (slippage.trim() !== "") {
+      const slippageError = getSlippageError(parseFloat(slippage));
+      if (slippageError) {
+        newErrors.slippage = slippageError;
+      }
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0; // Return true if no errors
@@ -127,7 +149,9 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({
         leverageNum = 1;
     }
 
-    const templateData = { name: name.trim(), size: sizeNum, leverage: leverageNum };
+    const slippageBps = slippage.trim() !== "" ? Math.round(parseFloat(slippage)) : null;
+
+    const templateData = { name: name.trim(), size: sizeNum, leverage: leverageNum, slippageBps, marginMode };
 
     try {
       let result;
@@ -262,6 +286,54 @@ const TemplateEditor: React.FC<TemplateEditorProps> = ({
             </div>
           </div>
 
+          {/* Slippage Input */}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="template-slippage" className="text-right col-span-1">
+              Slippage (bps)
+            </Label>
+            <div className="col-span-3 space-y-1">
+              <Input
+                id="template-slippage"
+                type="number"
+                value={slippage}
+                onChange={(e) => setSlippage(e.target.value)}
+                step="1"
+                min="1"
+                max="1000"
+                className={errors.slippage ? "border-destructive" : ""}
+                disabled={isSaving}
+                placeholder="Default from settings"
+              />
+              {errors.slippage && (
+                <p className="text-xs text-destructive">{errors.slippage}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Price tolerance for market orders (100 bps = 1%). Leave empty to use the default from settings.
+              </p>
+            </div>
+          </div>
+
+          {/* Margin Mode Select */}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="template-margin-mode" className="text-right col-span-1">
+              Margin Mode
+            </Label>
+            <div className="col-span-3 space-y-1">
+              <Select value={marginMode} onValueChange={setMarginMode} disabled={isSaving}>
+                <SelectTrigger id="template-margin-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cross">Cross</SelectItem>
+                  <SelectItem value="isolated">Isolated</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Cross shares the account&apos;s margin across positions; isolated limits losses to the position&apos;s own margin.
+              </p>
+            </div>
+          </div>
+
           {/* Footer with Actions */}
           {/* Added mt-6 for more space before footer */}
           <SheetFooter className="mt-6 pt-4 border-t">
@@ -127,7 +127,7 @@ const TemplateList: React.FC<TemplateListProps> = ({
     if (!templates || templates.length === 0) {
       return (
         <TableRow>
-          <TableCell colSpan={4} className="h-24 text-center text-muted-foreground">
+          <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
             No templates found. Create one to get started!
           </TableCell>
         </TableRow>
@@ -144,6 +144,10 @@ const TemplateList: React.FC<TemplateListProps> = ({
           {formatNumber(template.leverage, 1)}x{" "}
           {/* Example: 1 decimal place */}
         </TableCell>
+        <TableCell className="text-right whitespace-nowrap">
+          {template.slippageBps !== null ? `${template.slippageBps} bps` : <span className="text-muted-foreground">Default</span>}
+        </TableCell>
+        <TableCell className="whitespace-nowrap capitalize">{template.marginMode}</TableCell>
         <TableCell className="text-right whitespace-nowrap">
            <div className="flex justify-end space-x-2">
               <Button
@@ -183,6 +187,8 @@ const TemplateList: React.FC<TemplateListProps> = ({
               <TableHead className="min-w-[150px]">Name</TableHead>
               <TableHead className="text-right min-w-[100px]">Size</TableHead>
               <TableHead className="text-right min-w-[100px]">Leverage</TableHead>
+              <TableHead className="text-right min-w-[100px]">Slippage</TableHead>
+              <TableHead className="min-w-[100px]">Margin</TableHead>
               <TableHead className="text-right min-w-[120px]">Actions</TableHead>
             </TableRow>
           </TableHeader>
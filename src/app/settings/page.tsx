@@ -1,12 +1,14 @@
 /**
  * @description
  * Server Component for the application settings page (route '/settings').
- * Fetches initial data, specifically the list of saved Trade Parameter Templates,
- * and renders client components responsible for managing templates and UI preferences.
+ * Fetches initial data, specifically the list of saved Trade Parameter Templates, contradiction alert rules and notification channels,
+ * and renders client components responsible for managing templates, alert rules, notifications and UI preferences.
  *
  * Key features:
  * - Fetches trade templates using `getTemplatesAction`.
  * - Renders the `ManageTemplatesClient` component to handle template UI.
+ * - Fetches alert rules using `getAlertRulesAction` and renders `ManageAlertRulesClient`.
+ * - Fetches notification channels and recent deliveries and renders `ManageNotificationChannelsClient`.
  * - Renders the `SettingsForm` component for UI settings management using localStorage.
  * - Passes fetched templates down as props to `ManageTemplatesClient`.
  * - Includes basic error handling display for the initial template fetch.
@@ -15,8 +17,12 @@
  * @dependencies
  * - React: For component structure.
  * - @/actions/template-actions: Server Action to fetch trade templates from the database.
+ * - @/actions/alert-rule-actions: Server Action to fetch contradiction alert rules.
+ * - @/actions/notification-actions: Server Actions to fetch notification channels and the delivery log.
  * - @/types: Type definitions for TradeTemplate and ActionState.
  * - @/app/settings/_components/ManageTemplatesClient: Client component for template management.
+ * - @/app/settings/_components/ManageAlertRulesClient: Client component for alert rule management.
+ * - @/app/settings/_components/ManageNotificationChannelsClient: Client component for notification channel management.
  * - @/app/settings/_components/SettingsForm: Client component for UI settings management.
  *
  * @notes
@@ -26,9 +32,13 @@
  */
 import React from 'react';
 import { getTemplatesAction } from '@/actions/template-actions';
+import { getAlertRulesAction } from '@/actions/alert-rule-actions';
+import { getNotificationChannelsAction, getNotificationDeliveriesAction } from '@/actions/notification-actions';
 import type { TradeTemplate } from '@/types';
 // Import the actual client component for managing templates
 import ManageTemplatesClient from './_components/ManageTemplatesClient';
+import ManageAlertRulesClient from './_components/ManageAlertRulesClient';
+import ManageNotificationChannelsClient from './_components/ManageNotificationChannelsClient';
 // Import the actual client component for managing UI settings
 import SettingsForm from './_components/SettingsForm';
 import { Metadata } from 'next';
@@ -46,14 +56,30 @@ export const metadata: Metadata = {
 export default async function SettingsPage(): Promise<JSX.Element> {
   console.log("Fetching initial data for SettingsPage...");
 
-  // Fetch initial trade templates
-  const templatesResult = await getTemplatesAction();
+  // Fetch initial trade templates, alert rules and notification channels
+  const [templatesResult, alertRulesResult, channelsResult, deliveriesResult] = await Promise.all([
+    getTemplatesAction(),
+    getAlertRulesAction(),
+    getNotificationChannelsAction(),
+    getNotificationDeliveriesAction(20),
+  ]);
 
   const initialTemplates = templatesResult.isSuccess ? templatesResult.data : null;
   const initialTemplatesError = !templatesResult.isSuccess ? templatesResult.message : null;
+  const initialAlertRules = alertRulesResult.isSuccess ? alertRulesResult.data : null;
+  const initialAlertRulesError = !alertRulesResult.isSuccess ? alertRulesResult.message : null;
+  const initialChannels = channelsResult.isSuccess ? channelsResult.data : null;
+  const initialDeliveries = deliveriesResult.isSuccess ? deliveriesResult.data : null;
+  const initialChannelsError = !channelsResult.isSuccess
+    ? channelsResult.message
+    : !deliveriesResult.isSuccess
+      ? deliveriesResult.message
+      : null;
 
   console.log("Initial templates fetch complete.");
   console.log("Templates:", initialTemplates ? "OK" : `Error: ${initialTemplatesError}`);
+  console.log("Alert rules:", initialAlertRules ? "OK" : `Error: ${initialAlertRulesError}`);
+  console.log("Notification channels:", initialChannelsError ? `Error: ${initialChannelsError}` : "OK");
 
   return (
     // Added standard vertical spacing and centering
@@ -70,6 +96,19 @@ export default async function SettingsPage(): Promise<JSX.Element> {
         initialError={initialTemplatesError}
       />
 
+      {/* Section for managing contradiction alert rules */}
+      <ManageAlertRulesClient
+        initialRules={initialAlertRules}
+        initialError={initialAlertRulesError}
+      />
+
+      {/* Section for managing outbound notification channels */}
+      <ManageNotificationChannelsClient
+        initialChannels={initialChannels}
+        initialDeliveries={initialDeliveries}
+        initialError={initialChannelsError}
+      />
+
     </div>
   );
 }
\ No newline at end of file
@@ -10,8 +10,21 @@
  * - Displays clear summary of trade parameters (Symbol, Direction, Size, Leverage, Estimates).
  * - Includes prominent risk warnings.
  * - Checks the `masterSwitchEnabled` prop before enabling the confirmation button.
- * - Calls `placeMarketOrderAction` on confirmation.
- * - Calls `logTradeAction` to record the attempt (success or failure).
+ * - Calls `placeMarketOrderAction` (market) or `placeLimitOrderAction` (GTC / post-only limit) on confirmation.
+ * - Shows the limit price and the expected fee based on the user's Hyperliquid fee tier.
+ * - When TP/SL levels are attached, shows them with the risk/reward ratio and submits a bracketed
+ *   order via `placeBracketOrderAction`.
+ * - For market orders, shows the expected average fill price from the L2 order book within the slippage limit,
+ *   the size that would not fill, and how far the book mid is from the oracle price.
+ * - Runs the pre-trade safety checks when opened and lists every failed check; confirmation stays disabled until they pass.
+ *   The order actions repeat the checks server-side with the review context (price fetch time, prediction timestamp,
+ *   oracle deviation limit), so a book that deviates from the oracle blocks the order there too.
+ * - Sends the prediction, template and mark price the trade was staged with, which the order actions record in the
+ *   Trade Log (server-side, before the order is submitted) together with the leverage, slippage and result.
+ * - Generates a client order ID (`cloid`) per reviewed trade. Retries after a lost response reuse it, so the server
+ *   refuses to submit the same order twice; a new cloid is generated once the server has answered with a failure,
+ *   unless it refused the cloid as a duplicate (the first attempt may still be live), in which case the cloid is kept
+ *   and the page data is refreshed so the first attempt shows up.
  * - Shows success/error toasts using `useToast`.
  * - Refreshes page data using `router.refresh()` on successful trade.
  * - Improved layout and styling for clarity.
@@ -19,23 +32,26 @@
  * @dependencies
  * - react: For component structure and hooks (useState).
  * - next/navigation: Provides `useRouter` for page refresh.
- * - @/types: Provides ActionState, HyperliquidOrderResult, TradeLogEntry type definitions.
+ * - @/types: Provides ActionState, HyperliquidOrderResult, TradeLogContext type definitions.
  * - @/components/ui/dialog: Shadcn Dialog components.
  * - @/components/ui/button: Shadcn Button component.
  * - @/components/ui/badge: Shadcn Badge component.
  * - @/components/ui/separator: Shadcn Separator component.
  * - @/components/ui/toast: Provides toast elements via useToast hook.
  * - @/hooks/use-toast: Hook to trigger toasts.
- * - @/actions/hyperliquid-actions: Server Action to place market orders.
- * - @/actions/log-actions: Server Action to log trade attempts.
+ * - @/actions/hyperliquid-actions: Server Actions to place market/limit orders, run the pre-trade checks, estimate execution and fetch fee rates.
+ * - @/lib/cloid: Generates client order IDs.
  * - lucide-react: For icons (TriangleAlert).
  * - @/lib/formatting: Utility functions for formatting numbers.
  * - clsx: Utility for conditional class names.
  *
  * @notes
  * - The component receives all necessary trade details via the `tradeDetails` prop.
+ * - The order is placed for `tradeDetails.assetName` (the coin picked in the trade panel), not a hardcoded asset.
  * - It manages its own `isExecuting` and `errorMsg` state during the action call.
  * - `router.refresh()` is called on success to update potentially changed data like positions and balance.
+ * - Limit orders that don't fill immediately are logged with status 'resting' and their limit price.
+ * - The trade is logged even if the browser closes or navigates away while the order is in flight.
  */
 "use client";
 
@@ -43,8 +59,13 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import type {
   ActionState,
+  HyperliquidExecutionEstimate,
+  HyperliquidFeeRates,
+  HyperliquidMarginMode,
   HyperliquidOrderResult,
-  TradeLogEntry,
+  PreTradeCheckResult,
+  PreTradeGuardContext,
+  TradeLogContext,
 } from "@/types";
 import {
   Dialog,
@@ -59,30 +80,80 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { placeMarketOrderAction } from "@/actions/hyperliquid-actions";
-import { logTradeAction } from "@/actions/log-actions";
-import { TriangleAlert } from "lucide-react";
+import {
+  checkPreTradeGuardsAction,
+  estimateExecutionAction,
+  fetchUserFeeRatesAction,
+  placeBracketOrderAction,
+  placeLimitOrderAction,
+  placeMarketOrderAction,
+} from "@/actions/hyperliquid-actions";
+import { ShieldAlert, TriangleAlert } from "lucide-react";
 import { formatCurrency, formatNumber } from "@/lib/formatting";
-import { BTC_ASSET_INDEX } from "@/lib/constants"; // Assuming BTC asset index is constant
+import { DUPLICATE_CLOID_ERROR, generateCloid } from "@/lib/cloid";
 import clsx from "clsx";
 import LoadingSpinner from "./LoadingSpinner";
 import ErrorDisplay from "@/components/ui/ErrorDisplay";
 
+/**
+ * Order types that can be staged from the trade panel.
+ * - `market`: IOC limit order with a wide price band, simulating a market order.
+ * - `limit`: GTC limit order at a user-specified price.
+ * - `postOnly`: ALO (add-liquidity-only) limit order at a user-specified price.
+ */
+export type TradeOrderType = "market" | "limit" | "postOnly";
+
+/** Display labels for each order type. */
+export const ORDER_TYPE_LABELS: Record<TradeOrderType, string> = {
+  market: "Market (IOC Limit)",
+  limit: "Limit (GTC)",
+  postOnly: "Post-Only (ALO)",
+};
+
 /**
  * Details required for the trade confirmation modal.
  */
 export interface TradeConfirmationDetails {
-  symbol: string;
+  assetName: string; // Hyperliquid coin name sent to the order action (e.g., "ETH")
+  symbol: string; // UI symbol used for display and logging (e.g., "ETH-PERP")
   direction: "long" | "short";
   size: number;
   leverage: number; // For display/estimation context
+  marginMode: HyperliquidMarginMode; // Margin mode the leverage is set with
   estimatedMargin: number;
-  estimatedLiqPrice: number;
+  estimatedLiqPrice: number | null; // Post-trade liquidation price; null if the position cannot be liquidated or is closed
   currentMarketPrice: number; // Current price when review was clicked
+  priceFetchedAt: number | null; // When currentMarketPrice was fetched (server time), null if it is a remembered price
+  predictionTimestamp: number; // Timestamp of the prediction the trade is based on
+  predictionTopicId: number; // Allora topic of that prediction
+  predictionTimeframe: string; // Horizon of that prediction (e.g., '8h')
+  predictedPrice: number; // The predicted price
+  confidenceIntervalValues?: number[]; // The prediction's confidence interval bounds
+  confidenceIntervalPercentiles?: string[]; // Percentiles matching confidenceIntervalValues
+  templateId: string | null; // Trade Template applied when staging, if any
+  slippageBps?: number; // Slippage allowed on market orders / market entries, in basis points
+  maxOracleDeviationPercent: number; // Block the trade if the book mid is further than this from the oracle price
   priceLimit: string; // Calculated wide limit price string for IOC order
   priceLimitValue: number; // Raw numeric limit price for calculations/logging
   isDirectionOverridden?: boolean; // Optional flag
   suggestedDirection?: 'long' | 'short'; // Optional suggested direction
+  orderType: TradeOrderType;
+  limitPrice?: number; // User-specified price for limit / post-only orders
+  takeProfitPrice?: number; // Attached take-profit trigger price
+  stopLossPrice?: number; // Attached stop-loss trigger price
+  riskRewardRatio?: number; // Reward-to-risk ratio of the TP/SL bracket
+}
+
+/**
+ * Returns true if an order would take liquidity (pay the taker fee).
+ * Market orders always take; post-only orders never do; GTC limits take when they cross the market price.
+ */
+function isTakerOrder(details: TradeConfirmationDetails): boolean {
+  if (details.orderType === "market") return true;
+  if (details.orderType === "postOnly" || details.limitPrice === undefined) return false;
+  return details.direction === "long"
+    ? details.limitPrice >= details.currentMarketPrice
+    : details.limitPrice <= details.currentMarketPrice;
 }
 
 interface ConfirmationModalProps {
@@ -102,42 +173,188 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
   const router = useRouter();
   const [isExecuting, setIsExecuting] = useState<boolean>(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [feeRates, setFeeRates] = useState<HyperliquidFeeRates | null>(null);
+  const [guardResult, setGuardResult] = useState<PreTradeCheckResult | null>(null);
+  const [isCheckingGuards, setIsCheckingGuards] = useState<boolean>(false);
+  const [executionEstimate, setExecutionEstimate] = useState<HyperliquidExecutionEstimate | null>(null);
+  const [cloid, setCloid] = useState(() => generateCloid());
+
+  // Each reviewed trade is a new order with its own client order ID
+  useEffect(() => {
+    setCloid(generateCloid());
+  }, [tradeDetails]);
 
   // Reset state when modal is closed
   useEffect(() => {
     if (!isOpen) {
       setIsExecuting(false);
       setErrorMsg(null);
+      setGuardResult(null);
+      setExecutionEstimate(null);
     }
   }, [isOpen]);
 
+  // Estimate the market order's fill from the order book when the modal opens
+  useEffect(() => {
+    if (!isOpen || !tradeDetails || tradeDetails.orderType !== "market") return;
+    let cancelled = false;
+    estimateExecutionAction({
+      assetName: tradeDetails.assetName,
+      isBuy: tradeDetails.direction === "long",
+      size: tradeDetails.size,
+      slippageBps: tradeDetails.slippageBps,
+    })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.isSuccess) {
+          setExecutionEstimate(result.data);
+        } else {
+          console.warn("[TradeModal] Could not estimate execution:", result.message);
+        }
+      })
+      .catch((error) => {
+        console.warn("[TradeModal] Error estimating execution:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tradeDetails]);
+
+  // Run the pre-trade safety checks when the modal opens
+  useEffect(() => {
+    if (!isOpen || !tradeDetails) return;
+    let cancelled = false;
+    setIsCheckingGuards(true);
+    checkPreTradeGuardsAction({
+      assetName: tradeDetails.assetName,
+      isBuy: tradeDetails.direction === "long",
+      size: tradeDetails.size,
+      leverage: tradeDetails.leverage,
+      limitPrice: tradeDetails.orderType === "market" ? undefined : tradeDetails.limitPrice,
+      guard: {
+        referencePriceAt: tradeDetails.priceFetchedAt,
+        predictionTimestamp: tradeDetails.predictionTimestamp,
+        maxOracleDeviationPercent: tradeDetails.maxOracleDeviationPercent,
+      },
+    })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.isSuccess) {
+          setGuardResult(result.data);
+        } else {
+          // The order action repeats the checks, so a failed pre-check does not block confirmation
+          console.warn("[TradeModal] Could not run pre-trade checks:", result.message);
+          setGuardResult(null);
+        }
+      })
+      .catch((error) => {
+        console.warn("[TradeModal] Error running pre-trade checks:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsCheckingGuards(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tradeDetails]);
+
+  // Fetch the user's fee tier when the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    fetchUserFeeRatesAction()
+      .then((result) => {
+        if (cancelled) return;
+        if (result.isSuccess) {
+          setFeeRates(result.data);
+        } else {
+          console.warn("[TradeModal] Could not fetch fee rates:", result.message);
+          setFeeRates(null);
+        }
+      })
+      .catch((error) => {
+        console.warn("[TradeModal] Error fetching fee rates:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
   const handleConfirm = async () => {
     if (isExecuting || !tradeDetails) return;
     setIsExecuting(true);
     setErrorMsg(null);
 
-    // Initialize logging variables
-    let logStatus = "pending";
-    let logOrderId = null;
-    let logEntryPrice = tradeDetails.currentMarketPrice; // Use estimated price initially
-    let logErrorMessage = null;
-
     try {
       console.log("[TradeModal] Starting trade execution with details:", {
+        assetName: tradeDetails.assetName,
         symbol: tradeDetails.symbol,
         direction: tradeDetails.direction,
         size: tradeDetails.size,
         leverage: tradeDetails.leverage,
-        entryPrice: tradeDetails.currentMarketPrice
+        orderType: tradeDetails.orderType,
+        cloid,
       });
 
-      // Execute the trade
-      const actionResult = await placeMarketOrderAction({
-        assetName: tradeDetails.symbol,
-        isBuy: tradeDetails.direction === "long",
-        size: tradeDetails.size,
-        leverage: tradeDetails.leverage,
-      });
+      const hasBracket = tradeDetails.takeProfitPrice !== undefined || tradeDetails.stopLossPrice !== undefined;
+      const guard: PreTradeGuardContext = {
+        referencePriceAt: tradeDetails.priceFetchedAt,
+        predictionTimestamp: tradeDetails.predictionTimestamp,
+        maxOracleDeviationPercent: tradeDetails.maxOracleDeviationPercent,
+      };
+      // Recorded server-side in the Trade Log entry, which is written before the order is sent
+      const log: TradeLogContext = {
+        predictionTopicId: tradeDetails.predictionTopicId,
+        predictionTimeframe: tradeDetails.predictionTimeframe,
+        predictionTimestamp: new Date(tradeDetails.predictionTimestamp),
+        predictedPrice: tradeDetails.predictedPrice,
+        confidenceIntervalValues: tradeDetails.confidenceIntervalValues ?? [],
+        confidenceIntervalPercentiles: tradeDetails.confidenceIntervalPercentiles ?? [],
+        templateId: tradeDetails.templateId,
+        stagingMarkPrice: tradeDetails.currentMarketPrice,
+      };
+
+      // Execute the trade. TP/SL brackets are submitted together with the entry as one grouped order.
+      const actionResult = hasBracket
+        ? await placeBracketOrderAction({
+          assetName: tradeDetails.assetName,
+          isBuy: tradeDetails.direction === "long",
+          size: tradeDetails.size,
+          leverage: tradeDetails.leverage,
+          limitPrice: tradeDetails.orderType === "market" ? undefined : tradeDetails.limitPrice,
+          tif: tradeDetails.orderType === "postOnly" ? "Alo" : "Gtc",
+          slippageBps: tradeDetails.slippageBps,
+          marginMode: tradeDetails.marginMode,
+          takeProfitPrice: tradeDetails.takeProfitPrice,
+          stopLossPrice: tradeDetails.stopLossPrice,
+          cloid,
+          guard,
+          log,
+        })
+        : tradeDetails.orderType === "market"
+        ? await placeMarketOrderAction({
+          assetName: tradeDetails.assetName,
+          isBuy: tradeDetails.direction === "long",
+          size: tradeDetails.size,
+          leverage: tradeDetails.leverage,
+          marginMode: tradeDetails.marginMode,
+          slippageBps: tradeDetails.slippageBps,
+          cloid,
+          guard,
+          log,
+        })
+        : await placeLimitOrderAction({
+          assetName: tradeDetails.assetName,
+          isBuy: tradeDetails.direction === "long",
+          size: tradeDetails.size,
+          limitPrice: tradeDetails.limitPrice ?? tradeDetails.currentMarketPrice,
+          tif: tradeDetails.orderType === "postOnly" ? "Alo" : "Gtc",
+          leverage: tradeDetails.leverage,
+          marginMode: tradeDetails.marginMode,
+          cloid,
+          guard,
+          log,
+        });
 
       console.log("[TradeModal] Trade execution result:", {
         success: actionResult.isSuccess,
@@ -146,22 +363,26 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
         error: actionResult.error
       });
 
-      // Update logging variables based on trade result
       if (actionResult.isSuccess) {
-        logStatus = actionResult.data.status; // 'filled' or 'resting'
-        logOrderId = String(actionResult.data.oid);
-        if (actionResult.data.status === 'filled' && actionResult.data.avgPx) {
-          logEntryPrice = parseFloat(actionResult.data.avgPx); // Use actual fill price if available
-        }
+        const orderStatus = actionResult.data.status; // 'filled' or 'resting'
         toast({
-          title: "Trade Submitted Successfully",
-          description: `Order Status: ${logStatus}. Order ID: ${logOrderId}`,
+          title: orderStatus === "resting" ? "Order Resting on Book" : "Trade Submitted Successfully",
+          description: `${actionResult.message} Order Status: ${orderStatus}. Order ID: ${actionResult.data.oid}`,
         });
         router.refresh(); // Refresh data (positions, balance, logs)
         onOpenChange(false); // Close modal on success
+      } else if (actionResult.error === DUPLICATE_CLOID_ERROR) {
+        // The first attempt is still pending or live: keep the cloid so retrying can never place a second order
+        router.refresh();
+        setErrorMsg(actionResult.message);
+        toast({
+          title: "Order Already Submitted",
+          description: actionResult.message,
+          variant: "destructive",
+        });
       } else {
-        logStatus = "failed";
-        logErrorMessage = actionResult.message; // Capture error message from ActionState
+        // The server answered, so another attempt is a new order with its own cloid
+        setCloid(generateCloid());
         setErrorMsg(actionResult.message); // Display error within the modal
         toast({
           title: "Trade Execution Failed",
@@ -170,61 +391,13 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
         });
       }
     } catch (error) {
+      // No answer from the server: keep the cloid so a retry cannot place the order twice
       console.error("[TradeModal] Error during trade execution:", error);
-      logStatus = "failed";
-      logErrorMessage = error instanceof Error ? error.message : "An unknown error occurred";
-      setErrorMsg(logErrorMessage);
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+      setErrorMsg(errorMessage);
       toast({
         title: "Trade Execution Failed",
-        description: logErrorMessage,
-        variant: "destructive",
-      });
-    }
-
-    // Log the trade attempt regardless of success/failure
-    // Moved outside the main try-catch to ensure it always executes
-    try {
-      console.log("[TradeModal] Preparing to log trade with data:", {
-        symbol: tradeDetails.symbol,
-        direction: tradeDetails.direction,
-        size: tradeDetails.size,
-        entryPrice: logEntryPrice,
-        status: logStatus,
-        hyperliquidOrderId: logOrderId,
-        errorMessage: logErrorMessage
-      });
-
-      const logData: Omit<TradeLogEntry, "id" | "timestamp"> = {
-        symbol: tradeDetails.symbol,
-        direction: tradeDetails.direction,
-        size: tradeDetails.size,
-        entryPrice: logEntryPrice,
-        status: logStatus,
-        hyperliquidOrderId: logOrderId,
-        errorMessage: logErrorMessage,
-      };
-
-      const logResult = await logTradeAction(logData);
-      console.log("[TradeModal] Trade log result:", {
-        success: logResult.isSuccess,
-        message: logResult.message,
-        error: logResult.error
-      });
-
-      if (!logResult.isSuccess) {
-        console.error("[TradeModal] Failed to log trade:", logResult.error);
-        // Show a secondary toast for log failure
-        toast({
-          title: "Warning: Trade Logging Failed",
-          description: "The trade was executed but could not be logged. Please check the logs.",
-          variant: "destructive",
-        });
-      }
-    } catch (logError) {
-      console.error("[TradeModal] Error during trade logging:", logError);
-      toast({
-        title: "Warning: Trade Logging Failed",
-        description: "The trade was executed but could not be logged. Please check the logs.",
+        description: errorMessage,
         variant: "destructive",
       });
     } finally {
@@ -232,9 +405,15 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
     }
   };
 
+
   if (!tradeDetails) return null; // Don't render if details aren't ready
 
-  const canConfirm = masterSwitchEnabled && !isExecuting;
+  const guardsFailed = guardResult !== null && !guardResult.passed;
+  const canConfirm = masterSwitchEnabled && !isExecuting && !isCheckingGuards && !guardsFailed;
+  const isLimitOrder = tradeDetails.orderType !== "market";
+  const isTaker = isTakerOrder(tradeDetails);
+  const feeRate = feeRates ? (isTaker ? feeRates.takerRate : feeRates.makerRate) : null;
+  const feePrice = isLimitOrder && tradeDetails.limitPrice !== undefined ? tradeDetails.limitPrice : tradeDetails.currentMarketPrice;
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
@@ -265,11 +444,11 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
           )}
           <div className="flex justify-between items-center">
             <span className="text-muted-foreground">Size:</span>
-            <span className="font-medium">{formatNumber(tradeDetails.size, 6)} {tradeDetails.symbol.split('-')[0]}</span>
+            <span className="font-medium">{formatNumber(tradeDetails.size, 6)} {tradeDetails.assetName}</span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-muted-foreground">Leverage Used:</span>
-            <span className="font-medium">{formatNumber(tradeDetails.leverage, 1)}x</span>
+            <span className="font-medium">{formatNumber(tradeDetails.leverage, 1)}x <span className="capitalize">{tradeDetails.marginMode}</span></span>
           </div>
 
           <Separator className="my-3" />
@@ -284,18 +463,122 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
           </div>
           <div className="flex justify-between items-center">
             <span className="text-muted-foreground">Est. Liq. Price:</span>
-            <span className="font-medium">{formatCurrency(tradeDetails.estimatedLiqPrice)}</span>
+            <span className="font-medium">
+              {tradeDetails.estimatedLiqPrice !== null ? formatCurrency(tradeDetails.estimatedLiqPrice) : "None"}
+            </span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-muted-foreground">Order Type:</span>
-            <span className="font-medium">Market (IOC Limit)</span>
+            <span className="font-medium">{ORDER_TYPE_LABELS[tradeDetails.orderType]}</span>
           </div>
+          {isLimitOrder ? (
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Limit Price:</span>
+              <span className="font-medium">{tradeDetails.priceLimit}</span>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Limit Price Boundary:</span>
+                <span className="font-medium text-xs">
+                  {tradeDetails.priceLimit}
+                  {tradeDetails.slippageBps !== undefined && ` (${formatNumber(tradeDetails.slippageBps / 100, 2)}% slippage)`}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Expected Avg. Fill:</span>
+                <span className="font-medium text-xs text-right">
+                  {!executionEstimate ? (
+                    "Estimating..."
+                  ) : executionEstimate.fill.avgPrice !== null ? (
+                    formatCurrency(executionEstimate.fill.avgPrice, { minimumFractionDigits: 2, maximumFractionDigits: 6 })
+                  ) : (
+                    "No liquidity within limit"
+                  )}
+                </span>
+              </div>
+              {executionEstimate && executionEstimate.fill.unfilledSize > 0 && (
+                <div className="text-xs text-orange-600 text-center py-1 px-2 rounded bg-orange-100 border border-orange-200">
+                  {formatNumber(executionEstimate.fill.unfilledSize, 6)} {tradeDetails.assetName} would not fill within the slippage limit
+                  (the unfilled part of the IOC order is cancelled).
+                </div>
+              )}
+              {executionEstimate && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Book Mid vs Oracle:</span>
+                  <span
+                    className={clsx(
+                      "font-medium text-xs",
+                      executionEstimate.oracleDeviationPercent !== null &&
+                        executionEstimate.oracleDeviationPercent > tradeDetails.maxOracleDeviationPercent &&
+                        "text-destructive",
+                    )}
+                  >
+                    {executionEstimate.oracleDeviationPercent !== null
+                      ? `${formatNumber(executionEstimate.oracleDeviationPercent, 3)}% (limit ${tradeDetails.maxOracleDeviationPercent}%)`
+                      : "Unavailable"}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+          {(tradeDetails.takeProfitPrice !== undefined || tradeDetails.stopLossPrice !== undefined) && (
+            <>
+              <Separator className="my-3" />
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Take-Profit:</span>
+                <span className="font-medium text-green-600">
+                  {tradeDetails.takeProfitPrice !== undefined ? formatCurrency(tradeDetails.takeProfitPrice) : "None"}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Stop-Loss:</span>
+                <span className="font-medium text-red-600">
+                  {tradeDetails.stopLossPrice !== undefined ? formatCurrency(tradeDetails.stopLossPrice) : "None"}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Risk / Reward:</span>
+                <span className="font-medium">
+                  {tradeDetails.riskRewardRatio !== undefined ? `1 : ${formatNumber(tradeDetails.riskRewardRatio, 2)}` : "N/A"}
+                </span>
+              </div>
+            </>
+          )}
           <div className="flex justify-between items-center">
-            <span className="text-muted-foreground">Limit Price Boundary:</span>
-            <span className="font-medium text-xs">{tradeDetails.priceLimit}</span>
+            <span className="text-muted-foreground">Expected Fee:</span>
+            <span className="font-medium text-xs text-right">
+              {feeRates && feeRate !== null ? (
+                <>
+                  {isTaker ? "Taker" : "Maker"} {formatNumber(feeRate * 100, 4)}% ({feeRates.tier})
+                  {" "}≈ {formatCurrency(feeRate * feePrice * tradeDetails.size, { minimumFractionDigits: 2, maximumFractionDigits: 4 })}
+                </>
+              ) : (
+                "Unavailable"
+              )}
+            </span>
           </div>
         </div>
 
+        {/* Pre-trade Safety Checks */}
+        {isCheckingGuards ? (
+          <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+            <LoadingSpinner className="h-3 w-3" /> Running pre-trade checks...
+          </div>
+        ) : guardsFailed && guardResult && (
+          <div className="mt-2 p-2 rounded-md bg-destructive/10 border border-destructive/30">
+            <div className="flex items-center gap-1 mb-1">
+              <ShieldAlert className="h-4 w-4 text-destructive" />
+              <span className="font-semibold text-destructive text-sm">Order blocked by pre-trade checks</span>
+            </div>
+            <ul className="list-disc pl-5 space-y-1 text-xs text-destructive/90">
+              {guardResult.reasons.map((reason) => (
+                <li key={reason.code}>{reason.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Display Execution Error */}
         {errorMsg && (
           <div className="mt-2 p-2 rounded-md bg-destructive/10 border border-destructive/30">
@@ -310,7 +593,9 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
             <span className="font-semibold text-destructive text-sm">Risk Warning</span>
           </div>
           <p className="text-xs text-destructive/90">
-            Trading perpetual futures involves significant risk and can result in losses exceeding your deposit. This order will be executed as a market order.
+            Trading perpetual futures involves significant risk and can result in losses exceeding your deposit. {isLimitOrder
+              ? "This limit order may rest on the book until it is filled or cancelled."
+              : "This order will be executed as a market order."}
           </p>
         </div>
 
@@ -330,10 +615,12 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
           >
             {isExecuting ? (
               <><LoadingSpinner className="mr-2 h-4 w-4 border-white" /> Executing...</>
-            ) : masterSwitchEnabled ? (
-              "Confirm & Execute Trade"
-            ) : (
+            ) : !masterSwitchEnabled ? (
               "Trading Disabled"
+            ) : guardsFailed ? (
+              "Blocked by Checks"
+            ) : (
+              "Confirm & Execute Trade"
             )}
           </Button>
         </DialogFooter>
@@ -0,0 +1,142 @@
+/**
+ * @description
+ * Custom React hook for reading the real-time Hyperliquid stream pushed by the server over Server-Sent Events
+ * (`/api/stream`): mid prices, clearinghouse state, open orders, fills and order status updates.
+ *
+ * @dependencies
+ * - react: Provides `useSyncExternalStore`, `useEffect` and `useRef`.
+ * - @/types: Provides the stream types.
+ *
+ * @notes
+ * - Every component in a tab shares one `EventSource`; it is closed when the last component using the hook unmounts.
+ * - `isLive` is true while the server's WebSocket is subscribed. Components should fall back to their REST polling
+ *   data when it is false (e.g. while reconnecting, or before the first update arrives).
+ * - `onFills` and `onOrderUpdates` are called for events received while the component is mounted; they are not replayed.
+ */
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import type {
+  HyperliquidFill,
+  HyperliquidOrderUpdate,
+  HyperliquidStreamEvent,
+  HyperliquidStreamState,
+} from "@/types";
+
+const INITIAL_STATE: HyperliquidStreamState = {
+  status: "idle",
+  mids: {},
+  accountInfo: null,
+  openOrders: null,
+  updatedAt: null,
+};
+
+// Stream shared by every hook instance in this tab
+let eventSource: EventSource | null = null;
+let streamState: HyperliquidStreamState = INITIAL_STATE;
+const stateListeners = new Set<() => void>();
+const eventListeners = new Set<(event: HyperliquidStreamEvent) => void>();
+
+function setStreamState(next: HyperliquidStreamState): void {
+  streamState = next;
+  stateListeners.forEach((listener) => listener());
+}
+
+/**
+ * Applies a server event to the shared state and forwards it to the event listeners.
+ */
+function handleStreamEvent(event: HyperliquidStreamEvent): void {
+  switch (event.type) {
+    case "state":
+      setStreamState(event.state);
+      break;
+    case "status":
+      setStreamState({ ...streamState, status: event.status });
+      break;
+    case "mids":
+      setStreamState({ ...streamState, mids: event.mids, updatedAt: Date.now() });
+      break;
+    case "account":
+      setStreamState({
+        ...streamState,
+        accountInfo: event.accountInfo,
+        openOrders: event.openOrders,
+        updatedAt: Date.now(),
+      });
+      break;
+    default:
+      break;
+  }
+  eventListeners.forEach((listener) => listener(event));
+}
+
+function openStream(): void {
+  if (eventSource) return;
+
+  eventSource = new EventSource("/api/stream");
+  eventSource.onmessage = (message: MessageEvent<string>) => {
+    try {
+      handleStreamEvent(JSON.parse(message.data) as HyperliquidStreamEvent);
+    } catch (error) {
+      console.error("[HyperliquidStream] Failed to parse stream message:", error);
+    }
+  };
+  // The browser reconnects automatically; the server resends the full state once it does
+  eventSource.onerror = () => {
+    if (streamState.status !== "disconnected") {
+      setStreamState({ ...streamState, status: "disconnected" });
+    }
+  };
+}
+
+function closeStreamIfUnused(): void {
+  if (stateListeners.size > 0 || !eventSource) return;
+  eventSource.close();
+  eventSource = null;
+  streamState = INITIAL_STATE;
+}
+
+function subscribeToState(listener: () => void): () => void {
+  stateListeners.add(listener);
+  openStream();
+  return () => {
+    stateListeners.delete(listener);
+    closeStreamIfUnused();
+  };
+}
+
+/**
+ * Options for `useHyperliquidStream`.
+ * @property {(fills: HyperliquidFill[]) => void} [onFills] - Called when new fills arrive.
+ * @property {(updates: HyperliquidOrderUpdate[]) => void} [onOrderUpdates] - Called when order statuses change.
+ */
+interface UseHyperliquidStreamOptions {
+  onFills?: (fills: HyperliquidFill[]) => void;
+  onOrderUpdates?: (updates: HyperliquidOrderUpdate[]) => void;
+}
+
+/**
+ * @description Custom hook to read the real-time Hyperliquid stream.
+ * @param {UseHyperliquidStreamOptions} [options] - Optional callbacks for fills and order status updates.
+ * @returns The latest streamed state, plus `isLive` (true while the server's WebSocket is subscribed).
+ */
+export function useHyperliquidStream(options: UseHyperliquidStreamOptions = {}) {
+  const state = useSyncExternalStore(subscribeToState, () => streamState, () => INITIAL_STATE);
+
+  // Keep the latest callbacks without resubscribing on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const listener = (event: HyperliquidStreamEvent) => {
+      if (event.type === "fills") optionsRef.current.onFills?.(event.fills);
+      if (event.type === "orderUpdates") optionsRef.current.onOrderUpdates?.(event.updates);
+    };
+    eventListeners.add(listener);
+    return () => {
+      eventListeners.delete(listener);
+    };
+  }, []);
+
+  return { ...state, isLive: state.status === "connected" };
+}
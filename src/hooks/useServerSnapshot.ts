@@ -0,0 +1,117 @@
+/**
+ * @description
+ * Custom React hook for reading one section of the server-side poller's snapshot (served by `/api/snapshot`).
+ * Returns the same shape as `usePeriodicFetcher`, so components can switch from calling Server Actions
+ * directly to reading the shared server cache without other changes.
+ *
+ * @dependencies
+ * - react: Provides `useCallback` and `useState`.
+ * - @/types: Provides the poller snapshot types.
+ * - @/hooks/usePeriodicFetcher: Drives the periodic cache reads, loading and error state.
+ * - @/lib/snapshot: Converts a cached section into an ActionState.
+ * - @/lib/constants: Provides the in-tab snapshot cache lifetime.
+ *
+ * @notes
+ * - Reading is cheap: the server polls Allora/Hyperliquid on its own schedule and this hook only reads the cache.
+ *   Hooks in the same tab share one snapshot request when they read within `SNAPSHOT_CLIENT_CACHE_MS` of each other.
+ * - Cached data stays visible when the server's latest poll failed: `error` then carries the poll error and
+ *   `updatedAt` tells when the data was last refreshed.
+ * - `refresh()` asks the server to poll the section's upstream API right away (e.g. after placing a trade)
+ *   before reading it again.
+ */
+"use client";
+
+import { useCallback, useState } from "react";
+import type { PollerSection, PollerSnapshot, PollerSnapshotData } from "@/types";
+import { usePeriodicFetcher } from "./usePeriodicFetcher";
+import { snapshotEntryToActionState } from "@/lib/snapshot";
+import { SNAPSHOT_CLIENT_CACHE_MS } from "@/lib/constants";
+
+// Snapshot request shared by every hook instance in this tab
+let sharedSnapshot: { fetchedAt: number; promise: Promise<PollerSnapshot> } | null = null;
+
+/**
+ * Parses a snapshot response, throwing on HTTP errors.
+ */
+async function parseSnapshotResponse(response: Response): Promise<PollerSnapshot> {
+  if (!response.ok) {
+    throw new Error(`Snapshot request failed with HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetches the snapshot, reusing a request made within the last `SNAPSHOT_CLIENT_CACHE_MS`.
+ */
+function fetchSnapshot(): Promise<PollerSnapshot> {
+  if (sharedSnapshot && Date.now() - sharedSnapshot.fetchedAt < SNAPSHOT_CLIENT_CACHE_MS) {
+    return sharedSnapshot.promise;
+  }
+
+  const promise = fetch("/api/snapshot", { cache: "no-store" }).then(parseSnapshotResponse);
+  const entry = { fetchedAt: Date.now(), promise };
+  sharedSnapshot = entry;
+  // Don't let other hooks reuse a failed request
+  promise.catch(() => {
+    if (sharedSnapshot === entry) sharedSnapshot = null;
+  });
+  return promise;
+}
+
+/**
+ * Asks the server to poll a section now and shares the resulting snapshot with the other hooks.
+ */
+async function requestSectionRefresh(section: PollerSection): Promise<void> {
+  try {
+    const response = await fetch("/api/snapshot", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ section }),
+      cache: "no-store",
+    });
+    const snapshot = await parseSnapshotResponse(response);
+    sharedSnapshot = { fetchedAt: Date.now(), promise: Promise.resolve(snapshot) };
+  } catch (error) {
+    console.error(`Failed to request a server refresh of '${section}':`, error);
+  }
+}
+
+/**
+ * @description Custom hook to periodically read a section of the server-side snapshot.
+ * @template K The snapshot section.
+ * @param {K} section - The section to read (e.g. 'positions').
+ * @param {number | null} intervalMs - How often to re-read the cache, in milliseconds. Null or 0 reads only once.
+ * @param {PollerSnapshotData[K] | null} [initialData] - Optional initial data to use before the first read completes.
+ * @returns The section's data, loading state, error state (a failed snapshot read or the server's latest poll error),
+ *   when the data was last fetched by the server (`updatedAt`, ms since epoch), and a refresh function that forces a
+ *   server poll.
+ */
+export function useServerSnapshot<K extends PollerSection>(
+  section: K,
+  intervalMs: number | null,
+  initialData?: PollerSnapshotData[K] | null,
+) {
+  const [pollStatus, setPollStatus] = useState<{ error: string | null; updatedAt: number | null }>({
+    error: null,
+    updatedAt: null,
+  });
+
+  const readSection = useCallback(async () => {
+    const entry = (await fetchSnapshot()).sections[section];
+    setPollStatus({ error: entry.error, updatedAt: entry.updatedAt });
+    return snapshotEntryToActionState(entry);
+  }, [section]);
+
+  const { data, isLoading, error: readError, refresh: reread } = usePeriodicFetcher(
+    readSection,
+    intervalMs,
+    initialData ?? undefined,
+  );
+
+  const refresh = useCallback(async () => {
+    await requestSectionRefresh(section);
+    await reread();
+  }, [section, reread]);
+
+  return { data, isLoading, error: readError ?? pollStatus.error, updatedAt: pollStatus.updatedAt, refresh };
+}
@@ -0,0 +1,57 @@
+/**
+ * @description
+ * Custom React hook listing the perp assets that can be traded, for the asset pickers.
+ * Loads the coin names from the asset registry through `fetchTradeableAssetsAction` and reloads them as often as the
+ * server-side registry cache expires.
+ *
+ * @dependencies
+ * - @/hooks/usePeriodicFetcher: Drives the fetch, loading and error state.
+ * - @/actions/hyperliquid-actions: Server Action listing the tradeable assets.
+ * - @/lib/constants: Provides the registry cache lifetime.
+ *
+ * @notes
+ * - `assets` is empty until the first load completes (or if it fails). Pickers should keep showing their current
+ *   value meanwhile, e.g. with `withSelectedAsset`.
+ * - Delisted assets are not included.
+ */
+"use client";
+
+import { usePeriodicFetcher } from "./usePeriodicFetcher";
+import { fetchTradeableAssetsAction } from "@/actions/hyperliquid-actions";
+import { ASSET_REGISTRY_TTL_MS } from "@/lib/constants";
+
+// Stable empty list, so effects depending on `assets` don't re-run on every render while loading
+const NO_ASSETS: string[] = [];
+
+/**
+ * @description Return type for the useTradeableAssets hook.
+ * @property {string[]} assets - Coin names of the tradeable perp assets (e.g., "BTC"), in universe order.
+ * @property {boolean} isLoading - True while the list is being fetched.
+ * @property {string | null} error - An error message if the last fetch failed, otherwise null.
+ */
+interface UseTradeableAssetsResult {
+  assets: string[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Lists the tradeable perp assets.
+ * @returns {UseTradeableAssetsResult} The coin names and the fetch state.
+ */
+export function useTradeableAssets(): UseTradeableAssetsResult {
+  const { data, isLoading, error } = usePeriodicFetcher(fetchTradeableAssetsAction, ASSET_REGISTRY_TTL_MS);
+  return { assets: data ?? NO_ASSETS, isLoading, error };
+}
+
+/**
+ * Returns the asset options for a picker, adding the selected asset if it is not listed (yet), so the picker can
+ * still display it.
+ *
+ * @param {string[]} assets - The tradeable assets.
+ * @param {string} selectedAsset - The picker's current value. Ignored if empty.
+ * @returns {string[]} The options.
+ */
+export function withSelectedAsset(assets: string[], selectedAsset: string): string[] {
+  return selectedAsset && !assets.includes(selectedAsset) ? [selectedAsset, ...assets] : assets;
+}
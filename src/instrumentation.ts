@@ -0,0 +1,16 @@
+/**
+ * @description
+ * Next.js instrumentation hook, run once when the server starts.
+ * Starts the server-side background poller (see `@/lib/poller`) in the Node.js runtime.
+ *
+ * @notes
+ * - Set `DISABLE_SERVER_POLLER=true` to skip starting it on boot; `/api/snapshot` still starts it on first use.
+ */
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.DISABLE_SERVER_POLLER === "true") {
+    return;
+  }
+
+  const { startPoller } = await import("@/lib/poller");
+  await startPoller();
+}
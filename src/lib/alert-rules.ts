@@ -0,0 +1,157 @@
+/**
+ * @description
+ * This library file provides pure functions for validating and evaluating contradiction alert rules.
+ * A rule raises an alert for an open position when the latest matching prediction for the same coin
+ * points against the position by more than the rule's threshold.
+ *
+ * @dependencies
+ * - @/types: Provides the alert rule, position and prediction snapshot types.
+ * - @/lib/formatting: For formatting prices in alert reasons.
+ *
+ * @notes
+ * - "Against the position" means below the reference price for a long and above it for a short.
+ * - Confidence interval thresholds use half the width between the outermost interval values.
+ */
+
+import type {
+  AlertPositionSnapshot,
+  AlertPredictionSnapshot,
+  AlertReferencePrice,
+  AlertRuleInput,
+  PositionAlert,
+} from "@/types";
+import { formatCurrency, formatNumber } from "./formatting";
+
+const THRESHOLD_TYPES = ["percent", "confidenceInterval"];
+const REFERENCE_PRICES = ["entry", "mark"];
+
+/**
+ * Validates the fields of an alert rule.
+ *
+ * @param {Partial<AlertRuleInput>} rule - The rule fields to validate. Only provided fields are checked.
+ * @returns {string | null} A description of the problem, or null if the fields are valid.
+ */
+export function getAlertRuleError(rule: Partial<AlertRuleInput>): string | null {
+  if (rule.name !== undefined && (typeof rule.name !== "string" || rule.name.trim() === "")) {
+    return "Rule name is required.";
+  }
+  if (rule.thresholdType !== undefined && !THRESHOLD_TYPES.includes(rule.thresholdType)) {
+    return "Threshold type must be 'percent' or 'confidenceInterval'.";
+  }
+  if (rule.thresholdValue !== undefined && (typeof rule.thresholdValue !== "number" || isNaN(rule.thresholdValue) || rule.thresholdValue < 0)) {
+    return "Threshold must be zero or a positive number.";
+  }
+  if (
+    rule.maxPredictionAgeMinutes !== undefined &&
+    rule.maxPredictionAgeMinutes !== null &&
+    (!Number.isInteger(rule.maxPredictionAgeMinutes) || rule.maxPredictionAgeMinutes <= 0)
+  ) {
+    return "Maximum prediction age must be a positive whole number of minutes.";
+  }
+  if (rule.compareTo !== undefined && !REFERENCE_PRICES.includes(rule.compareTo)) {
+    return "Comparison price must be 'entry' or 'mark'.";
+  }
+  return null;
+}
+
+/**
+ * Returns the latest prediction matching a rule for a coin, or null if none is fresh enough.
+ */
+function findRulePrediction(
+  rule: AlertRuleInput,
+  assetName: string,
+  predictions: AlertPredictionSnapshot[],
+  now: number,
+): AlertPredictionSnapshot | null {
+  const maxAgeMs = rule.maxPredictionAgeMinutes !== null ? rule.maxPredictionAgeMinutes * 60 * 1000 : null;
+  let latest: AlertPredictionSnapshot | null = null;
+  for (const prediction of predictions) {
+    if (prediction.token !== assetName) continue;
+    if (rule.timeframe && prediction.timeframe !== rule.timeframe) continue;
+    if (maxAgeMs !== null && now - prediction.timestamp > maxAgeMs) continue;
+    if (!latest || prediction.timestamp > latest.timestamp) latest = prediction;
+  }
+  return latest;
+}
+
+/**
+ * Evaluates alert rules against open positions.
+ *
+ * @param {(AlertRuleInput & { id?: string })[]} rules - The rules to evaluate. Disabled rules are skipped.
+ * @param {AlertPositionSnapshot[]} positions - The open positions.
+ * @param {AlertPredictionSnapshot[]} predictions - Recent predictions for any coin and timeframe.
+ * @param {number} now - The current time (ms since epoch), used for the freshness check.
+ * @returns {PositionAlert[]} One alert per triggered rule and position.
+ */
+export function evaluateAlertRules(
+  rules: (AlertRuleInput & { id?: string })[],
+  positions: AlertPositionSnapshot[],
+  predictions: AlertPredictionSnapshot[],
+  now: number,
+): PositionAlert[] {
+  const alerts: PositionAlert[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    for (const position of positions) {
+      if (rule.assetName && rule.assetName !== position.assetName) continue;
+
+      const prediction = findRulePrediction(rule, position.assetName, predictions, now);
+      if (!prediction) continue;
+
+      const compareTo: AlertReferencePrice = rule.compareTo === "mark" ? "mark" : "entry";
+      const referencePrice = compareTo === "mark" ? position.markPrice : position.entryPrice;
+      if (referencePrice === null || !(referencePrice > 0)) continue;
+
+      // Positive when the prediction points against the position
+      const adverseMove = position.isLong ? referencePrice - prediction.price : prediction.price - referencePrice;
+      const side = position.isLong ? "below" : "above";
+
+      let thresholdDescription: string;
+      let moveDescription: string;
+      if (rule.thresholdType === "confidenceInterval") {
+        if (prediction.confidenceIntervalValues.length < 2) continue;
+        const halfWidth =
+          (Math.max(...prediction.confidenceIntervalValues) - Math.min(...prediction.confidenceIntervalValues)) / 2;
+        if (!(halfWidth > 0) || adverseMove <= rule.thresholdValue * halfWidth) continue;
+        moveDescription = `${formatNumber(adverseMove / halfWidth, 2)} confidence half-widths`;
+        thresholdDescription = `> ${formatNumber(rule.thresholdValue, 2)} half-widths`;
+      } else {
+        const adversePercent = (adverseMove / referencePrice) * 100;
+        if (adversePercent <= rule.thresholdValue) continue;
+        moveDescription = `${formatNumber(adversePercent, 2)}%`;
+        thresholdDescription = `> ${formatNumber(rule.thresholdValue, 2)}%`;
+      }
+
+      alerts.push({
+        assetName: position.assetName,
+        ruleId: rule.id ?? "",
+        ruleName: rule.name,
+        timeframe: prediction.timeframe,
+        predictedPrice: prediction.price,
+        predictionTimestamp: prediction.timestamp,
+        referencePrice,
+        compareTo,
+        reason:
+          `${prediction.timeframe} prediction ${formatCurrency(prediction.price)} is ${moveDescription} ${side} ` +
+          `${compareTo} price ${formatCurrency(referencePrice)} for this ${position.isLong ? "long" : "short"} ` +
+          `(rule "${rule.name}": ${thresholdDescription}).`,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Returns how far a position's mark price is from its liquidation price, as a percentage of the mark price.
+ *
+ * @param {AlertPositionSnapshot} position - The open position.
+ * @returns {number | null} The distance in percent, or null if the mark or liquidation price is unknown.
+ */
+export function getLiquidationDistancePercent(position: AlertPositionSnapshot): number | null {
+  if (position.markPrice === null || !(position.markPrice > 0)) return null;
+  if (position.liquidationPrice === null || !(position.liquidationPrice > 0)) return null;
+  return (Math.abs(position.markPrice - position.liquidationPrice) / position.markPrice) * 100;
+}
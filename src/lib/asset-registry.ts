@@ -0,0 +1,121 @@
+/**
+ * @description
+ * Registry of Hyperliquid perpetual assets. Loads the perp universe (`meta`) once per network, caches it for
+ * `ASSET_REGISTRY_TTL_MS`, and resolves assets by name or index with their trading limits
+ * (size decimals, maximum leverage, margin tiers, isolated-only flag).
+ *
+ * @dependencies
+ * - @/lib/hyperliquid-client: Provides the public client and the configured network.
+ * - @/lib/constants: Provides the cache lifetime.
+ * - @/types: Provides HyperliquidPerpAsset.
+ *
+ * @notes
+ * - Asset indices are positions in the universe and differ between mainnet and testnet, so each network has its own cache.
+ * - Concurrent lookups while the universe is loading share a single request.
+ * - A failed load is not cached; the next lookup retries.
+ * - Margin tiers come from the `marginTables` field of the `meta` response, which the SDK does not type.
+ * - Only import this file from server-side code.
+ */
+
+import type { HyperliquidMarginTier, HyperliquidPerpAsset } from "@/types";
+import { setupClients } from "./hyperliquid-client";
+import { ASSET_REGISTRY_TTL_MS } from "./constants";
+
+type HyperliquidNetwork = "mainnet" | "testnet";
+
+interface AssetRegistryEntry {
+  loadedAt: number;
+  assets: Promise<HyperliquidPerpAsset[]>;
+}
+
+/** Margin tables as returned by `meta`: `[marginTableId, table]` pairs. */
+type RawMarginTables = Array<[number, { marginTiers?: Array<{ lowerBound: string; maxLeverage: number }> }]>;
+
+const registry = new Map<HyperliquidNetwork, AssetRegistryEntry>();
+
+function getNetwork(): HyperliquidNetwork {
+  return process.env.HYPERLIQUID_USE_TESTNET === "true" ? "testnet" : "mainnet";
+}
+
+/**
+ * Maps each margin table ID to its tiers, sorted by lower bound.
+ */
+function parseMarginTables(rawTables: RawMarginTables | undefined): Map<number, HyperliquidMarginTier[]> {
+  const tables = new Map<number, HyperliquidMarginTier[]>();
+  for (const [id, table] of rawTables ?? []) {
+    const tiers = (table.marginTiers ?? [])
+      .map((tier) => ({ lowerBound: parseFloat(tier.lowerBound), maxLeverage: tier.maxLeverage }))
+      .filter((tier) => Number.isFinite(tier.lowerBound))
+      .sort((a, b) => a.lowerBound - b.lowerBound);
+    tables.set(id, tiers);
+  }
+  return tables;
+}
+
+/**
+ * Fetches the perp universe from Hyperliquid.
+ */
+async function loadPerpAssets(): Promise<HyperliquidPerpAsset[]> {
+  const { publicClient } = setupClients();
+  const meta = await publicClient.meta();
+  const marginTables = parseMarginTables((meta as { marginTables?: RawMarginTables }).marginTables);
+  console.log(`[AssetRegistry] ✅ Loaded ${meta.universe.length} perp assets (${getNetwork()})`);
+  return meta.universe.map((asset, index) => ({
+    name: asset.name,
+    index,
+    szDecimals: asset.szDecimals,
+    maxLeverage: asset.maxLeverage,
+    onlyIsolated: asset.onlyIsolated === true,
+    isDelisted: asset.isDelisted === true,
+    marginTiers: marginTables.get(asset.marginTableId) ?? [],
+  }));
+}
+
+/**
+ * Returns every perp asset of the configured network, loading the universe if the cache is empty or expired.
+ *
+ * @param {boolean} [forceRefresh=false] - Reload the universe even if the cache is still fresh.
+ * @returns {Promise<HyperliquidPerpAsset[]>} The perp universe, in index order (delisted assets included).
+ * @throws {Error} If the universe cannot be fetched.
+ */
+export async function getPerpAssets(forceRefresh: boolean = false): Promise<HyperliquidPerpAsset[]> {
+  const network = getNetwork();
+  const cached = registry.get(network);
+  if (cached && !forceRefresh && Date.now() - cached.loadedAt < ASSET_REGISTRY_TTL_MS) {
+    return cached.assets;
+  }
+
+  const entry: AssetRegistryEntry = { loadedAt: Date.now(), assets: loadPerpAssets() };
+  registry.set(network, entry);
+  entry.assets.catch(() => {
+    if (registry.get(network) === entry) registry.delete(network);
+  });
+  return entry.assets;
+}
+
+/**
+ * Looks up a perp asset by coin name.
+ * An exact match is preferred (names like "kPEPE" are case-sensitive), then a case-insensitive one.
+ *
+ * @param {string} name - The coin name (e.g., "ETH").
+ * @returns {Promise<HyperliquidPerpAsset | null>} The asset, or null if it is not listed.
+ */
+export async function getPerpAssetByName(name: string): Promise<HyperliquidPerpAsset | null> {
+  const assets = await getPerpAssets();
+  return (
+    assets.find((asset) => asset.name === name) ??
+    assets.find((asset) => asset.name.toUpperCase() === name.toUpperCase()) ??
+    null
+  );
+}
+
+/**
+ * Looks up a perp asset by its index in the universe.
+ *
+ * @param {number} index - The asset index used in order payloads.
+ * @returns {Promise<HyperliquidPerpAsset | null>} The asset, or null if the index is out of range.
+ */
+export async function getPerpAssetByIndex(index: number): Promise<HyperliquidPerpAsset | null> {
+  const assets = await getPerpAssets();
+  return assets[index] ?? null;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import type { BacktestCandle, BacktestConfig, BacktestPrediction } from "@/types";
+import { calculateMaxDrawdown, calculateSharpeRatio, runBacktest } from "./backtest";
+
+const T0 = Date.UTC(2024, 0, 1);
+const MINUTE = 60 * 1000;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** Recorded 1-minute candles from T0, one per open price, with the given lows (default: open - 1). */
+function makeCandles(opens: number[], lows: Record<number, number> = {}): BacktestCandle[] {
+  return opens.map((open, minute) => ({
+    time: T0 + minute * MINUTE,
+    open,
+    high: open + 1,
+    low: lows[minute] ?? open - 1,
+    close: opens[minute + 1] ?? open,
+  }));
+}
+
+function makePrediction(entryMs: number, targetMs: number, predictedPrice: number): BacktestPrediction {
+  return { timestamp: T0 + entryMs, targetTime: T0 + targetMs, predictedPrice };
+}
+
+function makeConfig(overrides: Partial<BacktestConfig>): BacktestConfig {
+  return {
+    size: 1,
+    leverage: 2,
+    initialEquity: 1000,
+    feeRate: 0,
+    slippageBps: 0,
+    minEdgePercent: 0,
+    maxLeverage: 50,
+    marginTiers: [],
+    ...overrides,
+  };
+}
+
+describe("runBacktest", () => {
+  const candles = makeCandles([100, 101, 102, 103, 103, 100, 98, 98]);
+  const predictions = [
+    makePrediction(30 * 1000, 3 * MINUTE + 10 * 1000, 110), // long from 100 to 103
+    makePrediction(2 * MINUTE, 5 * MINUTE, 120), // made while the first trade is open
+    makePrediction(4 * MINUTE, 6 * MINUTE, 90), // short from 103 to 98
+    makePrediction(7 * MINUTE, 7 * MINUTE + 30 * 1000, 98), // target in the entry candle
+    makePrediction(7 * MINUTE, 20 * MINUTE, 120), // target candle not recorded
+  ];
+  const config = makeConfig({ feeRate: 0.001, slippageBps: 10 });
+
+  it("enters at the prediction candle's open and exits at the target candle's open, with slippage and fees", () => {
+    const result = runBacktest(predictions, candles, config);
+
+    expect(result.trades).toHaveLength(2);
+    const [long, short] = result.trades;
+
+    expect(long.direction).toBe("long");
+    expect(long.entryTime).toBe(T0 + 30 * 1000);
+    expect(long.exitTime).toBe(T0 + 3 * MINUTE + 10 * 1000);
+    expect(long.entryPrice).toBeCloseTo(100.1, 10);
+    expect(long.exitPrice).toBeCloseTo(102.897, 10);
+    expect(long.fees).toBeCloseTo(0.202997, 10);
+    expect(long.pnl).toBeCloseTo(2.594003, 10);
+    expect(long.exitReason).toBe("horizon");
+
+    expect(short.direction).toBe("short");
+    expect(short.entryPrice).toBeCloseTo(102.897, 10);
+    expect(short.exitPrice).toBeCloseTo(98.098, 10);
+    expect(short.pnl).toBeCloseTo(4.598005, 10);
+    expect(short.equityAfter).toBeCloseTo(1007.192008, 10);
+
+    expect(result.skippedPredictions).toBe(3);
+    expect(result.finalEquity).toBeCloseTo(1007.192008, 10);
+    expect(result.totalReturn).toBeCloseTo(0.007192008, 10);
+    expect(result.totalFees).toBeCloseTo(0.403992, 10);
+    expect(result.winRate).toBe(1);
+    expect(result.maxDrawdown).toBe(0);
+  });
+
+  it("annualizes the Sharpe ratio of per-trade returns over the average holding period", () => {
+    const result = runBacktest(predictions, candles, config);
+
+    const returns = [2.594003 / 1000, 4.598005 / 1002.594003];
+    const mean = (returns[0] + returns[1]) / 2;
+    const stdDev = Math.sqrt(((returns[0] - mean) ** 2 + (returns[1] - mean) ** 2) / 1);
+    const averageHoldingMs = (160 * 1000 + 120 * 1000) / 2;
+    expect(result.sharpeRatio).toBeCloseTo((mean / stdDev) * Math.sqrt(YEAR_MS / averageHoldingMs), 6);
+  });
+
+  it("skips predictions below the minimum edge", () => {
+    const result = runBacktest(predictions, candles, { ...config, minEdgePercent: 20 });
+    expect(result.trades).toHaveLength(0);
+    expect(result.sharpeRatio).toBeNull();
+    expect(result.winRate).toBeNull();
+  });
+
+  it("liquidates at the maintenance margin liquidation price used for live trades", () => {
+    // 20x long at 100 with 50x max leverage: mmf 1%, liquidation at 100 * (1 - 1/20) / (1 - 0.01)
+    const liquidationPrice = (100 * 0.95) / 0.99;
+    const result = runBacktest(
+      [makePrediction(0, 2 * MINUTE, 110)],
+      makeCandles([100, 99, 97], { 1: 95.5 }),
+      makeConfig({ leverage: 20 }),
+    );
+
+    const [trade] = result.trades;
+    expect(trade.exitReason).toBe("liquidation");
+    expect(trade.exitPrice).toBeCloseTo(liquidationPrice, 10);
+    expect(trade.exitTime).toBe(T0 + MINUTE);
+    expect(trade.pnl).toBeCloseTo(liquidationPrice - 100, 10);
+    expect(result.maxDrawdown).toBeCloseTo((100 - liquidationPrice) / 1000, 10);
+  });
+
+  it("uses the margin tier of the position notional", () => {
+    // 20 units at 100 = $2000 notional falls in the 10x tier: mmf 5%, liquidation at 100 * (1 - 1/5) / 0.95
+    const longPrediction = [makePrediction(0, 2 * MINUTE, 110)];
+    const dippingCandles = makeCandles([100, 95, 97], { 1: 84 });
+    const tiered = runBacktest(longPrediction, dippingCandles, makeConfig({
+      size: 20,
+      leverage: 5,
+      marginTiers: [{ lowerBound: 0, maxLeverage: 50 }, { lowerBound: 1000, maxLeverage: 10 }],
+    }));
+    expect(tiered.trades[0].exitReason).toBe("liquidation");
+    expect(tiered.trades[0].exitPrice).toBeCloseTo(80 / 0.95, 10);
+
+    // Without tiers the 50x maximum applies (mmf 1%, liquidation near 80.81) and the trade survives
+    const untiered = runBacktest(longPrediction, dippingCandles, makeConfig({ size: 20, leverage: 5 }));
+    expect(untiered.trades[0].exitReason).toBe("horizon");
+    expect(untiered.trades[0].pnl).toBeCloseTo(-60, 10);
+  });
+
+  it("skips trades whose margin exceeds the equity", () => {
+    const result = runBacktest(predictions, candles, { ...config, initialEquity: 40 });
+    expect(result.trades).toHaveLength(0);
+    expect(result.skippedPredictions).toBe(predictions.length);
+  });
+});
+
+describe("calculateSharpeRatio", () => {
+  it("needs at least two returns with some volatility", () => {
+    expect(calculateSharpeRatio([0.01], 365)).toBeNull();
+    expect(calculateSharpeRatio([0.01, 0.01], 365)).toBeNull();
+    expect(calculateSharpeRatio([0.01, 0.03], 4)).toBeCloseTo((0.02 / Math.SQRT2 / 0.01) * 2, 10);
+  });
+});
+
+describe("calculateMaxDrawdown", () => {
+  it("returns the largest drawdown of the curve", () => {
+    expect(calculateMaxDrawdown([
+      { time: 0, equity: 100, drawdown: 0 },
+      { time: 1, equity: 80, drawdown: 0.2 },
+      { time: 2, equity: 90, drawdown: 0.1 },
+    ])).toBe(0.2);
+  });
+});
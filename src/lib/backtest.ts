@@ -0,0 +1,219 @@
+/**
+ * @description
+ * This library file provides a pure backtesting engine that replays stored Allora predictions
+ * against recorded Hyperliquid candles. It has no network or database access, so a run is fully
+ * reproducible from recorded data.
+ *
+ * Simulation rules:
+ * - One position at a time. Predictions are processed in time order; a prediction made while a
+ *   trade is still open is skipped.
+ * - Entry at the open of the 1-minute candle containing the prediction time. The direction comes
+ *   from `suggestTradeDirection(predictedPrice, entryCandleOpen)`.
+ * - Exit at the open of the candle containing the prediction's target time.
+ * - Slippage is applied against the trade on entry and exit; fees are charged on both notionals.
+ * - If a candle's low (long) or high (short) crosses the liquidation price before the target time,
+ *   the trade is closed at the liquidation price.
+ *
+ * @dependencies
+ * - @/types: Provides the backtest type definitions.
+ * - @/lib/trading-calcs: Direction and margin estimates shared with the trade panel.
+ * - @/lib/liquidation: Liquidation prices with the asset's maintenance margin tiers, as used for live trades.
+ *
+ * @notes
+ * - Each trade is simulated as a new isolated position backed only by its own margin.
+ * - The Sharpe ratio is computed from per-trade returns and annualized using the average holding period.
+ */
+
+import type {
+  BacktestCandle,
+  BacktestConfig,
+  BacktestEquityPoint,
+  BacktestPrediction,
+  BacktestResult,
+  BacktestTrade,
+} from "@/types";
+import { calculateEstimatedMargin, suggestTradeDirection } from "./trading-calcs";
+import { calculateLiquidationPrice } from "./liquidation";
+
+const CANDLE_INTERVAL_MS = 60 * 1000;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the index of the candle containing the given time, or -1 if it was not recorded.
+ * Expects candles sorted by time ascending.
+ */
+function findCandleIndex(candles: BacktestCandle[], time: number): number {
+  const minuteStart = Math.floor(time / CANDLE_INTERVAL_MS) * CANDLE_INTERVAL_MS;
+  let low = 0;
+  let high = candles.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (candles[mid].time === minuteStart) return mid;
+    if (candles[mid].time < minuteStart) low = mid + 1;
+    else high = mid - 1;
+  }
+  return -1;
+}
+
+/**
+ * Applies slippage against the trader: buys fill higher, sells fill lower.
+ */
+function applySlippage(price: number, isBuy: boolean, slippageBps: number): number {
+  const slippage = slippageBps / 10000;
+  return isBuy ? price * (1 + slippage) : price * (1 - slippage);
+}
+
+/**
+ * Calculates the largest peak-to-trough drawdown of an equity curve, as a fraction.
+ *
+ * @param {BacktestEquityPoint[]} equityCurve - The equity curve.
+ * @returns {number} The maximum drawdown (0 for a curve that never declines).
+ */
+export function calculateMaxDrawdown(equityCurve: BacktestEquityPoint[]): number {
+  return equityCurve.reduce((max, point) => Math.max(max, point.drawdown), 0);
+}
+
+/**
+ * Calculates the annualized Sharpe ratio of a series of per-period returns (risk-free rate 0).
+ *
+ * @param {number[]} returns - Per-period returns as fractions.
+ * @param {number} periodsPerYear - Number of periods per year used for annualization.
+ * @returns {number | null} The Sharpe ratio, or null with fewer than 2 returns or zero volatility.
+ */
+export function calculateSharpeRatio(returns: number[], periodsPerYear: number): number | null {
+  if (returns.length < 2 || !(periodsPerYear > 0)) return null;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+  if (stdDev === 0) return null;
+  return (mean / stdDev) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Runs a backtest of the prediction-following strategy.
+ *
+ * @param {BacktestPrediction[]} predictions - Stored predictions of a single timeframe.
+ * @param {BacktestCandle[]} candles - Recorded 1-minute candles covering the predictions' entry and target times.
+ * @param {BacktestConfig} config - Sizing, cost and entry filter parameters.
+ * @returns {BacktestResult} The trade list, equity curve and summary statistics.
+ */
+export function runBacktest(
+  predictions: BacktestPrediction[],
+  candles: BacktestCandle[],
+  config: BacktestConfig,
+): BacktestResult {
+  const sortedCandles = [...candles].sort((a, b) => a.time - b.time);
+  const sortedPredictions = [...predictions].sort((a, b) => a.timestamp - b.timestamp);
+
+  const trades: BacktestTrade[] = [];
+  const returns: number[] = [];
+  const equityCurve: BacktestEquityPoint[] = [];
+  let equity = config.initialEquity;
+  let peakEquity = equity;
+  let totalFees = 0;
+  let skippedPredictions = 0;
+  let busyUntil = -Infinity;
+
+  if (sortedPredictions.length > 0) {
+    equityCurve.push({ time: sortedPredictions[0].timestamp, equity, drawdown: 0 });
+  }
+
+  for (const prediction of sortedPredictions) {
+    if (prediction.timestamp < busyUntil || equity <= 0) {
+      skippedPredictions++;
+      continue;
+    }
+
+    const entryIndex = findCandleIndex(sortedCandles, prediction.timestamp);
+    const exitIndex = findCandleIndex(sortedCandles, prediction.targetTime);
+    if (entryIndex === -1 || exitIndex === -1 || exitIndex <= entryIndex) {
+      skippedPredictions++;
+      continue;
+    }
+
+    const marketPrice = sortedCandles[entryIndex].open;
+    const direction = suggestTradeDirection(prediction.predictedPrice, marketPrice);
+    const edgePercent = (Math.abs(prediction.predictedPrice - marketPrice) / marketPrice) * 100;
+    if (!direction || edgePercent < config.minEdgePercent) {
+      skippedPredictions++;
+      continue;
+    }
+
+    const isLong = direction === "long";
+    const entryPrice = applySlippage(marketPrice, isLong, config.slippageBps);
+    const margin = calculateEstimatedMargin(entryPrice, config.size, config.leverage);
+    if (margin <= 0 || margin > equity) {
+      skippedPredictions++;
+      continue;
+    }
+    const liquidationPrice = calculateLiquidationPrice({
+      assetName: "",
+      clearinghouseState: null,
+      markPrice: marketPrice,
+      maxLeverage: config.maxLeverage,
+      marginTiers: config.marginTiers,
+      marginMode: "isolated",
+      trade: { direction, size: config.size, price: entryPrice, leverage: config.leverage },
+    })?.liquidationPrice ?? null;
+
+    // Walk the candles while the trade is open and check for liquidation
+    let exitPrice = applySlippage(sortedCandles[exitIndex].open, !isLong, config.slippageBps);
+    let exitTime = prediction.targetTime;
+    let exitReason: BacktestTrade["exitReason"] = "horizon";
+    for (let i = entryIndex; i < exitIndex; i++) {
+      const candle = sortedCandles[i];
+      if (liquidationPrice !== null && (isLong ? candle.low <= liquidationPrice : candle.high >= liquidationPrice)) {
+        exitPrice = liquidationPrice;
+        exitTime = candle.time;
+        exitReason = "liquidation";
+        break;
+      }
+    }
+
+    const fees = (entryPrice + exitPrice) * config.size * config.feeRate;
+    const grossPnl = (isLong ? exitPrice - entryPrice : entryPrice - exitPrice) * config.size;
+    const pnl = grossPnl - fees;
+
+    returns.push(pnl / equity);
+    equity += pnl;
+    totalFees += fees;
+    peakEquity = Math.max(peakEquity, equity);
+    busyUntil = exitTime;
+
+    trades.push({
+      entryTime: prediction.timestamp,
+      exitTime,
+      direction,
+      predictedPrice: prediction.predictedPrice,
+      entryPrice,
+      exitPrice,
+      size: config.size,
+      fees,
+      pnl,
+      exitReason,
+      equityAfter: equity,
+    });
+    equityCurve.push({
+      time: exitTime,
+      equity,
+      drawdown: peakEquity > 0 ? (peakEquity - equity) / peakEquity : 0,
+    });
+  }
+
+  const averageHoldingMs =
+    trades.length > 0
+      ? trades.reduce((sum, t) => sum + (t.exitTime - t.entryTime), 0) / trades.length
+      : 0;
+
+  return {
+    trades,
+    equityCurve,
+    finalEquity: equity,
+    totalReturn: config.initialEquity > 0 ? (equity - config.initialEquity) / config.initialEquity : 0,
+    maxDrawdown: calculateMaxDrawdown(equityCurve),
+    sharpeRatio: calculateSharpeRatio(returns, averageHoldingMs > 0 ? YEAR_MS / averageHoldingMs : 0),
+    winRate: trades.length > 0 ? trades.filter((t) => t.pnl > 0).length / trades.length : null,
+    totalFees,
+    skippedPredictions,
+  };
+}
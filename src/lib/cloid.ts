@@ -0,0 +1,45 @@
+/**
+ * @description
+ * Client order IDs (cloids) for Hyperliquid orders. A cloid is a 128-bit hex string ("0x" followed by 32 hex digits)
+ * chosen by the client and echoed back by Hyperliquid, which lets an order be identified before its `oid` is known.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - Works in the browser and on the server (both provide `crypto.getRandomValues`).
+ * - The UI generates one cloid per reviewed trade and reuses it when retrying, so the server can refuse a duplicate
+ *   submission of the same order (see `@/lib/trade-log`).
+ */
+
+/** A Hyperliquid client order ID. */
+export type Cloid = `0x${string}`;
+
+const CLOID_PATTERN = /^0x[0-9a-fA-F]{32}$/;
+
+/**
+ * `ActionState.error` of an order refused because its cloid was already recorded. The first attempt may still be
+ * pending or live, so the UI must keep the cloid for further retries instead of generating a new one.
+ */
+export const DUPLICATE_CLOID_ERROR = "Duplicate client order ID.";
+
+/**
+ * Generates a random client order ID.
+ *
+ * @returns {Cloid} A new 128-bit cloid.
+ */
+export function generateCloid(): Cloid {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return `0x${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Checks whether a value is a well-formed client order ID.
+ *
+ * @param {string} value - The value to check.
+ * @returns {boolean} True if the value is "0x" followed by 32 hex digits.
+ */
+export function isValidCloid(value: string): value is Cloid {
+  return CLOID_PATTERN.test(value);
+}
@@ -9,11 +9,25 @@
  * default trade parameters, asset identifiers (e.g., Hyperliquid BTC asset index), etc.
  */
 
+import type { AlertRuleInput, AlloraTopicRequest, HyperliquidMarginMode, NotificationEventType } from "@/types";
+
 // Default refresh intervals (in milliseconds)
 /** Default interval for fetching Allora predictions (e.g., 60 seconds). */
 export const DEFAULT_PREDICTION_INTERVAL = 60000;
 /** Default interval for fetching Hyperliquid account info and positions (e.g., 30 seconds). */
 export const DEFAULT_ACCOUNT_INTERVAL = 30000;
+/** Default stop-loss distance from entry, in percent, for bracketed (TP/SL) trades. */
+export const DEFAULT_STOP_LOSS_PERCENT = 2;
+/** Default slippage allowed on market (IOC) orders, in basis points (2%). */
+export const DEFAULT_SLIPPAGE_BPS = 200;
+/** Smallest slippage accepted on market orders, in basis points. */
+export const MIN_SLIPPAGE_BPS = 1;
+/** Largest slippage accepted on market orders, in basis points (10%). */
+export const MAX_SLIPPAGE_BPS = 1000;
+/** Default maximum distance between the order book mid and the oracle price before trading is blocked, in percent. */
+export const DEFAULT_MAX_ORACLE_DEVIATION_PERCENT = 1;
+/** Margin modes a trade or template can use. */
+export const MARGIN_MODES: HyperliquidMarginMode[] = ["cross", "isolated"];
 
 // Default Application Settings
 /** Default values for AppSettings, used by useLocalStorage hook if no settings are found. */
@@ -22,32 +36,109 @@ export const DEFAULT_APP_SETTINGS = {
   accountRefreshInterval: DEFAULT_ACCOUNT_INTERVAL,
   alertsEnabled: true, // Default alerts to enabled
   tradeSwitchEnabled: true, // Changed from false to true to enable trading by default
+  defaultStopLossPercent: DEFAULT_STOP_LOSS_PERCENT,
+  defaultSlippageBps: DEFAULT_SLIPPAGE_BPS,
+  maxOracleDeviationPercent: DEFAULT_MAX_ORACLE_DEVIATION_PERCENT,
 };
 
 // Asset Constants
+/** How long the cached perp universe (names, indices, precision, leverage limits) is reused, in milliseconds. */
+export const ASSET_REGISTRY_TTL_MS = 5 * 60 * 1000;
+/** Suffix appended to coin names to build perpetual symbols shown in the UI (e.g., "ETH-PERP"). */
+export const PERP_SYMBOL_SUFFIX = "-PERP";
+/** Asset selected by default in the trade panel and the backtest runner. */
+export const DEFAULT_TRADE_ASSET = "BTC";
+
+// Allora Constants
 /**
- * Asset indices by environment 
- * Maps asset names to their indices in different environments
- * Used to dynamically select the correct asset index based on the current environment
+ * Additional Allora topics fetched alongside the SDK's built-in price inferences (BTC and ETH, 5m and 8h).
+ * Add an entry per topic ID to follow other tokens or horizons; topic IDs are listed by `AlloraAPIClient.getAllTopics()`.
  */
-export const ASSET_INDICES = {
-  // Mainnet asset indices
-  mainnet: {
-    BTC: 0,
-    ETH: 1,
-    // Add more mainnet assets as needed
-  },
-  // Testnet asset indices (may differ from mainnet)
-  testnet: {
-    BTC: 0, // Confirm and update based on testnet meta data
-    ETH: 1, // Confirm and update based on testnet meta data
-    // Add more testnet assets as needed
-  }
+export const ALLORA_TOPIC_REQUESTS: AlloraTopicRequest[] = [];
+
+// Alert Rule Constants
+/**
+ * Rule evaluated when no alert rules are configured: alert when the latest 8h prediction
+ * is more than 1% beyond a position's entry price, against the position.
+ */
+export const DEFAULT_ALERT_RULE: AlertRuleInput = {
+  name: "Default (8h, 1% vs entry)",
+  enabled: true,
+  assetName: null,
+  timeframe: "8h",
+  thresholdType: "percent",
+  thresholdValue: 1,
+  maxPredictionAgeMinutes: null,
+  compareTo: "entry",
+};
+
+// Backtesting defaults
+/** Default taker fee rate used by the backtest (Hyperliquid base tier, 0.045%). */
+export const DEFAULT_BACKTEST_FEE_RATE = 0.00045;
+/** Default slippage applied on backtest entries and exits, in basis points. */
+export const DEFAULT_BACKTEST_SLIPPAGE_BPS = 5;
+/** Default starting equity for a backtest run, in USD. */
+export const DEFAULT_BACKTEST_INITIAL_EQUITY = 10000;
+
+// Notification Constants
+/** Event types a notification channel can subscribe to, with their display labels. */
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  contradiction: "Contradiction alert",
+  tradeFilled: "Trade filled",
+  tradeFailed: "Trade failed",
+  nearLiquidation: "Near liquidation",
 };
+/** Default minimum minutes between repeat deliveries of the same event to a channel. */
+export const DEFAULT_NOTIFICATION_THROTTLE_MINUTES = 15;
+/** Timeout for a single webhook or SMTP delivery, in milliseconds. */
+export const NOTIFICATION_REQUEST_TIMEOUT_MS = 10000;
+/** A position is "near liquidation" when its mark price is within this percentage of the liquidation price. */
+export const NEAR_LIQUIDATION_THRESHOLD_PERCENT = 10;
+
+// Server Poller Constants
+/** Minimum interval accepted by the server-side poller, in milliseconds (matches the settings form minimum). */
+export const MIN_POLLER_INTERVAL_MS = 5000;
+/** Cached snapshot responses younger than this are shared between hooks in the same browser tab, in milliseconds. */
+export const SNAPSHOT_CLIENT_CACHE_MS = 1000;
+
+// Real-time Stream Constants
+/** Minimum time between mid price pushes to the browser, in milliseconds (Hyperliquid sends them every block). */
+export const STREAM_MIDS_THROTTLE_MS = 1000;
+/** Interval of SSE keep-alive comments, in milliseconds, so proxies don't close idle streams. */
+export const STREAM_HEARTBEAT_MS = 15000;
+/** How long the server keeps the WebSocket open after the last browser disconnects, in milliseconds. */
+export const STREAM_IDLE_SHUTDOWN_MS = 60000;
+
+// Pre-trade Safety Check Constants
+/** Orders reviewed at a price older than this are refused, in milliseconds (two default account refresh intervals). */
+export const MAX_TRADE_PRICE_AGE_MS = 60000;
+/** Orders based on a prediction older than this are refused, in milliseconds. */
+export const MAX_TRADE_PREDICTION_AGE_MS = 30 * 60 * 1000;
+
+// Liquidation Estimate Constants
+/** Flag a position when our liquidation estimate differs from Hyperliquid's reported price by more than this, in percent. */
+export const LIQUIDATION_DIVERGENCE_WARN_PERCENT = 2;
+
+// Trade Log Constants
+/** Number of Trade Log entries loaded per page. */
+export const TRADE_LOG_PAGE_SIZE = 50;
+/** Largest page size accepted by Trade Log queries. */
+export const TRADE_LOG_MAX_PAGE_SIZE = 500;
+/** Most Trade Log entries included in one CSV/JSON export. Narrow the filters to export older entries. */
+export const TRADE_LOG_EXPORT_MAX_ROWS = 10000;
+/** Trade Log statuses offered by the status filter. */
+export const TRADE_LOG_STATUSES = ["pending", "filled", "resting", "failed"];
+
+// Analytics Constants
+/** Lookback period the analytics page opens with, in days. */
+export const DEFAULT_ANALYTICS_LOOKBACK_DAYS = 30;
 
-/** Fixed asset index for BTC - BTC is always at index 0 on Hyperliquid */
-export const BTC_ASSET_INDEX = 0;
-/** Symbol for Bitcoin perpetuals used in UI and potentially logging. */
-export const BTC_SYMBOL_UI = "BTC-PERP";
+// Trade Journal Constants
+/** Tags offered in the journal dialog. Any other tag can be typed in. */
+export const SUGGESTED_JOURNAL_TAGS = ["followed signal", "override", "early exit", "late entry", "news"];
+/** Lowest journal confidence rating. */
+export const MIN_JOURNAL_CONFIDENCE = 1;
+/** Highest journal confidence rating. */
+export const MAX_JOURNAL_CONFIDENCE = 5;
 
 // Add other constants as needed...
\ No newline at end of file
@@ -7,27 +7,35 @@
  * @dependencies
  * - `@nktkas/hyperliquid`: The official SDK for Hyperliquid.
  * - `viem/accounts`: Used for converting private keys to account objects for signing.
+ * - `ws`: WebSocket implementation for Node.js runtimes without a global `WebSocket`.
  * - `process.env`: Node.js environment variables for API secrets.
  *
  * @notes
  * - API secrets (HYPERLIQUID_API_SECRET) are accessed only on the server-side via `process.env`.
  * - Throws an error if the required `HYPERLIQUID_API_SECRET` environment variable is missing or invalid.
  * - Provides a factory function `setupClients` to get configured client instances.
+ * - Provides `setupEventClient` for WebSocket subscriptions (used by the server-side stream in `@/lib/hyperliquid-stream`).
  */
 
 import {
+  EventClient,
   HttpTransport,
   PublicClient,
   WalletClient,
+  WebSocketTransport,
   type Hex,
 } from "@nktkas/hyperliquid";
 import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import NodeWebSocket from "ws";
 
 // Define API endpoints
 const MAINNET_API_URL = "https://api.hyperliquid.xyz";
 // Try alternative testnet URLs - the official one might not be showing your positions
 // const TESTNET_API_URL = "https://dev.hyperliquid.xyz"; // Original testnet URL
 const TESTNET_API_URL = "https://api.hyperliquid-testnet.xyz"; // Alternative testnet URL
+// WebSocket endpoints for subscriptions
+const MAINNET_WS_URL = "wss://api.hyperliquid.xyz/ws";
+const TESTNET_WS_URL = "wss://api.hyperliquid-testnet.xyz/ws";
 // Other alternatives to try if needed
 const ALTERNATIVE_TESTNET_URLS = [
   "https://api.hyperliquid-testnet.xyz",
@@ -174,6 +182,37 @@ export function setupClients(): {
   return { publicClient, walletClient, config };
 }
 
+/**
+ * Sets up an event client for Hyperliquid WebSocket subscriptions.
+ * The connection reconnects automatically with exponential backoff.
+ *
+ * This function should be called within server-side code only.
+ *
+ * @returns {{ eventClient: EventClient, transport: WebSocketTransport, config: HyperliquidClientConfig }} The event client,
+ * its transport (to close the connection), and the configuration (for the user address).
+ */
+export function setupEventClient(): {
+  eventClient: EventClient<WebSocketTransport>;
+  transport: WebSocketTransport;
+  config: HyperliquidClientConfig;
+} {
+  const config = getClientConfig();
+
+  // Node.js 20 has no global WebSocket; the SDK expects the standard browser API, which `ws` implements
+  if (typeof globalThis.WebSocket === "undefined") {
+    globalThis.WebSocket = NodeWebSocket as unknown as typeof WebSocket;
+  }
+
+  const transport = new WebSocketTransport({
+    url: config.isTestnet ? TESTNET_WS_URL : MAINNET_WS_URL,
+    // Keep retrying; the stream is long-lived and REST polling covers the gaps
+    reconnect: { maxRetries: Infinity },
+  });
+  console.log(`WebSocket transport configured: isTestnet=${config.isTestnet}`);
+
+  return { eventClient: new EventClient({ transport }), transport, config };
+}
+
 // Example usage within a Server Action (do not uncomment here):
 /*
 "use server";
@@ -0,0 +1,205 @@
+/**
+ * @description
+ * Server-side Hyperliquid WebSocket stream. Holds one WebSocket connection for the whole server, subscribes to
+ * mid prices, the account's clearinghouse state and open orders, fills and order status updates, and fans every
+ * update out to the connected browsers (through the `/api/stream` Server-Sent Events route).
+ *
+ * Subscriptions:
+ * - `allMids`: mid prices for every coin (pushed to browsers at most once per `STREAM_MIDS_THROTTLE_MS`).
+ * - `webData2`: clearinghouse state (account value, margin, positions) and open orders.
+ * - `userFills`: new fills of the account.
+ * - `orderUpdates`: status changes of the account's orders.
+ *
+ * @dependencies
+ * - @nktkas/hyperliquid: Provides the subscription types.
+ * - @/lib/hyperliquid-client: Creates the WebSocket event client.
+ * - @/lib/constants: Provides the throttle and idle shutdown timings.
+ * - @/types: Provides the stream types.
+ *
+ * @notes
+ * - The connection opens when the first browser connects and closes `STREAM_IDLE_SHUTDOWN_MS` after the last one leaves.
+ * - The SDK reconnects automatically but drops subscriptions on disconnect, so they are renewed on every (re)connect.
+ * - Account subscriptions require `HYPERLIQUID_API_SECRET`; without it only mid prices are streamed.
+ * - State lives on `globalThis` so route handlers and hot reloads share the same connection.
+ * - Only import this file from server-side code.
+ */
+
+import type { EventClient, Hex, WebSocketTransport } from "@nktkas/hyperliquid";
+import type { HyperliquidStreamEvent, HyperliquidStreamState, HyperliquidStreamStatus } from "@/types";
+import { setupEventClient } from "./hyperliquid-client";
+import { STREAM_IDLE_SHUTDOWN_MS, STREAM_MIDS_THROTTLE_MS } from "./constants";
+
+/** Receives every event broadcast by the stream. */
+export type HyperliquidStreamListener = (event: HyperliquidStreamEvent) => void;
+
+interface HyperliquidStreamManager {
+  state: HyperliquidStreamState;
+  listeners: Set<HyperliquidStreamListener>;
+  transport: WebSocketTransport | null;
+  idleTimer: NodeJS.Timeout | null;
+  midsTimer: NodeJS.Timeout | null;
+  lastMidsPushAt: number;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var hyperliquidStream: HyperliquidStreamManager | undefined;
+}
+
+const initialState = (): HyperliquidStreamState => ({
+  status: "idle",
+  mids: {},
+  accountInfo: null,
+  openOrders: null,
+  updatedAt: null,
+});
+
+const manager: HyperliquidStreamManager =
+  globalThis.hyperliquidStream ||
+  (globalThis.hyperliquidStream = {
+    state: initialState(),
+    listeners: new Set(),
+    transport: null,
+    idleTimer: null,
+    midsTimer: null,
+    lastMidsPushAt: 0,
+  });
+
+/**
+ * Sends an event to every connected browser. A failing listener never affects the others.
+ */
+function broadcast(event: HyperliquidStreamEvent): void {
+  for (const listener of manager.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("[HyperliquidStream] ❌ Listener failed:", error);
+    }
+  }
+}
+
+function setStatus(status: HyperliquidStreamStatus): void {
+  if (manager.state.status === status) return;
+  manager.state.status = status;
+  console.log(`[HyperliquidStream] Status: ${status}`);
+  broadcast({ type: "status", status });
+}
+
+/**
+ * Stores the latest mid prices and pushes them, at most once per `STREAM_MIDS_THROTTLE_MS`.
+ * The push always carries the newest prices received before it fires.
+ */
+function handleMids(mids: Record<string, string>): void {
+  manager.state.mids = mids;
+  manager.state.updatedAt = Date.now();
+  if (manager.midsTimer) return;
+
+  const wait = Math.max(0, manager.lastMidsPushAt + STREAM_MIDS_THROTTLE_MS - Date.now());
+  manager.midsTimer = setTimeout(() => {
+    manager.midsTimer = null;
+    manager.lastMidsPushAt = Date.now();
+    broadcast({ type: "mids", mids: manager.state.mids });
+  }, wait);
+}
+
+/**
+ * Subscribes to every channel. Called on each (re)connect.
+ */
+async function subscribeAll(eventClient: EventClient<WebSocketTransport>, user: Hex | null): Promise<void> {
+  await eventClient.allMids(({ mids }) => handleMids(mids));
+
+  if (user) {
+    await Promise.all([
+      eventClient.webData2({ user }, (data) => {
+        manager.state.accountInfo = data.clearinghouseState;
+        manager.state.openOrders = data.openOrders;
+        manager.state.updatedAt = Date.now();
+        broadcast({ type: "account", accountInfo: data.clearinghouseState, openOrders: data.openOrders });
+      }),
+      eventClient.userFills({ user }, (data) => {
+        // The first message replays recent history; only new fills are forwarded
+        if (data.isSnapshot || data.fills.length === 0) return;
+        broadcast({ type: "fills", fills: data.fills });
+      }),
+      eventClient.orderUpdates({ user }, (updates) => {
+        broadcast({ type: "orderUpdates", updates });
+      }),
+    ]);
+  } else {
+    console.warn("[HyperliquidStream] ⚠️ No Hyperliquid account configured; streaming mid prices only.");
+  }
+
+  setStatus("connected");
+  console.log("[HyperliquidStream] ✅ Subscribed");
+}
+
+/**
+ * Opens the WebSocket connection if it is not open yet.
+ */
+function startStream(): void {
+  if (manager.transport) return;
+
+  const { eventClient, transport, config } = setupEventClient();
+  // The SDK matches pushed messages against the lowercase address Hyperliquid echoes back
+  const user = (config.account?.address.toLowerCase() as Hex | undefined) ?? null;
+  manager.transport = transport;
+  setStatus("connecting");
+
+  // The SDK drops subscriptions whenever the socket closes, so renew them each time it opens
+  // Events from a transport that was stopped in the meantime are ignored
+  transport.socket.addEventListener("open", () => {
+    if (manager.transport !== transport) return;
+    subscribeAll(eventClient, user).catch((error) => {
+      console.error("[HyperliquidStream] ❌ Failed to subscribe:", error);
+      setStatus("disconnected");
+    });
+  });
+  transport.socket.addEventListener("close", () => {
+    if (manager.transport !== transport) return;
+    setStatus("disconnected");
+  });
+}
+
+/**
+ * Closes the WebSocket connection and forgets the streamed state.
+ */
+function stopStream(): void {
+  if (manager.midsTimer) clearTimeout(manager.midsTimer);
+  manager.midsTimer = null;
+
+  const transport = manager.transport;
+  manager.transport = null;
+  manager.state = initialState();
+  transport?.close().catch((error) => {
+    console.error("[HyperliquidStream] ❌ Error closing WebSocket:", error);
+  });
+  console.log("[HyperliquidStream] Stopped (no browsers connected)");
+}
+
+/**
+ * Registers a listener for stream events, opening the WebSocket if needed.
+ * The listener immediately receives a 'state' event with the current state.
+ *
+ * @param {HyperliquidStreamListener} listener - Called for every stream event.
+ * @returns {() => void} Unsubscribes the listener. The connection closes once no listeners remain for `STREAM_IDLE_SHUTDOWN_MS`.
+ */
+export function subscribeToHyperliquidStream(listener: HyperliquidStreamListener): () => void {
+  if (manager.idleTimer) {
+    clearTimeout(manager.idleTimer);
+    manager.idleTimer = null;
+  }
+
+  manager.listeners.add(listener);
+  startStream();
+  listener({ type: "state", state: manager.state });
+
+  return () => {
+    manager.listeners.delete(listener);
+    if (manager.listeners.size === 0 && !manager.idleTimer) {
+      manager.idleTimer = setTimeout(() => {
+        manager.idleTimer = null;
+        if (manager.listeners.size === 0) stopStream();
+      }, STREAM_IDLE_SHUTDOWN_MS);
+    }
+  };
+}
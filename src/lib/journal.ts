@@ -0,0 +1,63 @@
+/**
+ * @description
+ * Validation and normalization of Trade Journal fields (tags, confidence rating and links), shared by the journal
+ * dialog and the journal Server Actions.
+ *
+ * @dependencies
+ * - @/lib/constants: Provides the confidence rating range.
+ *
+ * @notes
+ * - Pure functions, safe to use on both the server and the client.
+ * - Tags are stored lowercase so "Override" and "override" filter the same trades.
+ */
+
+import { MAX_JOURNAL_CONFIDENCE, MIN_JOURNAL_CONFIDENCE } from "./constants";
+
+/**
+ * Trims, lowercases and dedupes tags, dropping empty ones.
+ *
+ * @param {string[]} tags - The tags to normalize.
+ * @returns {string[]} The normalized tags, in their original order.
+ */
+export function normalizeJournalTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().replace(/\s+/g, " ").toLowerCase()).filter((tag) => tag !== "");
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Splits a comma-separated list of tags, as typed in the journal dialog.
+ *
+ * @param {string} input - The comma-separated tags.
+ * @returns {string[]} The normalized tags.
+ */
+export function parseJournalTags(input: string): string[] {
+  return normalizeJournalTags(input.split(","));
+}
+
+/**
+ * Checks a journal confidence rating.
+ *
+ * @param {number} confidence - The rating to check.
+ * @returns {string | null} A message describing why the rating is invalid, or null if it is valid.
+ */
+export function getJournalConfidenceError(confidence: number): string | null {
+  if (!Number.isInteger(confidence) || confidence < MIN_JOURNAL_CONFIDENCE || confidence > MAX_JOURNAL_CONFIDENCE) {
+    return `Confidence must be a whole number from ${MIN_JOURNAL_CONFIDENCE} to ${MAX_JOURNAL_CONFIDENCE}.`;
+  }
+  return null;
+}
+
+/**
+ * Checks a journal link.
+ *
+ * @param {string} link - The link to check.
+ * @returns {string | null} A message describing why the link is invalid, or null if it is an http(s) URL.
+ */
+export function getJournalLinkError(link: string): string | null {
+  try {
+    const url = new URL(link);
+    return url.protocol === "http:" || url.protocol === "https:" ? null : `Link "${link}" must start with http:// or https://.`;
+  } catch {
+    return `Link "${link}" is not a valid URL.`;
+  }
+}
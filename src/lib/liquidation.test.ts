@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import type { HyperliquidAccountInfo, HyperliquidMarginTier } from "@/types";
+import {
+  calculateLiquidationPrice,
+  getLiquidationDivergencePercent,
+  getMaintenanceMarginFraction,
+  type LiquidationInput,
+} from "./liquidation";
+
+interface PositionFixture {
+  coin: string;
+  szi: number;
+  entryPx: number;
+  type: "cross" | "isolated";
+  marginUsed?: number;
+}
+
+/** Builds the parts of a clearinghouse state read by `calculateLiquidationPrice`. */
+function makeAccount(accountValue: number, crossMaintenanceMarginUsed: number, positions: PositionFixture[] = []): HyperliquidAccountInfo {
+  return {
+    crossMarginSummary: { accountValue: String(accountValue) },
+    crossMaintenanceMarginUsed: String(crossMaintenanceMarginUsed),
+    assetPositions: positions.map((position) => ({
+      type: "oneWay",
+      position: {
+        coin: position.coin,
+        szi: String(position.szi),
+        entryPx: String(position.entryPx),
+        leverage: { type: position.type, value: 10 },
+        marginUsed: String(position.marginUsed ?? 0),
+      },
+    })),
+  } as unknown as HyperliquidAccountInfo;
+}
+
+function makeInput(overrides: Partial<LiquidationInput>): LiquidationInput {
+  return {
+    assetName: "BTC",
+    clearinghouseState: null,
+    markPrice: 100,
+    maxLeverage: 50, // Maintenance margin 1% without tiers
+    marginTiers: [],
+    marginMode: "isolated",
+    trade: { direction: "long", size: 1, price: 100, leverage: 10 },
+    ...overrides,
+  };
+}
+
+describe("calculateLiquidationPrice", () => {
+  const cases: {
+    name: string;
+    input: LiquidationInput;
+    liquidationPrice: number | null;
+    marginMode: "cross" | "isolated";
+    entryPrice?: number;
+  }[] = [
+    {
+      name: "new isolated long",
+      input: makeInput({}),
+      liquidationPrice: (100 - 10) / 0.99,
+      marginMode: "isolated",
+    },
+    {
+      name: "new isolated short",
+      input: makeInput({ trade: { direction: "short", size: 1, price: 100, leverage: 10 } }),
+      liquidationPrice: 110 / 1.01,
+      marginMode: "isolated",
+    },
+    {
+      name: "isolated long filled above the mark",
+      input: makeInput({ trade: { direction: "long", size: 1, price: 101, leverage: 10 } }),
+      liquidationPrice: (100 - (10.1 - 1)) / 0.99,
+      marginMode: "isolated",
+      entryPrice: 101,
+    },
+    {
+      name: "new cross long backed by the account value",
+      input: makeInput({
+        marginMode: "cross",
+        clearinghouseState: makeAccount(1000, 0),
+        trade: { direction: "long", size: 20, price: 100, leverage: 10 },
+      }),
+      liquidationPrice: (2000 - 1000) / (20 * 0.99),
+      marginMode: "cross",
+    },
+    {
+      name: "new cross long with other cross positions' maintenance margin",
+      input: makeInput({
+        marginMode: "cross",
+        clearinghouseState: makeAccount(1000, 200, [{ coin: "ETH", szi: 5, entryPx: 2000, type: "cross" }]),
+        trade: { direction: "long", size: 20, price: 100, leverage: 10 },
+      }),
+      liquidationPrice: (2000 - 800) / (20 * 0.99),
+      marginMode: "cross",
+    },
+    {
+      name: "increasing an existing cross position",
+      input: makeInput({
+        marginMode: "cross",
+        clearinghouseState: makeAccount(1000, 10, [{ coin: "BTC", szi: 10, entryPx: 90, type: "cross" }]),
+        trade: { direction: "long", size: 10, price: 100, leverage: 10 },
+      }),
+      liquidationPrice: (2000 - 1000) / (20 * 0.99),
+      marginMode: "cross",
+      entryPrice: 95,
+    },
+    {
+      name: "increasing an existing isolated position keeps isolated margin",
+      input: makeInput({
+        marginMode: "cross",
+        clearinghouseState: makeAccount(1000, 0, [{ coin: "BTC", szi: 1, entryPx: 100, type: "isolated", marginUsed: 10 }]),
+      }),
+      liquidationPrice: (200 - 20) / (2 * 0.99),
+      marginMode: "isolated",
+      entryPrice: 100,
+    },
+    {
+      name: "reducing an isolated position releases margin proportionally",
+      input: makeInput({
+        clearinghouseState: makeAccount(1000, 0, [{ coin: "BTC", szi: 2, entryPx: 100, type: "isolated", marginUsed: 20 }]),
+        trade: { direction: "short", size: 1, price: 100, leverage: 10 },
+      }),
+      liquidationPrice: (100 - 10) / 0.99,
+      marginMode: "isolated",
+      entryPrice: 100,
+    },
+    {
+      name: "isolated long in a higher margin tier",
+      input: makeInput({
+        marginTiers: [{ lowerBound: 0, maxLeverage: 50 }, { lowerBound: 100000, maxLeverage: 20 }],
+        trade: { direction: "long", size: 2000, price: 100, leverage: 10 },
+      }),
+      liquidationPrice: (200000 - 20000) / (2000 * 0.975),
+      marginMode: "isolated",
+    },
+    {
+      name: "well-collateralized cross long that cannot be liquidated",
+      input: makeInput({ marginMode: "cross", clearinghouseState: makeAccount(1000, 0) }),
+      liquidationPrice: null,
+      marginMode: "cross",
+    },
+  ];
+
+  for (const { name, input, liquidationPrice, marginMode, entryPrice } of cases) {
+    it(name, () => {
+      const estimate = calculateLiquidationPrice(input);
+      expect(estimate).not.toBeNull();
+      if (liquidationPrice === null) {
+        expect(estimate!.liquidationPrice).toBeNull();
+      } else {
+        expect(estimate!.liquidationPrice).toBeCloseTo(liquidationPrice, 8);
+      }
+      expect(estimate!.marginMode).toBe(marginMode);
+      if (entryPrice !== undefined) {
+        expect(estimate!.entryPrice).toBeCloseTo(entryPrice, 8);
+      }
+    });
+  }
+
+  it("returns null when no position is left after the trade or the mark price is invalid", () => {
+    const account = makeAccount(1000, 0, [{ coin: "BTC", szi: 1, entryPx: 100, type: "isolated", marginUsed: 10 }]);
+    expect(calculateLiquidationPrice(makeInput({
+      clearinghouseState: account,
+      trade: { direction: "short", size: 1, price: 100, leverage: 10 },
+    }))).toBeNull();
+    expect(calculateLiquidationPrice(makeInput({ trade: null }))).toBeNull();
+    expect(calculateLiquidationPrice(makeInput({ markPrice: 0 }))).toBeNull();
+  });
+});
+
+describe("getMaintenanceMarginFraction", () => {
+  const tiers: HyperliquidMarginTier[] = [
+    { lowerBound: 0, maxLeverage: 50 },
+    { lowerBound: 100000, maxLeverage: 20 },
+    { lowerBound: 500000, maxLeverage: 10 },
+  ];
+
+  const cases: [string, HyperliquidMarginTier[], number, number, number][] = [
+    ["first tier", tiers, 50, 50000, 1 / 100],
+    ["tier lower bound is inclusive", tiers, 50, 100000, 1 / 40],
+    ["middle tier", tiers, 50, 499999, 1 / 40],
+    ["last tier", tiers, 50, 2000000, 1 / 20],
+    ["no tiers uses the asset's maximum leverage", [], 25, 1000000, 1 / 50],
+    ["no leverage means no maintenance margin", [], 0, 1000, 0],
+  ];
+
+  for (const [name, tierList, maxLeverage, notional, expected] of cases) {
+    it(name, () => {
+      expect(getMaintenanceMarginFraction(tierList, maxLeverage, notional)).toBeCloseTo(expected, 12);
+    });
+  }
+});
+
+describe("getLiquidationDivergencePercent", () => {
+  it("returns the distance in percent of the reported price", () => {
+    expect(getLiquidationDivergencePercent(100, 95)).toBeCloseTo(5, 12);
+    expect(getLiquidationDivergencePercent(100, 102)).toBeCloseTo(2, 12);
+  });
+});
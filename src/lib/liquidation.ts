@@ -0,0 +1,174 @@
+/**
+ * @description
+ * Liquidation price calculator for Hyperliquid perpetual positions. Estimates the liquidation price a position would
+ * have after a proposed trade, using the account's clearinghouse state and the asset's maintenance margin, for both
+ * cross and isolated margin.
+ *
+ * Formula: a position is liquidated when the equity backing it falls to its maintenance margin.
+ * With signed size `s`, current mark price `m` and available margin `M` (equity at `m`):
+ *   M + s * (L - m) = |s| * L * mmf  =>  L = (s * m - M) / (s - |s| * mmf)
+ * - Cross: `M` is the cross account value minus the maintenance margin of the other cross positions.
+ * - Isolated: `M` is the margin allocated to the position, including its unrealized PnL.
+ *
+ * @dependencies
+ * - @/types: Provides the clearinghouse state, margin tier and liquidation types.
+ *
+ * @notes
+ * - Pure functions, safe to use on both the server and the client.
+ * - The maintenance margin fraction is half the initial margin at the maximum leverage of the margin tier the
+ *   position's notional falls in. Tier maintenance deductions, fees and funding are ignored, so the result is an estimate.
+ * - An existing position keeps its margin mode (Hyperliquid does not switch the mode of an open position), so the
+ *   requested mode only applies to new positions.
+ * - Without a clearinghouse state (no account configured) only the trade's own margin backs the position.
+ */
+
+import type {
+  HyperliquidAccountInfo,
+  HyperliquidMarginMode,
+  HyperliquidMarginTier,
+  LiquidationEstimate,
+} from "@/types";
+
+/**
+ * A trade that has not been placed yet.
+ *
+ * @property {'long' | 'short'} direction - The direction of the trade.
+ * @property {number} size - Trade size in base asset units.
+ * @property {number} price - Expected entry price.
+ * @property {number} leverage - The leverage the trade is placed with.
+ */
+export interface ProposedTrade {
+  direction: "long" | "short";
+  size: number;
+  price: number;
+  leverage: number;
+}
+
+/**
+ * Inputs for `calculateLiquidationPrice`.
+ *
+ * @property {string} assetName - The coin name of the position (e.g., "ETH").
+ * @property {HyperliquidAccountInfo | null} clearinghouseState - The account's clearinghouse state, or null if unavailable.
+ * @property {number} markPrice - The asset's current mark (mid) price.
+ * @property {number} maxLeverage - The asset's maximum leverage.
+ * @property {HyperliquidMarginTier[]} marginTiers - The asset's margin tiers, sorted by `lowerBound`. May be empty.
+ * @property {HyperliquidMarginMode} marginMode - Margin mode for a new position.
+ * @property {ProposedTrade | null} trade - The proposed trade, or null to estimate the existing position as is.
+ */
+export interface LiquidationInput {
+  assetName: string;
+  clearinghouseState: HyperliquidAccountInfo | null;
+  markPrice: number;
+  maxLeverage: number;
+  marginTiers: HyperliquidMarginTier[];
+  marginMode: HyperliquidMarginMode;
+  trade: ProposedTrade | null;
+}
+
+/**
+ * Returns the maintenance margin fraction for a position notional: half the initial margin at the maximum leverage
+ * of the tier the notional falls in.
+ *
+ * @param {HyperliquidMarginTier[]} tiers - The asset's margin tiers, sorted by `lowerBound`. May be empty.
+ * @param {number} maxLeverage - The asset's maximum leverage, used when no tier applies.
+ * @param {number} notional - The position notional (USD).
+ * @returns {number} The maintenance margin as a fraction of notional (e.g., 0.01 for 1%).
+ */
+export function getMaintenanceMarginFraction(
+  tiers: HyperliquidMarginTier[],
+  maxLeverage: number,
+  notional: number,
+): number {
+  const tier = [...tiers].reverse().find((candidate) => candidate.lowerBound <= notional);
+  const leverage = tier?.maxLeverage ?? maxLeverage;
+  return leverage > 0 ? 1 / (2 * leverage) : 0;
+}
+
+/**
+ * Calculates how far our liquidation estimate is from the liquidation price reported by Hyperliquid.
+ *
+ * @param {number} reported - The exchange-reported liquidation price.
+ * @param {number} estimated - Our estimated liquidation price.
+ * @returns {number} The absolute difference in percent of the reported price.
+ */
+export function getLiquidationDivergencePercent(reported: number, estimated: number): number {
+  return (Math.abs(estimated - reported) / reported) * 100;
+}
+
+/**
+ * Estimates the liquidation price of a position after a proposed trade (or of the existing position, without one).
+ *
+ * @param {LiquidationInput} input - The account state, asset limits and proposed trade.
+ * @returns {LiquidationEstimate | null} The estimate, or null if there is no position after the trade or the inputs are invalid.
+ */
+export function calculateLiquidationPrice(input: LiquidationInput): LiquidationEstimate | null {
+  const { assetName, clearinghouseState, markPrice, trade } = input;
+  if (!(markPrice > 0)) return null;
+
+  const existing = clearinghouseState?.assetPositions.find((entry) => entry.position.coin === assetName)?.position;
+  const currentSize = existing ? parseFloat(existing.szi) || 0 : 0;
+  const currentEntry = existing ? parseFloat(existing.entryPx) || markPrice : markPrice;
+  const marginMode: HyperliquidMarginMode = existing && currentSize !== 0 ? existing.leverage.type : input.marginMode;
+
+  const tradeSize = trade && trade.size > 0 && trade.price > 0 && trade.leverage > 0
+    ? (trade.direction === "long" ? trade.size : -trade.size)
+    : 0;
+  const tradePrice = trade?.price ?? markPrice;
+  const tradeLeverage = trade?.leverage ?? 1;
+  const positionSize = currentSize + tradeSize;
+  if (positionSize === 0) return null;
+
+  // Entry price and position change after the trade
+  const isNew = currentSize === 0;
+  const isFlip = !isNew && Math.sign(positionSize) !== Math.sign(currentSize);
+  const isIncrease = !isNew && !isFlip && Math.abs(positionSize) > Math.abs(currentSize);
+  const entryPrice = isNew || isFlip
+    ? tradePrice
+    : isIncrease
+      ? (currentSize * currentEntry + tradeSize * tradePrice) / positionSize
+      : currentEntry;
+
+  const maintenanceMarginFraction = getMaintenanceMarginFraction(
+    input.marginTiers,
+    input.maxLeverage,
+    Math.abs(positionSize) * markPrice,
+  );
+  // The traded size is marked at the current price right away
+  const tradeMarkPnl = tradeSize * (markPrice - tradePrice);
+  const tradeMargin = (Math.abs(tradeSize) * tradePrice) / tradeLeverage;
+
+  let marginAvailable: number;
+  if (marginMode === "cross" && clearinghouseState) {
+    const crossAccountValue = parseFloat(clearinghouseState.crossMarginSummary.accountValue) || 0;
+    const crossMaintenanceMargin = parseFloat(clearinghouseState.crossMaintenanceMarginUsed) || 0;
+    // Maintenance margin of this asset's current cross position is replaced by the post-trade position's
+    const currentAssetMaintenance = existing && existing.leverage.type === "cross"
+      ? Math.abs(currentSize) * markPrice * getMaintenanceMarginFraction(input.marginTiers, input.maxLeverage, Math.abs(currentSize) * markPrice)
+      : 0;
+    const otherMaintenance = Math.max(0, crossMaintenanceMargin - currentAssetMaintenance);
+    marginAvailable = crossAccountValue + tradeMarkPnl - otherMaintenance;
+  } else if (isNew || !existing) {
+    marginAvailable = tradeMargin + tradeMarkPnl;
+  } else if (isFlip) {
+    marginAvailable = (Math.abs(positionSize) * tradePrice) / tradeLeverage + positionSize * (markPrice - tradePrice);
+  } else {
+    // Isolated margin of the existing position includes its unrealized PnL
+    const isolatedMargin = parseFloat(existing.marginUsed) || 0;
+    marginAvailable = isIncrease
+      ? isolatedMargin + tradeMargin + tradeMarkPnl
+      // Reducing releases margin in proportion to the size closed
+      : isolatedMargin * (Math.abs(positionSize) / Math.abs(currentSize));
+  }
+
+  const denominator = positionSize - Math.abs(positionSize) * maintenanceMarginFraction;
+  const rawLiquidationPrice = (positionSize * markPrice - marginAvailable) / denominator;
+
+  return {
+    liquidationPrice: Number.isFinite(rawLiquidationPrice) && rawLiquidationPrice > 0 ? rawLiquidationPrice : null,
+    marginMode,
+    positionSize,
+    entryPrice,
+    maintenanceMarginFraction,
+    marginAvailable,
+  };
+}
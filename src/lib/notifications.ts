@@ -0,0 +1,219 @@
+/**
+ * @description
+ * This library file builds and sends outbound notifications for a single channel.
+ * It knows the payload format of each channel type and how to deliver it, but not which channels
+ * exist or whether an event was already sent recently; see `@/lib/notifier` for that.
+ *
+ * @dependencies
+ * - @/types: Provides the notification channel, event and request types.
+ * - @/lib/constants: Provides the delivery timeout and event type labels.
+ * - nodemailer: For sending email over SMTP.
+ *
+ * @notes
+ * - Email channels use the SMTP server configured by the `SMTP_HOST`, `SMTP_PORT`, `SMTP_SECURE`,
+ *   `SMTP_USER`, `SMTP_PASS` and `SMTP_FROM` environment variables.
+ * - HTTP channels POST JSON to the configured URL, so any local HTTP server can stand in for the real
+ *   service during testing (including Telegram, whose full Bot API URL is stored as the target).
+ * - Only import this file from server-side code.
+ */
+
+import nodemailer from "nodemailer";
+import type {
+  NotificationChannelInput,
+  NotificationChannelType,
+  NotificationEvent,
+  NotificationHttpRequest,
+} from "@/types";
+import { NOTIFICATION_EVENT_LABELS, NOTIFICATION_REQUEST_TIMEOUT_MS } from "./constants";
+
+const CHANNEL_TYPES: NotificationChannelType[] = ["webhook", "email", "telegram", "discord"];
+
+/**
+ * Validates the fields of a notification channel.
+ *
+ * @param {Partial<NotificationChannelInput>} channel - The channel fields to validate. Only provided fields are checked,
+ *   except that the target is checked against the type when both are provided.
+ * @returns {string | null} A description of the problem, or null if the fields are valid.
+ */
+export function getNotificationChannelError(channel: Partial<NotificationChannelInput>): string | null {
+  if (channel.name !== undefined && (typeof channel.name !== "string" || channel.name.trim() === "")) {
+    return "Channel name is required.";
+  }
+  if (channel.type !== undefined && !CHANNEL_TYPES.includes(channel.type as NotificationChannelType)) {
+    return `Channel type must be one of: ${CHANNEL_TYPES.join(", ")}.`;
+  }
+  if (channel.target !== undefined) {
+    const target = channel.target.trim();
+    if (target === "") {
+      return channel.type === "email" ? "Recipient email address is required." : "Webhook URL is required.";
+    }
+    if (channel.type === "email") {
+      if (!/^[^\s@]+@[^\s@]+$/.test(target)) {
+        return "Recipient must be a valid email address.";
+      }
+    } else if (channel.type !== undefined) {
+      try {
+        const url = new URL(target);
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          return "Webhook URL must start with http:// or https://.";
+        }
+      } catch {
+        return "Webhook URL is not a valid URL.";
+      }
+    }
+  }
+  if (channel.type === "telegram" && channel.chatId !== undefined && !channel.chatId?.trim()) {
+    return "Telegram channels require a chat ID.";
+  }
+  if (channel.events !== undefined) {
+    const unknownEvent = channel.events.find((event) => !(event in NOTIFICATION_EVENT_LABELS));
+    if (unknownEvent) {
+      return `Unknown event type: ${unknownEvent}.`;
+    }
+  }
+  if (
+    channel.throttleMinutes !== undefined &&
+    (!Number.isInteger(channel.throttleMinutes) || channel.throttleMinutes < 0)
+  ) {
+    return "Throttle must be zero or a positive whole number of minutes.";
+  }
+  return null;
+}
+
+/**
+ * Returns true if a channel is subscribed to an event's type. Channels without event filters receive every event.
+ */
+export function channelAcceptsEvent(
+  channel: Pick<NotificationChannelInput, "events">,
+  event: Pick<NotificationEvent, "type">,
+): boolean {
+  return channel.events.length === 0 || channel.events.includes(event.type);
+}
+
+/**
+ * Formats an event as plain text for chat messages and email bodies.
+ */
+export function formatNotificationText(event: NotificationEvent): string {
+  return `${event.title}\n${event.message}`;
+}
+
+/**
+ * Builds the HTTP request for a webhook-based channel.
+ *
+ * @param {Pick<NotificationChannelInput, "type" | "target" | "chatId">} channel - The channel to build the request for.
+ * @param {NotificationEvent} event - The event to deliver.
+ * @returns {NotificationHttpRequest} The URL and JSON body to POST.
+ * @throws {Error} If the channel is not HTTP-based.
+ */
+export function buildNotificationRequest(
+  channel: Pick<NotificationChannelInput, "type" | "target" | "chatId">,
+  event: NotificationEvent,
+): NotificationHttpRequest {
+  const url = channel.target.trim();
+  switch (channel.type) {
+    case "webhook":
+      return {
+        url,
+        body: {
+          type: event.type,
+          label: NOTIFICATION_EVENT_LABELS[event.type],
+          key: event.key,
+          title: event.title,
+          message: event.message,
+          data: event.data ?? {},
+          sentAt: new Date().toISOString(),
+        },
+      };
+    case "telegram":
+      return {
+        url,
+        body: {
+          chat_id: channel.chatId,
+          text: formatNotificationText(event),
+          disable_web_page_preview: true,
+        },
+      };
+    case "discord":
+      return {
+        url,
+        body: {
+          // Discord limits message content to 2000 characters
+          content: `**${event.title}**\n${event.message}`.slice(0, 2000),
+        },
+      };
+    default:
+      throw new Error(`Channel type '${channel.type}' is not delivered over HTTP.`);
+  }
+}
+
+/**
+ * POSTs a JSON request and throws if the response is not successful.
+ */
+async function postJson(request: NotificationHttpRequest): Promise<void> {
+  const response = await fetch(request.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request.body),
+    signal: AbortSignal.timeout(NOTIFICATION_REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const responseText = await response.text().catch(() => "");
+    throw new Error(`HTTP ${response.status}${responseText ? `: ${responseText.slice(0, 200)}` : ""}`);
+  }
+}
+
+let cachedTransport: nodemailer.Transporter | null = null;
+
+/**
+ * Creates (once) the SMTP transport from the environment.
+ *
+ * @throws {Error} If SMTP is not configured.
+ */
+function getSmtpTransport(): nodemailer.Transporter {
+  if (cachedTransport) {
+    return cachedTransport;
+  }
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP is not configured. Set SMTP_HOST (and SMTP_FROM) to send email notifications.");
+  }
+
+  cachedTransport = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+    connectionTimeout: NOTIFICATION_REQUEST_TIMEOUT_MS,
+    greetingTimeout: NOTIFICATION_REQUEST_TIMEOUT_MS,
+    socketTimeout: NOTIFICATION_REQUEST_TIMEOUT_MS,
+  });
+  return cachedTransport;
+}
+
+/**
+ * Delivers an event to a single channel.
+ *
+ * @param {Pick<NotificationChannelInput, "type" | "target" | "chatId">} channel - The channel to deliver to.
+ * @param {NotificationEvent} event - The event to deliver.
+ * @returns {Promise<void>} Resolves once the channel accepted the event.
+ * @throws {Error} If the delivery fails.
+ */
+export async function sendNotification(
+  channel: Pick<NotificationChannelInput, "type" | "target" | "chatId">,
+  event: NotificationEvent,
+): Promise<void> {
+  if (channel.type === "email") {
+    await getSmtpTransport().sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: channel.target.trim(),
+      subject: event.title,
+      text: event.message,
+    });
+    return;
+  }
+
+  await postJson(buildNotificationRequest(channel, event));
+}
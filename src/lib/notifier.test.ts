@@ -0,0 +1,209 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { NotificationChannel, NotificationDelivery, NotificationEvent } from "@/types";
+import { dispatchNotifications } from "./notifier";
+
+// In-memory stand-in for the channel and delivery tables
+const db = vi.hoisted(() => ({
+  channels: [] as NotificationChannel[],
+  deliveries: [] as NotificationDelivery[],
+}));
+
+vi.mock("./prisma", () => ({
+  default: {
+    notificationChannel: {
+      findMany: async ({ where }: { where: { enabled: boolean } }) =>
+        db.channels.filter((channel) => channel.enabled === where.enabled),
+    },
+    notificationDelivery: {
+      findFirst: async ({ where }: {
+        where: { channelId: string; eventKey: string; status: string; createdAt: { gte: Date } };
+      }) =>
+        db.deliveries.find((delivery) =>
+          delivery.channelId === where.channelId &&
+          delivery.eventKey === where.eventKey &&
+          delivery.status === where.status &&
+          delivery.createdAt >= where.createdAt.gte) ?? null,
+      create: async ({ data }: { data: Omit<NotificationDelivery, "id" | "createdAt"> }) => {
+        const delivery = { ...data, id: `delivery-${db.deliveries.length + 1}`, createdAt: new Date() };
+        db.deliveries.push(delivery);
+        return delivery;
+      },
+    },
+  },
+}));
+
+interface ReceivedRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  // Accepts every POST except on /fail, which answers 500
+  server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ path: request.url ?? "", body: JSON.parse(body) });
+      response.statusCode = request.url === "/fail" ? 500 : 200;
+      response.end(request.url === "/fail" ? "upstream down" : "ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  db.channels = [];
+  db.deliveries = [];
+});
+
+function makeChannel(overrides: Partial<NotificationChannel>): NotificationChannel {
+  return {
+    id: `channel-${db.channels.length + 1}`,
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    updatedAt: new Date("2024-01-01T00:00:00Z"),
+    name: `Channel ${db.channels.length + 1}`,
+    type: "webhook",
+    enabled: true,
+    target: `${baseUrl}/webhook`,
+    chatId: null,
+    events: [],
+    throttleMinutes: 0,
+    ...overrides,
+  };
+}
+
+function addChannels(...channels: Partial<NotificationChannel>[]): void {
+  for (const channel of channels) {
+    db.channels.push(makeChannel(channel));
+  }
+}
+
+const filledEvent: NotificationEvent = {
+  type: "tradeFilled",
+  key: "tradeFilled:log-1",
+  title: "Trade filled: BTC-PERP",
+  message: "Open long 0.1 BTC-PERP filled at $40,000.00",
+  data: { symbol: "BTC-PERP" },
+};
+
+const receivedOn = (path: string) => received.filter((request) => request.path === path);
+
+describe("dispatchNotifications", () => {
+  it("POSTs the webhook, Telegram and Discord payloads", async () => {
+    addChannels(
+      { type: "webhook", target: `${baseUrl}/webhook` },
+      { type: "telegram", target: `${baseUrl}/bot123/sendMessage`, chatId: "42" },
+      { type: "discord", target: `${baseUrl}/discord` },
+    );
+
+    await dispatchNotifications([filledEvent]);
+
+    const [webhook] = receivedOn("/webhook");
+    expect(webhook.body).toMatchObject({
+      type: "tradeFilled",
+      label: "Trade filled",
+      key: "tradeFilled:log-1",
+      title: filledEvent.title,
+      message: filledEvent.message,
+      data: { symbol: "BTC-PERP" },
+    });
+    expect(new Date(webhook.body.sentAt as string).getTime()).not.toBeNaN();
+
+    expect(receivedOn("/bot123/sendMessage")[0].body).toEqual({
+      chat_id: "42",
+      text: `${filledEvent.title}\n${filledEvent.message}`,
+      disable_web_page_preview: true,
+    });
+    expect(receivedOn("/discord")[0].body).toEqual({
+      content: `**${filledEvent.title}**\n${filledEvent.message}`,
+    });
+    expect(db.deliveries.map((delivery) => delivery.status)).toEqual(["sent", "sent", "sent"]);
+  });
+
+  it("only delivers to enabled channels subscribed to the event type", async () => {
+    addChannels(
+      { target: `${baseUrl}/all` },
+      { target: `${baseUrl}/failures`, events: ["tradeFailed"] },
+      { target: `${baseUrl}/disabled`, enabled: false },
+    );
+
+    await dispatchNotifications([filledEvent]);
+
+    expect(received.map((request) => request.path)).toEqual(["/all"]);
+  });
+
+  it("throttles repeats of an event key per channel", async () => {
+    addChannels(
+      { target: `${baseUrl}/throttled`, throttleMinutes: 10 },
+      { target: `${baseUrl}/unthrottled`, throttleMinutes: 0 },
+    );
+
+    await dispatchNotifications([filledEvent]);
+    await dispatchNotifications([filledEvent]);
+    await dispatchNotifications([{ ...filledEvent, key: "tradeFilled:log-2" }]);
+
+    expect(receivedOn("/throttled").map((request) => request.body.key))
+      .toEqual(["tradeFilled:log-1", "tradeFilled:log-2"]);
+    expect(receivedOn("/unthrottled")).toHaveLength(3);
+  });
+
+  it("sends again once the throttle window has passed", async () => {
+    addChannels({ target: `${baseUrl}/throttled`, throttleMinutes: 10 });
+    db.deliveries.push({
+      id: "delivery-old",
+      createdAt: new Date(Date.now() - 11 * 60 * 1000),
+      channelId: "channel-1",
+      eventType: "tradeFilled",
+      eventKey: filledEvent.key,
+      status: "sent",
+      title: filledEvent.title,
+      error: null,
+    });
+
+    await dispatchNotifications([filledEvent]);
+
+    expect(receivedOn("/throttled")).toHaveLength(1);
+  });
+
+  it("keeps delivering to the other channels when one fails", async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const closedUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}/gone`;
+    await new Promise((resolve) => closed.close(resolve));
+
+    addChannels(
+      { name: "Failing", target: `${baseUrl}/fail` },
+      { name: "Unreachable", target: closedUrl },
+      { name: "Working", target: `${baseUrl}/webhook` },
+    );
+
+    await expect(dispatchNotifications([filledEvent])).resolves.toBeUndefined();
+
+    expect(receivedOn("/webhook")).toHaveLength(1);
+    const byChannel = Object.fromEntries(db.deliveries.map((delivery) => [delivery.channelId, delivery]));
+    expect(byChannel["channel-1"]).toMatchObject({ status: "failed", error: "HTTP 500: upstream down" });
+    expect(byChannel["channel-2"].status).toBe("failed");
+    expect(byChannel["channel-3"]).toMatchObject({ status: "sent", error: null });
+  });
+
+  it("retries a failed delivery on the next dispatch despite the throttle", async () => {
+    addChannels({ target: `${baseUrl}/fail`, throttleMinutes: 10 });
+
+    await dispatchNotifications([filledEvent]);
+    await dispatchNotifications([filledEvent]);
+
+    expect(receivedOn("/fail")).toHaveLength(2);
+  });
+});
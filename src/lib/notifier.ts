@@ -0,0 +1,118 @@
+/**
+ * @description
+ * Dispatches notification events to every enabled, subscribed channel stored in the database.
+ * Applies each channel's throttle window and records every delivery attempt in the NotificationDelivery table.
+ *
+ * @dependencies
+ * - @/types: Provides the notification channel and event types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @/lib/notifications: Builds and sends the per-channel payloads.
+ *
+ * @notes
+ * - Dispatching never throws: delivery and database errors are logged so callers (trade logging,
+ *   alert evaluation) are never failed by a notification problem.
+ * - Only import this file from server-side code.
+ */
+
+import type { NotificationChannel, NotificationEvent } from "@/types";
+import prisma from "./prisma";
+import { channelAcceptsEvent, sendNotification } from "./notifications";
+
+/**
+ * Returns true if the same event was already delivered to the channel within its throttle window.
+ */
+async function isThrottled(channel: NotificationChannel, event: NotificationEvent): Promise<boolean> {
+  if (channel.throttleMinutes <= 0) {
+    return false;
+  }
+  const recentDelivery = await prisma.notificationDelivery.findFirst({
+    where: {
+      channelId: channel.id,
+      eventKey: event.key,
+      status: "sent",
+      createdAt: { gte: new Date(Date.now() - channel.throttleMinutes * 60 * 1000) },
+    },
+    select: { id: true },
+  });
+  return recentDelivery !== null;
+}
+
+/**
+ * Sends an event to one channel and records the outcome in the delivery log.
+ *
+ * @param {NotificationChannel} channel - The channel to deliver to.
+ * @param {NotificationEvent} event - The event to deliver.
+ * @returns {Promise<{ status: "sent" | "failed"; error: string | null }>} The outcome of the attempt.
+ */
+export async function deliverToChannel(
+  channel: NotificationChannel,
+  event: NotificationEvent,
+): Promise<{ status: "sent" | "failed"; error: string | null }> {
+  let status: "sent" | "failed" = "sent";
+  let error: string | null = null;
+
+  try {
+    await sendNotification(channel, event);
+    console.log(`[Notifier] ✅ Delivered ${event.type} (${event.key}) to channel "${channel.name}"`);
+  } catch (sendError) {
+    status = "failed";
+    error = sendError instanceof Error ? sendError.message : String(sendError);
+    console.error(`[Notifier] ❌ Failed to deliver ${event.type} (${event.key}) to channel "${channel.name}":`, error);
+  }
+
+  try {
+    await prisma.notificationDelivery.create({
+      data: {
+        channelId: channel.id,
+        eventType: event.type,
+        eventKey: event.key,
+        status,
+        title: event.title,
+        error,
+      },
+    });
+  } catch (logError) {
+    console.error("[Notifier] ❌ Failed to record notification delivery:", logError);
+  }
+
+  return { status, error };
+}
+
+/**
+ * Delivers events to every enabled channel subscribed to them, skipping throttled repeats.
+ *
+ * @param {NotificationEvent[]} events - The events to deliver.
+ * @returns {Promise<void>} Resolves once every delivery attempt has finished.
+ */
+export async function dispatchNotifications(events: NotificationEvent[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  try {
+    const channels = await prisma.notificationChannel.findMany({ where: { enabled: true } });
+    if (channels.length === 0) {
+      return;
+    }
+
+    const deliveries: Promise<unknown>[] = [];
+    for (const event of events) {
+      for (const channel of channels) {
+        if (!channelAcceptsEvent(channel, event)) continue;
+        deliveries.push(
+          isThrottled(channel, event).then((throttled) => {
+            if (throttled) {
+              console.log(`[Notifier] ⚠️ Skipping ${event.key} for channel "${channel.name}" (throttled)`);
+              return;
+            }
+            return deliverToChannel(channel, event);
+          }),
+        );
+      }
+    }
+
+    await Promise.allSettled(deliveries);
+  } catch (error) {
+    console.error("[Notifier] ❌ Error dispatching notifications:", error);
+  }
+}
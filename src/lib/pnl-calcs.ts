@@ -0,0 +1,86 @@
+/**
+ * @description
+ * This library file provides pure functions for deriving realized PnL figures from
+ * imported Hyperliquid fills.
+ *
+ * @dependencies
+ * - @/types: Provides TradeFill, TradePnlSummary and TradeLogEntry types.
+ *
+ * @notes
+ * - Hyperliquid's `closedPnl` excludes fees, so net PnL is `closedPnl - fee`.
+ * - A negative fee is a maker rebate and increases net PnL.
+ */
+
+import type { TradeFill, TradeLogEntry, TradePnlSummary } from "@/types";
+
+/**
+ * Aggregates fills into one summary per Hyperliquid order.
+ *
+ * @param {TradeFill[]} fills - Fills to aggregate, in any order.
+ * @param {Map<string, TradeLogEntry>} [tradeLogsByOrderId] - Trade Log entries keyed by `hyperliquidOrderId`, attached to matching summaries.
+ * @returns {TradePnlSummary[]} One summary per order, most recent first.
+ */
+export function summarizeFillsByOrder(
+  fills: TradeFill[],
+  tradeLogsByOrderId: Map<string, TradeLogEntry> = new Map(),
+): TradePnlSummary[] {
+  const summaries = new Map<string, TradePnlSummary & { notional: number }>();
+
+  for (const fill of fills) {
+    const existing = summaries.get(fill.hyperliquidOrderId);
+    if (existing) {
+      existing.totalSize += fill.size;
+      existing.notional += fill.size * fill.price;
+      existing.fees += fill.fee;
+      existing.realizedPnl += fill.closedPnl;
+      existing.fillCount += 1;
+      if (fill.time > existing.lastFillTime) {
+        existing.lastFillTime = fill.time;
+      }
+    } else {
+      summaries.set(fill.hyperliquidOrderId, {
+        hyperliquidOrderId: fill.hyperliquidOrderId,
+        coin: fill.coin,
+        direction: fill.direction,
+        totalSize: fill.size,
+        notional: fill.size * fill.price,
+        avgPrice: 0,
+        fees: fill.fee,
+        realizedPnl: fill.closedPnl,
+        netPnl: 0,
+        fillCount: 1,
+        lastFillTime: fill.time,
+        tradeLog: tradeLogsByOrderId.get(fill.hyperliquidOrderId) ?? null,
+      });
+    }
+  }
+
+  return Array.from(summaries.values())
+    .map(({ notional, ...summary }) => ({
+      ...summary,
+      avgPrice: summary.totalSize > 0 ? notional / summary.totalSize : 0,
+      netPnl: summary.realizedPnl - summary.fees,
+    }))
+    .sort((a, b) => b.lastFillTime.getTime() - a.lastFillTime.getTime());
+}
+
+/**
+ * Totals realized PnL and fees across trade summaries.
+ *
+ * @param {TradePnlSummary[]} summaries - Per-trade summaries from `summarizeFillsByOrder`.
+ * @returns {{ realizedPnl: number; fees: number; netPnl: number }} The totals.
+ */
+export function totalRealizedPnl(summaries: TradePnlSummary[]): {
+  realizedPnl: number;
+  fees: number;
+  netPnl: number;
+} {
+  return summaries.reduce(
+    (totals, summary) => ({
+      realizedPnl: totals.realizedPnl + summary.realizedPnl,
+      fees: totals.fees + summary.fees,
+      netPnl: totals.netPnl + summary.netPnl,
+    }),
+    { realizedPnl: 0, fees: 0, netPnl: 0 },
+  );
+}
@@ -0,0 +1,335 @@
+/**
+ * @description
+ * Server-side background poller. Polls Allora and Hyperliquid on the configured intervals, caches the latest
+ * snapshot in memory and persists history, so data keeps flowing (and alerts keep being evaluated) while no
+ * browser tab is open, and any number of tabs share the same upstream API load.
+ *
+ * Jobs:
+ * - 'predictions': fetches Allora predictions (which are persisted for accuracy scoring) and scores matured ones.
+ * - 'account': fetches account info, positions and open orders, records an AccountSnapshot row, and evaluates
+ *   the contradiction alert rules (which also dispatches notifications).
+ *
+ * @dependencies
+ * - @/types: Provides ActionState and the poller snapshot types.
+ * - @/lib/prisma: For the persisted intervals and account history.
+ * - @/lib/constants: Provides default and minimum intervals.
+ * - @/lib/snapshot: Converts cached sections into ActionStates.
+ * - @/actions/*: The Server Actions that do the actual fetching.
+ *
+ * @notes
+ * - Started from `src/instrumentation.ts` when the Next.js server boots, and lazily by `/api/snapshot`.
+ *   Set `DISABLE_SERVER_POLLER=true` to keep it from starting on boot.
+ * - State lives on `globalThis` because Next.js bundles the instrumentation hook and the route handlers
+ *   separately; both must see the same timers and cache. This also survives hot reloads in development.
+ * - Jobs are scheduled with `setTimeout` after each run finishes, so a slow poll never overlaps the next one.
+ * - Only import this file from server-side code.
+ */
+
+import type {
+  ActionState,
+  HyperliquidAccountInfo,
+  PollerIntervals,
+  PollerSection,
+  PollerSnapshot,
+  PollerSnapshotData,
+  PollerSnapshotEntry,
+} from "@/types";
+import prisma from "./prisma";
+import { snapshotEntryToActionState } from "./snapshot";
+import {
+  DEFAULT_ACCOUNT_INTERVAL,
+  DEFAULT_PREDICTION_INTERVAL,
+  MIN_POLLER_INTERVAL_MS,
+} from "./constants";
+import { fetchAlloraPredictionsAction } from "@/actions/allora-actions";
+import { scorePredictionsAction } from "@/actions/prediction-history-actions";
+import {
+  fetchHyperliquidAccountInfoAction,
+  fetchHyperliquidPositionsAction,
+  fetchOpenOrdersAction,
+} from "@/actions/hyperliquid-actions";
+import { evaluateAlertRulesAction } from "@/actions/alert-rule-actions";
+
+type PollerJob = "predictions" | "account";
+
+/** The job that refreshes each snapshot section. */
+const SECTION_JOBS: Record<PollerSection, PollerJob> = {
+  predictions: "predictions",
+  accountInfo: "account",
+  positions: "account",
+  openOrders: "account",
+  alerts: "account",
+};
+
+interface PollerState {
+  snapshot: PollerSnapshot;
+  timers: Record<PollerJob, NodeJS.Timeout | null>;
+  inFlight: Record<PollerJob, Promise<void> | null>;
+  startPromise: Promise<void> | null;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var alloraPoller: PollerState | undefined;
+}
+
+const emptyEntry = () => ({ data: null, error: null, updatedAt: null, attemptedAt: null });
+
+/**
+ * Reads the default intervals from the environment (`POLLER_PREDICTION_INTERVAL_MS`, `POLLER_ACCOUNT_INTERVAL_MS`),
+ * falling back to the application defaults.
+ */
+function getDefaultIntervals(): PollerIntervals {
+  return {
+    predictionIntervalMs: Number(process.env.POLLER_PREDICTION_INTERVAL_MS) || DEFAULT_PREDICTION_INTERVAL,
+    accountIntervalMs: Number(process.env.POLLER_ACCOUNT_INTERVAL_MS) || DEFAULT_ACCOUNT_INTERVAL,
+  };
+}
+
+const state: PollerState =
+  globalThis.alloraPoller ||
+  (globalThis.alloraPoller = {
+    snapshot: {
+      sections: {
+        predictions: emptyEntry(),
+        accountInfo: emptyEntry(),
+        positions: emptyEntry(),
+        openOrders: emptyEntry(),
+        alerts: emptyEntry(),
+      },
+      intervals: getDefaultIntervals(),
+      startedAt: null,
+    },
+    timers: { predictions: null, account: null },
+    inFlight: { predictions: null, account: null },
+    startPromise: null,
+  });
+
+/**
+ * Stores the result of a fetch in a snapshot section. Failed fetches keep the previous data.
+ */
+function storeResult<K extends PollerSection>(section: K, result: ActionState<PollerSnapshotData[K]>): void {
+  const now = Date.now();
+  const sections = state.snapshot.sections as Record<K, PollerSnapshotEntry<PollerSnapshotData[K]>>;
+  const previous = sections[section];
+  sections[section] = result.isSuccess
+    ? { data: result.data, error: null, updatedAt: now, attemptedAt: now }
+    : { ...previous, error: result.message, attemptedAt: now };
+}
+
+/**
+ * Records a row of account history from the clearinghouse state.
+ */
+async function recordAccountSnapshot(accountInfo: HyperliquidAccountInfo): Promise<void> {
+  try {
+    const unrealizedPnl = accountInfo.assetPositions.reduce(
+      (sum, p) => sum + (parseFloat(p.position.unrealizedPnl) || 0),
+      0,
+    );
+    await prisma.accountSnapshot.create({
+      data: {
+        accountValue: parseFloat(accountInfo.marginSummary.accountValue) || 0,
+        totalMarginUsed: parseFloat(accountInfo.marginSummary.totalMarginUsed) || 0,
+        totalNtlPos: parseFloat(accountInfo.marginSummary.totalNtlPos) || 0,
+        withdrawable: parseFloat(accountInfo.withdrawable) || 0,
+        unrealizedPnl,
+        positionCount: accountInfo.assetPositions.length,
+      },
+    });
+  } catch (error) {
+    console.error("[Poller] ❌ Failed to record account snapshot:", error);
+  }
+}
+
+/**
+ * Runs one poll of a job and updates the snapshot.
+ */
+async function executeJob(job: PollerJob): Promise<void> {
+  const startTime = Date.now();
+  if (job === "predictions") {
+    storeResult("predictions", await fetchAlloraPredictionsAction());
+
+    const scoreResult = await scorePredictionsAction();
+    if (!scoreResult.isSuccess) {
+      console.error("[Poller] ❌ Failed to score predictions:", scoreResult.message);
+    }
+  } else {
+    const [accountResult, positionsResult, ordersResult] = await Promise.all([
+      fetchHyperliquidAccountInfoAction(),
+      fetchHyperliquidPositionsAction(),
+      fetchOpenOrdersAction(),
+    ]);
+    storeResult("accountInfo", accountResult);
+    storeResult("positions", positionsResult);
+    storeResult("openOrders", ordersResult);
+
+    if (accountResult.isSuccess) {
+      await recordAccountSnapshot(accountResult.data);
+    }
+
+    storeResult("alerts", await evaluateAlertRulesAction());
+  }
+  console.log(`[Poller] ✅ ${job} poll finished in ${Date.now() - startTime}ms`);
+}
+
+/**
+ * Runs a job now, or joins the run already in progress.
+ */
+function runJob(job: PollerJob): Promise<void> {
+  const running = state.inFlight[job];
+  if (running) {
+    return running;
+  }
+
+  const run = executeJob(job)
+    .catch((error) => {
+      console.error(`[Poller] ❌ Unexpected error in ${job} poll:`, error);
+    })
+    .finally(() => {
+      state.inFlight[job] = null;
+    });
+  state.inFlight[job] = run;
+  return run;
+}
+
+/**
+ * Schedules the next run of a job after its interval, replacing any pending timer.
+ */
+function scheduleJob(job: PollerJob, delayMs: number): void {
+  const pending = state.timers[job];
+  if (pending) {
+    clearTimeout(pending);
+  }
+
+  state.timers[job] = setTimeout(async () => {
+    await runJob(job);
+    if (state.snapshot.startedAt !== null) {
+      const { predictionIntervalMs, accountIntervalMs } = state.snapshot.intervals;
+      scheduleJob(job, job === "predictions" ? predictionIntervalMs : accountIntervalMs);
+    }
+  }, delayMs);
+}
+
+/**
+ * Clamps intervals to the supported minimum.
+ */
+function sanitizeIntervals(intervals: PollerIntervals): PollerIntervals {
+  return {
+    predictionIntervalMs: Math.max(MIN_POLLER_INTERVAL_MS, Math.round(intervals.predictionIntervalMs)),
+    accountIntervalMs: Math.max(MIN_POLLER_INTERVAL_MS, Math.round(intervals.accountIntervalMs)),
+  };
+}
+
+/**
+ * Starts the poller if it is not running yet. Safe to call repeatedly.
+ * Loads the saved intervals and polls every job immediately.
+ *
+ * @returns {Promise<void>} Resolves once the poller has been scheduled (not when the first polls finish).
+ */
+export function startPoller(): Promise<void> {
+  if (state.startPromise) {
+    return state.startPromise;
+  }
+
+  state.startPromise = (async () => {
+    try {
+      const savedConfig = await prisma.pollerConfig.findUnique({ where: { id: "default" } });
+      if (savedConfig) {
+        state.snapshot.intervals = sanitizeIntervals(savedConfig);
+      }
+    } catch (error) {
+      console.error("[Poller] ❌ Failed to load saved intervals, using defaults:", error);
+    }
+
+    state.snapshot.startedAt = Date.now();
+    console.log(
+      `[Poller] Starting (predictions every ${state.snapshot.intervals.predictionIntervalMs}ms, ` +
+      `account every ${state.snapshot.intervals.accountIntervalMs}ms)`,
+    );
+    scheduleJob("predictions", 0);
+    scheduleJob("account", 0);
+  })();
+  return state.startPromise;
+}
+
+/**
+ * Stops the poller. The cached snapshot is kept.
+ */
+export function stopPoller(): void {
+  for (const job of Object.keys(state.timers) as PollerJob[]) {
+    const timer = state.timers[job];
+    if (timer) clearTimeout(timer);
+    state.timers[job] = null;
+  }
+  state.snapshot.startedAt = null;
+  state.startPromise = null;
+  console.log("[Poller] Stopped");
+}
+
+/**
+ * Returns the current cached snapshot.
+ */
+export function getPollerSnapshot(): PollerSnapshot {
+  return state.snapshot;
+}
+
+/**
+ * Polls the job that owns a section right away (joining a poll already in progress) and returns the updated snapshot.
+ *
+ * @param {PollerSection} section - The section to refresh.
+ * @returns {Promise<PollerSnapshot>} The snapshot after the poll.
+ */
+export async function refreshPollerSection(section: PollerSection): Promise<PollerSnapshot> {
+  await runJob(SECTION_JOBS[section]);
+  return state.snapshot;
+}
+
+/**
+ * Returns a section as an ActionState, polling it first if it has never been polled.
+ * Used by Server Components to render initial data from the cache.
+ *
+ * @param {K} section - The section to read.
+ * @returns {Promise<ActionState<PollerSnapshotData[K]>>} The cached data, or the last poll's error.
+ */
+export async function getPollerSectionState<K extends PollerSection>(
+  section: K,
+): Promise<ActionState<PollerSnapshotData[K]>> {
+  if (state.snapshot.sections[section].attemptedAt === null) {
+    await runJob(SECTION_JOBS[section]);
+  }
+
+  return snapshotEntryToActionState(state.snapshot.sections[section] as PollerSnapshotEntry<PollerSnapshotData[K]>);
+}
+
+/**
+ * Changes the polling intervals, saves them for future restarts, and reschedules running jobs.
+ *
+ * @param {PollerIntervals} intervals - The new intervals. Values below `MIN_POLLER_INTERVAL_MS` are raised to it.
+ * @returns {Promise<PollerIntervals>} The intervals now in effect.
+ */
+export async function setPollerIntervals(intervals: PollerIntervals): Promise<PollerIntervals> {
+  const sanitized = sanitizeIntervals(intervals);
+  const previous = state.snapshot.intervals;
+  state.snapshot.intervals = sanitized;
+
+  await prisma.pollerConfig.upsert({
+    where: { id: "default" },
+    create: { id: "default", ...sanitized },
+    update: sanitized,
+  });
+
+  // Restart the timers of jobs whose interval changed so the new value applies immediately
+  if (state.snapshot.startedAt !== null) {
+    if (previous.predictionIntervalMs !== sanitized.predictionIntervalMs) {
+      scheduleJob("predictions", sanitized.predictionIntervalMs);
+    }
+    if (previous.accountIntervalMs !== sanitized.accountIntervalMs) {
+      scheduleJob("account", sanitized.accountIntervalMs);
+    }
+  }
+
+  console.log(
+    `[Poller] Intervals updated (predictions ${sanitized.predictionIntervalMs}ms, account ${sanitized.accountIntervalMs}ms)`,
+  );
+  return sanitized;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { formatOrderSize, formatPerpOrderPrice, getPerpPriceDecimals, roundPerpPrice } from "./precision";
+
+describe("getPerpPriceDecimals", () => {
+  it("allows no decimals for prices with 5 or more integer digits", () => {
+    expect(getPerpPriceDecimals(12345.6, 0)).toBe(0);
+    expect(getPerpPriceDecimals(123456, 0)).toBe(0);
+    expect(getPerpPriceDecimals(65432.1, 5)).toBe(0);
+  });
+
+  it("allows decimals up to 5 significant figures", () => {
+    expect(getPerpPriceDecimals(3456.789, 0)).toBe(1);
+    expect(getPerpPriceDecimals(1.2345678, 0)).toBe(4);
+  });
+
+  it("caps sub-cent prices at 6 - szDecimals decimals", () => {
+    expect(getPerpPriceDecimals(0.00123456, 0)).toBe(6);
+    expect(getPerpPriceDecimals(0.00123456, 2)).toBe(4);
+    expect(getPerpPriceDecimals(0.00123456, 6)).toBe(0);
+  });
+
+  it("rejects non-positive and non-finite prices", () => {
+    expect(() => getPerpPriceDecimals(0, 0)).toThrow("Invalid price");
+    expect(() => getPerpPriceDecimals(-1, 0)).toThrow("Invalid price");
+    expect(() => getPerpPriceDecimals(NaN, 0)).toThrow("Invalid price");
+    expect(() => getPerpPriceDecimals(Infinity, 0)).toThrow("Invalid price");
+  });
+});
+
+describe("formatPerpOrderPrice", () => {
+  it("keeps integer prices of 100000 and above", () => {
+    expect(formatPerpOrderPrice(100000, 5, false)).toBe("100000");
+    expect(formatPerpOrderPrice(123456, 5, true)).toBe("123456");
+  });
+
+  it("rounds prices of 100000 and above to whole numbers in the given direction", () => {
+    expect(formatPerpOrderPrice(123456.2, 5, true)).toBe("123457");
+    expect(formatPerpOrderPrice(123456.8, 5, false)).toBe("123456");
+  });
+
+  it("rounds up for buys and down for sells", () => {
+    expect(formatPerpOrderPrice(3456.71, 4, true)).toBe("3456.8");
+    expect(formatPerpOrderPrice(3456.79, 4, false)).toBe("3456.7");
+  });
+
+  it("caps sub-cent prices at 6 - szDecimals decimals", () => {
+    expect(formatPerpOrderPrice(0.00123456, 0, true)).toBe("0.001235");
+    expect(formatPerpOrderPrice(0.00123456, 0, false)).toBe("0.001234");
+    expect(formatPerpOrderPrice(0.00123456, 2, true)).toBe("0.0013");
+    expect(formatPerpOrderPrice(0.00123456, 2, false)).toBe("0.0012");
+  });
+
+  it("rounds across a magnitude boundary", () => {
+    expect(formatPerpOrderPrice(9.99999, 0, true)).toBe("10");
+    expect(formatPerpOrderPrice(9.99999, 0, false)).toBe("9.9999");
+  });
+
+  it("ignores floating point noise", () => {
+    expect(formatPerpOrderPrice(0.29 * 100, 0, true)).toBe("29");
+    expect(formatPerpOrderPrice(0.29 * 100, 0, false)).toBe("29");
+    expect(formatPerpOrderPrice(0.1 + 0.2, 0, true)).toBe("0.3");
+  });
+});
+
+describe("roundPerpPrice", () => {
+  it("rounds to the nearest valid price", () => {
+    expect(roundPerpPrice(3456.74, 4)).toBe("3456.7");
+    expect(roundPerpPrice(3456.76, 4)).toBe("3456.8");
+    expect(roundPerpPrice(123456.4, 5)).toBe("123456");
+  });
+
+  it("caps sub-cent prices at 6 - szDecimals decimals", () => {
+    expect(roundPerpPrice(0.00123456, 0)).toBe("0.001235");
+    expect(roundPerpPrice(0.00123456, 2)).toBe("0.0012");
+  });
+
+  it("rounds across a magnitude boundary", () => {
+    expect(roundPerpPrice(9.99999, 0)).toBe("10");
+  });
+});
+
+describe("formatOrderSize", () => {
+  it("truncates to the asset's size decimals", () => {
+    expect(formatOrderSize(1.23456789, 3)).toBe("1.234");
+    expect(formatOrderSize(1.9999, 2)).toBe("1.99");
+    expect(formatOrderSize(5.9, 0)).toBe("5");
+  });
+
+  it("ignores floating point noise", () => {
+    expect(formatOrderSize(0.29, 2)).toBe("0.29");
+    expect(formatOrderSize(0.1 + 0.2, 1)).toBe("0.3");
+  });
+
+  it("returns '0' for sizes that truncate to zero", () => {
+    expect(formatOrderSize(0.00009, 4)).toBe("0");
+    expect(formatOrderSize(0.4, 0)).toBe("0");
+  });
+
+  it("returns '0' for non-positive and non-finite sizes", () => {
+    expect(formatOrderSize(0, 3)).toBe("0");
+    expect(formatOrderSize(-1, 3)).toBe("0");
+    expect(formatOrderSize(NaN, 3)).toBe("0");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @description
+ * Price and size precision rules for Hyperliquid perpetual orders.
+ *
+ * Rules:
+ * - Prices may use at most 5 significant figures and at most (6 - szDecimals) decimals. Integer prices are always valid.
+ * - Sizes are truncated (never rounded up) to the asset's `szDecimals`.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - Pure functions, safe to use on both the server (order building) and the client (input defaults and previews).
+ * - Order prices round in the permissive direction (up for buys, down for sells) so marketable limits stay marketable.
+ */
+
+/** Maximum significant figures in a perp price. */
+const MAX_PRICE_SIGNIFICANT_FIGURES = 5;
+/** Maximum price decimals for perps before subtracting the asset's `szDecimals`. */
+const MAX_PERP_PRICE_DECIMALS = 6;
+/** Guards against floating point noise such as 0.29 * 100 = 28.999999999999996. */
+const EPSILON = 1e-9;
+
+/**
+ * Removes trailing zeros (and a dangling decimal point) from a fixed-point number string.
+ */
+function stripTrailingZeros(value: string): string {
+  return value.includes(".") ? value.replace(/\.?0+$/, "") : value;
+}
+
+/**
+ * Returns how many decimals a perp price may use.
+ *
+ * @param {number} price - A positive price.
+ * @param {number} szDecimals - The asset's size decimals.
+ * @returns {number} The allowed number of decimals (0 for prices with 5 or more integer digits).
+ * @throws {Error} If the price is not a positive finite number.
+ */
+export function getPerpPriceDecimals(price: number, szDecimals: number): number {
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error(`Invalid price: ${price}`);
+  }
+
+  const maxDecimals = Math.max(0, MAX_PERP_PRICE_DECIMALS - szDecimals);
+  // Position of the most significant digit: 4 for 12345.6, -3 for 0.00123
+  const magnitude = Math.floor(Math.log10(price));
+  const significantDecimals = Math.max(0, MAX_PRICE_SIGNIFICANT_FIGURES - 1 - magnitude);
+  return Math.min(significantDecimals, maxDecimals);
+}
+
+/**
+ * Formats an order price for a perp asset, rounding in the given direction.
+ *
+ * @param {number} price - The raw price.
+ * @param {number} szDecimals - The asset's size decimals.
+ * @param {boolean} roundUp - Round up (buys) or down (sells) so the limit stays on the permissive side.
+ * @returns {string} The price string to submit.
+ * @throws {Error} If the price is not a positive finite number.
+ */
+export function formatPerpOrderPrice(price: number, szDecimals: number, roundUp: boolean): string {
+  const decimals = getPerpPriceDecimals(price, szDecimals);
+  const factor = Math.pow(10, decimals);
+  const scaled = price * factor;
+  const rounded = roundUp ? Math.ceil(scaled - EPSILON) : Math.floor(scaled + EPSILON);
+  return stripTrailingZeros((rounded / factor).toFixed(decimals));
+}
+
+/**
+ * Rounds a price to the nearest valid perp price. Used for display and input defaults, not for marketable limits.
+ *
+ * @param {number} price - The raw price.
+ * @param {number} szDecimals - The asset's size decimals.
+ * @returns {string} The nearest valid price string.
+ * @throws {Error} If the price is not a positive finite number.
+ */
+export function roundPerpPrice(price: number, szDecimals: number): string {
+  const decimals = getPerpPriceDecimals(price, szDecimals);
+  return stripTrailingZeros(price.toFixed(decimals));
+}
+
+/**
+ * Formats an order size by truncating it to the asset's `szDecimals`.
+ *
+ * @param {number} size - The raw size in base asset units.
+ * @param {number} szDecimals - The asset's size decimals.
+ * @returns {string} The size string to submit. "0" if the size is below the minimum increment (or not a positive number).
+ */
+export function formatOrderSize(size: number, szDecimals: number): string {
+  if (!Number.isFinite(size) || size <= 0) return "0";
+  const factor = Math.pow(10, szDecimals);
+  const truncated = Math.floor(size * factor + EPSILON) / factor;
+  return stripTrailingZeros(truncated.toFixed(szDecimals));
+}
+
+/**
+ * Returns the smallest size increment of an asset (e.g., 0.00001 for szDecimals 5).
+ *
+ * @param {number} szDecimals - The asset's size decimals.
+ * @returns {number} The minimum size increment.
+ */
+export function getSizeIncrement(szDecimals: number): number {
+  return Math.pow(10, -szDecimals);
+}
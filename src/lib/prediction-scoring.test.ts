@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { getPredictionTargetTime, getTimeframeHorizonMs } from "./prediction-scoring";
+
+describe("getTimeframeHorizonMs", () => {
+  it("returns the horizon of the listed timeframes", () => {
+    expect(getTimeframeHorizonMs("5m")).toBe(5 * 60 * 1000);
+    expect(getTimeframeHorizonMs("8h")).toBe(8 * 60 * 60 * 1000);
+  });
+
+  it("derives the horizon of other minute, hour, day and week timeframes", () => {
+    expect(getTimeframeHorizonMs("15m")).toBe(15 * 60 * 1000);
+    expect(getTimeframeHorizonMs("24h")).toBe(24 * 60 * 60 * 1000);
+    expect(getTimeframeHorizonMs("1d")).toBe(24 * 60 * 60 * 1000);
+    expect(getTimeframeHorizonMs("1w")).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it("rejects timeframes without a horizon", () => {
+    expect(getTimeframeHorizonMs("")).toBeNull();
+    expect(getTimeframeHorizonMs("0m")).toBeNull();
+    expect(getTimeframeHorizonMs("1y")).toBeNull();
+    expect(getTimeframeHorizonMs("daily")).toBeNull();
+  });
+});
+
+describe("getPredictionTargetTime", () => {
+  it("adds the horizon to the prediction time", () => {
+    expect(getPredictionTargetTime(1000, "10m")).toBe(1000 + 10 * 60 * 1000);
+    expect(getPredictionTargetTime(1000, "1y")).toBeNull();
+  });
+});
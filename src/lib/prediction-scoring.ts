@@ -0,0 +1,138 @@
+/**
+ * @description
+ * This library file provides pure functions for scoring Allora predictions against the
+ * price that actually occurred once the prediction horizon elapsed, and for aggregating
+ * those scores into accuracy statistics.
+ *
+ * @dependencies
+ * - @/types: Provides PredictionRecord and PredictionAccuracyStats types.
+ *
+ * @notes
+ * - Directional scoring compares the predicted move and the actual move, both measured from
+ *   the Hyperliquid price at the time the prediction was made.
+ * - The confidence interval check uses the outermost interval values Allora returned.
+ */
+
+import type { PredictionAccuracyStats, PredictionRecord } from "@/types";
+
+/** Prediction horizon in milliseconds for each supported timeframe. */
+export const TIMEFRAME_HORIZON_MS: Record<string, number> = {
+  "5m": 5 * 60 * 1000,
+  "8h": 8 * 60 * 60 * 1000,
+};
+
+// Milliseconds per unit of a timeframe string such as '15m' or '1d'
+const TIMEFRAME_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Returns the horizon of a timeframe, in milliseconds.
+ * Timeframes outside `TIMEFRAME_HORIZON_MS` are parsed as a whole number of minutes, hours, days or weeks (e.g., '15m', '1d').
+ *
+ * @param {string} timeframe - The prediction horizon (e.g., '5m', '8h').
+ * @returns {number | null} The horizon, or null if the timeframe cannot be parsed.
+ */
+export function getTimeframeHorizonMs(timeframe: string): number | null {
+  if (TIMEFRAME_HORIZON_MS[timeframe] !== undefined) {
+    return TIMEFRAME_HORIZON_MS[timeframe];
+  }
+  const match = /^(\d+)([mhdw])$/.exec(timeframe.trim());
+  const amount = match ? parseInt(match[1], 10) : 0;
+  return amount > 0 ? amount * TIMEFRAME_UNIT_MS[match![2]] : null;
+}
+
+/**
+ * Returns the time at which a prediction's horizon elapses.
+ *
+ * @param {number} predictionTimestamp - When the prediction was generated (ms since epoch).
+ * @param {string} timeframe - The prediction horizon (e.g., '5m', '8h', '1d').
+ * @returns {number | null} The target time in ms since epoch, or null if the timeframe cannot be parsed.
+ */
+export function getPredictionTargetTime(predictionTimestamp: number, timeframe: string): number | null {
+  const horizon = getTimeframeHorizonMs(timeframe);
+  return horizon !== null ? predictionTimestamp + horizon : null;
+}
+
+/**
+ * Scores a single prediction against the actual price at its target time.
+ *
+ * @param {Pick<PredictionRecord, 'predictedPrice' | 'priceAtPrediction' | 'confidenceIntervalValues'>} prediction - The prediction to score.
+ * @param {number} actualPrice - The price at the prediction's target time.
+ * @returns The directional hit (null without a reference price or predicted move), absolute error,
+ * and whether the actual price was inside the confidence interval (null without an interval).
+ */
+export function scorePrediction(
+  prediction: Pick<PredictionRecord, "predictedPrice" | "priceAtPrediction" | "confidenceIntervalValues">,
+  actualPrice: number,
+): { directionHit: boolean | null; absoluteError: number; withinConfidenceInterval: boolean | null } {
+  const { predictedPrice, priceAtPrediction, confidenceIntervalValues } = prediction;
+
+  let directionHit: boolean | null = null;
+  if (priceAtPrediction !== null && predictedPrice !== priceAtPrediction) {
+    const predictedUp = predictedPrice > priceAtPrediction;
+    const actualUp = actualPrice > priceAtPrediction;
+    directionHit = predictedUp === actualUp;
+  }
+
+  let withinConfidenceInterval: boolean | null = null;
+  if (confidenceIntervalValues.length >= 2) {
+    const lower = Math.min(...confidenceIntervalValues);
+    const upper = Math.max(...confidenceIntervalValues);
+    withinConfidenceInterval = actualPrice >= lower && actualPrice <= upper;
+  }
+
+  return {
+    directionHit,
+    absoluteError: Math.abs(actualPrice - predictedPrice),
+    withinConfidenceInterval,
+  };
+}
+
+/**
+ * Returns the mean of a list of numbers, or null for an empty list.
+ */
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+/**
+ * Aggregates scored and pending predictions of one token and timeframe into accuracy statistics.
+ *
+ * @param {string} token - The token the records belong to.
+ * @param {string} timeframe - The timeframe the records belong to.
+ * @param {PredictionRecord[]} records - All stored records for the token and timeframe (scored and pending).
+ * @returns {PredictionAccuracyStats} The accuracy statistics.
+ */
+export function calculateAccuracyStats(
+  token: string,
+  timeframe: string,
+  records: PredictionRecord[],
+): PredictionAccuracyStats {
+  const scored = records.filter((r) => r.scoredAt !== null && r.actualPrice !== null);
+
+  const directional = scored
+    .map((r) => r.directionHit)
+    .filter((hit): hit is boolean => hit !== null);
+  const intervalChecks = scored
+    .map((r) => r.withinConfidenceInterval)
+    .filter((inside): inside is boolean => inside !== null);
+
+  return {
+    token,
+    timeframe,
+    scoredCount: scored.length,
+    pendingCount: records.length - scored.length,
+    directionalHitRate: mean(directional.map((hit) => (hit ? 1 : 0))),
+    meanAbsoluteError: mean(scored.map((r) => r.absoluteError ?? Math.abs((r.actualPrice as number) - r.predictedPrice))),
+    meanAbsolutePercentError: mean(
+      scored
+        .filter((r) => (r.actualPrice as number) > 0)
+        .map((r) => Math.abs((r.actualPrice as number) - r.predictedPrice) / (r.actualPrice as number)),
+    ),
+    confidenceIntervalCoverage: mean(intervalChecks.map((inside) => (inside ? 1 : 0))),
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import type { PreTradeGuardCode } from "@/types";
+import {
+  calculateOracleDeviationPercent,
+  evaluatePreTradeGuards,
+  getMaxNotionalForLeverage,
+  type PreTradeGuardInput,
+} from "./pretrade-guards";
+
+const NOW = Date.UTC(2024, 0, 1, 12);
+
+function makeInput(overrides: Partial<PreTradeGuardInput>): PreTradeGuardInput {
+  return {
+    assetName: "BTC",
+    isBuy: true,
+    size: 1,
+    leverage: 10,
+    price: 100,
+    midPx: 100,
+    bookMid: 100,
+    oraclePx: 100,
+    maxLeverage: 50,
+    marginTiers: [],
+    withdrawable: 1000,
+    positionSize: 0,
+    context: { referencePriceAt: NOW - 1000 },
+    now: NOW,
+    ...overrides,
+  };
+}
+
+const TIERS = [
+  { lowerBound: 0, maxLeverage: 50 },
+  { lowerBound: 100000, maxLeverage: 20 },
+];
+
+describe("evaluatePreTradeGuards", () => {
+  it("passes a fresh, affordable order", () => {
+    const result = evaluatePreTradeGuards(makeInput({}));
+    expect(result).toMatchObject({
+      passed: true,
+      reasons: [],
+      notional: 100,
+      requiredMargin: 10,
+      oracleDeviationPercent: 0,
+      maxNotional: null,
+    });
+  });
+
+  const rejections: [string, Partial<PreTradeGuardInput>, PreTradeGuardCode][] = [
+    ["no mid price", { midPx: null }, "missing_price"],
+    ["no order price", { price: null }, "missing_price"],
+    ["reviewed without a live price", { context: { referencePriceAt: null } }, "missing_price"],
+    ["reviewed price older than a minute", { context: { referencePriceAt: NOW - 61 * 1000 } }, "stale_price"],
+    ["book mid 2% away from the oracle", { bookMid: 102 }, "oracle_deviation"],
+    ["empty order book", { bookMid: null }, "oracle_deviation"],
+    ["no oracle price", { oraclePx: null }, "oracle_deviation"],
+    ["beyond a custom deviation limit", { bookMid: 100.6, context: { referencePriceAt: NOW, maxOracleDeviationPercent: 0.5 } }, "oracle_deviation"],
+    ["prediction older than 30 minutes", { context: { referencePriceAt: NOW, predictionTimestamp: NOW - 31 * 60 * 1000 } }, "stale_prediction"],
+    ["leverage above the asset's maximum", { leverage: 60, withdrawable: 1000 }, "max_leverage"],
+    ["position above the tier notional at this leverage", { leverage: 25, size: 1001, marginTiers: TIERS, withdrawable: 1000000 }, "max_notional"],
+    ["account margin unavailable", { withdrawable: null }, "account_unavailable"],
+    ["more margin than withdrawable", { withdrawable: 9.99 }, "insufficient_margin"],
+  ];
+
+  for (const [name, overrides, code] of rejections) {
+    it(`rejects: ${name}`, () => {
+      const result = evaluatePreTradeGuards(makeInput(overrides));
+      expect(result.passed).toBe(false);
+      expect(result.reasons.map((reason) => reason.code)).toEqual([code]);
+      expect(result.reasons[0].message).not.toBe("");
+    });
+  }
+
+  it("reports every failed check", () => {
+    const result = evaluatePreTradeGuards(makeInput({ bookMid: 105, leverage: 60, withdrawable: 0 }));
+    expect(result.reasons.map((reason) => reason.code)).toEqual(["oracle_deviation", "max_leverage", "insufficient_margin"]);
+  });
+
+  it("accepts deviations within a custom limit", () => {
+    const result = evaluatePreTradeGuards(makeInput({ bookMid: 102, context: { referencePriceAt: NOW, maxOracleDeviationPercent: 3 } }));
+    expect(result.passed).toBe(true);
+    expect(result.oracleDeviationPercent).toBeCloseTo(2, 12);
+  });
+
+  it("needs no margin for the part of an order that reduces the opposite position", () => {
+    const closing = evaluatePreTradeGuards(makeInput({ positionSize: -1, withdrawable: 0 }));
+    expect(closing.passed).toBe(true);
+    expect(closing.requiredMargin).toBe(0);
+
+    const flipping = evaluatePreTradeGuards(makeInput({ size: 3, positionSize: -1, withdrawable: 19.99 }));
+    expect(flipping.requiredMargin).toBeCloseTo(20, 12);
+    expect(flipping.reasons.map((reason) => reason.code)).toEqual(["insufficient_margin"]);
+  });
+
+  it("allows reducing a position that is already above the tier notional", () => {
+    const result = evaluatePreTradeGuards(makeInput({
+      isBuy: false,
+      leverage: 25,
+      size: 100,
+      positionSize: 2000,
+      marginTiers: TIERS,
+    }));
+    expect(result.maxNotional).toBe(100000);
+    expect(result.passed).toBe(true);
+  });
+});
+
+describe("getMaxNotionalForLeverage", () => {
+  const cases: [number, number | null][] = [
+    [10, null],
+    [20, null],
+    [21, 100000],
+    [50, 100000],
+    [51, 0],
+  ];
+
+  for (const [leverage, expected] of cases) {
+    it(`limits ${leverage}x to ${expected ?? "no maximum"}`, () => {
+      expect(getMaxNotionalForLeverage(TIERS, leverage)).toBe(expected);
+    });
+  }
+});
+
+describe("calculateOracleDeviationPercent", () => {
+  it("returns the absolute deviation in percent of the oracle price", () => {
+    expect(calculateOracleDeviationPercent(99, 100)).toBeCloseTo(1, 12);
+    expect(calculateOracleDeviationPercent(101.5, 100)).toBeCloseTo(1.5, 12);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * @description
+ * Pre-trade safety checks. Decides whether an order may be sent to Hyperliquid and, if not, why:
+ * missing or stale prices, a book mid that deviates too far from the oracle price, stale predictions,
+ * insufficient withdrawable margin, and the asset's leverage and notional limits (from its margin tiers).
+ *
+ * @dependencies
+ * - @/lib/constants: Provides the maximum price and prediction ages and the default oracle deviation limit.
+ * - @/types: Provides the margin tier and pre-trade check types.
+ *
+ * @notes
+ * - Pure functions; the order Server Actions gather the inputs (live mid price, clearinghouse state, asset metadata)
+ *   and refuse to submit while any reason is returned.
+ * - Margin is only required for the part of an order that opens or increases a position; the part that reduces
+ *   an existing opposite position needs none.
+ */
+
+import type {
+  HyperliquidMarginTier,
+  PreTradeCheckResult,
+  PreTradeGuardContext,
+  PreTradeGuardReason,
+} from "@/types";
+import {
+  DEFAULT_MAX_ORACLE_DEVIATION_PERCENT,
+  MAX_TRADE_PREDICTION_AGE_MS,
+  MAX_TRADE_PRICE_AGE_MS,
+} from "./constants";
+
+/**
+ * Inputs for `evaluatePreTradeGuards`.
+ *
+ * @property {string} assetName - The coin name, used in messages.
+ * @property {boolean} isBuy - True for buys (longs), false for sells (shorts).
+ * @property {number} size - Order size in base asset units.
+ * @property {number} leverage - The leverage the order is placed with.
+ * @property {number | null} price - Price the order is valued at (the limit price for limit orders, the mid price otherwise). Null if unavailable.
+ * @property {number | null} midPx - The asset's current mid price. Null if unavailable.
+ * @property {number | null} bookMid - Midpoint of the order book's best bid and ask. Null if either side is empty.
+ * @property {number | null} oraclePx - The asset's oracle price. Null if unavailable.
+ * @property {number} maxLeverage - The asset's maximum leverage.
+ * @property {HyperliquidMarginTier[]} marginTiers - The asset's margin tiers.
+ * @property {number | null} withdrawable - The account's withdrawable margin (USD). Null if it could not be fetched.
+ * @property {number} positionSize - The account's current signed position in the asset (negative for shorts).
+ * @property {PreTradeGuardContext} context - The client's review context.
+ * @property {number} now - Current time in milliseconds since epoch.
+ */
+export interface PreTradeGuardInput {
+  assetName: string;
+  isBuy: boolean;
+  size: number;
+  leverage: number;
+  price: number | null;
+  midPx: number | null;
+  bookMid: number | null;
+  oraclePx: number | null;
+  maxLeverage: number;
+  marginTiers: HyperliquidMarginTier[];
+  withdrawable: number | null;
+  positionSize: number;
+  context: PreTradeGuardContext;
+  now: number;
+}
+
+/**
+ * Returns the largest position notional an asset's margin tiers allow at a leverage.
+ * Each tier caps the leverage of positions at or above its lower bound, so the limit is the lower bound
+ * of the first tier whose maximum leverage is below the requested leverage.
+ *
+ * @param {HyperliquidMarginTier[]} tiers - The asset's margin tiers, sorted by `lowerBound`.
+ * @param {number} leverage - The requested leverage.
+ * @returns {number | null} The maximum notional in USD, or null if no tier restricts this leverage.
+ */
+export function getMaxNotionalForLeverage(tiers: HyperliquidMarginTier[], leverage: number): number | null {
+  const limitingTier = tiers.find((tier) => tier.maxLeverage < leverage);
+  return limitingTier ? limitingTier.lowerBound : null;
+}
+
+/**
+ * Calculates how far the order book mid is from the oracle price.
+ *
+ * @param {number} bookMid - Midpoint of the best bid and ask.
+ * @param {number} oraclePx - The oracle price.
+ * @returns {number} The absolute deviation in percent of the oracle price.
+ */
+export function calculateOracleDeviationPercent(bookMid: number, oraclePx: number): number {
+  return (Math.abs(bookMid - oraclePx) / oraclePx) * 100;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  return minutes >= 1 ? `${minutes} min` : `${Math.floor(ms / 1000)}s`;
+}
+
+/**
+ * Runs every pre-trade check for an order.
+ *
+ * @param {PreTradeGuardInput} input - The order, market and account data to check.
+ * @returns {PreTradeCheckResult} Whether the order may be sent, the failed checks, and the values they compared.
+ */
+export function evaluatePreTradeGuards(input: PreTradeGuardInput): PreTradeCheckResult {
+  const { assetName, isBuy, size, leverage, price, midPx, context, now } = input;
+  const reasons: PreTradeGuardReason[] = [];
+
+  // Prices
+  const hasPrice = price !== null && Number.isFinite(price) && price > 0;
+  if (midPx === null || !hasPrice) {
+    reasons.push({ code: "missing_price", message: `No valid price is available for ${assetName}.` });
+  } else if (context.referencePriceAt === null) {
+    reasons.push({ code: "missing_price", message: "The trade was reviewed without a live price. Wait for the price to load and review it again." });
+  } else if (context.referencePriceAt !== undefined && now - context.referencePriceAt > MAX_TRADE_PRICE_AGE_MS) {
+    reasons.push({
+      code: "stale_price",
+      message: `The reviewed price is ${formatAge(now - context.referencePriceAt)} old (limit ${formatAge(MAX_TRADE_PRICE_AGE_MS)}). Review the trade again with a fresh price.`,
+    });
+  }
+
+  // Book vs oracle: a dislocated book means the fill price cannot be trusted
+  const maxDeviation = context.maxOracleDeviationPercent ?? DEFAULT_MAX_ORACLE_DEVIATION_PERCENT;
+  const { bookMid, oraclePx } = input;
+  const oracleDeviationPercent = bookMid !== null && oraclePx !== null && bookMid > 0 && oraclePx > 0
+    ? calculateOracleDeviationPercent(bookMid, oraclePx)
+    : null;
+  if (bookMid === null || oraclePx === null || oracleDeviationPercent === null) {
+    reasons.push({
+      code: "oracle_deviation",
+      message: `Could not compare the ${assetName} order book with the oracle price (${bookMid === null ? "order book is empty" : "oracle price unavailable"}).`,
+    });
+  } else if (oracleDeviationPercent > maxDeviation) {
+    reasons.push({
+      code: "oracle_deviation",
+      message: `The ${assetName} book mid (${formatUsd(bookMid)}) is ${oracleDeviationPercent.toFixed(2)}% away from the oracle price (${formatUsd(oraclePx)}), above the ${maxDeviation}% limit.`,
+    });
+  }
+
+  // Prediction
+  if (context.predictionTimestamp !== undefined && now - context.predictionTimestamp > MAX_TRADE_PREDICTION_AGE_MS) {
+    reasons.push({
+      code: "stale_prediction",
+      message: `The prediction is ${formatAge(now - context.predictionTimestamp)} old (limit ${formatAge(MAX_TRADE_PREDICTION_AGE_MS)}). Wait for a newer prediction.`,
+    });
+  }
+
+  // Leverage
+  if (leverage > input.maxLeverage) {
+    reasons.push({
+      code: "max_leverage",
+      message: `Leverage ${leverage}x exceeds Hyperliquid's maximum of ${input.maxLeverage}x for ${assetName}.`,
+    });
+  }
+
+  // Notional and margin
+  const notional = hasPrice ? size * (price as number) : null;
+  const maxNotional = getMaxNotionalForLeverage(input.marginTiers, leverage);
+  const signedSize = isBuy ? size : -size;
+  const resultingPositionSize = input.positionSize + signedSize;
+  // Only the part of the order that opens or increases a position needs margin
+  const reducingSize = Math.sign(input.positionSize) === -Math.sign(signedSize)
+    ? Math.min(size, Math.abs(input.positionSize))
+    : 0;
+  const requiredMargin = hasPrice ? ((size - reducingSize) * (price as number)) / leverage : null;
+
+  if (hasPrice && maxNotional !== null) {
+    const resultingNotional = Math.abs(resultingPositionSize) * (price as number);
+    if (Math.abs(resultingPositionSize) > Math.abs(input.positionSize) && resultingNotional > maxNotional) {
+      reasons.push({
+        code: "max_notional",
+        message: `The resulting ${assetName} position (${formatUsd(resultingNotional)}) exceeds the ${formatUsd(maxNotional)} maximum at ${leverage}x. Lower the leverage or the size.`,
+      });
+    }
+  }
+
+  if (input.withdrawable === null) {
+    reasons.push({ code: "account_unavailable", message: "Could not fetch the account's margin to check the order." });
+  } else if (requiredMargin !== null && requiredMargin > input.withdrawable) {
+    reasons.push({
+      code: "insufficient_margin",
+      message: `The order needs ${formatUsd(requiredMargin)} of margin but only ${formatUsd(input.withdrawable)} is withdrawable.`,
+    });
+  }
+
+  return {
+    passed: reasons.length === 0,
+    reasons,
+    midPx,
+    oracleDeviationPercent,
+    notional,
+    requiredMargin,
+    withdrawable: input.withdrawable,
+    maxNotional,
+  };
+}
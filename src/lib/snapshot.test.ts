@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { snapshotEntryToActionState } from "./snapshot";
+
+describe("snapshotEntryToActionState", () => {
+  it("serves cached data", () => {
+    const result = snapshotEntryToActionState({ data: [1, 2], error: null, updatedAt: 1000, attemptedAt: 1000 });
+    expect(result).toEqual({ isSuccess: true, message: "Served from the server-side poller cache.", data: [1, 2] });
+  });
+
+  it("keeps serving cached data when the latest poll failed", () => {
+    const result = snapshotEntryToActionState({ data: [1, 2], error: "fetch failed", updatedAt: 0, attemptedAt: 5000 });
+    expect(result.isSuccess).toBe(true);
+    expect(result.data).toEqual([1, 2]);
+    expect(result.message).toContain("1970-01-01T00:00:00.000Z");
+    expect(result.message).toContain("fetch failed");
+  });
+
+  it("fails only when nothing is cached", () => {
+    expect(snapshotEntryToActionState({ data: null, error: "fetch failed", updatedAt: null, attemptedAt: 5000 }))
+      .toEqual({ isSuccess: false, message: "fetch failed", error: "fetch failed" });
+    expect(snapshotEntryToActionState({ data: null, error: null, updatedAt: null, attemptedAt: null }).isSuccess).toBe(false);
+  });
+});
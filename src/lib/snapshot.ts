@@ -0,0 +1,38 @@
+/**
+ * @description
+ * This library file provides helpers for reading the server-side poller's snapshot.
+ * Shared by the poller (server) and the `useServerSnapshot` hook (browser).
+ *
+ * @dependencies
+ * - @/types: Provides ActionState and the poller snapshot types.
+ */
+
+import type { ActionState, PollerSnapshotEntry } from "@/types";
+
+/**
+ * Converts a snapshot section into the ActionState shape returned by Server Actions,
+ * so cached data can be consumed exactly like a direct fetch.
+ * Data kept from an earlier poll is still served when the latest poll failed; read the entry's `error` and
+ * `updatedAt` to tell how stale it is.
+ *
+ * @template T The section's data type.
+ * @param {PollerSnapshotEntry<T>} entry - The cached section.
+ * @returns {ActionState<T>} Success with the cached data, or, if nothing was cached yet, failure with the last poll's
+ *   error (or a "not polled yet" message).
+ */
+export function snapshotEntryToActionState<T>(entry: PollerSnapshotEntry<T>): ActionState<T> {
+  if (entry.data === null) {
+    return {
+      isSuccess: false,
+      message: entry.error ?? "Waiting for the first server poll to complete.",
+      error: entry.error ?? "No data available yet.",
+    };
+  }
+  return {
+    isSuccess: true,
+    message: entry.error !== null && entry.updatedAt !== null
+      ? `Served from the server-side poller cache (last updated ${new Date(entry.updatedAt).toISOString()}; the latest poll failed: ${entry.error}).`
+      : "Served from the server-side poller cache.",
+    data: entry.data,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * @description
+ * Fixture factories shared by the unit tests. Not imported by application code.
+ *
+ * @dependencies
+ * - @/types: Provides the Trade Log entry type.
+ *
+ * @notes
+ * - Factories return a complete default record (a filled 0.1 BTC-PERP long at $40,000) with the given fields overridden.
+ */
+
+import type { TradeLogEntry } from "@/types";
+
+/**
+ * Builds a Trade Log entry for tests.
+ *
+ * @param {Partial<TradeLogEntry>} overrides - Fields to set instead of the defaults.
+ * @returns {TradeLogEntry} The entry.
+ */
+export function makeLog(overrides: Partial<TradeLogEntry>): TradeLogEntry {
+  return {
+    id: "log-1",
+    timestamp: new Date("2024-01-01T00:00:00Z"),
+    symbol: "BTC-PERP",
+    direction: "long",
+    size: 0.1,
+    entryPrice: 40000,
+    status: "filled",
+    hyperliquidOrderId: null,
+    errorMessage: null,
+    action: "open",
+    predictionTimeframe: null,
+    journal: null,
+    ...overrides,
+  };
+}
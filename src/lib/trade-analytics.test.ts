@@ -0,0 +1,272 @@
+import { describe, expect, it } from "vitest";
+import type { TradeFill, TradeJournalEntry, TradeLogEntry } from "@/types";
+import {
+  buildClosedTrades,
+  buildPnlCurve,
+  calculateTradingPerformance,
+  getClosedPositionDirection,
+  getPeriodStart,
+  groupPnlByPeriod,
+} from "./trade-analytics";
+import { makeLog } from "./test-fixtures";
+
+const at = (iso: string) => new Date(iso);
+
+function makeFill(overrides: Partial<TradeFill>): TradeFill {
+  return {
+    id: `fill-${Math.random()}`,
+    createdAt: at("2024-01-01T00:00:00Z"),
+    tid: `tid-${Math.random()}`,
+    hyperliquidOrderId: "1",
+    coin: "BTC",
+    side: "B",
+    direction: "Open Long",
+    price: 40000,
+    size: 0.1,
+    fee: 0,
+    feeToken: "USDC",
+    closedPnl: 0,
+    startPosition: 0,
+    crossed: true,
+    hash: "0x0",
+    cloid: null,
+    time: at("2024-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function makeJournal(tradeLogId: string, tags: string[]): TradeJournalEntry {
+  return {
+    id: `journal-${tradeLogId}`,
+    createdAt: at("2024-01-01T00:00:00Z"),
+    updatedAt: at("2024-01-01T00:00:00Z"),
+    tradeLogId,
+    notes: "",
+    tags,
+    confidence: null,
+    links: [],
+  };
+}
+
+describe("getClosedPositionDirection", () => {
+  it("reads close labels", () => {
+    expect(getClosedPositionDirection(makeFill({ direction: "Close Long", side: "A", closedPnl: 5 }))).toBe("long");
+    expect(getClosedPositionDirection(makeFill({ direction: "Close Short", side: "B", closedPnl: 5 }))).toBe("short");
+  });
+
+  it("reads flip labels as closing the previous position", () => {
+    expect(getClosedPositionDirection(makeFill({ direction: "Long > Short", side: "A" }))).toBe("long");
+    expect(getClosedPositionDirection(makeFill({ direction: "Short > Long", side: "B" }))).toBe("short");
+  });
+
+  it("classifies other labels that realize PnL, such as liquidations, by side", () => {
+    expect(getClosedPositionDirection(makeFill({ direction: "Liquidated Isolated Long", side: "A", closedPnl: -50 }))).toBe("long");
+    expect(getClosedPositionDirection(makeFill({ direction: "Liquidated Cross Short", side: "B", closedPnl: -50 }))).toBe("short");
+  });
+
+  it("returns null for opening fills", () => {
+    expect(getClosedPositionDirection(makeFill({ direction: "Open Long", side: "B" }))).toBeNull();
+    expect(getClosedPositionDirection(makeFill({ direction: "Open Short", side: "A" }))).toBeNull();
+  });
+});
+
+describe("getPeriodStart", () => {
+  it("returns the start of the UTC day", () => {
+    expect(getPeriodStart(at("2024-01-03T15:30:00Z").getTime(), "day")).toBe(at("2024-01-03T00:00:00Z").getTime());
+  });
+
+  it("starts weeks on Monday in UTC", () => {
+    expect(getPeriodStart(at("2024-01-03T15:30:00Z").getTime(), "week")).toBe(at("2024-01-01T00:00:00Z").getTime());
+    expect(getPeriodStart(at("2024-01-01T00:00:00Z").getTime(), "week")).toBe(at("2024-01-01T00:00:00Z").getTime());
+  });
+
+  it("keeps a Sunday late in the day in the week that started the Monday before", () => {
+    expect(getPeriodStart(at("2024-01-07T23:59:59Z").getTime(), "week")).toBe(at("2024-01-01T00:00:00Z").getTime());
+  });
+});
+
+describe("groupPnlByPeriod", () => {
+  const fills = [
+    makeFill({ time: at("2024-01-08T10:00:00Z"), closedPnl: -4, fee: 1 }),
+    makeFill({ time: at("2024-01-02T10:00:00Z"), closedPnl: 10, fee: 1 }),
+    makeFill({ time: at("2024-01-02T18:00:00Z"), closedPnl: 0, fee: 0.5 }),
+    makeFill({ time: at("2024-01-05T10:00:00Z"), closedPnl: 3, fee: -0.25 }),
+  ];
+
+  it("groups by day, oldest first", () => {
+    expect(groupPnlByPeriod(fills, "day")).toEqual([
+      { periodStart: at("2024-01-02T00:00:00Z").getTime(), realizedPnl: 10, fees: 1.5, netPnl: 8.5, fillCount: 2 },
+      { periodStart: at("2024-01-05T00:00:00Z").getTime(), realizedPnl: 3, fees: -0.25, netPnl: 3.25, fillCount: 1 },
+      { periodStart: at("2024-01-08T00:00:00Z").getTime(), realizedPnl: -4, fees: 1, netPnl: -5, fillCount: 1 },
+    ]);
+  });
+
+  it("groups by week", () => {
+    expect(groupPnlByPeriod(fills, "week")).toEqual([
+      { periodStart: at("2024-01-01T00:00:00Z").getTime(), realizedPnl: 13, fees: 1.25, netPnl: 11.75, fillCount: 3 },
+      { periodStart: at("2024-01-08T00:00:00Z").getTime(), realizedPnl: -4, fees: 1, netPnl: -5, fillCount: 1 },
+    ]);
+  });
+
+  it("returns no buckets without fills", () => {
+    expect(groupPnlByPeriod([], "day")).toEqual([]);
+  });
+});
+
+describe("buildPnlCurve", () => {
+  it("accumulates net PnL in time order and measures drawdown from the running high", () => {
+    const curve = buildPnlCurve([
+      makeFill({ time: at("2024-01-01T02:00:00Z"), closedPnl: 30, fee: 0 }),
+      makeFill({ time: at("2024-01-01T03:00:00Z"), closedPnl: -5, fee: 0 }),
+      makeFill({ time: at("2024-01-01T01:00:00Z"), closedPnl: -10, fee: 0 }),
+    ]);
+    expect(curve.map((point) => point.cumulativePnl)).toEqual([-10, 20, 15]);
+    expect(curve.map((point) => point.drawdown)).toEqual([10, 0, 5]);
+  });
+
+  it("counts an initial loss (including fees) as drawdown", () => {
+    const [point] = buildPnlCurve([makeFill({ closedPnl: -8, fee: 2 })]);
+    expect(point.cumulativePnl).toBe(-10);
+    expect(point.drawdown).toBe(10);
+  });
+});
+
+describe("buildClosedTrades", () => {
+  const closeFill = makeFill({
+    hyperliquidOrderId: "close-1",
+    direction: "Close Long",
+    side: "A",
+    closedPnl: 20,
+    fee: 1,
+    time: at("2024-01-03T00:00:00Z"),
+  });
+
+  it("builds one trade per closing order, ignoring opening fills", () => {
+    const trades = buildClosedTrades(
+      [
+        makeFill({ hyperliquidOrderId: "open-1", time: at("2024-01-01T00:00:00Z"), fee: 1 }),
+        closeFill,
+        makeFill({ ...closeFill, tid: "tid-2", closedPnl: 5, fee: 0.5, time: at("2024-01-03T00:01:00Z") }),
+      ],
+      [],
+    );
+    expect(trades).toEqual([{
+      hyperliquidOrderId: "close-1",
+      coin: "BTC",
+      direction: "long",
+      closedAt: at("2024-01-03T00:01:00Z").getTime(),
+      realizedPnl: 25,
+      fees: 1.5,
+      netPnl: 23.5,
+      predictionTimeframe: null,
+      tags: [],
+    }]);
+  });
+
+  it("attributes a trade to the timeframe of its own close entry", () => {
+    const [trade] = buildClosedTrades([closeFill], [
+      makeLog({ hyperliquidOrderId: "close-1", action: "close", predictionTimeframe: "8h", timestamp: at("2024-01-03T00:00:00Z") }),
+      makeLog({ hyperliquidOrderId: "open-1", predictionTimeframe: "24h", timestamp: at("2024-01-01T00:00:00Z") }),
+    ]);
+    expect(trade.predictionTimeframe).toBe("8h");
+  });
+
+  it("attributes a trade to the most recent earlier opening entry for the same symbol and direction", () => {
+    const [trade] = buildClosedTrades([closeFill], [
+      makeLog({ hyperliquidOrderId: "close-1", action: "close", timestamp: at("2024-01-03T00:00:00Z") }),
+      makeLog({ hyperliquidOrderId: "later", predictionTimeframe: "5m", timestamp: at("2024-01-04T00:00:00Z") }),
+      makeLog({ hyperliquidOrderId: "short", direction: "short", predictionTimeframe: "5m", timestamp: at("2024-01-02T12:00:00Z") }),
+      makeLog({ hyperliquidOrderId: "eth", symbol: "ETH-PERP", predictionTimeframe: "5m", timestamp: at("2024-01-02T12:00:00Z") }),
+      makeLog({ hyperliquidOrderId: "failed", status: "failed", predictionTimeframe: "5m", timestamp: at("2024-01-02T12:00:00Z") }),
+      makeLog({ hyperliquidOrderId: "recent", predictionTimeframe: "8h", timestamp: at("2024-01-02T00:00:00Z") }),
+      makeLog({ hyperliquidOrderId: "older", predictionTimeframe: "24h", timestamp: at("2024-01-01T00:00:00Z") }),
+    ]);
+    expect(trade.predictionTimeframe).toBe("8h");
+  });
+
+  it("merges the journal tags of the close entry and the opening entry", () => {
+    const [trade] = buildClosedTrades([closeFill], [
+      makeLog({
+        id: "close-log",
+        hyperliquidOrderId: "close-1",
+        action: "close",
+        timestamp: at("2024-01-03T00:00:00Z"),
+        journal: makeJournal("close-log", ["early exit"]),
+      }),
+      makeLog({
+        id: "open-log",
+        hyperliquidOrderId: "open-1",
+        timestamp: at("2024-01-01T00:00:00Z"),
+        journal: makeJournal("open-log", ["followed signal", "early exit"]),
+      }),
+    ]);
+    expect(trade.tags).toEqual(["early exit", "followed signal"]);
+  });
+});
+
+describe("calculateTradingPerformance", () => {
+  // A winning long opened from a tagged entry and a losing short opened from an untagged one
+  const fills = [
+    makeFill({ hyperliquidOrderId: "open-long", direction: "Open Long", side: "B", fee: 1, time: at("2024-01-01T00:00:00Z") }),
+    makeFill({ hyperliquidOrderId: "close-long", direction: "Close Long", side: "A", closedPnl: 20, fee: 1, time: at("2024-01-02T00:00:00Z") }),
+    makeFill({ hyperliquidOrderId: "open-short", direction: "Open Short", side: "A", fee: 1, time: at("2024-01-03T00:00:00Z") }),
+    makeFill({ hyperliquidOrderId: "close-short", direction: "Close Short", side: "B", closedPnl: -10, fee: 1, time: at("2024-01-04T00:00:00Z") }),
+  ];
+  const tradeLogs = [
+    makeLog({
+      id: "open-long-log",
+      hyperliquidOrderId: "open-long",
+      predictionTimeframe: "8h",
+      timestamp: at("2024-01-01T00:00:00Z"),
+      journal: makeJournal("open-long-log", ["followed signal"]),
+    }),
+    makeLog({
+      id: "open-short-log",
+      hyperliquidOrderId: "open-short",
+      direction: "short",
+      timestamp: at("2024-01-03T00:00:00Z"),
+      journal: makeJournal("open-short-log", ["override"]),
+    }),
+  ];
+
+  it("calculates the figures over every fill without a tag", () => {
+    const performance = calculateTradingPerformance(fills, tradeLogs);
+    expect(performance.tradeCount).toBe(2);
+    expect(performance.winCount).toBe(1);
+    expect(performance.lossCount).toBe(1);
+    expect(performance.winRate).toBe(0.5);
+    expect(performance.averageWin).toBe(19);
+    expect(performance.averageLoss).toBe(-11);
+    expect(performance.profitFactor).toBeCloseTo(19 / 11);
+    expect(performance.realizedPnl).toBe(10);
+    expect(performance.totalFees).toBe(4);
+    expect(performance.netPnl).toBe(6);
+    expect(performance.maxDrawdown).toBe(12);
+    expect(performance.pnlByTimeframe).toEqual([
+      { key: "8h", tradeCount: 1, winCount: 1, netPnl: 19 },
+      { key: "unattributed", tradeCount: 1, winCount: 0, netPnl: -11 },
+    ]);
+  });
+
+  it("keeps only tagged trades and the fills of tagged orders with a tag", () => {
+    const performance = calculateTradingPerformance(fills, tradeLogs, "followed signal");
+    expect(performance.trades.map((trade) => trade.hyperliquidOrderId)).toEqual(["close-long"]);
+    expect(performance.tradeCount).toBe(1);
+    expect(performance.lossCount).toBe(0);
+    expect(performance.winRate).toBe(1);
+    expect(performance.averageLoss).toBeNull();
+    expect(performance.profitFactor).toBeNull();
+    expect(performance.totalFees).toBe(2);
+    expect(performance.netPnl).toBe(18);
+    expect(performance.pnlCurve.map((point) => point.cumulativePnl)).toEqual([-1, 18]);
+  });
+
+  it("returns empty figures for a tag without trades", () => {
+    const performance = calculateTradingPerformance(fills, tradeLogs, "news");
+    expect(performance.tradeCount).toBe(0);
+    expect(performance.winRate).toBeNull();
+    expect(performance.profitFactor).toBeNull();
+    expect(performance.netPnl).toBe(0);
+    expect(performance.pnlByDay).toEqual([]);
+  });
+});
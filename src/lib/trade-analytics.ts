@@ -0,0 +1,254 @@
+/**
+ * @description
+ * This library file provides pure functions for trading performance analytics: win rate, average win and loss,
+ * profit factor, PnL by day and week, PnL by direction and by prediction timeframe, maximum drawdown and fees.
+ *
+ * Definitions:
+ * - A closed trade is one Hyperliquid order that reduced or closed a position (its fills have a closing direction).
+ *   Its net PnL is the closed PnL of those fills minus their fees; a trade wins when its net PnL is positive.
+ * - Period PnL, fee totals and the cumulative PnL curve cover every fill, so fees paid on opening fills count too.
+ * - A closed trade's prediction timeframe comes from its own Trade Log entry or, since closes are logged without
+ *   prediction context, from the latest filled opening entry for the same symbol and direction before the close.
+ * - A closed trade's tags are the journal tags of both of those entries. Filtering by tag keeps the tagged trades and
+ *   the fills of tagged orders, so the period PnL and fee totals include the fees paid on tagged opening orders.
+ *
+ * @dependencies
+ * - @/types: Provides TradeFill, TradeLogEntry and the analytics types.
+ * - @/lib/pnl-calcs: Aggregates fills per order.
+ * - @/lib/constants: Provides the perpetual symbol suffix used by Trade Log entries.
+ *
+ * @notes
+ * - No network or database access; the analytics Server Action loads fills and Trade Log entries.
+ * - Periods are in UTC. Weeks start on Monday.
+ * - The drawdown is measured in USD on cumulative net PnL, since the account's starting equity is unknown.
+ */
+
+import type {
+  AnalyticsTrade,
+  PnlBreakdownRow,
+  PnlCurvePoint,
+  PnlPeriod,
+  PnlPeriodBucket,
+  TradeFill,
+  TradeLogEntry,
+  TradingPerformance,
+} from "@/types";
+import { summarizeFillsByOrder } from "./pnl-calcs";
+import { PERP_SYMBOL_SUFFIX } from "./constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Breakdown key for closed trades without a prediction timeframe. */
+export const UNATTRIBUTED_KEY = "unattributed";
+
+/**
+ * Returns the direction of the position a fill closes or reduces.
+ *
+ * @param {TradeFill} fill - The fill to classify.
+ * @returns {'long' | 'short' | null} The closed position's direction, or null for a fill that only opens or adds.
+ */
+export function getClosedPositionDirection(fill: Pick<TradeFill, "direction" | "side" | "closedPnl">): "long" | "short" | null {
+  if (fill.direction === "Close Long" || fill.direction === "Long > Short") return "long";
+  if (fill.direction === "Close Short" || fill.direction === "Short > Long") return "short";
+  // Other labels (e.g. liquidations) still realize PnL; a sell closes a long
+  if (fill.closedPnl !== 0) return fill.side === "A" ? "long" : "short";
+  return null;
+}
+
+/**
+ * Returns the start of the UTC day or week (Monday) containing a time.
+ *
+ * @param {number} time - Time in ms since epoch.
+ * @param {PnlPeriod} period - The period length.
+ * @returns {number} The period start in ms since epoch.
+ */
+export function getPeriodStart(time: number, period: PnlPeriod): number {
+  const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+  if (period === "day") return dayStart;
+  const daysSinceMonday = (new Date(dayStart).getUTCDay() + 6) % 7;
+  return dayStart - daysSinceMonday * DAY_MS;
+}
+
+/**
+ * Groups the net PnL of fills by day or week.
+ *
+ * @param {TradeFill[]} fills - Fills in any order.
+ * @param {PnlPeriod} period - The period length.
+ * @returns {PnlPeriodBucket[]} One bucket per period with fills, oldest first.
+ */
+export function groupPnlByPeriod(fills: TradeFill[], period: PnlPeriod): PnlPeriodBucket[] {
+  const buckets = new Map<number, PnlPeriodBucket>();
+  for (const fill of fills) {
+    const periodStart = getPeriodStart(fill.time.getTime(), period);
+    const bucket = buckets.get(periodStart) ?? { periodStart, realizedPnl: 0, fees: 0, netPnl: 0, fillCount: 0 };
+    bucket.realizedPnl += fill.closedPnl;
+    bucket.fees += fill.fee;
+    bucket.netPnl += fill.closedPnl - fill.fee;
+    bucket.fillCount += 1;
+    buckets.set(periodStart, bucket);
+  }
+  return Array.from(buckets.values()).sort((a, b) => a.periodStart - b.periodStart);
+}
+
+/**
+ * Builds the cumulative net PnL curve of fills, with the drawdown from the running high at each point.
+ * The running high starts at 0, so an initial loss counts as drawdown.
+ *
+ * @param {TradeFill[]} fills - Fills in any order.
+ * @returns {PnlCurvePoint[]} One point per fill, oldest first.
+ */
+export function buildPnlCurve(fills: TradeFill[]): PnlCurvePoint[] {
+  let cumulativePnl = 0;
+  let peak = 0;
+  return [...fills]
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .map((fill) => {
+      cumulativePnl += fill.closedPnl - fill.fee;
+      peak = Math.max(peak, cumulativePnl);
+      return { time: fill.time.getTime(), cumulativePnl, drawdown: peak - cumulativePnl };
+    });
+}
+
+/**
+ * Finds the Trade Log entry a closed position was opened from.
+ *
+ * @param {AnalyticsTrade} trade - The closed trade (without its timeframe and tags).
+ * @param {TradeLogEntry[]} openLogs - Filled opening entries, newest first.
+ * @returns {TradeLogEntry | null} The latest opening entry for the same symbol and direction before the close, or null.
+ */
+function findOpeningLog(
+  trade: Omit<AnalyticsTrade, "predictionTimeframe" | "tags">,
+  openLogs: TradeLogEntry[],
+): TradeLogEntry | null {
+  const symbol = `${trade.coin}${PERP_SYMBOL_SUFFIX}`;
+  return openLogs.find((log) =>
+    log.symbol === symbol &&
+    log.direction === trade.direction &&
+    new Date(log.timestamp).getTime() <= trade.closedAt,
+  ) ?? null;
+}
+
+/**
+ * Builds the closed trades from fills: one per order with closing fills.
+ *
+ * @param {TradeFill[]} fills - Fills in any order.
+ * @param {TradeLogEntry[]} tradeLogs - Trade Log entries (with their journal entries, if loaded), used to attribute
+ *   trades to prediction timeframes and journal tags.
+ * @returns {AnalyticsTrade[]} The closed trades, most recent first.
+ */
+export function buildClosedTrades(fills: TradeFill[], tradeLogs: TradeLogEntry[]): AnalyticsTrade[] {
+  // Direction of the closed position per order
+  const closedDirections = new Map<string, "long" | "short">();
+  const closingFills = fills.filter((fill) => {
+    const direction = getClosedPositionDirection(fill);
+    if (direction && !closedDirections.has(fill.hyperliquidOrderId)) {
+      closedDirections.set(fill.hyperliquidOrderId, direction);
+    }
+    return direction !== null;
+  });
+
+  const tradeLogsByOrderId = new Map<string, TradeLogEntry>();
+  for (const log of tradeLogs) {
+    if (log.hyperliquidOrderId) tradeLogsByOrderId.set(log.hyperliquidOrderId, log);
+  }
+  const openLogs = tradeLogs
+    .filter((log) => log.action !== "close" && log.status === "filled")
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  return summarizeFillsByOrder(closingFills, tradeLogsByOrderId).map((summary) => {
+    const trade: Omit<AnalyticsTrade, "predictionTimeframe" | "tags"> = {
+      hyperliquidOrderId: summary.hyperliquidOrderId,
+      coin: summary.coin,
+      direction: closedDirections.get(summary.hyperliquidOrderId) as "long" | "short",
+      closedAt: summary.lastFillTime.getTime(),
+      realizedPnl: summary.realizedPnl,
+      fees: summary.fees,
+      netPnl: summary.netPnl,
+    };
+    const closeLog = summary.tradeLog;
+    const openingLog = findOpeningLog(trade, openLogs);
+    return {
+      ...trade,
+      predictionTimeframe: closeLog?.predictionTimeframe ?? openingLog?.predictionTimeframe ?? null,
+      tags: Array.from(new Set([...(closeLog?.journal?.tags ?? []), ...(openingLog?.journal?.tags ?? [])])),
+    };
+  });
+}
+
+/**
+ * Groups closed trades by an attribute.
+ *
+ * @param {AnalyticsTrade[]} trades - The closed trades.
+ * @param {(trade: AnalyticsTrade) => string | null} getKey - Returns the attribute; null is grouped as 'unattributed'.
+ * @returns {PnlBreakdownRow[]} One row per attribute value, highest net PnL first.
+ */
+export function groupTradesBy(
+  trades: AnalyticsTrade[],
+  getKey: (trade: AnalyticsTrade) => string | null,
+): PnlBreakdownRow[] {
+  const rows = new Map<string, PnlBreakdownRow>();
+  for (const trade of trades) {
+    const key = getKey(trade) ?? UNATTRIBUTED_KEY;
+    const row = rows.get(key) ?? { key, tradeCount: 0, winCount: 0, netPnl: 0 };
+    row.tradeCount += 1;
+    if (trade.netPnl > 0) row.winCount += 1;
+    row.netPnl += trade.netPnl;
+    rows.set(key, row);
+  }
+  return Array.from(rows.values()).sort((a, b) => b.netPnl - a.netPnl);
+}
+
+/**
+ * Calculates trading performance from fills and Trade Log entries.
+ *
+ * @param {TradeFill[]} allFills - The fills to analyze, in any order.
+ * @param {TradeLogEntry[]} tradeLogs - Trade Log entries for prediction timeframe and tag attribution. May be empty.
+ * @param {string | null} [tag=null] - Only include trades and orders with this journal tag. Null includes everything.
+ * @returns {TradingPerformance} The performance figures, breakdowns and PnL series.
+ */
+export function calculateTradingPerformance(
+  allFills: TradeFill[],
+  tradeLogs: TradeLogEntry[],
+  tag: string | null = null,
+): TradingPerformance {
+  let trades = buildClosedTrades(allFills, tradeLogs);
+  let fills = allFills;
+  if (tag !== null) {
+    trades = trades.filter((trade) => trade.tags.includes(tag));
+    const taggedOrderIds = new Set(trades.map((trade) => trade.hyperliquidOrderId));
+    for (const log of tradeLogs) {
+      if (log.hyperliquidOrderId && log.journal?.tags.includes(tag)) taggedOrderIds.add(log.hyperliquidOrderId);
+    }
+    fills = allFills.filter((fill) => taggedOrderIds.has(fill.hyperliquidOrderId));
+  }
+  const wins = trades.filter((trade) => trade.netPnl > 0);
+  const losses = trades.filter((trade) => trade.netPnl < 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.netPnl, 0);
+  const grossLoss = -losses.reduce((sum, trade) => sum + trade.netPnl, 0);
+
+  const realizedPnl = fills.reduce((sum, fill) => sum + fill.closedPnl, 0);
+  const totalFees = fills.reduce((sum, fill) => sum + fill.fee, 0);
+  const pnlCurve = buildPnlCurve(fills);
+
+  return {
+    tradeCount: trades.length,
+    winCount: wins.length,
+    lossCount: losses.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : null,
+    averageWin: wins.length > 0 ? grossProfit / wins.length : null,
+    averageLoss: losses.length > 0 ? -grossLoss / losses.length : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    grossProfit,
+    grossLoss,
+    realizedPnl,
+    totalFees,
+    netPnl: realizedPnl - totalFees,
+    maxDrawdown: pnlCurve.reduce((max, point) => Math.max(max, point.drawdown), 0),
+    pnlByDay: groupPnlByPeriod(fills, "day"),
+    pnlByWeek: groupPnlByPeriod(fills, "week"),
+    pnlByDirection: groupTradesBy(trades, (trade) => trade.direction),
+    pnlByTimeframe: groupTradesBy(trades, (trade) => trade.predictionTimeframe),
+    pnlCurve,
+    trades,
+  };
+}
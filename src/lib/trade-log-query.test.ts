@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { Prisma } from "@prisma/client";
+import type { TradeLogEntry } from "@/types";
+import {
+  buildTradeLogCursorWhere,
+  buildTradeLogOrderBy,
+  normalizeTradeLogQuery,
+  TRADE_LOG_SORT_FIELDS,
+  tradeLogEntriesToCsv,
+} from "./trade-log-query";
+import { makeLog } from "./test-fixtures";
+
+/** Reads a column of the first data row from a CSV without quoted line breaks. */
+function readCell(csv: string, column: string): string {
+  const [header, row] = csv.split("\r\n");
+  const cells = row.match(/("([^"]|"")*"|[^,]*)(,|$)/g)!.map((cell) => cell.replace(/,$/, ""));
+  return cells[header.split(",").indexOf(column)];
+}
+
+type SortValue = Date | string | number | null;
+
+function compareValues(a: SortValue, b: SortValue): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return left === right ? 0 : left! < right! ? -1 : 1;
+}
+
+/** Evaluates the subset of Prisma filters built by `buildTradeLogCursorWhere` against an entry. */
+function matchesWhere(entry: TradeLogEntry, where: Prisma.TradeLogWhereInput): boolean {
+  if (where.AND) return (where.AND as Prisma.TradeLogWhereInput[]).every((condition) => matchesWhere(entry, condition));
+  if (where.OR) return where.OR.some((condition) => matchesWhere(entry, condition));
+  const [[field, condition]] = Object.entries(where) as [keyof TradeLogEntry, SortValue | { gt?: SortValue; lt?: SortValue }][];
+  const value = (entry[field] ?? null) as SortValue;
+  if (condition === null) return value === null;
+  if (value === null) return false;
+  if (condition instanceof Date || typeof condition !== "object") return compareValues(value, condition) === 0;
+  return "gt" in condition ? compareValues(value, condition.gt!) > 0 : compareValues(value, condition.lt!) < 0;
+}
+
+/** Sorts entries the way the database applies `buildTradeLogOrderBy`. */
+function sortEntries(entries: TradeLogEntry[], orderBy: Prisma.TradeLogOrderByWithRelationInput[]): TradeLogEntry[] {
+  return [...entries].sort((a, b) => {
+    for (const order of orderBy) {
+      const [[field, spec]] = Object.entries(order) as [keyof TradeLogEntry, Prisma.SortOrder | Prisma.SortOrderInput][];
+      const { sort, nulls } = typeof spec === "string" ? { sort: spec, nulls: undefined } : spec;
+      const left = (a[field] ?? null) as SortValue;
+      const right = (b[field] ?? null) as SortValue;
+      if (left === null || right === null) {
+        if (left === right) continue;
+        expect(nulls).toBe("last");
+        return left === null ? 1 : -1;
+      }
+      const result = compareValues(left, right) * (sort === "asc" ? 1 : -1);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+describe("Trade Log sorting and cursor pagination", () => {
+  // Ties and NULLs in every nullable column, so each page boundary is exercised
+  const entries = [
+    makeLog({ id: "log-a", timestamp: new Date("2024-01-03T00:00:00Z"), symbol: "ETH-PERP", size: 1, entryPrice: 2000, status: "filled", hyperliquidOrderId: "102" }),
+    makeLog({ id: "log-b", timestamp: new Date("2024-01-01T00:00:00Z"), direction: "short", status: "failed", errorMessage: "Insufficient margin" }),
+    makeLog({ id: "log-c", timestamp: new Date("2024-01-02T00:00:00Z"), size: 1, status: "filled", hyperliquidOrderId: "101" }),
+    makeLog({ id: "log-d", timestamp: new Date("2024-01-02T00:00:00Z"), symbol: "SOL-PERP", direction: "short", entryPrice: 100, status: "failed", errorMessage: "" }),
+    makeLog({ id: "log-e", timestamp: new Date("2024-01-04T00:00:00Z"), status: "pending", hyperliquidOrderId: "101", errorMessage: "Order rejected" }),
+    makeLog({ id: "log-f", timestamp: new Date("2024-01-01T00:00:00Z"), symbol: "ETH-PERP", entryPrice: 2000, status: "failed", errorMessage: "Insufficient margin" }),
+  ];
+
+  for (const sortBy of TRADE_LOG_SORT_FIELDS) {
+    for (const sortOrder of ["asc", "desc"] as const) {
+      it(`pages through every entry sorted by ${sortBy} ${sortOrder}`, () => {
+        const query = normalizeTradeLogQuery({ sortBy, sortOrder });
+        const expected = sortEntries(entries, buildTradeLogOrderBy(query)).map((entry) => entry.id);
+
+        const pages: string[][] = [];
+        let cursor: TradeLogEntry | null = null;
+        do {
+          const cursorEntry: TradeLogEntry | null = cursor;
+          const remaining: TradeLogEntry[] = entries.filter((entry) => !cursorEntry || matchesWhere(entry, buildTradeLogCursorWhere(query, cursorEntry)));
+          const page: TradeLogEntry[] = sortEntries(remaining, buildTradeLogOrderBy(query)).slice(0, 2);
+          pages.push(page.map((entry) => entry.id));
+          cursor = page.length === 2 ? page[1] : null;
+        } while (cursor);
+
+        expect(pages.flat()).toEqual(expected);
+        expect(new Set(expected).size).toBe(entries.length);
+      });
+    }
+  }
+
+  it("sorts NULL order IDs and error messages last in both directions", () => {
+    for (const sortBy of ["hyperliquidOrderId", "errorMessage"] as const) {
+      for (const sortOrder of ["asc", "desc"] as const) {
+        expect(buildTradeLogOrderBy({ sortBy, sortOrder })).toEqual([
+          { [sortBy]: { sort: sortOrder, nulls: "last" } },
+          { id: sortOrder },
+        ]);
+      }
+    }
+    expect(buildTradeLogOrderBy({ sortBy: "size", sortOrder: "asc" })).toEqual([{ size: "asc" }, { id: "asc" }]);
+  });
+
+  it("continues after a NULL sort value with the remaining NULLs only", () => {
+    const where = buildTradeLogCursorWhere({ sortBy: "errorMessage", sortOrder: "desc" }, makeLog({ id: "log-c" }));
+    expect(where).toEqual({ AND: [{ errorMessage: null }, { id: { lt: "log-c" } }] });
+  });
+
+  it("rejects unknown sort columns", () => {
+    expect(() => normalizeTradeLogQuery({ sortBy: "cloid" as never })).toThrow("Invalid sort column");
+  });
+});
+
+describe("tradeLogEntriesToCsv", () => {
+  it("writes a header row and one row per entry with CRLF line endings", () => {
+    const csv = tradeLogEntriesToCsv([makeLog({}), makeLog({ id: "log-2" })]);
+    const lines = csv.split("\r\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toBe("");
+    expect(lines[0].startsWith("id,timestamp,symbol,")).toBe(true);
+    expect(lines[0].endsWith(",journalTags,journalConfidence,journalNotes,journalLinks")).toBe(true);
+    expect(readCell(csv, "timestamp")).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("quotes cells containing commas, quotes or line breaks", () => {
+    const csv = tradeLogEntriesToCsv([makeLog({ errorMessage: 'Order "rejected", retry' })]);
+    expect(readCell(csv, "errorMessage")).toBe('"Order ""rejected"", retry"');
+  });
+
+  it("prefixes text that a spreadsheet would run as a formula", () => {
+    const csv = tradeLogEntriesToCsv([makeLog({
+      errorMessage: "=HYPERLINK(\"http://example.com\")",
+      journal: {
+        id: "journal-1",
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+        updatedAt: new Date("2024-01-01T00:00:00Z"),
+        tradeLogId: "log-1",
+        notes: "@SUM(A1:A2)",
+        tags: ["+override", "news"],
+        confidence: 3,
+        links: ["-cmd"],
+      },
+    })]);
+    expect(readCell(csv, "errorMessage")).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(readCell(csv, "journalNotes")).toBe("'@SUM(A1:A2)");
+    expect(readCell(csv, "journalTags")).toBe("'+override;news");
+    expect(readCell(csv, "journalLinks")).toBe("'-cmd");
+    expect(readCell(csv, "journalConfidence")).toBe("3");
+  });
+
+  it("leaves negative numbers as numbers", () => {
+    const csv = tradeLogEntriesToCsv([makeLog({ size: -0.5 })]);
+    expect(readCell(csv, "size")).toBe("-0.5");
+  });
+});
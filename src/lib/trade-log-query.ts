@@ -0,0 +1,267 @@
+/**
+ * @description
+ * Trade Log query helpers: validates a `TradeLogQuery`, turns it into Prisma filters and ordering, converts it to and
+ * from URL search parameters (for the export route), and formats entries as CSV.
+ *
+ * @dependencies
+ * - @prisma/client: Provides the TradeLog filter and ordering types (type-only).
+ * - @/types: Provides the Trade Log entry and query types.
+ * - @/lib/constants: Provides the default and maximum page sizes.
+ *
+ * @notes
+ * - Pure functions, safe to use on both the server and the client. Queries are run by `@/lib/trade-log`.
+ * - Results are always ordered by `id` after the sort column, so pages are stable when sort values tie and the
+ *   entry ID can serve as the pagination cursor. Entries without an order ID or error message sort last in both
+ *   directions, and `buildTradeLogCursorWhere` continues a page past them.
+ * - Invalid dates, sort columns or directions throw an Error describing the problem.
+ */
+
+import type { Prisma } from "@prisma/client";
+import type { TradeLogEntry, TradeLogQuery, TradeLogSortField } from "@/types";
+import { TRADE_LOG_MAX_PAGE_SIZE, TRADE_LOG_PAGE_SIZE } from "./constants";
+
+/** Columns accepted by `TradeLogQuery.sortBy`. */
+export const TRADE_LOG_SORT_FIELDS: TradeLogSortField[] = [
+  "timestamp",
+  "symbol",
+  "direction",
+  "size",
+  "entryPrice",
+  "status",
+  "hyperliquidOrderId",
+  "errorMessage",
+];
+
+/** Sortable columns that can be NULL. */
+const NULLABLE_SORT_FIELDS: TradeLogSortField[] = ["hyperliquidOrderId", "errorMessage"];
+
+/** Filter and sort parameters shared by `tradeLogQueryToSearchParams` and `parseTradeLogSearchParams`. */
+const FILTER_PARAMS = ["from", "to", "symbol", "direction", "status", "search", "tag"] as const;
+
+/** Columns written by `tradeLogEntriesToCsv`, in order. */
+const CSV_COLUMNS: (keyof TradeLogEntry)[] = [
+  "id",
+  "timestamp",
+  "symbol",
+  "direction",
+  "action",
+  "size",
+  "entryPrice",
+  "status",
+  "hyperliquidOrderId",
+  "cloid",
+  "errorMessage",
+  "leverage",
+  "slippageBps",
+  "stagingMarkPrice",
+  "predictionTopicId",
+  "predictionTimeframe",
+  "predictionTimestamp",
+  "predictedPrice",
+  "confidenceIntervalValues",
+  "confidenceIntervalPercentiles",
+  "templateId",
+];
+
+/** Journal columns written by `tradeLogEntriesToCsv` after `CSV_COLUMNS`. */
+const CSV_JOURNAL_COLUMNS = ["journalTags", "journalConfidence", "journalNotes", "journalLinks"];
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid '${name}' date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Validates a Trade Log query and fills in the default sort and page size.
+ *
+ * @param {TradeLogQuery} query - The query to validate.
+ * @returns {TradeLogQuery} The query with `sortBy`, `sortOrder` and `limit` set and blank filters removed.
+ * @throws {Error} If a date, the sort column or the sort direction is invalid.
+ */
+export function normalizeTradeLogQuery(query: TradeLogQuery): TradeLogQuery {
+  const sortBy = query.sortBy ?? "timestamp";
+  if (!TRADE_LOG_SORT_FIELDS.includes(sortBy)) {
+    throw new Error(`Invalid sort column: ${sortBy}. Expected one of: ${TRADE_LOG_SORT_FIELDS.join(", ")}.`);
+  }
+  const sortOrder = query.sortOrder ?? "desc";
+  if (sortOrder !== "asc" && sortOrder !== "desc") {
+    throw new Error(`Invalid sort direction: ${sortOrder}. Expected 'asc' or 'desc'.`);
+  }
+  if (query.from) parseDate(query.from, "from");
+  if (query.to) parseDate(query.to, "to");
+
+  const limit = query.limit !== undefined && Number.isInteger(query.limit) && query.limit > 0
+    ? Math.min(query.limit, TRADE_LOG_MAX_PAGE_SIZE)
+    : TRADE_LOG_PAGE_SIZE;
+
+  return {
+    from: query.from || undefined,
+    to: query.to || undefined,
+    symbol: query.symbol?.trim() || undefined,
+    direction: query.direction?.trim().toLowerCase() || undefined,
+    status: query.status?.trim() || undefined,
+    hasError: query.hasError,
+    search: query.search?.trim() || undefined,
+    tag: query.tag?.trim().toLowerCase() || undefined,
+    sortBy,
+    sortOrder,
+    cursor: query.cursor || null,
+    limit,
+  };
+}
+
+/**
+ * Builds the Prisma filter for a Trade Log query.
+ *
+ * @param {TradeLogQuery} query - A query returned by `normalizeTradeLogQuery`.
+ * @returns {Prisma.TradeLogWhereInput} The filter matching every condition of the query.
+ */
+export function buildTradeLogWhere(query: TradeLogQuery): Prisma.TradeLogWhereInput {
+  const conditions: Prisma.TradeLogWhereInput[] = [];
+
+  if (query.from || query.to) {
+    conditions.push({
+      timestamp: {
+        ...(query.from ? { gte: parseDate(query.from, "from") } : {}),
+        ...(query.to ? { lte: parseDate(query.to, "to") } : {}),
+      },
+    });
+  }
+  if (query.symbol) conditions.push({ symbol: { equals: query.symbol, mode: "insensitive" } });
+  if (query.direction) conditions.push({ direction: { equals: query.direction, mode: "insensitive" } });
+  if (query.status) conditions.push({ status: query.status });
+  if (query.hasError === true) conditions.push({ AND: [{ errorMessage: { not: null } }, { errorMessage: { not: "" } }] });
+  if (query.hasError === false) conditions.push({ OR: [{ errorMessage: null }, { errorMessage: "" }] });
+  if (query.search) conditions.push({ errorMessage: { contains: query.search, mode: "insensitive" } });
+  if (query.tag) conditions.push({ journal: { is: { tags: { has: query.tag } } } });
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+/**
+ * Builds the Prisma ordering for a Trade Log query: the sort column, then the entry ID as a tie-breaker.
+ * NULL order IDs and error messages come last in both directions.
+ *
+ * @param {TradeLogQuery} query - A query returned by `normalizeTradeLogQuery`.
+ * @returns {Prisma.TradeLogOrderByWithRelationInput[]} The ordering.
+ */
+export function buildTradeLogOrderBy(query: TradeLogQuery): Prisma.TradeLogOrderByWithRelationInput[] {
+  const sortBy = query.sortBy ?? "timestamp";
+  const sortOrder = query.sortOrder ?? "desc";
+  return [
+    { [sortBy]: NULLABLE_SORT_FIELDS.includes(sortBy) ? { sort: sortOrder, nulls: "last" } : sortOrder },
+    { id: sortOrder },
+  ];
+}
+
+/**
+ * Builds the Prisma filter for the entries after the cursor entry, in the order of `buildTradeLogOrderBy`.
+ * Combine it with `buildTradeLogWhere` to read the next page.
+ *
+ * @param {TradeLogQuery} query - A query returned by `normalizeTradeLogQuery`.
+ * @param {TradeLogEntry} cursor - The last entry of the previous page.
+ * @returns {Prisma.TradeLogWhereInput} The filter matching every entry that sorts after the cursor.
+ */
+export function buildTradeLogCursorWhere(
+  query: TradeLogQuery,
+  cursor: Pick<TradeLogEntry, "id" | TradeLogSortField>,
+): Prisma.TradeLogWhereInput {
+  const sortBy = query.sortBy ?? "timestamp";
+  const comparison = (query.sortOrder ?? "desc") === "asc" ? "gt" : "lt";
+  const value = cursor[sortBy] ?? null;
+  const afterId: Prisma.TradeLogWhereInput = { id: { [comparison]: cursor.id } };
+
+  // Only NULLs follow a NULL sort value
+  if (value === null) {
+    return { AND: [{ [sortBy]: null }, afterId] };
+  }
+  return {
+    OR: [
+      { [sortBy]: { [comparison]: value } },
+      { AND: [{ [sortBy]: value }, afterId] },
+      ...(NULLABLE_SORT_FIELDS.includes(sortBy) ? [{ [sortBy]: null }] : []),
+    ],
+  };
+}
+
+/**
+ * Converts the filters and sort of a Trade Log query to URL search parameters. The cursor and page size are left out.
+ *
+ * @param {TradeLogQuery} query - The query to convert.
+ * @returns {URLSearchParams} The parameters, with empty filters omitted.
+ */
+export function tradeLogQueryToSearchParams(query: TradeLogQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const name of FILTER_PARAMS) {
+    const value = query[name];
+    if (value) params.set(name, value);
+  }
+  if (query.hasError !== undefined) params.set("hasError", String(query.hasError));
+  if (query.sortBy) params.set("sortBy", query.sortBy);
+  if (query.sortOrder) params.set("sortOrder", query.sortOrder);
+  return params;
+}
+
+/**
+ * Reads a Trade Log query from URL search parameters, as written by `tradeLogQueryToSearchParams`.
+ *
+ * @param {URLSearchParams} params - The parameters to read.
+ * @returns {TradeLogQuery} The query. Pass it through `normalizeTradeLogQuery` before running it.
+ */
+export function parseTradeLogSearchParams(params: URLSearchParams): TradeLogQuery {
+  const query: TradeLogQuery = {};
+  for (const name of FILTER_PARAMS) {
+    const value = params.get(name);
+    if (value) query[name] = value;
+  }
+  const hasError = params.get("hasError");
+  if (hasError === "true" || hasError === "false") query.hasError = hasError === "true";
+  const sortBy = params.get("sortBy");
+  if (sortBy) query.sortBy = sortBy as TradeLogSortField;
+  const sortOrder = params.get("sortOrder");
+  if (sortOrder) query.sortOrder = sortOrder as TradeLogQuery["sortOrder"];
+  return query;
+}
+
+/** Leading characters that make spreadsheet applications evaluate a cell as a formula. */
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date
+    ? value.toISOString()
+    : Array.isArray(value)
+      ? value.join(";")
+      : String(value);
+  // Text (error messages, journal notes, tags, links) could otherwise run as a formula; numbers are left as-is
+  if (typeof value !== "number" && CSV_FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats Trade Log entries as CSV, with a header row and one row per entry.
+ * Dates are written in ISO 8601 (UTC), and list values (confidence intervals, journal tags and links) are joined with ';'.
+ * The journal columns are empty for entries without a journal entry.
+ * Text cells starting with '=', '+', '-' or '@' are prefixed with "'" so spreadsheets don't run them as formulas.
+ *
+ * @param {TradeLogEntry[]} entries - The entries to format.
+ * @returns {string} The CSV document, with CRLF line endings.
+ */
+export function tradeLogEntriesToCsv(entries: TradeLogEntry[]): string {
+  const rows = [
+    [...CSV_COLUMNS, ...CSV_JOURNAL_COLUMNS].join(","),
+    ...entries.map((entry) => [
+      ...CSV_COLUMNS.map((column) => toCsvCell(entry[column])),
+      toCsvCell(entry.journal?.tags),
+      toCsvCell(entry.journal?.confidence),
+      toCsvCell(entry.journal?.notes),
+      toCsvCell(entry.journal?.links),
+    ].join(",")),
+  ];
+  return `${rows.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,232 @@
+/**
+ * @description
+ * Server-side Trade Log writes for order placement. The order Server Actions record every order in two steps:
+ * a 'pending' row is written before the order is submitted, and the same row is updated with the exchange response.
+ * A crashed browser or a navigation away from the page therefore never loses the record.
+ * Also runs the filtered, paginated Trade Log reads used by the Trade Log table and the export route.
+ *
+ * @dependencies
+ * - @/types: Provides the Trade Log and notification types.
+ * - @/lib/prisma: Provides the singleton Prisma client instance for database access.
+ * - @/lib/notifier: Delivers 'tradeFilled' / 'tradeFailed' events to the notification channels.
+ * - @/lib/formatting: Formats prices in notification messages.
+ * - @/lib/cloid: Provides the client order ID type.
+ * - @/lib/trade-log-query: Validates Trade Log queries and builds their Prisma filters and ordering.
+ * - @/lib/constants: Provides the page size used for exports.
+ *
+ * @notes
+ * - Rows are unique by `cloid`. Writing a pending row for a cloid that already has one returns the existing row
+ *   instead, so a retried request can be detected before the order is sent a second time.
+ * - Completing a row never throws: the order has already been sent, so a logging problem must not turn it into a failure.
+ * - Trade notifications are sent in the background; the order result is returned without waiting for delivery.
+ * - Reads paginate with the entry ID as cursor; an unknown cursor (e.g. a deleted entry) returns an empty page.
+ * - Reads include each entry's journal entry, so the table and the exports show notes and tags.
+ * - Only import this file from server-side code.
+ */
+
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+import type { NotificationEvent, TradeLogEntry, TradeLogPage, TradeLogQuery } from "@/types";
+import prisma from "./prisma";
+import { dispatchNotifications } from "./notifier";
+import { formatCurrency } from "./formatting";
+import type { Cloid } from "./cloid";
+import {
+  buildTradeLogCursorWhere,
+  buildTradeLogOrderBy,
+  buildTradeLogWhere,
+  normalizeTradeLogQuery,
+} from "./trade-log-query";
+import { TRADE_LOG_MAX_PAGE_SIZE } from "./constants";
+
+/**
+ * A Trade Log entry to write before an order is submitted. Its status is always 'pending'.
+ */
+export type PendingTradeLogEntry = Omit<
+  TradeLogEntry,
+  "id" | "timestamp" | "status" | "hyperliquidOrderId" | "errorMessage" | "cloid" | "journal"
+> & { cloid: Cloid };
+
+/**
+ * The fields of a pending Trade Log entry that are updated once the exchange has responded.
+ *
+ * @property {string} status - The final status ('filled', 'resting', 'failed').
+ * @property {string | null} [hyperliquidOrderId] - The order ID returned by Hyperliquid, if any.
+ * @property {string | null} [errorMessage] - The failure message, if the order failed.
+ * @property {number} [entryPrice] - The average fill price, replacing the reference price recorded when pending.
+ * @property {number} [size] - The filled size, replacing the submitted size recorded when pending.
+ */
+export interface TradeLogOutcome {
+  status: string;
+  hyperliquidOrderId?: string | null;
+  errorMessage?: string | null;
+  entryPrice?: number;
+  size?: number;
+}
+
+/**
+ * Builds the notification event for a logged trade: 'tradeFilled' for fills, 'tradeFailed' for failures.
+ * Resting and pending orders produce no event.
+ */
+export function buildTradeNotificationEvent(entry: TradeLogEntry): NotificationEvent | null {
+  const description =
+    `${entry.action === "close" ? "Close" : "Open"} ${entry.direction} ${entry.size} ${entry.symbol}`;
+
+  if (entry.status === "filled") {
+    return {
+      type: "tradeFilled",
+      key: `trade:${entry.id}`,
+      title: `Trade filled: ${entry.symbol}`,
+      message: `${description} filled at ${formatCurrency(entry.entryPrice)}${entry.hyperliquidOrderId ? ` (order ${entry.hyperliquidOrderId})` : ""}.`,
+      data: { ...entry },
+    };
+  }
+  if (entry.status === "failed") {
+    return {
+      type: "tradeFailed",
+      key: `trade:${entry.id}`,
+      title: `Trade failed: ${entry.symbol}`,
+      message: `${description} failed${entry.errorMessage ? `: ${entry.errorMessage}` : "."}`,
+      data: { ...entry },
+    };
+  }
+  return null;
+}
+
+/**
+ * Writes a 'pending' Trade Log entry for an order that is about to be submitted.
+ *
+ * @param {PendingTradeLogEntry} entry - The order and its context, including its client order ID.
+ * @returns {Promise<{ entry: TradeLogEntry; isDuplicate: boolean }>} The new row, or the existing row for the same
+ * cloid with `isDuplicate: true`.
+ * @throws {Error} If the row cannot be written. The order must not be submitted in that case.
+ */
+export async function beginTradeLog(
+  entry: PendingTradeLogEntry,
+): Promise<{ entry: TradeLogEntry; isDuplicate: boolean }> {
+  try {
+    const created = await prisma.tradeLog.create({
+      data: {
+        ...entry,
+        status: "pending",
+        action: entry.action || "open",
+        predictionTimestamp: entry.predictionTimestamp ? new Date(entry.predictionTimestamp) : null,
+        confidenceIntervalValues: entry.confidenceIntervalValues ?? [],
+        confidenceIntervalPercentiles: entry.confidenceIntervalPercentiles ?? [],
+      },
+    });
+    console.log(`[TradeLog] Recorded pending ${created.symbol} ${created.direction} order ${created.cloid} (${created.id})`);
+    return { entry: created, isDuplicate: false };
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === "P2002") {
+      const existing = await prisma.tradeLog.findUnique({ where: { cloid: entry.cloid } });
+      if (existing) {
+        console.warn(`[TradeLog] ⚠️ Order ${entry.cloid} was already recorded with status '${existing.status}'`);
+        return { entry: existing, isDuplicate: true };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Updates a pending Trade Log entry with the exchange response and notifies the configured channels.
+ *
+ * @param {string} id - The ID of the pending entry.
+ * @param {TradeLogOutcome} outcome - The final status and the fields it changes.
+ * @returns {Promise<TradeLogEntry | null>} The updated entry, or null if it could not be updated (the error is logged).
+ */
+export async function completeTradeLog(id: string, outcome: TradeLogOutcome): Promise<TradeLogEntry | null> {
+  try {
+    const updated = await prisma.tradeLog.update({
+      where: { id },
+      data: {
+        status: outcome.status,
+        hyperliquidOrderId: outcome.hyperliquidOrderId ?? null,
+        errorMessage: outcome.errorMessage ?? null,
+        ...(outcome.entryPrice !== undefined && Number.isFinite(outcome.entryPrice) ? { entryPrice: outcome.entryPrice } : {}),
+        ...(outcome.size !== undefined && Number.isFinite(outcome.size) ? { size: outcome.size } : {}),
+      },
+    });
+    console.log(`[TradeLog] ✅ Updated ${updated.symbol} order ${updated.cloid} to '${updated.status}'`);
+
+    // Not awaited, so slow channels never delay the order result; delivery problems are logged, never thrown
+    const notificationEvent = buildTradeNotificationEvent(updated);
+    if (notificationEvent) {
+      void dispatchNotifications([notificationEvent]);
+    }
+    return updated;
+  } catch (error) {
+    console.error(`[TradeLog] ❌ Failed to update trade log entry ${id} with status '${outcome.status}':`, error);
+    return null;
+  }
+}
+
+/**
+ * Reads one page of Trade Log entries matching a query.
+ *
+ * @param {TradeLogQuery} query - Filters, sort and pagination. Pass the previous page's `nextCursor` as `cursor`.
+ * @returns {Promise<TradeLogPage>} The page, the cursor of the next one and the number of matching entries.
+ * @throws {Error} If the query is invalid or the database cannot be read.
+ */
+export async function queryTradeLog(query: TradeLogQuery): Promise<TradeLogPage> {
+  const normalized = normalizeTradeLogQuery(query);
+  const limit = normalized.limit as number;
+  const where = buildTradeLogWhere(normalized);
+
+  // Pages continue after the cursor entry's sort value rather than its position, so NULL sort values page correctly
+  let pageWhere = where;
+  if (normalized.cursor) {
+    const cursorEntry = await prisma.tradeLog.findUnique({ where: { id: normalized.cursor } });
+    if (!cursorEntry) {
+      return { entries: [], nextCursor: null, totalCount: await prisma.tradeLog.count({ where }) };
+    }
+    pageWhere = { AND: [where, buildTradeLogCursorWhere(normalized, cursorEntry)] };
+  }
+
+  // One extra row tells whether another page follows
+  const [rows, totalCount] = await Promise.all([
+    prisma.tradeLog.findMany({
+      where: pageWhere,
+      orderBy: buildTradeLogOrderBy(normalized),
+      take: limit + 1,
+      include: { journal: true },
+    }),
+    prisma.tradeLog.count({ where }),
+  ]);
+
+  const entries = rows.slice(0, limit);
+  return {
+    entries,
+    nextCursor: rows.length > limit ? entries[entries.length - 1].id : null,
+    totalCount,
+  };
+}
+
+/**
+ * Reads every Trade Log entry matching a query, page by page, up to a maximum number of entries.
+ *
+ * @param {TradeLogQuery} query - Filters and sort. The cursor and page size are ignored.
+ * @param {number} maxRows - The most entries to return.
+ * @returns {Promise<{ entries: TradeLogEntry[]; truncated: boolean }>} The entries, and whether more matched than `maxRows`.
+ * @throws {Error} If the query is invalid or the database cannot be read.
+ */
+export async function exportTradeLog(
+  query: TradeLogQuery,
+  maxRows: number,
+): Promise<{ entries: TradeLogEntry[]; truncated: boolean }> {
+  const entries: TradeLogEntry[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: TradeLogPage = await queryTradeLog({
+      ...query,
+      cursor,
+      limit: Math.min(TRADE_LOG_MAX_PAGE_SIZE, maxRows - entries.length),
+    });
+    entries.push(...page.entries);
+    cursor = page.nextCursor;
+  } while (cursor && entries.length < maxRows);
+
+  console.log(`[TradeLog] Exported ${entries.length} entries${cursor ? ` (limit of ${maxRows} reached)` : ""}`);
+  return { entries, truncated: cursor !== null };
+}
@@ -1,10 +1,11 @@
 /**
  * @description
  * This library file provides utility functions for trading-related calculations,
- * such as estimating margin requirements and liquidation prices.
+ * such as estimating margin requirements and liquidation prices, slippage limits, and fills and price impact against the order book.
  *
  * @dependencies
- * - None
+ * - @/lib/constants: Provides the accepted slippage range.
+ * - @/types: Provides the order book types.
  *
  * @notes
  * - **Estimates Only:** The calculations provided here are simplified estimates and
@@ -15,6 +16,9 @@
  * parameter here is used primarily for estimation purposes based on user input.
  */
 
+import type { BookFillEstimate, HyperliquidBookLevel, HyperliquidOrderBook, PriceImpactEstimate } from "@/types";
+import { MAX_SLIPPAGE_BPS, MIN_SLIPPAGE_BPS } from "./constants";
+
 /**
  * Estimates the required margin for a trade based on price, size, and leverage.
  * **This is a simplified estimate.**
@@ -51,6 +55,8 @@ export function calculateEstimatedMargin(
  * Estimates the liquidation price for a position.
  * **This is a simplified estimate** and does not account for fees, funding,
  * or maintenance margin requirements, which significantly affect the actual liquidation price.
+ * Used where no account state is available (e.g., backtests); live trades use `calculateLiquidationPrice`
+ * from `@/lib/liquidation`, which accounts for maintenance margin and cross-margin equity.
  *
  * Simplified Formula (Cross Margin assumption for simplicity):
  * Liq Price (Long) ≈ Entry Price * (1 - 1 / Leverage)
@@ -122,4 +128,207 @@ export function suggestTradeDirection(
     } else {
         return null; // Prices are equal, no clear direction
     }
-}
\ No newline at end of file
+}
+/**
+ * Calculates a stop-loss price a given percentage away from the entry price, on the losing side.
+ *
+ * @param {number} entryPrice - The expected entry price.
+ * @param {'long' | 'short'} direction - The direction of the position.
+ * @param {number} stopLossPercent - The distance from entry in percent (e.g., 2 for 2%).
+ * @returns {number} The stop-loss price, or 0 if inputs are invalid.
+ */
+export function calculateStopLossPrice(
+  entryPrice: number | null | undefined,
+  direction: "long" | "short" | null | undefined,
+  stopLossPercent: number | null | undefined,
+): number {
+  if (
+    typeof entryPrice !== "number" ||
+    typeof stopLossPercent !== "number" ||
+    !direction ||
+    isNaN(entryPrice) || isNaN(stopLossPercent) ||
+    entryPrice <= 0 || stopLossPercent <= 0 || stopLossPercent >= 100
+  ) {
+    return 0; // Return 0 for invalid inputs
+  }
+
+  const distance = stopLossPercent / 100;
+  return direction === "long"
+    ? entryPrice * (1 - distance)
+    : entryPrice * (1 + distance);
+}
+
+/**
+ * Checks that take-profit and stop-loss levels sit on the correct side of the entry price.
+ * For longs the TP must be above and the SL below the entry; for shorts the opposite.
+ *
+ * @param {number} entryPrice - The expected entry price.
+ * @param {number | null} takeProfitPrice - The take-profit price, or null if none.
+ * @param {number | null} stopLossPrice - The stop-loss price, or null if none.
+ * @param {'long' | 'short'} direction - The direction of the position.
+ * @returns {string | null} A description of the problem, or null if the levels are valid.
+ */
+export function getBracketLevelError(
+  entryPrice: number,
+  takeProfitPrice: number | null,
+  stopLossPrice: number | null,
+  direction: "long" | "short",
+): string | null {
+  if (isNaN(entryPrice) || entryPrice <= 0) {
+    return "Entry price is not available.";
+  }
+  if (takeProfitPrice !== null) {
+    if (isNaN(takeProfitPrice) || takeProfitPrice <= 0) {
+      return "Take-profit price must be greater than zero.";
+    }
+    if (direction === "long" ? takeProfitPrice <= entryPrice : takeProfitPrice >= entryPrice) {
+      return `Take-profit must be ${direction === "long" ? "above" : "below"} the entry price for a ${direction}.`;
+    }
+  }
+  if (stopLossPrice !== null) {
+    if (isNaN(stopLossPrice) || stopLossPrice <= 0) {
+      return "Stop-loss price must be greater than zero.";
+    }
+    if (direction === "long" ? stopLossPrice >= entryPrice : stopLossPrice <= entryPrice) {
+      return `Stop-loss must be ${direction === "long" ? "below" : "above"} the entry price for a ${direction}.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Calculates the risk/reward ratio of a bracketed trade: potential profit to the
+ * take-profit divided by potential loss to the stop-loss.
+ *
+ * @param {number} entryPrice - The expected entry price.
+ * @param {number} takeProfitPrice - The take-profit price.
+ * @param {number} stopLossPrice - The stop-loss price.
+ * @param {'long' | 'short'} direction - The direction of the position.
+ * @returns {number | null} The reward-to-risk ratio (e.g., 2 means 2:1), or null if the levels are invalid.
+ */
+export function calculateRiskRewardRatio(
+  entryPrice: number | null | undefined,
+  takeProfitPrice: number | null | undefined,
+  stopLossPrice: number | null | undefined,
+  direction: "long" | "short" | null | undefined,
+): number | null {
+  if (
+    typeof entryPrice !== "number" ||
+    typeof takeProfitPrice !== "number" ||
+    typeof stopLossPrice !== "number" ||
+    !direction ||
+    getBracketLevelError(entryPrice, takeProfitPrice, stopLossPrice, direction) !== null
+  ) {
+    return null;
+  }
+
+  const reward = Math.abs(takeProfitPrice - entryPrice);
+  const risk = Math.abs(entryPrice - stopLossPrice);
+  return risk > 0 ? reward / risk : null;
+}
+
+/**
+ * Checks that a slippage value is usable for a market order.
+ *
+ * @param {number} slippageBps - The slippage in basis points.
+ * @returns {string | null} A description of the problem, or null if the value is valid.
+ */
+export function getSlippageError(slippageBps: number): string | null {
+  if (!Number.isFinite(slippageBps) || slippageBps < MIN_SLIPPAGE_BPS || slippageBps > MAX_SLIPPAGE_BPS) {
+    return `Slippage must be between ${MIN_SLIPPAGE_BPS} and ${MAX_SLIPPAGE_BPS} bps (${MAX_SLIPPAGE_BPS / 100}%).`;
+  }
+  return null;
+}
+
+/**
+ * Calculates the worst acceptable price of a market order: the reference price moved against the order by the slippage.
+ *
+ * @param {number} referencePrice - The reference (mid) price.
+ * @param {number} slippageBps - The allowed slippage in basis points.
+ * @param {'long' | 'short'} direction - 'long' for buys (price moves up), 'short' for sells (price moves down).
+ * @returns {number} The limit price for the order.
+ */
+export function applySlippage(referencePrice: number, slippageBps: number, direction: "long" | "short"): number {
+  const slippage = slippageBps / 10000;
+  return direction === "long"
+    ? referencePrice * (1 + slippage)
+    : referencePrice * (1 - slippage);
+}
+
+/**
+ * Estimates how a taker order would fill by walking the opposite side of the order book.
+ * Levels are consumed best-first until the order is filled, the limit price is passed, or the visible book runs out.
+ *
+ * @param {HyperliquidBookLevel[]} levels - The side the order takes from, best price first (asks for longs, bids for shorts).
+ * @param {number} size - The order size in base asset units.
+ * @param {'long' | 'short'} direction - The direction of the order.
+ * @param {number | null} limitPrice - The worst acceptable price, or null for no limit.
+ * @returns {BookFillEstimate} The average and worst fill prices and the filled/unfilled sizes.
+ */
+export function estimateBookFill(
+  levels: HyperliquidBookLevel[],
+  size: number,
+  direction: "long" | "short",
+  limitPrice: number | null,
+): BookFillEstimate {
+  let remaining = size > 0 ? size : 0;
+  let filledSize = 0;
+  let filledValue = 0;
+  let worstPrice: number | null = null;
+
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const beyondLimit = limitPrice !== null &&
+      (direction === "long" ? level.price > limitPrice : level.price < limitPrice);
+    if (beyondLimit) break;
+
+    const take = Math.min(remaining, level.size);
+    filledSize += take;
+    filledValue += take * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+  }
+
+  return {
+    avgPrice: filledSize > 0 ? filledValue / filledSize : null,
+    worstPrice,
+    filledSize,
+    unfilledSize: remaining,
+  };
+}
+
+/**
+ * Estimates the price impact of a market order: walks the side of the book the order takes from, within the
+ * slippage band around the book mid, and compares the average fill price with the mid.
+ *
+ * @param {Pick<HyperliquidOrderBook, 'bids' | 'asks' | 'bookMid'>} book - The order book snapshot.
+ * @param {number} size - The order size in base asset units.
+ * @param {'long' | 'short'} direction - The direction of the order (longs take asks, shorts take bids).
+ * @param {number} slippageBps - The allowed slippage in basis points.
+ * @returns {PriceImpactEstimate | null} The estimate, or null if the book has no mid price.
+ */
+export function estimatePriceImpact(
+  book: Pick<HyperliquidOrderBook, "bids" | "asks" | "bookMid">,
+  size: number,
+  direction: "long" | "short",
+  slippageBps: number,
+): PriceImpactEstimate | null {
+  if (book.bookMid === null || !(book.bookMid > 0)) return null;
+
+  const levels = direction === "long" ? book.asks : book.bids;
+  const limitPrice = applySlippage(book.bookMid, slippageBps, direction);
+  const fill = estimateBookFill(levels, size, direction, limitPrice);
+  const depthWithinLimit = levels
+    .filter((level) => (direction === "long" ? level.price <= limitPrice : level.price >= limitPrice))
+    .reduce((total, level) => total + level.size, 0);
+
+  return {
+    ...fill,
+    bookMid: book.bookMid,
+    limitPrice,
+    depthWithinLimit,
+    priceImpactPercent: fill.avgPrice !== null
+      ? (Math.abs(fill.avgPrice - book.bookMid) / book.bookMid) * 100
+      : null,
+  };
+}
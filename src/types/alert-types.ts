@@ -0,0 +1,120 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces for contradiction alert rules and the alerts they raise.
+ * `AlertRule` corresponds to the `AlertRule` model defined in the Prisma schema.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - Rules are managed on the Settings page via `alert-rule-actions.ts` and evaluated server-side
+ *   against open positions and the latest stored predictions.
+ */
+
+/**
+ * How a rule's threshold is measured.
+ * - 'percent': the prediction must be beyond the reference price by more than `thresholdValue` percent, against the position.
+ * - 'confidenceInterval': the prediction must be beyond the reference price by more than `thresholdValue`
+ *   half-widths of the prediction's confidence interval, against the position.
+ */
+export type AlertThresholdType = "percent" | "confidenceInterval";
+
+/**
+ * Which price a prediction is compared against.
+ * - 'entry': the position's entry price.
+ * - 'mark': the current mark price.
+ */
+export type AlertReferencePrice = "entry" | "mark";
+
+/**
+ * Represents a user-defined contradiction alert rule.
+ *
+ * @property {string} id - Unique identifier for the rule (generated by Prisma).
+ * @property {Date} createdAt - Timestamp when the rule was created (managed by Prisma).
+ * @property {Date} updatedAt - Timestamp when the rule was last updated (managed by Prisma).
+ * @property {string} name - User-defined name for the rule (must be unique).
+ * @property {boolean} enabled - Disabled rules are kept but not evaluated.
+ * @property {string | null} assetName - Coin the rule applies to (e.g., "BTC"). Null applies to every position.
+ * @property {string | null} timeframe - Prediction timeframe the rule uses (e.g., '8h'). Null uses the latest prediction of any timeframe.
+ * @property {string} thresholdType - 'percent' or 'confidenceInterval' (see `AlertThresholdType`).
+ * @property {number} thresholdValue - Threshold in percent, or in confidence interval half-widths.
+ * @property {number | null} maxPredictionAgeMinutes - Predictions older than this are ignored. Null accepts any age.
+ * @property {string} compareTo - 'entry' or 'mark' (see `AlertReferencePrice`).
+ */
+export interface AlertRule {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  name: string;
+  enabled: boolean;
+  assetName: string | null;
+  timeframe: string | null;
+  thresholdType: string;
+  thresholdValue: number;
+  maxPredictionAgeMinutes: number | null;
+  compareTo: string;
+}
+
+/**
+ * The editable fields of an alert rule.
+ */
+export type AlertRuleInput = Omit<AlertRule, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * An alert raised by a rule for an open position.
+ *
+ * @property {string} assetName - The position's coin.
+ * @property {string} ruleId - ID of the rule that triggered. Empty for the built-in default rule.
+ * @property {string} ruleName - Name of the rule that triggered.
+ * @property {string} timeframe - Timeframe of the contradicting prediction.
+ * @property {number} predictedPrice - The contradicting prediction's price.
+ * @property {number} predictionTimestamp - When the contradicting prediction was generated (ms since epoch).
+ * @property {number} referencePrice - The entry or mark price the prediction was compared against.
+ * @property {AlertReferencePrice} compareTo - Which price `referencePrice` is.
+ * @property {string} reason - Human-readable explanation, shown in the position table.
+ */
+export interface PositionAlert {
+  assetName: string;
+  ruleId: string;
+  ruleName: string;
+  timeframe: string;
+  predictedPrice: number;
+  predictionTimestamp: number;
+  referencePrice: number;
+  compareTo: AlertReferencePrice;
+  reason: string;
+}
+
+/**
+ * The parts of an open position needed to evaluate alert rules.
+ *
+ * @property {string} assetName - The position's coin.
+ * @property {boolean} isLong - True for a long position.
+ * @property {number} entryPrice - The position's entry price.
+ * @property {number | null} markPrice - The current mark price, if known.
+ * @property {number | null} liquidationPrice - The estimated liquidation price reported by Hyperliquid, if any.
+ */
+export interface AlertPositionSnapshot {
+  assetName: string;
+  isLong: boolean;
+  entryPrice: number;
+  markPrice: number | null;
+  liquidationPrice: number | null;
+}
+
+/**
+ * The parts of a prediction needed to evaluate alert rules.
+ *
+ * @property {string} token - The predicted coin.
+ * @property {string} timeframe - The prediction horizon (e.g., '5m', '8h').
+ * @property {number} price - The predicted price.
+ * @property {number} timestamp - When the prediction was generated (ms since epoch).
+ * @property {number[]} confidenceIntervalValues - The confidence interval bounds; empty if Allora provided none.
+ */
+export interface AlertPredictionSnapshot {
+  token: string;
+  timeframe: string;
+  price: number;
+  timestamp: number;
+  confidenceIntervalValues: number[];
+}
@@ -14,6 +14,7 @@ import { type AlloraInferenceData } from "@alloralabs/allora-sdk";
  * This interface standardizes the prediction data format used within the application.
  *
  * @property {number} topicId - The ID of the Allora topic the prediction belongs to. Parsed from `AlloraInferenceData['topic_id']`.
+ * @property {string} token - The predicted asset's coin name (e.g., 'BTC', 'ETH'). Matches the Hyperliquid coin name.
  * @property {number} price - The predicted price value. Parsed as a number from `AlloraInferenceData['network_inference']`.
  * @property {number} timestamp - The timestamp when the inference was generated (in milliseconds since epoch). Derived from `AlloraInferenceData['timestamp']`.
  * @property {string} timeframe - The timeframe associated with this prediction (e.g., '5m', '8h'). This is added for UI clarity and filtering.
@@ -22,6 +23,7 @@ import { type AlloraInferenceData } from "@alloralabs/allora-sdk";
  */
 export interface AlloraPrediction {
   topicId: number;
+  token: string;
   price: number;
   timestamp: number; // Unix timestamp in milliseconds
   timeframe: string; // e.g., '5m', '8h' - added for application use
@@ -29,13 +31,27 @@ export interface AlloraPrediction {
   confidenceIntervalPercentiles?: string[];
 }
 
+/**
+ * Describes an Allora topic to fetch through the generic topic inference endpoint.
+ * Used for tokens or timeframes that the SDK's price inference endpoint does not cover.
+ *
+ * @property {number} topicId - The Allora topic ID.
+ * @property {string} token - The coin name the topic predicts (e.g., 'SOL'). Used to match positions and assets.
+ * @property {string} timeframe - The topic's prediction horizon (e.g., '5m', '8h'). Only timeframes with a known horizon are scored.
+ */
+export interface AlloraTopicRequest {
+  topicId: number;
+  token: string;
+  timeframe: string;
+}
+
 // Note: The raw response from the SDK `client.getPriceInference` returns `AlloraInference`,
 // which contains `inference_data: AlloraInferenceData`.
 // The Server Action (`fetchAlloraPredictionsAction`) will be responsible for:
-// 1. Calling `client.getPriceInference`.
+// 1. Calling `client.getPriceInference` (or `client.getInferenceByTopicID` for an `AlloraTopicRequest`).
 // 2. Parsing `inference_data.topic_id` (string) into `topicId` (number).
 // 3. Parsing `inference_data.network_inference` (string) into `price` (number).
 // 4. Potentially multiplying `inference_data.timestamp` (seconds) by 1000 if needed for milliseconds.
 // 5. Parsing `inference_data.confidence_interval_values` (strings) into numbers if used.
-// 6. Adding the requested `timeframe` string.
+// 6. Adding the requested `token` and `timeframe` strings.
 // 7. Mapping this parsed data into the `AlloraPrediction` interface defined above.
@@ -0,0 +1,132 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces for the trading performance analytics (`lib/trade-analytics.ts`)
+ * shown on the analytics page.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - All times are milliseconds since epoch. Periods start at UTC midnight; weeks start on Monday.
+ * - PnL and fees come from imported Hyperliquid fills (see `fill-types.ts`). Net PnL is realized PnL minus fees.
+ */
+
+/**
+ * Length of the periods PnL is grouped by.
+ */
+export type PnlPeriod = "day" | "week";
+
+/**
+ * A closing Hyperliquid order: the fills of one order that reduced or closed a position.
+ *
+ * @property {string} hyperliquidOrderId - The Hyperliquid order ID.
+ * @property {string} coin - The asset's coin name (e.g., "BTC").
+ * @property {'long' | 'short'} direction - Direction of the position that was closed.
+ * @property {number} closedAt - Time of the order's last fill.
+ * @property {number} realizedPnl - Closed PnL of the order's fills, excluding fees.
+ * @property {number} fees - Fees paid on the order's fills (negative for a net rebate).
+ * @property {number} netPnl - Realized PnL minus fees. Positive for a win.
+ * @property {string | null} predictionTimeframe - Horizon of the Allora prediction the position was opened from, if known.
+ * @property {string[]} tags - Journal tags of the closing order and of the entry that opened the position.
+ */
+export interface AnalyticsTrade {
+  hyperliquidOrderId: string;
+  coin: string;
+  direction: "long" | "short";
+  closedAt: number;
+  realizedPnl: number;
+  fees: number;
+  netPnl: number;
+  predictionTimeframe: string | null;
+  tags: string[];
+}
+
+/**
+ * PnL of every fill within one day or week.
+ *
+ * @property {number} periodStart - Start of the period (UTC midnight; Monday for weeks).
+ * @property {number} realizedPnl - Closed PnL, excluding fees.
+ * @property {number} fees - Fees paid, including on opening fills.
+ * @property {number} netPnl - Realized PnL minus fees.
+ * @property {number} fillCount - Number of fills in the period.
+ */
+export interface PnlPeriodBucket {
+  periodStart: number;
+  realizedPnl: number;
+  fees: number;
+  netPnl: number;
+  fillCount: number;
+}
+
+/**
+ * Closed trades grouped by one attribute (direction or prediction timeframe).
+ *
+ * @property {string} key - The attribute value (e.g., 'long', '8h'), or 'unattributed' for trades without one.
+ * @property {number} tradeCount - Number of closed trades.
+ * @property {number} winCount - Number of closed trades with a positive net PnL.
+ * @property {number} netPnl - Total net PnL of the trades.
+ */
+export interface PnlBreakdownRow {
+  key: string;
+  tradeCount: number;
+  winCount: number;
+  netPnl: number;
+}
+
+/**
+ * A point of the cumulative net PnL curve, one per fill.
+ *
+ * @property {number} time - Time of the fill.
+ * @property {number} cumulativePnl - Net PnL of all fills up to and including this one.
+ * @property {number} drawdown - Distance below the highest cumulative PnL reached so far (USD, 0 at a new high).
+ */
+export interface PnlCurvePoint {
+  time: number;
+  cumulativePnl: number;
+  drawdown: number;
+}
+
+/**
+ * Trading performance over a set of fills.
+ *
+ * @property {number} tradeCount - Number of closed trades (closing orders).
+ * @property {number} winCount - Closed trades with a positive net PnL.
+ * @property {number} lossCount - Closed trades with a negative net PnL.
+ * @property {number | null} winRate - Winning fraction of closed trades (0-1). Null without closed trades.
+ * @property {number | null} averageWin - Average net PnL of winning trades. Null without wins.
+ * @property {number | null} averageLoss - Average net PnL of losing trades (negative). Null without losses.
+ * @property {number | null} profitFactor - Gross profit divided by gross loss. Null without losing trades.
+ * @property {number} grossProfit - Sum of the net PnL of winning trades.
+ * @property {number} grossLoss - Sum of the net PnL of losing trades, as a positive number.
+ * @property {number} realizedPnl - Closed PnL of all fills, excluding fees.
+ * @property {number} totalFees - Fees paid on all fills, opening and closing.
+ * @property {number} netPnl - Realized PnL minus all fees.
+ * @property {number} maxDrawdown - Largest fall of the cumulative net PnL from a previous high (USD).
+ * @property {PnlPeriodBucket[]} pnlByDay - Net PnL per day, oldest first. Days without fills are omitted.
+ * @property {PnlPeriodBucket[]} pnlByWeek - Net PnL per week, oldest first. Weeks without fills are omitted.
+ * @property {PnlBreakdownRow[]} pnlByDirection - Closed trades grouped by the direction of the closed position.
+ * @property {PnlBreakdownRow[]} pnlByTimeframe - Closed trades grouped by prediction timeframe.
+ * @property {PnlCurvePoint[]} pnlCurve - Cumulative net PnL, oldest first.
+ * @property {AnalyticsTrade[]} trades - The closed trades, most recent first.
+ */
+export interface TradingPerformance {
+  tradeCount: number;
+  winCount: number;
+  lossCount: number;
+  winRate: number | null;
+  averageWin: number | null;
+  averageLoss: number | null;
+  profitFactor: number | null;
+  grossProfit: number;
+  grossLoss: number;
+  realizedPnl: number;
+  totalFees: number;
+  netPnl: number;
+  maxDrawdown: number;
+  pnlByDay: PnlPeriodBucket[];
+  pnlByWeek: PnlPeriodBucket[];
+  pnlByDirection: PnlBreakdownRow[];
+  pnlByTimeframe: PnlBreakdownRow[];
+  pnlCurve: PnlCurvePoint[];
+  trades: AnalyticsTrade[];
+}
@@ -0,0 +1,133 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces used by the prediction backtesting engine
+ * (`lib/backtest.ts`) and the backtest Server Actions.
+ *
+ * @dependencies
+ * - ./hyperliquid-types: Provides the margin tier type.
+ *
+ * @notes
+ * - All times are milliseconds since epoch so the engine has no dependency on Prisma models.
+ */
+
+import type { HyperliquidMarginTier } from "./hyperliquid-types";
+
+/**
+ * A recorded OHLC price candle used to replay the market.
+ *
+ * @property {number} time - Candle open time (ms since epoch).
+ * @property {number} open - Open price.
+ * @property {number} high - High price.
+ * @property {number} low - Low price.
+ * @property {number} close - Close price.
+ */
+export interface BacktestCandle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * A stored prediction replayed by the backtest.
+ *
+ * @property {number} timestamp - When the prediction was generated (ms since epoch). Entries happen at this time.
+ * @property {number} targetTime - When the prediction horizon elapses (ms since epoch). Exits happen at this time.
+ * @property {number} predictedPrice - The predicted price.
+ */
+export interface BacktestPrediction {
+  timestamp: number;
+  targetTime: number;
+  predictedPrice: number;
+}
+
+/**
+ * Parameters of a backtest run.
+ *
+ * @property {number} size - Position size per trade in base asset units (from a TradeTemplate).
+ * @property {number} leverage - Leverage per trade (from a TradeTemplate).
+ * @property {number} initialEquity - Starting account equity in USD.
+ * @property {number} feeRate - Fee rate charged on entry and exit notional (e.g., 0.00045 for 0.045%).
+ * @property {number} slippageBps - Slippage applied against the trade on entry and exit, in basis points.
+ * @property {number} minEdgePercent - Minimum distance between predicted price and mark, in percent, required to enter.
+ * @property {number} maxLeverage - The asset's maximum leverage, used for the maintenance margin when no tier applies.
+ * @property {HyperliquidMarginTier[]} marginTiers - The asset's margin tiers, sorted by `lowerBound`. May be empty.
+ */
+export interface BacktestConfig {
+  size: number;
+  leverage: number;
+  initialEquity: number;
+  feeRate: number;
+  slippageBps: number;
+  minEdgePercent: number;
+  maxLeverage: number;
+  marginTiers: HyperliquidMarginTier[];
+}
+
+/**
+ * A simulated trade.
+ *
+ * @property {number} entryTime - Entry time (ms since epoch).
+ * @property {number} exitTime - Exit time (ms since epoch).
+ * @property {'long' | 'short'} direction - Trade direction suggested by the prediction.
+ * @property {number} predictedPrice - The prediction that triggered the trade.
+ * @property {number} entryPrice - Entry price including slippage.
+ * @property {number} exitPrice - Exit price including slippage (or the liquidation price).
+ * @property {number} size - Position size in base asset units.
+ * @property {number} fees - Total entry and exit fees.
+ * @property {number} pnl - Net PnL after fees.
+ * @property {'horizon' | 'liquidation'} exitReason - Whether the trade was closed at the horizon or liquidated.
+ * @property {number} equityAfter - Account equity after the trade.
+ */
+export interface BacktestTrade {
+  entryTime: number;
+  exitTime: number;
+  direction: "long" | "short";
+  predictedPrice: number;
+  entryPrice: number;
+  exitPrice: number;
+  size: number;
+  fees: number;
+  pnl: number;
+  exitReason: "horizon" | "liquidation";
+  equityAfter: number;
+}
+
+/**
+ * A point on the equity curve.
+ *
+ * @property {number} time - Time of the point (ms since epoch).
+ * @property {number} equity - Account equity.
+ * @property {number} drawdown - Drawdown from the running peak, as a fraction (0.1 = 10%).
+ */
+export interface BacktestEquityPoint {
+  time: number;
+  equity: number;
+  drawdown: number;
+}
+
+/**
+ * Output of a backtest run.
+ *
+ * @property {BacktestTrade[]} trades - Simulated trades in chronological order.
+ * @property {BacktestEquityPoint[]} equityCurve - Equity after each trade, starting with the initial equity.
+ * @property {number} finalEquity - Equity at the end of the run.
+ * @property {number} totalReturn - Final equity relative to initial equity, as a fraction.
+ * @property {number} maxDrawdown - Largest peak-to-trough drawdown, as a fraction.
+ * @property {number | null} sharpeRatio - Annualized Sharpe ratio of per-trade returns (risk-free rate 0). Null with fewer than 2 trades.
+ * @property {number | null} winRate - Fraction of trades with positive PnL. Null with no trades.
+ * @property {number} totalFees - Sum of fees paid.
+ * @property {number} skippedPredictions - Predictions that did not produce a trade (no signal, overlapping trade, missing data or insufficient equity).
+ */
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
+  finalEquity: number;
+  totalReturn: number;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  winRate: number | null;
+  totalFees: number;
+  skippedPredictions: number;
+}
@@ -0,0 +1,98 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces for imported Hyperliquid fills and the
+ * per-trade realized PnL summaries derived from them.
+ * `TradeFill` corresponds to the `TradeFill` model defined in the Prisma schema.
+ *
+ * @dependencies
+ * - ./log-types: For the TradeLogEntry linked to a trade summary.
+ *
+ * @notes
+ * - Fills are the source of truth for execution prices, fees and realized PnL.
+ * - Fills are linked to `TradeLog` entries through `hyperliquidOrderId` (the Hyperliquid order ID).
+ */
+
+import type { TradeLogEntry } from "./log-types";
+
+/**
+ * Represents a single fill imported from Hyperliquid's user fills endpoint.
+ * An order that matched several resting orders produces several fills with the same `hyperliquidOrderId`.
+ *
+ * @property {string} id - Unique identifier for the record (generated by Prisma).
+ * @property {Date} createdAt - Timestamp when the fill was imported (managed by Prisma).
+ * @property {string} tid - Hyperliquid's unique trade ID for the fill. Used to dedupe imports.
+ * @property {string} hyperliquidOrderId - The Hyperliquid order ID the fill belongs to.
+ * @property {string} coin - The asset's coin name (e.g., "BTC").
+ * @property {string} side - "B" for buys, "A" for sells.
+ * @property {string} direction - Hyperliquid's direction label (e.g., "Open Long", "Close Short").
+ * @property {number} price - Fill price.
+ * @property {number} size - Filled size in base asset units.
+ * @property {number} fee - Fee paid (negative for a rebate).
+ * @property {string} feeToken - Token the fee is denominated in (e.g., "USDC").
+ * @property {number} closedPnl - Realized PnL of the fill, excluding fees.
+ * @property {number} startPosition - Position size before the fill.
+ * @property {boolean} crossed - True if the fill was a taker fill.
+ * @property {string} hash - L1 transaction hash.
+ * @property {string | null} cloid - Client order ID, if the order was placed with one.
+ * @property {Date} time - Time of the fill.
+ */
+export interface TradeFill {
+  id: string;
+  createdAt: Date;
+  tid: string;
+  hyperliquidOrderId: string;
+  coin: string;
+  side: string;
+  direction: string;
+  price: number;
+  size: number;
+  fee: number;
+  feeToken: string;
+  closedPnl: number;
+  startPosition: number;
+  crossed: boolean;
+  hash: string;
+  cloid: string | null;
+  time: Date;
+}
+
+/**
+ * Represents the fills of one Hyperliquid order aggregated into a single trade,
+ * along with the matching Trade Log entry if the trade was placed through this app.
+ *
+ * @property {string} hyperliquidOrderId - The Hyperliquid order ID.
+ * @property {string} coin - The asset's coin name.
+ * @property {string} direction - Hyperliquid's direction label of the fills (e.g., "Open Long").
+ * @property {number} totalSize - Sum of all fill sizes.
+ * @property {number} avgPrice - Size-weighted average fill price.
+ * @property {number} fees - Total fees paid (negative for a net rebate).
+ * @property {number} realizedPnl - Total closed PnL, excluding fees.
+ * @property {number} netPnl - Realized PnL minus fees.
+ * @property {number} fillCount - Number of fills aggregated.
+ * @property {Date} lastFillTime - Time of the most recent fill.
+ * @property {TradeLogEntry | null} tradeLog - The Trade Log entry for this order, or null if it was placed outside the app.
+ */
+export interface TradePnlSummary {
+  hyperliquidOrderId: string;
+  coin: string;
+  direction: string;
+  totalSize: number;
+  avgPrice: number;
+  fees: number;
+  realizedPnl: number;
+  netPnl: number;
+  fillCount: number;
+  lastFillTime: Date;
+  tradeLog: TradeLogEntry | null;
+}
+
+/**
+ * Represents the result of importing fills from Hyperliquid.
+ *
+ * @property {number} fetched - Number of fills returned by Hyperliquid.
+ * @property {number} imported - Number of fills that were new and stored.
+ */
+export interface FillImportResult {
+  fetched: number;
+  imported: number;
+}
@@ -8,11 +8,13 @@
 
 import type {
   AssetPosition,
+  FrontendOrder,
   Hex,
   OrderResponse,
   PerpsAssetCtx,
   PerpsClearinghouseState,
 } from "@nktkas/hyperliquid";
+import type { ActionState } from "./actions-types";
 
 /**
   * Represents the user's account information fetched from Hyperliquid ClearinghouseState.
@@ -51,6 +53,131 @@ export interface HyperliquidOrderResult {
   avgPx?: string;   // Optional: Average fill price (string representation of float)
 }
 
+/**
+  * Represents the status of a take-profit or stop-loss trigger order placed as part of a bracket.
+  *
+  * @property {string} triggerPx - The trigger price that was submitted.
+  * @property {string} status - Status reported by Hyperliquid (e.g., "waitingForFill", "waitingForTrigger", "resting", "error").
+  * @property {number | undefined} oid - The order ID, if Hyperliquid returned one.
+  * @property {string | undefined} error - The rejection reason if the trigger order failed.
+  */
+export interface HyperliquidTriggerOrderStatus {
+  triggerPx: string;
+  status: string;
+  oid?: number;
+  error?: string;
+}
+
+/**
+  * Represents the result of placing an entry order with attached TP/SL orders.
+  * The entry fields are the same as `HyperliquidOrderResult`.
+  *
+  * @property {HyperliquidTriggerOrderStatus | undefined} takeProfit - Status of the take-profit order, if one was attached.
+  * @property {HyperliquidTriggerOrderStatus | undefined} stopLoss - Status of the stop-loss order, if one was attached.
+  */
+export interface HyperliquidBracketOrderResult extends HyperliquidOrderResult {
+  takeProfit?: HyperliquidTriggerOrderStatus;
+  stopLoss?: HyperliquidTriggerOrderStatus;
+}
+
+/**
+  * Time-in-force values supported for user-placed limit orders.
+  * - `Gtc`: Good-til-cancelled. Rests on the book until filled or cancelled.
+  * - `Alo`: Add-liquidity-only (post-only). Cancelled instead of filling immediately as a taker.
+  */
+export type HyperliquidLimitTif = 'Gtc' | 'Alo';
+
+/**
+  * Represents the user's current Hyperliquid fee rates, returned by `fetchUserFeeRatesAction`.
+  *
+  * @property {number} takerRate - Fee rate for orders that take liquidity (e.g., 0.00045 for 0.045%).
+  * @property {number} makerRate - Fee rate for orders that add liquidity (e.g., 0.00015 for 0.015%).
+  * @property {string} tier - Label of the fee tier the rates correspond to (e.g., "Base", "VIP 2").
+  */
+export interface HyperliquidFeeRates {
+  takerRate: number;
+  makerRate: number;
+  tier: string;
+}
+
+/**
+  * Represents a single open (resting or untriggered) order for the configured wallet.
+  * Includes the order type, time-in-force, reduce-only flag and trigger details.
+  *
+  * @alias FrontendOrder from `@nktkas/hyperliquid`
+  */
+export type HyperliquidOpenOrder = FrontendOrder;
+
+/**
+  * Represents the outcome of a cancel request submitted via a Server Action.
+  * Hyperliquid reports a status per cancelled order, so a batch can partially fail.
+  *
+  * @property {number} cancelledCount - Number of orders that were cancelled successfully.
+  * @property {string[]} errors - Rejection reasons for orders that could not be cancelled.
+  */
+export interface HyperliquidCancelResult {
+  cancelledCount: number;
+  errors: string[];
+}
+
+/**
+  * Represents the order parameters that were submitted by a successful order modification.
+  *
+  * @property {number} oid - The order ID that was modified.
+  * @property {string} price - The new limit price (or trigger price for trigger orders), after precision rounding.
+  * @property {string} size - The new size, truncated to the asset's `szDecimals`.
+  */
+export interface HyperliquidModifyResult {
+  oid: number;
+  price: string;
+  size: string;
+}
+
+/**
+  * Represents the result of closing (fully or partially) a position with a reduce-only order.
+  * The order fields are the same as `HyperliquidOrderResult`.
+  *
+  * @property {string} assetName - The coin name of the position (e.g., "ETH").
+  * @property {'long' | 'short'} positionDirection - Direction of the position that was reduced.
+  * @property {string} closedSize - The size submitted for closing, in base asset units.
+  * @property {boolean} isFullClose - True if the order closes the whole position.
+  */
+export interface HyperliquidClosePositionResult extends HyperliquidOrderResult {
+  assetName: string;
+  positionDirection: 'long' | 'short';
+  closedSize: string;
+  isFullClose: boolean;
+}
+
+/**
+  * Represents the result of adding margin to or removing margin from an isolated position.
+  *
+  * @property {string} assetName - The coin name of the position (e.g., "ETH").
+  * @property {number} amount - USD added (positive) or removed (negative).
+  * @property {number} previousMargin - The position's isolated margin before the change (USD, including unrealized PnL).
+  */
+export interface HyperliquidIsolatedMarginResult {
+  assetName: string;
+  amount: number;
+  previousMargin: number;
+}
+
+/**
+  * Represents the outcome of closing one position as part of a "close all positions" request.
+  * Each position is closed independently, so some may succeed while others fail.
+  *
+  * @property {string} assetName - The coin name of the position (e.g., "ETH").
+  * @property {'long' | 'short'} positionDirection - Direction of the position.
+  * @property {string} size - The absolute position size at the time of the request.
+  * @property {ActionState<HyperliquidClosePositionResult>} outcome - The result of the close order for this position.
+  */
+export interface HyperliquidCloseAllEntry {
+  assetName: string;
+  positionDirection: 'long' | 'short';
+  size: string;
+  outcome: ActionState<HyperliquidClosePositionResult>;
+}
+
 /**
   * Represents the context for a specific perpetual asset from Hyperliquid.
   * Includes details like mark price, funding rate, open interest, etc.
@@ -59,6 +186,173 @@ export interface HyperliquidOrderResult {
   */
 export type HyperliquidAssetCtx = PerpsAssetCtx;
 
+/**
+  * Represents the current mid price of a perpetual asset along with the asset's trading limits.
+  * Returned by `fetchCurrentPriceAction`.
+  *
+  * @property {string} assetName - The coin name as listed by Hyperliquid (e.g., "ETH").
+  * @property {string} price - The current mid price.
+  * @property {number} assetIndex - The asset index used in order payloads.
+  * @property {number} szDecimals - The number of decimals allowed for order sizes.
+  * @property {number} maxLeverage - The maximum leverage Hyperliquid allows for the asset.
+  * @property {boolean} onlyIsolated - True if the asset can only be traded with isolated margin.
+  * @property {HyperliquidMarginTier[]} marginTiers - The asset's margin tiers, sorted by `lowerBound`. Empty if the asset has none.
+  * @property {number} fetchedAt - When the price was fetched (server time, milliseconds since epoch).
+  */
+export interface HyperliquidAssetPrice {
+  assetName: string;
+  price: string;
+  assetIndex: number;
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated: boolean;
+  marginTiers: HyperliquidMarginTier[];
+  fetchedAt: number;
+}
+
+/**
+  * A tier of an asset's margin table. Positions with a notional value at or above `lowerBound`
+  * may use at most `maxLeverage`.
+  *
+  * @property {number} lowerBound - Position notional (USD) at which the tier starts.
+  * @property {number} maxLeverage - The maximum leverage allowed within the tier.
+  */
+export interface HyperliquidMarginTier {
+  lowerBound: number;
+  maxLeverage: number;
+}
+
+/**
+  * Margin mode of a position. Cross positions share the account's cross margin; isolated positions only
+  * use the margin allocated to them.
+  */
+export type HyperliquidMarginMode = "cross" | "isolated";
+
+/**
+  * Estimated liquidation of a position, as calculated by `@/lib/liquidation`.
+  *
+  * @property {number | null} liquidationPrice - Mark price at which the position would be liquidated, or null if the
+  *   margin backing it covers any price move (e.g., a long with enough cross equity).
+  * @property {HyperliquidMarginMode} marginMode - The margin mode the estimate was calculated for.
+  * @property {number} positionSize - Signed position size the estimate is for (negative for shorts).
+  * @property {number} entryPrice - Average entry price of the position.
+  * @property {number} maintenanceMarginFraction - Maintenance margin as a fraction of the position's notional.
+  * @property {number} marginAvailable - Equity backing the position at the current mark price (USD), after other cross positions' maintenance margin.
+  */
+export interface LiquidationEstimate {
+  liquidationPrice: number | null;
+  marginMode: HyperliquidMarginMode;
+  positionSize: number;
+  entryPrice: number;
+  maintenanceMarginFraction: number;
+  marginAvailable: number;
+}
+
+/**
+  * Static metadata of a perpetual asset from Hyperliquid's perp universe, as cached by the asset registry.
+  *
+  * @property {string} name - The coin name as listed by Hyperliquid (e.g., "ETH").
+  * @property {number} index - The asset index used in order payloads (position in the universe).
+  * @property {number} szDecimals - The number of decimals allowed for order sizes.
+  * @property {number} maxLeverage - The maximum leverage Hyperliquid allows for the asset.
+  * @property {boolean} onlyIsolated - True if the asset can only be traded with isolated margin.
+  * @property {boolean} isDelisted - True if the asset is delisted and can no longer be traded.
+  * @property {HyperliquidMarginTier[]} marginTiers - The asset's margin tiers, sorted by `lowerBound`. Empty if Hyperliquid did not report any.
+  */
+export interface HyperliquidPerpAsset {
+  name: string;
+  index: number;
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated: boolean;
+  isDelisted: boolean;
+  marginTiers: HyperliquidMarginTier[];
+}
+
+/**
+  * A price level of the L2 order book, parsed to numbers.
+  *
+  * @property {number} price - The level's price.
+  * @property {number} size - Total size resting at the level, in base asset units.
+  */
+export interface HyperliquidBookLevel {
+  price: number;
+  size: number;
+}
+
+/**
+  * Snapshot of an asset's L2 order book, as returned by `fetchOrderBookAction`.
+  *
+  * @property {string} assetName - The coin name (e.g., "ETH").
+  * @property {number} szDecimals - The asset's size decimals, for formatting sizes.
+  * @property {HyperliquidBookLevel[]} bids - Bid levels, best (highest) price first.
+  * @property {HyperliquidBookLevel[]} asks - Ask levels, best (lowest) price first.
+  * @property {number | null} bookMid - Midpoint of the best bid and ask, or null if either side is empty.
+  * @property {number} time - Time of the snapshot (milliseconds since epoch).
+  */
+export interface HyperliquidOrderBook {
+  assetName: string;
+  szDecimals: number;
+  bids: HyperliquidBookLevel[];
+  asks: HyperliquidBookLevel[];
+  bookMid: number | null;
+  time: number;
+}
+
+/**
+  * Estimated execution of a taker order against the L2 order book.
+  *
+  * @property {number | null} avgPrice - Volume-weighted average fill price, or null if nothing would fill.
+  * @property {number | null} worstPrice - Price of the last level the order would reach, or null if nothing would fill.
+  * @property {number} filledSize - Size that would fill within the limit price.
+  * @property {number} unfilledSize - Size left unfilled (beyond the limit price or the visible book).
+  */
+export interface BookFillEstimate {
+  avgPrice: number | null;
+  worstPrice: number | null;
+  filledSize: number;
+  unfilledSize: number;
+}
+
+/**
+  * Estimated price impact of a market order, from walking the order book within the slippage band around the book mid.
+  *
+  * @property {number} bookMid - The book mid the impact is measured from.
+  * @property {number} limitPrice - The edge of the slippage band (book mid moved against the order by the slippage).
+  * @property {number} depthWithinLimit - Total size resting on the side the order takes from, between the best price and `limitPrice`.
+  * @property {number | null} priceImpactPercent - Distance between the average fill price and the book mid, in percent, or null if nothing would fill.
+  */
+export interface PriceImpactEstimate extends BookFillEstimate {
+  bookMid: number;
+  limitPrice: number;
+  depthWithinLimit: number;
+  priceImpactPercent: number | null;
+}
+
+/**
+  * Expected execution of a market (IOC) order, estimated from the L2 book, with the oracle comparison
+  * used by the pre-trade checks.
+  *
+  * @property {string} assetName - The coin name (e.g., "ETH").
+  * @property {number | null} bookMid - Midpoint of the best bid and ask, or null if either side is empty.
+  * @property {number | null} oraclePx - Hyperliquid's oracle price for the asset, or null if unavailable.
+  * @property {number | null} oracleDeviationPercent - Distance between the book mid and the oracle price, in percent of the oracle price.
+  * @property {number} slippageBps - The slippage allowed for the order, in basis points.
+  * @property {number | null} limitPrice - The IOC limit price the order would be sent with (book mid plus slippage), or null without a book mid.
+  * @property {BookFillEstimate} fill - How the order would fill against the visible book within `limitPrice`.
+  * @property {number} bookTime - Time of the book snapshot (milliseconds since epoch).
+  */
+export interface HyperliquidExecutionEstimate {
+  assetName: string;
+  bookMid: number | null;
+  oraclePx: number | null;
+  oracleDeviationPercent: number | null;
+  slippageBps: number;
+  limitPrice: number | null;
+  fill: BookFillEstimate;
+  bookTime: number;
+}
+
 // Note: The raw response type from the SDK's walletClient.order method is `OrderResponse`.
 // If successful (`status: "ok"`), the response contains `response.data.statuses`, which is an array.
 // The `HyperliquidOrderResult` defined above is a *processed* type intended for use
@@ -30,6 +30,36 @@ export * from "./log-types";
 // Export types related to Application Settings
 export * from "./settings-types";
 
+// Export types related to imported Hyperliquid fills and realized PnL
+export * from "./fill-types";
+
+// Export types related to persisted Allora predictions and accuracy scoring
+export * from "./prediction-types";
+
+// Export backtesting engine types
+export * from "./backtest-types";
+
+// Export types related to contradiction alert rules
+export * from "./alert-types";
+
+// Export types related to outbound notification channels and deliveries
+export * from "./notification-types";
+
+// Export types related to the server-side background poller and its snapshot
+export * from "./poller-types";
+
+// Export types related to the real-time Hyperliquid stream
+export * from "./stream-types";
+
+// Export types related to pre-trade safety checks
+export * from "./pretrade-types";
+
+// Export types related to trading performance analytics
+export * from "./analytics-types";
+
+// Export types related to trade journal notes and tags
+export * from "./journal-types";
+
 // Future exports for other type definitions will be added here, for example:
 // export * from './common-types';
 
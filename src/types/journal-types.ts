@@ -0,0 +1,41 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces for Trade Journal entries: notes, tags, a confidence rating and links
+ * attached to a Trade Log entry while reviewing trades.
+ * `TradeJournalEntry` corresponds to the `TradeJournalEntry` model defined in the Prisma schema.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - Each Trade Log entry has at most one journal entry; it is deleted along with the Trade Log entry.
+ * - Managed through the `journal-actions.ts` Server Actions. Tags filter the Trade Log and the analytics page.
+ */
+
+/**
+ * Represents the journal entry of a trade.
+ *
+ * @property {string} id - Unique identifier for the entry (generated by Prisma).
+ * @property {Date} createdAt - Timestamp when the entry was created (managed by Prisma).
+ * @property {Date} updatedAt - Timestamp when the entry was last updated (managed by Prisma).
+ * @property {string} tradeLogId - ID of the Trade Log entry the journal entry belongs to (unique).
+ * @property {string} notes - Free-form notes. Empty if none.
+ * @property {string[]} tags - Lowercase tags (e.g., "followed signal", "override").
+ * @property {number | null} confidence - Confidence in the trade from 1 (low) to 5 (high). Null if not rated.
+ * @property {string[]} links - http(s) links, e.g. to chart screenshots or articles.
+ */
+export interface TradeJournalEntry {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  tradeLogId: string;
+  notes: string;
+  tags: string[];
+  confidence: number | null;
+  links: string[];
+}
+
+/**
+ * The editable fields of a journal entry, as submitted by the journal dialog.
+ */
+export type TradeJournalInput = Omit<TradeJournalEntry, "id" | "createdAt" | "updatedAt">;
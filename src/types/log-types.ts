@@ -4,13 +4,21 @@
  * It corresponds to the `TradeLog` model defined in the Prisma schema.
  *
  * @dependencies
- * - None
+ * - ./journal-types: For the journal entry attached to a Trade Log entry.
  *
  * @notes
  * - This type is used for storing and retrieving records of trades executed
  * through the application, primarily via `log-actions.ts`.
+ * - The context fields (prediction, template, leverage, slippage, staging price) record what produced the trade,
+ * for performance attribution. They are null (or empty) for trades logged before they existed and for closes.
+ * - Orders are logged server-side by the order Server Actions: a 'pending' row is written before submission and
+ * updated with the exchange response. The row's `cloid` makes retries of the same order idempotent.
+ * - `TradeLogQuery` and `TradeLogPage` describe the filtered, sorted and paginated reads used by the Trade Log table
+ * and the export route (`/api/trade-log/export`).
  */
 
+import type { TradeJournalEntry } from "./journal-types";
+
 /**
  * Represents a single entry in the application's trade log.
  * Records details about trades executed via the application, including success/failure status.
@@ -20,10 +28,23 @@
  * @property {string} symbol - The symbol of the traded asset (e.g., "BTC-PERP").
  * @property {string} direction - The direction of the trade ('long' or 'short').
  * @property {number} size - The size of the trade (e.g., in BTC units).
- * @property {number} entryPrice - The execution price of the trade.
- * @property {string} status - The status of the trade execution ('filled', 'failed', 'pending').
+ * @property {number} entryPrice - The execution price of the trade, or the limit price for resting limit orders.
+ * @property {string} status - The status of the trade execution ('filled', 'resting', 'failed', 'pending').
  * @property {string | null} hyperliquidOrderId - The Order ID returned by Hyperliquid on successful execution, if applicable. Null otherwise.
  * @property {string | null} errorMessage - Error message if the trade execution failed. Null otherwise.
+ * @property {string} action - Whether the trade opened/added to a position ('open') or reduced/closed one ('close'). Defaults to 'open'.
+ * @property {number | null} predictionTopicId - Allora topic ID of the prediction the trade was staged from.
+ * @property {string | null} predictionTimeframe - Horizon of that prediction (e.g., '5m', '8h').
+ * @property {Date | null} predictionTimestamp - When Allora generated that prediction.
+ * @property {number | null} predictedPrice - The predicted price.
+ * @property {number[]} confidenceIntervalValues - The prediction's confidence interval bounds, if Allora provided them.
+ * @property {string[]} confidenceIntervalPercentiles - The percentiles matching `confidenceIntervalValues`.
+ * @property {string | null} templateId - ID of the Trade Template applied when staging, if any. The template may since have been deleted.
+ * @property {number | null} leverage - The leverage the order was placed with.
+ * @property {number | null} slippageBps - Slippage allowed on the market order, in basis points. Null for limit orders.
+ * @property {number | null} stagingMarkPrice - The asset's mark price when the trade was reviewed.
+ * @property {string | null} cloid - Client order ID the order was submitted with. Unique; null for entries logged before it existed.
+ * @property {TradeJournalEntry | null} [journal] - The trade's journal entry. Only loaded by the Trade Log queries (`TradeLogPage`).
  */
 export interface TradeLogEntry {
     id: string;
@@ -32,7 +53,94 @@ export interface TradeLogEntry {
     direction: string; // 'long' | 'short' - Using string for flexibility if other types arise
     size: number;
     entryPrice: number;
-    status: string; // 'filled' | 'failed' | 'pending' - Using string for flexibility
+    status: string; // 'filled' | 'resting' | 'failed' | 'pending' - Using string for flexibility
     hyperliquidOrderId?: string | null; // Optional, may not exist on failure
     errorMessage?: string | null; // Optional, only present on failure
-  }
\ No newline at end of file
+    action?: string; // 'open' | 'close' - Defaults to 'open' in the database
+    predictionTopicId?: number | null;
+    predictionTimeframe?: string | null;
+    predictionTimestamp?: Date | null;
+    predictedPrice?: number | null;
+    confidenceIntervalValues?: number[];
+    confidenceIntervalPercentiles?: string[];
+    templateId?: string | null;
+    leverage?: number | null;
+    slippageBps?: number | null;
+    stagingMarkPrice?: number | null;
+    cloid?: string | null;
+    journal?: TradeJournalEntry | null;
+  }
+
+/**
+ * Context the client sends along with an order so the server-side Trade Log entry can record what produced it.
+ * Leverage and slippage are taken from the order parameters themselves.
+ */
+export type TradeLogContext = Pick<
+  TradeLogEntry,
+  | "predictionTopicId"
+  | "predictionTimeframe"
+  | "predictionTimestamp"
+  | "predictedPrice"
+  | "confidenceIntervalValues"
+  | "confidenceIntervalPercentiles"
+  | "templateId"
+  | "stagingMarkPrice"
+>;
+
+/**
+ * Columns the Trade Log can be sorted by.
+ */
+export type TradeLogSortField =
+  | "timestamp"
+  | "symbol"
+  | "direction"
+  | "size"
+  | "entryPrice"
+  | "status"
+  | "hyperliquidOrderId"
+  | "errorMessage";
+
+/**
+ * Filters, sorting and pagination for reading the Trade Log. Every field is optional; an empty query returns the
+ * newest entries first.
+ *
+ * @property {string} [from] - Only entries at or after this time (ISO 8601).
+ * @property {string} [to] - Only entries at or before this time (ISO 8601).
+ * @property {string} [symbol] - Only entries for this symbol (e.g., "BTC-PERP"). Case-insensitive.
+ * @property {string} [direction] - Only 'long' or 'short' entries.
+ * @property {string} [status] - Only entries with this status (e.g., 'filled', 'failed').
+ * @property {boolean} [hasError] - True for entries with an error message only, false for entries without one.
+ * @property {string} [search] - Free text matched against error messages. Case-insensitive.
+ * @property {string} [tag] - Only entries whose journal entry has this tag.
+ * @property {TradeLogSortField} [sortBy] - Column to sort by. Defaults to 'timestamp'.
+ * @property {'asc' | 'desc'} [sortOrder] - Sort direction. Defaults to 'desc'.
+ * @property {string | null} [cursor] - The `nextCursor` of the previous page; omit for the first page.
+ * @property {number} [limit] - Page size. Defaults to `TRADE_LOG_PAGE_SIZE`, capped at `TRADE_LOG_MAX_PAGE_SIZE`.
+ */
+export interface TradeLogQuery {
+  from?: string;
+  to?: string;
+  symbol?: string;
+  direction?: string;
+  status?: string;
+  hasError?: boolean;
+  search?: string;
+  tag?: string;
+  sortBy?: TradeLogSortField;
+  sortOrder?: "asc" | "desc";
+  cursor?: string | null;
+  limit?: number;
+}
+
+/**
+ * A page of Trade Log entries.
+ *
+ * @property {TradeLogEntry[]} entries - The entries on this page, in the requested order.
+ * @property {string | null} nextCursor - Cursor for the next page, or null if this is the last one.
+ * @property {number} totalCount - Number of entries matching the query's filters, across all pages.
+ */
+export interface TradeLogPage {
+  entries: TradeLogEntry[];
+  nextCursor: string | null;
+  totalCount: number;
+}
\ No newline at end of file
@@ -0,0 +1,122 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces for outbound notifications: the channels events are
+ * delivered to, the events themselves, and the delivery log.
+ * `NotificationChannel` and `NotificationDelivery` correspond to the models of the same name in the Prisma schema.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - Channels are managed on the Settings page via `notification-actions.ts`.
+ * - Events are dispatched server-side by `@/lib/notifier`.
+ */
+
+/**
+ * Supported delivery channels.
+ * - 'webhook': POSTs the event as JSON to `target`.
+ * - 'email': Sends an email to `target` through the SMTP server configured in the environment.
+ * - 'telegram': POSTs a Bot API `sendMessage` payload to `target` (e.g. `https://api.telegram.org/bot<token>/sendMessage`) for `chatId`.
+ * - 'discord': POSTs a Discord-style `{ content }` payload to the webhook URL in `target`.
+ */
+export type NotificationChannelType = "webhook" | "email" | "telegram" | "discord";
+
+/**
+ * Kinds of events that can be delivered.
+ * - 'contradiction': A contradiction alert rule triggered for an open position.
+ * - 'tradeFilled': An order filled or rested on the book.
+ * - 'tradeFailed': An order attempt failed.
+ * - 'nearLiquidation': The mark price of an open position is close to its liquidation price.
+ */
+export type NotificationEventType = "contradiction" | "tradeFilled" | "tradeFailed" | "nearLiquidation";
+
+/**
+ * Represents a configured notification channel.
+ *
+ * @property {string} id - Unique identifier for the channel (generated by Prisma).
+ * @property {Date} createdAt - Timestamp when the channel was created (managed by Prisma).
+ * @property {Date} updatedAt - Timestamp when the channel was last updated (managed by Prisma).
+ * @property {string} name - User-defined name for the channel (must be unique).
+ * @property {string} type - The channel type (see `NotificationChannelType`).
+ * @property {boolean} enabled - Disabled channels are kept but receive nothing.
+ * @property {string} target - Webhook URL, or the recipient address for email channels.
+ * @property {string | null} chatId - Telegram chat ID. Only used by 'telegram' channels.
+ * @property {string[]} events - Event types delivered to this channel. Empty delivers every event type.
+ * @property {number} throttleMinutes - Minimum minutes between deliveries of the same event (same `key`). 0 disables throttling.
+ */
+export interface NotificationChannel {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  name: string;
+  type: string;
+  enabled: boolean;
+  target: string;
+  chatId: string | null;
+  events: string[];
+  throttleMinutes: number;
+}
+
+/**
+ * The editable fields of a notification channel.
+ */
+export type NotificationChannelInput = Omit<NotificationChannel, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * An event to deliver to the notification channels.
+ *
+ * @property {NotificationEventType} type - The kind of event.
+ * @property {string} key - Identifies the event for throttling, e.g. `contradiction:BTC:<ruleId>`.
+ *   Repeats of the same key within a channel's throttle window are not delivered again.
+ * @property {string} title - Short summary, used as the email subject and the first line of chat messages.
+ * @property {string} message - Human-readable details.
+ * @property {Record<string, unknown>} [data] - Structured details included in generic webhook payloads.
+ */
+export interface NotificationEvent {
+  type: NotificationEventType;
+  key: string;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * A logged delivery attempt.
+ *
+ * @property {string} id - Unique identifier for the delivery (generated by Prisma).
+ * @property {Date} createdAt - When the delivery was attempted.
+ * @property {string} channelId - ID of the channel the event was sent to.
+ * @property {string} eventType - The delivered event's type.
+ * @property {string} eventKey - The delivered event's throttle key.
+ * @property {string} status - 'sent' or 'failed'.
+ * @property {string} title - The event title.
+ * @property {string | null} error - Why the delivery failed. Null on success.
+ */
+export interface NotificationDelivery {
+  id: string;
+  createdAt: Date;
+  channelId: string;
+  eventType: string;
+  eventKey: string;
+  status: string;
+  title: string;
+  error: string | null;
+}
+
+/**
+ * A delivery log entry together with its channel's name, for display.
+ */
+export interface NotificationDeliveryWithChannel extends NotificationDelivery {
+  channelName: string;
+}
+
+/**
+ * A request ready to be sent to an HTTP-based channel.
+ *
+ * @property {string} url - The URL to POST to.
+ * @property {Record<string, unknown>} body - The JSON body.
+ */
+export interface NotificationHttpRequest {
+  url: string;
+  body: Record<string, unknown>;
+}
@@ -0,0 +1,72 @@
+/**
+ * @description
+ * This file defines the TypeScript types for the server-side background poller and the snapshot it caches.
+ *
+ * @dependencies
+ * - ./allora-types: Provides AlloraPrediction.
+ * - ./hyperliquid-types: Provides the Hyperliquid account, position and order types.
+ * - ./alert-types: Provides PositionAlert.
+ *
+ * @notes
+ * - The snapshot is served to the browser by the `/api/snapshot` route and read with the `useServerSnapshot` hook.
+ */
+
+import type { AlloraPrediction } from "./allora-types";
+import type { HyperliquidAccountInfo, HyperliquidOpenOrder, HyperliquidPosition } from "./hyperliquid-types";
+import type { PositionAlert } from "./alert-types";
+
+/**
+ * The data held by each section of the snapshot.
+ */
+export interface PollerSnapshotData {
+  predictions: AlloraPrediction[];
+  accountInfo: HyperliquidAccountInfo;
+  positions: HyperliquidPosition[];
+  openOrders: HyperliquidOpenOrder[];
+  alerts: PositionAlert[];
+}
+
+/**
+ * A section of the snapshot (e.g. 'positions').
+ */
+export type PollerSection = keyof PollerSnapshotData;
+
+/**
+ * The cached state of one snapshot section.
+ *
+ * @template T The section's data type.
+ * @property {T | null} data - The last successfully fetched data. Kept when a later poll fails.
+ * @property {string | null} error - The error of the last poll, or null if it succeeded.
+ * @property {number | null} updatedAt - When `data` was fetched (ms since epoch). Null until the first successful poll.
+ * @property {number | null} attemptedAt - When the section was last polled (ms since epoch). Null until the first poll.
+ */
+export interface PollerSnapshotEntry<T> {
+  data: T | null;
+  error: string | null;
+  updatedAt: number | null;
+  attemptedAt: number | null;
+}
+
+/**
+ * How often the poller refreshes each group of sections.
+ *
+ * @property {number} predictionIntervalMs - Interval for Allora predictions (and prediction scoring), in milliseconds.
+ * @property {number} accountIntervalMs - Interval for account info, positions, open orders and alert evaluation, in milliseconds.
+ */
+export interface PollerIntervals {
+  predictionIntervalMs: number;
+  accountIntervalMs: number;
+}
+
+/**
+ * The full snapshot served by `/api/snapshot`.
+ *
+ * @property {{ [K in PollerSection]: PollerSnapshotEntry<PollerSnapshotData[K]> }} sections - The cached sections.
+ * @property {PollerIntervals} intervals - The intervals the poller is currently running with.
+ * @property {number | null} startedAt - When the poller was started (ms since epoch), or null if it is not running.
+ */
+export interface PollerSnapshot {
+  sections: { [K in PollerSection]: PollerSnapshotEntry<PollerSnapshotData[K]> };
+  intervals: PollerIntervals;
+  startedAt: number | null;
+}
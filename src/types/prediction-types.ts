@@ -0,0 +1,74 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces for persisted Allora predictions and their accuracy scores.
+ * `PredictionRecord` corresponds to the `PredictionRecord` model defined in the Prisma schema.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - Records are deduped by `topicId` + `predictionTimestamp`.
+ * - Score fields stay null until the prediction's horizon has elapsed and the scoring job has run.
+ */
+
+/**
+ * Represents a persisted Allora prediction and, once scored, how it compared to the actual price.
+ *
+ * @property {string} id - Unique identifier for the record (generated by Prisma).
+ * @property {Date} createdAt - Timestamp when the prediction was first stored (managed by Prisma).
+ * @property {number} topicId - The Allora topic ID.
+ * @property {string} token - The predicted asset's coin name (e.g., "BTC").
+ * @property {string} timeframe - The prediction horizon (e.g., '5m', '8h').
+ * @property {Date} predictionTimestamp - When Allora generated the inference.
+ * @property {Date} targetTime - When the horizon elapses (`predictionTimestamp` + timeframe).
+ * @property {number} predictedPrice - The predicted price.
+ * @property {number | null} priceAtPrediction - Hyperliquid mark price when the prediction was stored. Used for directional scoring.
+ * @property {number[]} confidenceIntervalValues - The confidence interval bounds, if Allora provided them.
+ * @property {string[]} confidenceIntervalPercentiles - The percentiles matching `confidenceIntervalValues`.
+ * @property {number | null} actualPrice - Hyperliquid price at `targetTime`. Null until scored.
+ * @property {Date | null} scoredAt - When the prediction was scored. Null until scored.
+ * @property {boolean | null} directionHit - True if the predicted and actual moves had the same direction. Null if unscored or no reference price.
+ * @property {number | null} absoluteError - |actualPrice - predictedPrice|. Null until scored.
+ * @property {boolean | null} withinConfidenceInterval - True if the actual price fell inside the confidence interval. Null if unscored or no interval.
+ */
+export interface PredictionRecord {
+  id: string;
+  createdAt: Date;
+  topicId: number;
+  token: string;
+  timeframe: string;
+  predictionTimestamp: Date;
+  targetTime: Date;
+  predictedPrice: number;
+  priceAtPrediction: number | null;
+  confidenceIntervalValues: number[];
+  confidenceIntervalPercentiles: string[];
+  actualPrice: number | null;
+  scoredAt: Date | null;
+  directionHit: boolean | null;
+  absoluteError: number | null;
+  withinConfidenceInterval: boolean | null;
+}
+
+/**
+ * Represents aggregated accuracy statistics for one token and prediction timeframe.
+ *
+ * @property {string} token - The predicted asset's coin name (e.g., "BTC").
+ * @property {string} timeframe - The prediction horizon (e.g., '5m', '8h').
+ * @property {number} scoredCount - Number of predictions that have been scored.
+ * @property {number} pendingCount - Number of stored predictions still waiting to be scored.
+ * @property {number | null} directionalHitRate - Fraction (0-1) of scored predictions that got the direction right. Null if none could be scored.
+ * @property {number | null} meanAbsoluteError - Mean of |actual - predicted| in USD. Null if nothing was scored.
+ * @property {number | null} meanAbsolutePercentError - Mean of |actual - predicted| / actual, as a fraction. Null if nothing was scored.
+ * @property {number | null} confidenceIntervalCoverage - Fraction (0-1) of predictions whose actual price fell inside the interval. Null if no intervals were available.
+ */
+export interface PredictionAccuracyStats {
+  token: string;
+  timeframe: string;
+  scoredCount: number;
+  pendingCount: number;
+  directionalHitRate: number | null;
+  meanAbsoluteError: number | null;
+  meanAbsolutePercentError: number | null;
+  confidenceIntervalCoverage: number | null;
+}
@@ -0,0 +1,80 @@
+/**
+ * @description
+ * This file defines the TypeScript interfaces for the pre-trade safety checks run before an order is sent to Hyperliquid.
+ *
+ * @dependencies
+ * - None
+ *
+ * @notes
+ * - The checks are evaluated by `@/lib/pretrade-guards` and run server-side by the order Server Actions,
+ *   which refuse to submit an order while any check fails. The confirmation modal runs them up front to show the reasons.
+ */
+
+/**
+ * Identifies why a pre-trade check failed.
+ * - 'missing_price': No valid price is available for the asset (or the trade was reviewed without one).
+ * - 'stale_price': The price the trade was reviewed at is older than `MAX_TRADE_PRICE_AGE_MS`.
+ * - 'oracle_deviation': The order book mid is too far from the oracle price (or either is unavailable).
+ * - 'stale_prediction': The prediction behind the trade is older than `MAX_TRADE_PREDICTION_AGE_MS`.
+ * - 'account_unavailable': The account's margin could not be fetched, so the order cannot be checked.
+ * - 'insufficient_margin': The order's margin requirement exceeds the account's withdrawable margin.
+ * - 'max_leverage': The leverage exceeds the asset's maximum.
+ * - 'max_notional': The resulting position exceeds the largest notional the asset's margin tiers allow at this leverage.
+ */
+export type PreTradeGuardCode =
+  | "missing_price"
+  | "stale_price"
+  | "oracle_deviation"
+  | "stale_prediction"
+  | "account_unavailable"
+  | "insufficient_margin"
+  | "max_leverage"
+  | "max_notional";
+
+/**
+ * A failed pre-trade check.
+ *
+ * @property {PreTradeGuardCode} code - Which check failed.
+ * @property {string} message - A user-facing explanation, including the values that were compared.
+ */
+export interface PreTradeGuardReason {
+  code: PreTradeGuardCode;
+  message: string;
+}
+
+/**
+ * Review context sent by the client along with an order, used for the freshness checks.
+ * Fields left undefined are not checked; a null `referencePriceAt` means the trade was reviewed without a live price.
+ *
+ * @property {number | null} [referencePriceAt] - When the price shown during review was fetched (server time, ms since epoch).
+ * @property {number} [predictionTimestamp] - Timestamp of the prediction the trade is based on (ms since epoch).
+ * @property {number} [maxOracleDeviationPercent] - Largest accepted book mid vs oracle deviation, in percent. Defaults to `DEFAULT_MAX_ORACLE_DEVIATION_PERCENT`.
+ */
+export interface PreTradeGuardContext {
+  referencePriceAt?: number | null;
+  predictionTimestamp?: number;
+  maxOracleDeviationPercent?: number;
+}
+
+/**
+ * The outcome of running the pre-trade checks for an order.
+ *
+ * @property {boolean} passed - True if every check passed and the order may be sent.
+ * @property {PreTradeGuardReason[]} reasons - The failed checks. Empty when `passed` is true.
+ * @property {number | null} midPx - The asset's current mid price, or null if unavailable.
+ * @property {number | null} oracleDeviationPercent - Distance between the book mid and the oracle price, in percent, or null if either is unavailable.
+ * @property {number | null} notional - Notional value of the order (USD), or null without a price.
+ * @property {number | null} requiredMargin - Margin the order requires at the chosen leverage (USD), or null without a price.
+ * @property {number | null} withdrawable - The account's withdrawable margin (USD), or null if unavailable.
+ * @property {number | null} maxNotional - Largest position notional allowed at the chosen leverage (USD). Null if unlimited or unknown.
+ */
+export interface PreTradeCheckResult {
+  passed: boolean;
+  reasons: PreTradeGuardReason[];
+  midPx: number | null;
+  oracleDeviationPercent: number | null;
+  notional: number | null;
+  requiredMargin: number | null;
+  withdrawable: number | null;
+  maxNotional: number | null;
+}
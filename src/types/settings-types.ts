@@ -20,10 +20,16 @@
  * @property {number} accountRefreshInterval - Interval (in milliseconds) for fetching Hyperliquid account info and positions.
  * @property {boolean} alertsEnabled - Flag to enable or disable contradictory prediction alerts.
  * @property {boolean} tradeSwitchEnabled - Flag representing the state of the master trade execution switch.
+ * @property {number} defaultStopLossPercent - Default stop-loss distance from entry (in percent) used when attaching TP/SL to a trade.
+ * @property {number} defaultSlippageBps - Default slippage (in basis points) allowed on market orders.
+ * @property {number} maxOracleDeviationPercent - Trades are blocked while the order book mid is further than this (in percent) from the oracle price.
  */
 export interface AppSettings {
   predictionRefreshInterval: number;
   accountRefreshInterval: number;
   alertsEnabled: boolean;
   tradeSwitchEnabled: boolean;
+  defaultStopLossPercent: number;
+  defaultSlippageBps: number;
+  maxOracleDeviationPercent: number;
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * @description
+ * This file defines the TypeScript types for the real-time Hyperliquid stream: the WebSocket subscriptions managed
+ * server-side and the events pushed to the dashboard over Server-Sent Events.
+ *
+ * @dependencies
+ * - @nktkas/hyperliquid: Provides the fill and order status types of the subscriptions.
+ * - ./hyperliquid-types: Provides the account info and open order types.
+ *
+ * @notes
+ * - The stream is served by the `/api/stream` route and read with the `useHyperliquidStream` hook.
+ */
+
+import type { Fill, Order, OrderStatus } from "@nktkas/hyperliquid";
+import type { HyperliquidAccountInfo, HyperliquidOpenOrder } from "./hyperliquid-types";
+
+/**
+ * Connection state of the server's Hyperliquid WebSocket.
+ * - 'idle': not started.
+ * - 'connecting': opening (or re-opening) the connection.
+ * - 'connected': subscribed and receiving updates.
+ * - 'disconnected': the connection dropped; it is being retried and REST polling is the fallback.
+ */
+export type HyperliquidStreamStatus = "idle" | "connecting" | "connected" | "disconnected";
+
+/**
+ * A fill pushed by the `userFills` subscription.
+ *
+ * @alias Fill from `@nktkas/hyperliquid`
+ */
+export type HyperliquidFill = Fill;
+
+/**
+ * An order status change pushed by the `orderUpdates` subscription.
+ *
+ * @alias OrderStatus<Order> from `@nktkas/hyperliquid`
+ */
+export type HyperliquidOrderUpdate = OrderStatus<Order>;
+
+/**
+ * The latest state received over the stream.
+ *
+ * @property {HyperliquidStreamStatus} status - Connection state.
+ * @property {Record<string, string>} mids - Mid prices by coin (from `allMids`).
+ * @property {HyperliquidAccountInfo | null} accountInfo - Latest clearinghouse state (from `webData2`), or null until received.
+ * @property {HyperliquidOpenOrder[] | null} openOrders - Latest open orders (from `webData2`), or null until received.
+ * @property {number | null} updatedAt - When the last update arrived (ms since epoch).
+ */
+export interface HyperliquidStreamState {
+  status: HyperliquidStreamStatus;
+  mids: Record<string, string>;
+  accountInfo: HyperliquidAccountInfo | null;
+  openOrders: HyperliquidOpenOrder[] | null;
+  updatedAt: number | null;
+}
+
+/**
+ * An event sent to the browser over `/api/stream`. Each SSE message carries one event as JSON.
+ * - 'state': the full current state, sent when a browser connects.
+ * - 'status': the connection state changed.
+ * - 'mids': new mid prices (throttled).
+ * - 'account': new clearinghouse state and open orders.
+ * - 'fills': new fills (the initial history snapshot is not forwarded).
+ * - 'orderUpdates': order status changes (e.g. filled, canceled, triggered).
+ */
+export type HyperliquidStreamEvent =
+  | { type: "state"; state: HyperliquidStreamState }
+  | { type: "status"; status: HyperliquidStreamStatus }
+  | { type: "mids"; mids: Record<string, string> }
+  | { type: "account"; accountInfo: HyperliquidAccountInfo; openOrders: HyperliquidOpenOrder[] }
+  | { type: "fills"; fills: HyperliquidFill[] }
+  | { type: "orderUpdates"; updates: HyperliquidOrderUpdate[] };
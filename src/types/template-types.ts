@@ -19,6 +19,8 @@
  * @property {string} name - User-defined name for the template (must be unique).
  * @property {number} size - The trade size (e.g., in BTC units) saved in the template.
  * @property {number} leverage - The leverage value saved in the template.
+ * @property {number | null} slippageBps - Market order slippage in basis points. Null uses the default from the settings.
+ * @property {string} marginMode - 'cross' or 'isolated' (see `HyperliquidMarginMode`).
  * @property {Date} createdAt - Timestamp when the template was created (managed by Prisma).
  * @property {Date} updatedAt - Timestamp when the template was last updated (managed by Prisma).
  */
@@ -27,6 +29,8 @@ export interface TradeTemplate {
     name: string;
     size: number;
     leverage: number;
+    slippageBps: number | null;
+    marginMode: string;
     createdAt: Date;
     updatedAt: Date;
   }
\ No newline at end of file